@@ -0,0 +1,187 @@
+import { NextResponse } from "next/server";
+import { requireAdminKey } from "@/lib/auth";
+import {
+  applyCorporateAction,
+  cancelCorporateAction,
+  CORPORATE_ACTION_STATUSES,
+  CorporateActionError,
+  CorporateActionInput,
+  CorporateActionResult,
+  CorporateActionStatus,
+  createCorporateAction,
+  getCorporateAction,
+  getCorporateActionApplications,
+  listCorporateActions,
+  revertCorporateAction,
+} from "@/lib/corporate-actions";
+import * as redis from "@/lib/redis";
+
+// Add this to prevent static generation of this API route
+export const dynamic = "force-dynamic";
+
+// Portfolios of the holders an action changed are served from the ledger again
+async function invalidatePortfolioCaches(result: CorporateActionResult) {
+  const redisClient = await redis.getRedisClient();
+  if (redisClient) {
+    await Promise.all(result.userIds.map(userId => redisClient.del(`portfolio:${userId}`)));
+  }
+}
+
+// The action in a request body, or an error message; the terms are checked by the library
+function parseAction(body: any): CorporateActionInput | string {
+  for (const field of ["symbol", "actionType", "effectiveDate"]) {
+    if (typeof body[field] !== "string" || body[field].trim() === "") {
+      return `${field} is required`;
+    }
+  }
+  for (const field of ["newSymbol", "newCompanyName", "note"]) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== "string") {
+      return `${field} must be a string`;
+    }
+  }
+  for (const field of ["ratio", "cashPerShare"]) {
+    if (body[field] !== undefined && body[field] !== null && typeof body[field] !== "number") {
+      return `${field} must be a number`;
+    }
+  }
+
+  return {
+    symbol: body.symbol,
+    actionType: body.actionType,
+    effectiveDate: body.effectiveDate.trim(),
+    ratio: body.ratio ?? null,
+    newSymbol: body.newSymbol || null,
+    newCompanyName: body.newCompanyName || null,
+    cashPerShare: body.cashPerShare ?? 0,
+    note: body.note || null,
+    autoApply: body.autoApply === true,
+  };
+}
+
+// Every action, newest first (?symbol=<symbol>, ?status=<status>), or one action
+// and who it was applied to with ?id=<id>
+export async function GET(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  const status = searchParams.get("status");
+
+  if (status && !CORPORATE_ACTION_STATUSES.includes(status as CorporateActionStatus)) {
+    return NextResponse.json(
+      { error: `status must be one of ${CORPORATE_ACTION_STATUSES.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (id) {
+      const action = await getCorporateAction(Number(id));
+      if (!action) {
+        return NextResponse.json({ error: `Unknown corporate action: ${id}` }, { status: 404 });
+      }
+      return NextResponse.json({ action, applications: await getCorporateActionApplications(action.id) });
+    }
+
+    return NextResponse.json({
+      actions: await listCorporateActions({
+        symbol: searchParams.get("symbol") || undefined,
+        status: (status as CorporateActionStatus) || undefined,
+      }),
+    });
+  } catch (error) {
+    console.error("Error reading corporate actions:", error);
+    return NextResponse.json({ error: "Failed to read corporate actions" }, { status: 500 });
+  }
+}
+
+// Record an action: { "symbol": "FB", "actionType": "ticker_change", "effectiveDate": "2022-06-09",
+// "newSymbol": "META" }. Add "apply": true to apply it straight away.
+export async function POST(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  const input = parseAction(body);
+  if (typeof input === "string") {
+    return NextResponse.json({ error: input }, { status: 400 });
+  }
+
+  try {
+    const action = await createCorporateAction(input);
+    if (body.apply !== true) {
+      return NextResponse.json({ action }, { status: 201 });
+    }
+
+    const result = await applyCorporateAction(action.id, "admin");
+    if (result) await invalidatePortfolioCaches(result);
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    if (error instanceof CorporateActionError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error recording corporate action:", error);
+    return NextResponse.json({ error: "Failed to record corporate action" }, { status: 500 });
+  }
+}
+
+// Apply or revert an action: { "id": 1, "action": "apply" | "revert" }. Holders
+// whose ledger would not take the change are listed under "failed".
+export async function PUT(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  const id = Number(body.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+  if (body.action !== "apply" && body.action !== "revert") {
+    return NextResponse.json({ error: "action must be apply or revert" }, { status: 400 });
+  }
+
+  try {
+    const result = body.action === "apply"
+      ? await applyCorporateAction(id, "admin")
+      : await revertCorporateAction(id, "admin");
+    if (!result) {
+      return NextResponse.json({ error: `Unknown corporate action: ${id}` }, { status: 404 });
+    }
+
+    await invalidatePortfolioCaches(result);
+    return NextResponse.json(result);
+  } catch (error) {
+    if (error instanceof CorporateActionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error(`Error running ${body.action} on corporate action ${id}:`, error);
+    return NextResponse.json({ error: `Failed to ${body.action} corporate action` }, { status: 500 });
+  }
+}
+
+// Cancel a pending action that has not been applied: ?id=<id>
+export async function DELETE(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const id = Number(searchParams.get("id"));
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "id is required" }, { status: 400 });
+  }
+
+  try {
+    const action = await cancelCorporateAction(id);
+    if (!action) {
+      return NextResponse.json({ error: `Unknown corporate action: ${id}` }, { status: 404 });
+    }
+    return NextResponse.json({ action });
+  } catch (error) {
+    if (error instanceof CorporateActionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error(`Error cancelling corporate action ${id}:`, error);
+    return NextResponse.json({ error: "Failed to cancel corporate action" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { requireAdminKey } from "@/lib/auth";
+import { getJob, getJobRuns, JOBS, runJob } from "@/lib/jobs";
+
+// Add this to prevent static generation of this API route
+export const dynamic = "force-dynamic";
+
+// List the registered jobs and their recent runs (?job=<name> for one job)
+export async function GET(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const jobName = searchParams.get("job") || undefined;
+  const limit = Math.min(parseInt(searchParams.get("limit") || "20", 10) || 20, 100);
+
+  if (jobName && !getJob(jobName)) {
+    return NextResponse.json({ error: `Unknown job: ${jobName}` }, { status: 404 });
+  }
+
+  try {
+    return NextResponse.json({
+      jobs: JOBS.map(({ name, description, schedule }) => ({ name, description, schedule })),
+      runs: await getJobRuns(jobName, limit),
+    });
+  } catch (error) {
+    console.error("Error reading job runs:", error);
+    return NextResponse.json({ error: "Failed to read job runs" }, { status: 500 });
+  }
+}
+
+// Run a job now: { "job": "<name>" }
+export async function POST(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  const jobName = typeof body.job === "string" ? body.job : "";
+
+  if (!getJob(jobName)) {
+    return NextResponse.json({ error: `Unknown job: ${jobName}` }, { status: 404 });
+  }
+
+  try {
+    const run = await runJob(jobName, "manual");
+    // A failed run is still returned, with its error
+    const status = run.status === "skipped" ? 409 : run.status === "failed" ? 500 : 200;
+    return NextResponse.json(run, { status });
+  } catch (error) {
+    console.error(`Error running job ${jobName}:`, error);
+    return NextResponse.json({ error: "Failed to run job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { requireAdminKey } from "@/lib/auth";
+import { getMigrationStatus, runMigrations, MigrationError } from "@/lib/migrations";
+
+// Add this to prevent static generation of this API route
+export const dynamic = "force-dynamic";
+
+const describe = (migration: { version: number; name: string }) =>
+  `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+
+// List applied and pending migrations
+export async function GET(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  try {
+    const { applied, pending, changed } = await getMigrationStatus();
+    return NextResponse.json({
+      applied: applied.map(migration => ({ migration: describe(migration), appliedAt: migration.appliedAt })),
+      pending: pending.map(describe),
+      changed: changed.map(describe),
+    });
+  } catch (error) {
+    console.error("Error reading migration status:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to read migration status" },
+      { status: 500 }
+    );
+  }
+}
+
+// Apply pending migrations
+export async function POST(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  try {
+    const applied = await runMigrations();
+    return NextResponse.json({
+      message: applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Database is up to date",
+      applied: applied.map(describe),
+    });
+  } catch (error) {
+    console.error("Error applying migrations:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to apply migrations" },
+      { status: error instanceof MigrationError ? 409 : 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { requireAdminKey } from "@/lib/auth";
+import {
+  clearSecurityOverride,
+  getSecurity,
+  getSecurityOverride,
+  listSecurities,
+  refreshSecurity,
+  SECURITY_OVERRIDE_FIELDS,
+  SecurityOverride,
+  setSecurityOverride,
+} from "@/lib/securities";
+
+// Add this to prevent static generation of this API route
+export const dynamic = "force-dynamic";
+
+// The override fields in a request body, or an error message
+function parseOverride(body: any): SecurityOverride | string {
+  const override: Record<string, string | null> = {};
+  for (const field of SECURITY_OVERRIDE_FIELDS) {
+    const value = body[field];
+    if (value === undefined || value === null || value === "") continue;
+    if (typeof value !== "string") {
+      return `${field} must be a string`;
+    }
+    override[field] = value.trim();
+  }
+
+  if (override.assetClass && override.assetClass !== "stock" && override.assetClass !== "crypto") {
+    return "assetClass must be stock or crypto";
+  }
+  if (Object.keys(override).length === 0) {
+    return `Set at least one of ${SECURITY_OVERRIDE_FIELDS.join(", ")}`;
+  }
+  return override as SecurityOverride;
+}
+
+// Every stored security (?sector=<name> for one sector), or one security and
+// its override with ?symbol=<symbol>
+export async function GET(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const symbol = searchParams.get("symbol");
+
+  try {
+    if (symbol) {
+      const security = await getSecurity(symbol);
+      if (!security) {
+        return NextResponse.json({ error: `Unknown security: ${symbol}` }, { status: 404 });
+      }
+      return NextResponse.json({ security, override: await getSecurityOverride(symbol) });
+    }
+
+    return NextResponse.json({ securities: await listSecurities(searchParams.get("sector")) });
+  } catch (error) {
+    console.error("Error reading securities:", error);
+    return NextResponse.json({ error: "Failed to read securities" }, { status: 500 });
+  }
+}
+
+// Fetch a symbol's profile from its provider again: { "symbol": "AAPL" }
+export async function POST(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  const symbol = typeof body.symbol === "string" ? body.symbol.trim() : "";
+  if (!symbol) {
+    return NextResponse.json({ error: "symbol is required" }, { status: 400 });
+  }
+
+  try {
+    const security = await refreshSecurity(symbol);
+    if (!security) {
+      return NextResponse.json({ error: `Could not fetch a profile for ${symbol}` }, { status: 502 });
+    }
+    return NextResponse.json({ security });
+  } catch (error) {
+    console.error(`Error refreshing security ${symbol}:`, error);
+    return NextResponse.json({ error: "Failed to refresh security" }, { status: 500 });
+  }
+}
+
+// Replace a symbol's override: { "symbol": "BRK-B", "sector": "Financial Services", ... }
+export async function PUT(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => ({}));
+  const symbol = typeof body.symbol === "string" ? body.symbol.trim() : "";
+  if (!symbol) {
+    return NextResponse.json({ error: "symbol is required" }, { status: 400 });
+  }
+
+  const override = parseOverride(body);
+  if (typeof override === "string") {
+    return NextResponse.json({ error: override }, { status: 400 });
+  }
+
+  try {
+    const security = await setSecurityOverride(symbol, override);
+    if (!security) {
+      return NextResponse.json({ error: `Could not fetch a profile for ${symbol}` }, { status: 502 });
+    }
+    return NextResponse.json({ security, override });
+  } catch (error) {
+    console.error(`Error overriding security ${symbol}:`, error);
+    return NextResponse.json({ error: "Failed to override security" }, { status: 500 });
+  }
+}
+
+// Remove a symbol's override: ?symbol=<symbol>
+export async function DELETE(request: Request) {
+  const denied = requireAdminKey(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const symbol = searchParams.get("symbol");
+  if (!symbol) {
+    return NextResponse.json({ error: "symbol is required" }, { status: 400 });
+  }
+
+  try {
+    if (!(await clearSecurityOverride(symbol))) {
+      return NextResponse.json({ error: `${symbol} has no override` }, { status: 404 });
+    }
+    return NextResponse.json({ security: await getSecurity(symbol) });
+  } catch (error) {
+    console.error(`Error clearing override for ${symbol}:`, error);
+    return NextResponse.json({ error: "Failed to clear override" }, { status: 500 });
+  }
+}
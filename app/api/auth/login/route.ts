@@ -1,12 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
-import { createUser, ensureAvatarColumn } from "@/lib/db";
+import { getUserCredentials } from "@/lib/db";
+import { setSessionCookie, verifyPassword } from "@/lib/auth";
 
 // Add this to prevent static generation of this API route
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const { username } = await request.json();
+    const { username, password } = await request.json();
     
     if (!username || typeof username !== 'string' || username.trim() === '') {
       return NextResponse.json(
@@ -15,12 +16,25 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Ensure the avatar column exists
-    await ensureAvatarColumn();
+    if (!password || typeof password !== 'string') {
+      return NextResponse.json(
+        { success: false, message: "Password is required" },
+        { status: 400 }
+      );
+    }
 
-    const user = await createUser(username.trim());
+    const user = await getUserCredentials(username.trim());
+    
+    // Accounts created before passwords existed have no hash and cannot log in
+    // until a password is set for them (see scripts/set-password.ts)
+    if (!user || !user.password_hash || !(await verifyPassword(password, user.password_hash))) {
+      return NextResponse.json(
+        { success: false, message: "Invalid username or password" },
+        { status: 401 }
+      );
+    }
     
-    return NextResponse.json({ 
+    const response = NextResponse.json({ 
       success: true, 
       user: {
         id: user.id,
@@ -28,6 +42,7 @@ export async function POST(request: NextRequest) {
         avatar: user.avatar || null
       }
     });
+    return setSessionCookie(response, user.id);
   } catch (error) {
     console.error("Error during login:", error);
     return NextResponse.json(
@@ -35,4 +50,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/auth";
+
+// Add this to prevent static generation of this API route
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  return clearSessionCookie(response);
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { registerUser } from "@/lib/db";
+import { hashPassword, setSessionCookie, validateCredentials } from "@/lib/auth";
+
+// Add this to prevent static generation of this API route
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { username, password } = await request.json();
+    
+    const validationError = validateCredentials(username, password);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, message: validationError },
+        { status: 400 }
+      );
+    }
+
+    const passwordHash = await hashPassword(password);
+    const user = await registerUser(username.trim(), passwordHash);
+    
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: "Username is already taken" },
+        { status: 409 }
+      );
+    }
+    
+    const response = NextResponse.json({ 
+      success: true, 
+      user: {
+        id: user.id,
+        username: user.username,
+        avatar: user.avatar || null
+      }
+    }, { status: 201 });
+    return setSessionCookie(response, user.id);
+  } catch (error) {
+    console.error("Error during registration:", error);
+    return NextResponse.json(
+      { success: false, message: "Failed to register", error: String(error) },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getUserByUsername, ensureAvatarColumn } from "@/lib/db";
+import { getSessionUser, setSessionCookie } from "@/lib/auth";
 
 // Add this to prevent static generation of this API route
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    const { username } = await request.json();
-    
-    if (!username || typeof username !== 'string') {
-      return NextResponse.json(
-        { success: false, message: "Username is required" },
-        { status: 400 }
-      );
-    }
-
-    // Ensure the avatar column exists
-    await ensureAvatarColumn();
-
-    const user = await getUserByUsername(username);
+    const user = await getSessionUser(request);
     
     if (!user) {
       return NextResponse.json(
-        { success: false, message: "User not found" },
-        { status: 404 }
+        { success: false, message: "Not logged in" },
+        { status: 401 }
       );
     }
     
-    return NextResponse.json({ 
+    // Re-issue the cookie to extend the session lifetime
+    const response = NextResponse.json({ 
       success: true, 
       user: {
         id: user.id,
@@ -35,11 +24,12 @@ export async function POST(request: NextRequest) {
         avatar: user.avatar || null
       }
     });
+    return setSessionCookie(response, user.id);
   } catch (error) {
-    console.error("Error verifying user:", error);
+    console.error("Error verifying session:", error);
     return NextResponse.json(
-      { success: false, message: "Failed to verify user", error: String(error) },
+      { success: false, message: "Failed to verify session", error: String(error) },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { requireCronSecret } from "@/lib/auth";
+import { getJob, JobRun, runJob } from "@/lib/jobs";
+
+// Add this to prevent static generation of this API route
+export const dynamic = "force-dynamic";
+
+const statusCodes: Record<JobRun["status"], number> = {
+  succeeded: 200,
+  skipped: 409,
+  failed: 500,
+  running: 202,
+};
+
+// Run one scheduled job: GET /api/cron?job=<name>.
+// Called by the scheduler with Authorization: Bearer <CRON_SECRET>.
+export async function GET(request: Request) {
+  const denied = requireCronSecret(request);
+  if (denied) return denied;
+
+  const { searchParams } = new URL(request.url);
+  const jobName = searchParams.get("job");
+
+  if (!jobName) {
+    return NextResponse.json({ error: "Job name is required" }, { status: 400 });
+  }
+  if (!getJob(jobName)) {
+    return NextResponse.json({ error: `Unknown job: ${jobName}` }, { status: 404 });
+  }
+
+  try {
+    const run = await runJob(jobName, "cron");
+    return NextResponse.json(run, { status: statusCodes[run.status] });
+  } catch (error) {
+    console.error(`Error running job ${jobName}:`, error);
+    return NextResponse.json({ error: "Failed to run job" }, { status: 500 });
+  }
+}
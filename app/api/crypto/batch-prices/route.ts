@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCryptoPrice } from '@/lib/crypto-api';
+import { toCryptoSymbol } from '@/lib/crypto-api';
+import { getMarketDataProvider, MarketDataError } from '@/lib/market-data';
 import { cacheData, getCachedData } from '@/lib/cache';
 
 export async function GET(req: NextRequest) {
@@ -60,56 +61,35 @@ export async function GET(req: NextRequest) {
       return NextResponse.json({ prices: cachedPrices });
     }
     
-    // For IDs not in cache, make a batch request to CoinGecko
+    // For IDs not in cache, make a batch request to the market data provider
     const missingIds = idList.filter(id => !(id in cachedPrices));
-    console.log(`Fetching prices for ${missingIds.length} cryptocurrencies from CoinGecko`);
+    console.log(`Fetching prices for ${missingIds.length} cryptocurrencies from the market data provider`);
     
-    // Adapt for CoinGecko API limitations (max 100 ids per request)
-    const BATCH_SIZE = 100;
-    
-    for (let i = 0; i < missingIds.length; i += BATCH_SIZE) {
-      const batchIds = missingIds.slice(i, i + BATCH_SIZE);
-      
-      // Prepare the API URL
-      const apiUrl = `https://api.coingecko.com/api/v3/simple/price?ids=${batchIds.join(',')}&vs_currencies=usd`;
-      
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          'accept': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        // Handle rate limiting
-        if (response.status === 429) {
-          console.warn('CoinGecko API rate limit reached, returning cached prices only');
-          break;
-        }
-        
-        console.error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-        continue;
-      }
-      
-      const data = await response.json();
+    try {
+      const quotes = await getMarketDataProvider('crypto').getQuotes(missingIds.map(toCryptoSymbol));
       
       // Process results and update cache
-      for (const id of batchIds) {
-        if (data[id] && data[id].usd) {
-          const price = data[id].usd;
-          prices[id] = price;
-          
+      for (const id of missingIds) {
+        const quote = quotes.get(toCryptoSymbol(id));
+        prices[id] = quote ? quote.price : null;
+        
+        if (quote) {
           // Cache for 5 minutes
           try {
             const cacheKey = `crypto:price:${id.toLowerCase()}`;
-            await cacheData(cacheKey, price, 300);
+            await cacheData(cacheKey, quote.price, 300);
           } catch (cacheError) {
             console.warn(`Cache error for ${id}:`, cacheError);
           }
-        } else {
-          prices[id] = null;
         }
       }
+    } catch (error) {
+      // Handle rate limiting
+      if (error instanceof MarketDataError && error.code === 'rate_limited') {
+        console.warn('CoinGecko API rate limit reached, returning cached prices only');
+      } else {
+        throw error;
+      }
     }
     
     // Combine cached and fresh prices
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCryptoHistoricalPrice } from '@/lib/crypto-api';
+import { toCryptoSymbol } from '@/lib/crypto-api';
+import { MarketDataError } from '@/lib/market-data';
+import { getClosingPrice } from '@/lib/price-history';
 import { cacheData, getCachedData } from '@/lib/cache';
 
 export async function GET(req: NextRequest) {
@@ -60,9 +62,9 @@ export async function GET(req: NextRequest) {
       console.warn('Cache retrieval error:', cacheError);
     }
 
-    // If not in cache or cache error, fetch from API
-    console.log(`Fetching historical price for ${id} at ${date.toISOString()} from CoinGecko API`);
-    price = await getCryptoHistoricalPrice(id, date);
+    // If not in cache or cache error, fetch from the market data provider
+    console.log(`Fetching historical price for ${id} at ${date.toISOString()} from the market data provider`);
+    price = await getClosingPrice(toCryptoSymbol(id), date.toISOString().split('T')[0]);
 
     if (price === null) {
       return NextResponse.json(
@@ -82,6 +84,12 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ price });
   } catch (error) {
     console.error('Error fetching historical cryptocurrency price:', error);
+    if (error instanceof MarketDataError && error.code === 'rate_limited') {
+      return NextResponse.json(
+        { error: "CoinGecko API rate limit reached. Please try again later." },
+        { status: 429 }
+      );
+    }
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getCryptoPrice } from '@/lib/crypto-api';
+import { toCryptoSymbol } from '@/lib/crypto-api';
+import { getMarketDataProvider, MarketDataError } from '@/lib/market-data';
 import { cacheData, getCachedData } from '@/lib/cache';
 
 export async function GET(req: NextRequest) {
@@ -29,16 +30,17 @@ export async function GET(req: NextRequest) {
       console.warn('Cache retrieval error:', cacheError);
     }
 
-    // If not in cache or cache error, fetch from API
-    console.log(`Fetching price for ${id} from CoinGecko API`);
-    price = await getCryptoPrice(id);
+    // If not in cache or cache error, fetch from the market data provider
+    console.log(`Fetching price for ${id} from the market data provider`);
+    const quote = await getMarketDataProvider('crypto').getQuote(toCryptoSymbol(id));
 
-    if (price === null) {
+    if (!quote) {
       return NextResponse.json(
-        { error: "Failed to fetch cryptocurrency price" },
-        { status: 500 }
+        { error: "Cryptocurrency not found" },
+        { status: 404 }
       );
     }
+    price = quote.price;
 
     // Cache the price for 5 minutes
     try {
@@ -51,6 +53,12 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ price });
   } catch (error) {
     console.error('Error fetching cryptocurrency price:', error);
+    if (error instanceof MarketDataError && error.code === 'rate_limited') {
+      return NextResponse.json(
+        { error: "CoinGecko API rate limit reached. Please try again later." },
+        { status: 429 }
+      );
+    }
     return NextResponse.json(
       { error: "Internal server error" },
       { status: 500 }
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getMarketDataProvider, MarketDataError } from '@/lib/market-data';
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
@@ -9,33 +10,25 @@ export async function GET(request: Request) {
   }
 
   try {
-    const response = await fetch(
-      `https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(query)}`,
-      {
-        headers: {
-          'x-cg-demo-api-key': process.env.COINGECKO_API_KEY || '',
-        },
-        next: { revalidate: 300 }, // Cache for 5 minutes
-      }
-    );
+    const results = await getMarketDataProvider('crypto').search(query);
 
-    if (response.status === 429) {
+    // Keep the CoinGecko search response shape the add crypto dialog reads
+    return NextResponse.json({
+      coins: results.map(result => ({
+        id: result.providerId,
+        symbol: result.symbol.replace(/^@/, ''),
+        name: result.name,
+        thumb: result.thumb,
+      })),
+    });
+  } catch (error) {
+    console.error('Error searching cryptocurrencies:', error);
+    if (error instanceof MarketDataError && error.code === 'rate_limited') {
       return NextResponse.json(
         { error: 'CoinGecko API rate limit reached. Please try again later.' },
         { status: 429 }
       );
     }
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('CoinGecko API error:', errorText);
-      throw new Error(`Failed to fetch from CoinGecko API: ${response.status}`);
-    }
-
-    const data = await response.json();
-    return NextResponse.json(data);
-  } catch (error) {
-    console.error('Error searching cryptocurrencies:', error);
     return NextResponse.json(
       { error: 'Failed to search cryptocurrencies. Please try again later.' },
       { status: 500 }
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getLeaderboardAsOf, LEADERBOARD_TIME_FRAMES } from "@/lib/leaderboard";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/leaderboard/history?date=2024-01-31&timeFrame=total
+// The leaderboard as ranked at the end of a past day, from the last daily ranking on
+// or before date, with each row's rank and its movement since the ranking before it
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date') || '';
+    const timeFrame = searchParams.get('timeFrame') || 'total';
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+      return NextResponse.json(
+        { error: 'date must be a date in YYYY-MM-DD format' },
+        { status: 400 }
+      );
+    }
+
+    if (!LEADERBOARD_TIME_FRAMES.includes(timeFrame)) {
+      return NextResponse.json(
+        { error: `timeFrame must be one of ${LEADERBOARD_TIME_FRAMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const ranking = await getLeaderboardAsOf(timeFrame, date);
+    if (!ranking.date) {
+      return NextResponse.json(
+        { error: `No leaderboard was ranked on or before ${date}` },
+        { status: 404 }
+      );
+    }
+
+    // date is the day the ranking is from, which may be earlier than the one asked for
+    return NextResponse.json({ date: ranking.date, timeFrame, leaderboard: ranking.rows });
+  } catch (error) {
+    console.error("Error fetching leaderboard history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch leaderboard history" },
+      { status: 500 }
+    );
+  }
+}
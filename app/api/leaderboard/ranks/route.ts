@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+import { getRankHistory, LEADERBOARD_TIME_FRAMES } from "@/lib/leaderboard";
+import { addDays, toDateString } from "@/lib/ledger";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/leaderboard/ranks?userId=1&timeFrame=total&days=90
+// A user's rank on each day's leaderboard over the last days days
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('userId') || '', 10);
+    const timeFrame = searchParams.get('timeFrame') || 'total';
+    const days = parseInt(searchParams.get('days') || '90', 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!LEADERBOARD_TIME_FRAMES.includes(timeFrame)) {
+      return NextResponse.json(
+        { error: `timeFrame must be one of ${LEADERBOARD_TIME_FRAMES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(days) || days < 1) {
+      return NextResponse.json(
+        { error: 'days must be at least 1' },
+        { status: 400 }
+      );
+    }
+
+    const from = addDays(toDateString(new Date()), -days);
+    const history = await getRankHistory(userId, timeFrame, from);
+
+    return NextResponse.json({ userId, timeFrame, history });
+  } catch (error) {
+    console.error("Error fetching rank history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rank history" },
+      { status: 500 }
+    );
+  }
+}
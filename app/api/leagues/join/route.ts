@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import { joinLeague, LeagueError } from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+// POST { inviteCode } joins a league. The user gets a portfolio for it, funded
+// with the league's bankroll, to trade in while the league runs.
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    const league = await joinLeague(user.id, body.inviteCode);
+    return NextResponse.json({ league }, { status: 201 });
+  } catch (error) {
+    // Unknown codes, leagues that have ended and leagues the user is already in
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error joining league:", error);
+    return NextResponse.json(
+      { error: "Failed to join league" },
+      { status: 500 }
+    );
+  }
+});
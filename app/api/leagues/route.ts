@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import {
+  createLeague,
+  getLeagueStandings,
+  getMembership,
+  LeagueError,
+  listLeagues,
+  parseLeagueInput,
+} from "@/lib/leagues";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/leagues lists the leagues the logged-in user is in, and
+// GET /api/leagues?leagueId=3 returns one of them with its standings.
+// Leagues are private, so only their members see them and their invite codes.
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (!searchParams.get("leagueId")) {
+      return NextResponse.json({ leagues: await listLeagues(user.id) });
+    }
+
+    const leagueId = Number(searchParams.get("leagueId"));
+    const league = Number.isInteger(leagueId) && leagueId > 0 ? await getMembership(user.id, leagueId) : null;
+    if (!league) {
+      return NextResponse.json(
+        { error: "League not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ league, standings: await getLeagueStandings(league) });
+  } catch (error) {
+    console.error("Error fetching leagues:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch leagues" },
+      { status: 500 }
+    );
+  }
+});
+
+// POST { name, startDate, endDate, startingBankroll, allowedAssetTypes?, maxPositionPercent? }
+// creates a league; the creator joins it and gets its invite code to share
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    const league = await createLeague(user.id, parseLeagueInput(body));
+    return NextResponse.json({ league }, { status: 201 });
+  } catch (error) {
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error creating league:", error);
+    return NextResponse.json(
+      { error: "Failed to create league" },
+      { status: 500 }
+    );
+  }
+});
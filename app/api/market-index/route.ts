@@ -1,124 +1,79 @@
 import { NextResponse } from 'next/server';
-import { getRedisClient, cacheData, getCachedData } from '@/lib/redis';
+import { cacheData, getCachedData } from '@/lib/redis';
+import { addDays, toDateString } from '@/lib/ledger';
+import { BENCHMARK_INDICES, resolveBenchmark } from '@/lib/market-data';
+import { getPriceBars } from '@/lib/price-history';
 
 type PerformanceData = {
   date: string;
   value: number;
 };
 
-// Generate realistic market index data with slight randomization but following general market trends
-function generateMarketIndexData(
-  index: string,
-  days: number = 30,
-  seedDate?: string
-): PerformanceData[] {
-  const result: PerformanceData[] = [];
-  const now = seedDate ? new Date(seedDate) : new Date();
-  
-  // Set base values for different indices
-  const baseValues: Record<string, number> = {
-    'sp500': 4800, // S&P 500 approximate value
-    'nasdaq': 15000, // Nasdaq approximate value
-    'dow': 38000, // Dow Jones approximate value
-  };
-  
-  // Different trend factors for different indices
-  const trendFactors: Record<string, number> = {
-    'sp500': 1.0004, // S&P 500 trend
-    'nasdaq': 1.0006, // Nasdaq trend (slightly more aggressive)
-    'dow': 1.0003, // Dow Jones trend (more conservative)
-  };
-  
-  // Different volatility for different indices
-  const volatilities: Record<string, number> = {
-    'sp500': 0.007, // S&P 500 volatility
-    'nasdaq': 0.01, // Nasdaq volatility (higher tech volatility)
-    'dow': 0.005, // Dow Jones volatility (lower blue chip volatility)
-  };
-
-  // Starting value for the selected index
-  let value = baseValues[index] || 5000;
-  
-  // Generate data for each day
-  for (let i = days; i >= 0; i--) {
-    const date = new Date(now);
-    date.setDate(date.getDate() - i);
-    
-    // Skip weekends
-    const dayOfWeek = date.getDay();
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      continue;
-    }
-    
-    // Adjust with trend and random factor
-    if (result.length > 0) {
-      const trendFactor = trendFactors[index] || 1.0005;
-      const volatility = volatilities[index] || 0.008;
-      
-      const randomFactor = 1 + (Math.random() * 2 - 1) * volatility;
-      value = result[result.length - 1].value * trendFactor * randomFactor;
-      
-      // Add occasional market events (small crashes, rallies)
-      const eventProbability = 0.05; // 5% chance of an event
-      if (Math.random() < eventProbability) {
-        // 50/50 chance of positive/negative event
-        const eventFactor = Math.random() < 0.5 
-          ? 0.98 - Math.random() * 0.01 // Small crash (0.98-0.97)
-          : 1.02 + Math.random() * 0.01; // Small rally (1.02-1.03)
-        value *= eventFactor;
-      }
-    }
-    
-    // Format the date as YYYY-MM-DD
-    const dateStr = date.toISOString().split('T')[0];
-    
-    // Add to result
-    result.push({
-      date: dateStr,
-      value: parseFloat(value.toFixed(2))
-    });
-  }
-  
-  return result;
-}
+type MarketIndexResponse = {
+  index: string;
+  symbol: string;
+  name: string;
+  performance: PerformanceData[];
+};
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const index = searchParams.get('index') || 'sp500';
   const days = parseInt(searchParams.get('days') || '30', 10);
   const force = searchParams.get('force') === 'true';
-  
-  // Only allow valid indices
-  if (!['sp500', 'nasdaq', 'dow'].includes(index)) {
+
+  // An index name (sp500, nasdaq, dow) or any ticker (QQQ, ^GSPC, @btc)
+  const benchmark = resolveBenchmark(index);
+  if (!benchmark) {
+    return NextResponse.json(
+      { error: `Invalid index parameter. Use one of ${Object.keys(BENCHMARK_INDICES).join(', ')} or a ticker symbol` },
+      { status: 400 }
+    );
+  }
+
+  if (isNaN(days) || days < 1) {
     return NextResponse.json(
-      { error: 'Invalid index parameter. Must be one of: sp500, nasdaq, dow' },
+      { error: 'days must be a positive number' },
       { status: 400 }
     );
   }
 
-  // Cache key includes index and days
-  const cacheKey = `market-index:${index}:${days}`;
-  
+  // Cache key includes symbol and days
+  const cacheKey = `market-index:${benchmark.symbol}:${days}`;
+
   try {
     // Check if we should use cached data
     if (!force) {
-      const cachedData = await getCachedData<PerformanceData[]>(cacheKey);
+      const cachedData = await getCachedData<MarketIndexResponse>(cacheKey);
       if (cachedData) {
-        console.log(`Using cached market data for ${index} (${days} days)`);
-        return NextResponse.json({ performance: cachedData });
+        console.log(`Using cached market data for ${benchmark.symbol} (${days} days)`);
+        return NextResponse.json(cachedData);
       }
     } else {
-      console.log(`Force-refreshing market index data for ${index} (${days} days)`);
+      console.log(`Force-refreshing market index data for ${benchmark.symbol} (${days} days)`);
+    }
+
+    // Daily closes from the stored price history; missing days come from the provider
+    const today = toDateString(new Date());
+    const bars = await getPriceBars(benchmark.symbol, addDays(today, -days), today);
+    if (bars.length === 0) {
+      return NextResponse.json(
+        { error: `No price history for ${benchmark.symbol}` },
+        { status: 404 }
+      );
     }
-    
-    // Generate fresh mock data
-    console.log(`Generating fresh market data for ${index} (${days} days)`);
-    const performance = generateMarketIndexData(index, days);
-    
-    // Cache for 2 hours
-    await cacheData(cacheKey, performance, 60 * 60 * 2);
-    
-    return NextResponse.json({ performance });
+
+    const result: MarketIndexResponse = {
+      index,
+      symbol: benchmark.symbol,
+      name: benchmark.name,
+      performance: bars.map(bar => ({ date: bar.date, value: bar.close })),
+    };
+
+    // Cache for 2 hours; today's close keeps changing until the market shuts
+    await cacheData(cacheKey, result, 60 * 60 * 2);
+
+    return NextResponse.json(result);
   } catch (error) {
     console.error(`Error fetching market index data: ${error}`);
     return NextResponse.json(
@@ -126,4 +81,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
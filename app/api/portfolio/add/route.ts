@@ -1,11 +1,39 @@
 import { NextResponse } from 'next/server';
-import { sql } from '@vercel/postgres';
+import { addStockToUser } from '@/lib/db';
+import { LedgerError, toDateString } from '@/lib/ledger';
+import { parseQuantity } from '@/lib/decimal';
+import { withAuth, forbidOtherUser } from '@/lib/auth';
+import { isPaperTrading, PortfolioError, resolvePortfolioId } from '@/lib/portfolios';
+import { checkLeagueTrade, LeagueError } from '@/lib/leagues';
+import { fillAtMarket, PaperTradeError } from '@/lib/paper-trading';
 
-export async function POST(request: Request) {
+export const POST = withAuth(async (request, user) => {
   try {
-    const { userId, symbol, quantity, purchasePrice, assetType = 'stock' } = await request.json();
+    const {
+      userId: requestedUserId,
+      symbol,
+      companyName,
+      quantity,
+      purchasePrice,
+      purchaseDate,
+      assetType = 'stock',
+      portfolioId: requestedPortfolioId,
+      orderType,
+    } = await request.json();
 
-    if (!userId || !symbol || !quantity || !purchasePrice) {
+    // The acting user always comes from the session
+    const forbidden = forbidOtherUser(user, requestedUserId);
+    if (forbidden) return forbidden;
+    const userId = user.id;
+
+    // The chosen portfolio, or the default one
+    const portfolioId = (await resolvePortfolioId(userId, requestedPortfolioId)) ?? undefined;
+
+    // Market orders, and every order in a paper-trading portfolio, are filled at the
+    // current quote; the price and date are not taken from the request
+    const isMarketOrder = orderType === 'market' || await isPaperTrading(userId, portfolioId);
+
+    if (!symbol || !quantity || (!purchasePrice && !isMarketOrder)) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
@@ -16,99 +44,72 @@ export async function POST(request: Request) {
     // For crypto, prepend with @ to make it distinguishable
     const formattedSymbol = assetType === 'crypto' ? `@${symbol.toLowerCase()}` : symbol.toUpperCase();
     
-    // Convert values to numbers
-    const qtyNum = Number(quantity);
-    const priceNum = Number(purchasePrice);
-    const totalValue = qtyNum * priceNum;
+    // Convert values to numbers; quantities may be fractional (e.g. 0.05 BTC)
+    const qtyNum = parseQuantity(quantity);
+    const fill = isMarketOrder ? await fillAtMarket(formattedSymbol) : null;
+    const priceNum = fill ? fill.price : Number(purchasePrice);
 
-    // First check if the user exists
-    let userExists = false;
-    try {
-      // Check if the user exists in the users table (lowercase - as shown in the database structure)
-      const userCheck = await sql`
-        SELECT EXISTS(SELECT 1 FROM users WHERE id = ${userId}) AS exists;
-      `;
-      userExists = userCheck.rows[0]?.exists === true;
-      
-      if (!userExists) {
-        return NextResponse.json(
-          { error: `User with ID ${userId} not found in database` },
-          { status: 404 }
-        );
-      }
-    } catch (e: any) {
-      console.warn('Error checking user existence:', e);
-      // Continue anyway, as the user might exist but there's a query issue
+    if (qtyNum === null || !(priceNum > 0)) {
+      return NextResponse.json(
+        { error: 'Quantity and purchase price must be positive numbers' },
+        { status: 400 }
+      );
     }
 
-    // Now handle the user_stocks table (using snake_case as in the database)
-    try {
-      // Check if the asset already exists for this user
-      const existingAsset = await sql`
-        SELECT * FROM user_stocks 
-        WHERE user_id = ${userId} AND symbol = ${formattedSymbol};
-      `;
-
-      let result;
-      
-      if (existingAsset?.rowCount && existingAsset.rowCount > 0) {
-        // Update existing asset
-        const existing = existingAsset.rows[0];
-        const newQuantity = Number(existing.quantity) + qtyNum;
-        
-        // Calculate new average cost based on total investment
-        const totalCost = (Number(existing.quantity) * Number(existing.purchase_price)) + (qtyNum * priceNum);
-        const newAvgCost = totalCost / newQuantity;
-        
-        result = await sql`
-          UPDATE user_stocks
-          SET 
-            quantity = ${newQuantity},
-            purchase_price = ${newAvgCost}
-          WHERE user_id = ${userId} AND symbol = ${formattedSymbol}
-          RETURNING *;
-        `;
-      } else {
-        // Insert new asset with the structure matching your database
-        result = await sql`
-          INSERT INTO user_stocks (user_id, symbol, company_name, quantity, purchase_price, purchase_date, asset_type)
-          VALUES (
-            ${userId},
-            ${formattedSymbol},
-            ${assetType === 'crypto' ? symbol : ''},
-            ${qtyNum},
-            ${priceNum},
-            CURRENT_TIMESTAMP,
-            ${assetType}
-          )
-          RETURNING *;
-        `;
-      }
-
-      // Add transaction record if that table exists
-      try {
-        await sql`
-          INSERT INTO transactions (user_id, symbol, quantity, price, type, asset_type)
-          VALUES (${userId}, ${formattedSymbol}, ${qtyNum}, ${priceNum}, 'buy', ${assetType});
-        `;
-      } catch (err) {
-        console.warn('Could not add transaction record:', err);
-        // Don't fail the whole request just because transaction log failed
-      }
-
-      return NextResponse.json(result?.rows?.[0] || { success: true });
-    } catch (dbError: any) {
-      console.error('Database error when adding asset:', dbError);
+    // Trades are recorded on the date they happened (today if not given)
+    const tradeDate = fill ? new Date(fill.executedAt) : purchaseDate ? new Date(purchaseDate) : new Date();
+    if (isNaN(tradeDate.getTime()) || tradeDate > new Date()) {
       return NextResponse.json(
-        { error: 'Failed to add asset to portfolio', details: dbError.message },
-        { status: 500 }
+        { error: 'Purchase date must be a valid date that is not in the future' },
+        { status: 400 }
       );
     }
+
+    // A portfolio opened for a league only takes trades its rules allow
+    await checkLeagueTrade(userId, {
+      portfolioId,
+      symbol: formattedSymbol,
+      entryType: 'buy',
+      quantity: qtyNum,
+      price: priceNum,
+      tradeDate: toDateString(tradeDate),
+      assetType,
+      executedAt: fill?.executedAt ?? null,
+    });
+
+    // Record the buy in the ledger; the holding is recomputed from it
+    const result = await addStockToUser(
+      userId,
+      formattedSymbol,
+      companyName || (assetType === 'crypto' ? symbol : ''),
+      qtyNum,
+      priceNum,
+      toDateString(tradeDate),
+      assetType,
+      portfolioId,
+      fill?.executedAt ?? null
+    );
+
+    // Market orders report the price and time they were filled at
+    return NextResponse.json({ ...(result || { success: true }), fill });
   } catch (error: any) {
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    // No quote to fill a market order at
+    if (error instanceof PaperTradeError) {
+      return NextResponse.json({ error: error.message }, { status: 503 });
+    }
     console.error('Error adding asset to portfolio:', error);
     return NextResponse.json(
       { error: 'Failed to add asset to portfolio', details: error.message },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
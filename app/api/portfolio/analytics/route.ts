@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { addDays, toDateString } from "@/lib/ledger";
+import { PriceBar, resolveBenchmark } from "@/lib/market-data";
+import { PortfolioError, resolvePortfolioId } from "@/lib/portfolios";
+import { getPriceBars } from "@/lib/price-history";
+import { computeRiskAnalytics } from "@/lib/risk";
+import { getPortfolioSnapshots } from "@/lib/snapshots";
+
+export const dynamic = "force-dynamic";
+
+// S&P 500 unless another index or ticker is asked for
+const DEFAULT_BENCHMARK = 'sp500';
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('userId') || '', 10);
+    const days = parseInt(searchParams.get('days') || '365', 10);
+    const benchmark = resolveBenchmark(searchParams.get('benchmark') || DEFAULT_BENCHMARK);
+    // Annual percentage, e.g. 4.5
+    const riskFreeRate = parseFloat(searchParams.get('riskFreeRate') || '0');
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(days) || days < 2) {
+      return NextResponse.json(
+        { error: 'days must be at least 2' },
+        { status: 400 }
+      );
+    }
+
+    if (!benchmark) {
+      return NextResponse.json(
+        { error: 'benchmark must be an index name (sp500, nasdaq, dow) or a ticker symbol' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(riskFreeRate)) {
+      return NextResponse.json(
+        { error: 'riskFreeRate must be a number' },
+        { status: 400 }
+      );
+    }
+
+    const today = toDateString(new Date());
+    const from = addDays(today, -days);
+
+    // One portfolio, or all of the user's portfolios together when not given
+    const portfolioId = (await resolvePortfolioId(userId, searchParams.get('portfolioId'))) ?? undefined;
+
+    // The whole history, so the flow of every day in the period is known
+    const snapshots = await getPortfolioSnapshots(userId, null, false, portfolioId);
+
+    // A week of extra bars so there is a close to measure the first day from
+    let bars: PriceBar[] | null = null;
+    try {
+      bars = await getPriceBars(benchmark.symbol, addDays(from, -7), today);
+    } catch (error) {
+      // The portfolio's own metrics do not need the benchmark
+      console.error(`Error fetching benchmark ${benchmark.symbol}:`, error);
+    }
+
+    const analytics = computeRiskAnalytics(
+      snapshots,
+      bars && bars.length > 0 ? { symbol: benchmark.symbol, bars } : null,
+      from,
+      riskFreeRate
+    );
+
+    return NextResponse.json({
+      userId: String(userId),
+      portfolioId: portfolioId ?? null,
+      days,
+      ...analytics
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error calculating portfolio analytics:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate portfolio analytics" },
+      { status: 500 }
+    );
+  }
+}
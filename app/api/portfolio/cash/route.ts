@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import {
+  CASH_TRANSFER_TYPES,
+  CashTransferInput,
+  CashTransferType,
+  getCashBalance,
+  getCashPostings,
+  getRequireCash,
+  recordCashTransfer,
+  setRequireCash,
+  voidCashTransfer,
+} from "@/lib/cash";
+import { getLedgerEntries } from "@/lib/db";
+import { parseQuantity } from "@/lib/decimal";
+import { checkLeagueCorrection, checkLeagueTrade, LeagueError } from "@/lib/leagues";
+import { CASH_SYMBOL, LedgerError, toDateString } from "@/lib/ledger";
+import { PortfolioError, resolvePortfolioId } from "@/lib/portfolios";
+import * as redis from "@/lib/redis";
+
+export const dynamic = "force-dynamic";
+
+// Clear the user's portfolio cache after the cash balance changes
+async function invalidatePortfolioCache(userId: number) {
+  const redisClient = await redis.getRedisClient();
+  if (redisClient) {
+    await redisClient.del(`portfolio:${userId}`);
+  }
+}
+
+// The deposit or withdrawal in a request body, or an error message
+function parseTransfer(body: any): CashTransferInput | string {
+  if (!CASH_TRANSFER_TYPES.includes(body.type)) {
+    return `type must be one of ${CASH_TRANSFER_TYPES.join(", ")}`;
+  }
+
+  const amount = parseQuantity(body.amount);
+  if (amount === null) return "amount must be a positive number";
+
+  let date = toDateString(new Date());
+  if (body.date !== undefined) {
+    const parsed = new Date(body.date);
+    if (isNaN(parsed.getTime()) || parsed > new Date()) {
+      return "date must be a valid date that is not in the future";
+    }
+    date = toDateString(parsed);
+  }
+
+  if (body.note !== undefined && body.note !== null && typeof body.note !== "string") {
+    return "note must be a string";
+  }
+
+  return { type: body.type as CashTransferType, amount, date, note: body.note || null };
+}
+
+// GET /api/portfolio/cash?userId=1[&portfolioId=2][&limit=100]
+// The cash balance, whether buys must be paid from it, and the latest postings,
+// for one portfolio or all of the user's portfolios together
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get("userId") || "", 10);
+    const limit = parseInt(searchParams.get("limit") || "100", 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "User ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > 1000) {
+      return NextResponse.json(
+        { error: "limit must be between 1 and 1000" },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = (await resolvePortfolioId(userId, searchParams.get("portfolioId"))) ?? undefined;
+
+    const [cash, requireCash, postings] = await Promise.all([
+      getCashBalance(userId, undefined, portfolioId),
+      getRequireCash(userId),
+      getCashPostings(userId, limit, portfolioId),
+    ]);
+
+    return NextResponse.json({
+      userId: String(userId),
+      portfolioId: portfolioId ?? null,
+      balance: cash.balance,
+      contributions: cash.contributions,
+      requireCash,
+      postings,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error fetching cash balance:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch cash balance" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { type: "deposit" | "withdrawal", amount, date?, note?, portfolioId? } moves money in or out
+// of a portfolio (the default one when not given) and returns that portfolio's balance
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    const input = parseTransfer(body);
+    if (typeof input === "string") {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+
+    const portfolioId = (await resolvePortfolioId(user.id, body.portfolioId)) ?? undefined;
+    // A league portfolio keeps the bankroll the league gave it
+    await checkLeagueTrade(user.id, {
+      portfolioId,
+      symbol: CASH_SYMBOL,
+      entryType: input.type,
+      quantity: input.amount,
+      price: 1,
+      tradeDate: input.date,
+    });
+
+    const entry = await recordCashTransfer(user.id, { ...input, portfolioId });
+    await invalidatePortfolioCache(user.id);
+
+    return NextResponse.json({ entry, ...(await getCashBalance(user.id, undefined, entry.portfolioId)) }, { status: 201 });
+  } catch (error) {
+    // Withdrawing more than the balance, or a later buy that would then go unpaid
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error recording cash transfer:", error);
+    return NextResponse.json(
+      { error: "Failed to record cash transfer" },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT { requireCash: boolean } chooses whether buys must be paid for from the balance
+export const PUT = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    if (typeof body.requireCash !== "boolean") {
+      return NextResponse.json(
+        { error: "requireCash must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    await setRequireCash(user.id, body.requireCash);
+    return NextResponse.json({ requireCash: body.requireCash });
+  } catch (error) {
+    console.error("Error updating cash requirement:", error);
+    return NextResponse.json(
+      { error: "Failed to update cash requirement" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/portfolio/cash?entryId=12 cancels a deposit or withdrawal
+export const DELETE = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const entryId = Number(searchParams.get("entryId"));
+
+    if (!Number.isInteger(entryId) || entryId <= 0) {
+      return NextResponse.json(
+        { error: "entryId is required" },
+        { status: 400 }
+      );
+    }
+
+    const existing = (await getLedgerEntries(user.id, CASH_SYMBOL)).find(entry => entry.id === entryId);
+    if (existing) await checkLeagueCorrection(existing.portfolioId);
+
+    if (!(await voidCashTransfer(user.id, entryId))) {
+      return NextResponse.json(
+        { error: "Deposit or withdrawal not found" },
+        { status: 404 }
+      );
+    }
+    await invalidatePortfolioCache(user.id);
+
+    return NextResponse.json({ success: true, ...(await getCashBalance(user.id)) });
+  } catch (error) {
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error("Error cancelling cash transfer:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel cash transfer" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,12 +1,14 @@
 import { NextResponse } from "next/server";
-import { createSqlClient } from "@/lib/db";
+import { getHolding, removeHolding } from "@/lib/db";
+import { checkLeagueCorrection, LeagueError } from "@/lib/leagues";
+import { LedgerError } from "@/lib/ledger";
+import { withAuth, forbidOtherUser, requireStockOwnership } from "@/lib/auth";
 
-export async function DELETE(request: Request) {
+export const DELETE = withAuth(async (request, user) => {
   try {
     // Get the stockId from the query parameters
     const { searchParams } = new URL(request.url);
     const stockId = searchParams.get("stockId");
-    const userId = searchParams.get("userId");
 
     if (!stockId) {
       return NextResponse.json(
@@ -15,24 +17,18 @@ export async function DELETE(request: Request) {
       );
     }
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: "User ID is required" },
-        { status: 400 }
-      );
-    }
+    // Only the owner may delete a holding
+    const denied = forbidOtherUser(user, searchParams.get("userId")) || await requireStockOwnership(user, stockId);
+    if (denied) return denied;
+    const userId = user.id;
 
-    const sql = createSqlClient();
-    
-    // Delete the stock and verify it belongs to the user
-    const result = await sql`
-      DELETE FROM user_stocks 
-      WHERE id = ${stockId} AND user_id = ${userId}
-      RETURNING id
-    `;
+    const holding = await getHolding(Number(stockId), userId);
+    if (holding) await checkLeagueCorrection(holding.portfolioId);
+
+    // Void the holding's ledger entries; the audit history is kept
+    const removed = await removeHolding(Number(stockId), userId);
     
-    // Check if any rows were affected
-    if (result.length === 0) {
+    if (!removed) {
       return NextResponse.json(
         { error: "Stock not found or not owned by user" },
         { status: 404 }
@@ -41,10 +37,16 @@ export async function DELETE(request: Request) {
     
     return NextResponse.json({ success: true });
   } catch (error) {
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error deleting stock:", error);
     return NextResponse.json(
       { error: "Failed to delete stock" },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
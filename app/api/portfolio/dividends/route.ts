@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import {
+  creditDividends,
+  getDividendPayments,
+  getDividendReinvestment,
+  getDividendTotals,
+  getUpcomingDividends,
+  setDividendReinvestment,
+} from "@/lib/dividends";
+import { PortfolioError, resolvePortfolioId } from "@/lib/portfolios";
+import * as redis from "@/lib/redis";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/portfolio/dividends?userId=1[&portfolioId=2][&days=90]
+// Dividends received and the ones expected over the next `days` days
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('userId') || '', 10);
+    const days = parseInt(searchParams.get('days') || '90', 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(days) || days < 1 || days > 366) {
+      return NextResponse.json(
+        { error: 'days must be between 1 and 366' },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = (await resolvePortfolioId(userId, searchParams.get('portfolioId'))) ?? undefined;
+
+    // Credit anything paid since the last run of the credit-dividends job
+    try {
+      const counts = await creditDividends(userId);
+      if (counts.credited + counts.corrected + counts.voided > 0) {
+        const redisClient = await redis.getRedisClient();
+        if (redisClient) {
+          await redisClient.del(`portfolio:${userId}`);
+        }
+      }
+    } catch (error) {
+      // Serve the credits already recorded; the job tries again
+      console.error(`Error crediting dividends for user ${userId}:`, error);
+    }
+
+    const [reinvest, totals, payments, upcoming] = await Promise.all([
+      getDividendReinvestment(userId),
+      getDividendTotals(userId, undefined, portfolioId),
+      getDividendPayments(userId, portfolioId),
+      getUpcomingDividends(userId, days, portfolioId),
+    ]);
+
+    return NextResponse.json({
+      userId: String(userId),
+      portfolioId: portfolioId ?? null,
+      reinvest,
+      totals,
+      payments,
+      upcoming,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error fetching dividends:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch dividends" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT { reinvest: boolean } chooses between taking dividends as cash and reinvesting them
+export const PUT = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    if (typeof body.reinvest !== 'boolean') {
+      return NextResponse.json(
+        { error: "reinvest must be true or false" },
+        { status: 400 }
+      );
+    }
+
+    await setDividendReinvestment(user.id, body.reinvest);
+    return NextResponse.json({ reinvest: body.reinvest });
+  } catch (error) {
+    console.error("Error updating dividend reinvestment:", error);
+    return NextResponse.json(
+      { error: "Failed to update dividend reinvestment" },
+      { status: 500 }
+    );
+  }
+});
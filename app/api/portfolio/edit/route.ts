@@ -1,26 +1,46 @@
 import { NextResponse } from "next/server";
 import * as db from "@/lib/db";
 import * as redis from "@/lib/redis";
-import yahooFinance from "yahoo-finance2";
+import { LedgerError } from "@/lib/ledger";
+import { parseQuantity } from "@/lib/decimal";
+import { withAuth, forbidOtherUser, requireStockOwnership } from "@/lib/auth";
+import { checkLeagueCorrection, LeagueError } from "@/lib/leagues";
 
-export async function PUT(request: Request) {
+export const PUT = withAuth(async (request, user) => {
   try {
-    const { stockId, userId, quantity, purchasePrice, purchaseDate } = await request.json();
+    const { stockId, userId: requestedUserId, quantity, purchasePrice, purchaseDate } = await request.json();
 
     // Validate inputs
-    if (!stockId || !userId || !quantity || !purchasePrice || !purchaseDate) {
+    if (!stockId || !quantity || !purchasePrice || !purchaseDate) {
       return NextResponse.json(
         { message: "Missing required fields" },
         { status: 400 }
       );
     }
 
+    // Quantities may be fractional (e.g. 0.05 BTC)
+    const parsedQuantity = parseQuantity(quantity);
+    if (parsedQuantity === null) {
+      return NextResponse.json(
+        { message: "Quantity must be a positive number" },
+        { status: 400 }
+      );
+    }
+
+    // Only the owner may edit a holding
+    const denied = forbidOtherUser(user, requestedUserId) || await requireStockOwnership(user, stockId);
+    if (denied) return denied;
+    const userId = user.id;
+
+    const holding = await db.getHolding(Number(stockId), userId);
+    if (holding) await checkLeagueCorrection(holding.portfolioId);
+
     // Update the stock in the database with all properties
     const updatedStock = await db.updateStock(
       stockId,
       userId,
-      quantity,
-      purchasePrice,
+      parsedQuantity,
+      Number(purchasePrice),
       purchaseDate
     );
 
@@ -43,10 +63,17 @@ export async function PUT(request: Request) {
       stock: updatedStock,
     });
   } catch (error) {
+    // Edits that the ledger can't apply (e.g. a holding built from several trades)
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
     console.error("Error updating stock:", error);
     return NextResponse.json(
       { message: "Failed to update stock" },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
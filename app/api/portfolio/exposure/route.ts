@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server";
+import { getUserStocks } from "@/lib/db";
+import { multiply, sum } from "@/lib/decimal";
+import { computeExposure } from "@/lib/exposure";
+import { getFundHoldings } from "@/lib/fund-holdings";
+import { getQuotes } from "@/lib/market-data";
+import { PortfolioError, resolvePortfolioId } from "@/lib/portfolios";
+import { getSecurities } from "@/lib/securities";
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get('userId') || '', 10);
+    // How many of the largest look-through holdings to return
+    const top = parseInt(searchParams.get('top') || '15', 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'User ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(top) || top < 1) {
+      return NextResponse.json(
+        { error: 'top must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    // One portfolio, or all of the user's portfolios together when not given
+    const portfolioId = (await resolvePortfolioId(userId, searchParams.get('portfolioId'))) ?? undefined;
+
+    const holdings = await getUserStocks(userId, portfolioId);
+    const symbols = Array.from(new Set(holdings.map(row => row.symbol as string)));
+    const [quotes, securities, funds] = await Promise.all([
+      getQuotes(symbols),
+      getSecurities(symbols),
+      getFundHoldings(symbols),
+    ]);
+
+    // Constituents without a sector in their fund's file use the securities table,
+    // without looking up the hundreds of symbols it has never seen
+    const unclassified = Array.from(funds.values())
+      .flatMap(fund => fund.holdings.filter(holding => !holding.sector).map(holding => holding.symbol));
+    const constituents = await getSecurities(Array.from(new Set(unclassified)), false);
+
+    // Positions without a current quote are valued at cost. A symbol held in
+    // several portfolios is one position, so a fund is looked through once.
+    const positions = symbols.map(symbol => {
+      const rows = holdings.filter(row => row.symbol === symbol);
+      return {
+        symbol,
+        name: securities.get(symbol)?.name ?? rows[0].company_name ?? null,
+        value: sum(rows.map(row => multiply(row.quantity, quotes.get(symbol)?.price ?? Number(row.purchase_price)))),
+        sector: securities.get(symbol)?.sector ?? null,
+      };
+    });
+
+    const exposure = computeExposure(
+      positions,
+      funds,
+      new Map(Array.from(constituents.entries()).map(([symbol, security]) => [symbol, security.sector]))
+    );
+
+    return NextResponse.json({
+      userId: String(userId),
+      portfolioId: portfolioId ?? null,
+      ...exposure,
+      // The full list can run to hundreds of constituents
+      stocks: exposure.stocks.slice(0, top),
+      stockCount: exposure.stocks.length,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error calculating portfolio exposure:", error);
+    return NextResponse.json(
+      { error: "Failed to calculate portfolio exposure" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,297 @@
+import { NextResponse } from "next/server";
+import * as db from "@/lib/db";
+import * as redis from "@/lib/redis";
+import { CASH_SYMBOL, isCashEntry, LEDGER_ENTRY_TYPES, LOT_METHODS, LedgerEntry, LedgerEntryType, LedgerError, replayPortfolios, toDateString } from "@/lib/ledger";
+import { PortfolioError, resolvePortfolioId } from "@/lib/portfolios";
+import { checkLeagueCorrection, checkLeagueTrade, LeagueError } from "@/lib/leagues";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import { parseQuantity } from "@/lib/decimal";
+
+export const dynamic = 'force-dynamic';
+
+// Clear the user's portfolio cache after the ledger changes
+async function invalidatePortfolioCache(userId: number) {
+  const redisClient = await redis.getRedisClient();
+  if (redisClient) {
+    await redisClient.del(`portfolio:${userId}`);
+  }
+}
+
+// Validate and normalise an entry from a request body, returning an error message or the input.
+// When amending an existing entry only the fields that are present are validated.
+function parseEntryInput(body: any, existing?: LedgerEntry): string | Partial<db.LedgerEntryInput> {
+  const partial = existing !== undefined;
+  const input: Partial<db.LedgerEntryInput> = {};
+
+  if (body.entryType !== undefined) {
+    if (!LEDGER_ENTRY_TYPES.includes(body.entryType)) {
+      return `entryType must be one of ${LEDGER_ENTRY_TYPES.join(', ')}`;
+    }
+    input.entryType = body.entryType as LedgerEntryType;
+  } else if (!partial) {
+    return "entryType is required";
+  }
+
+  if (body.symbol !== undefined) {
+    if (typeof body.symbol !== 'string' || body.symbol.trim() === '') {
+      return "symbol must be a non-empty string";
+    }
+    if (body.symbol.toUpperCase() === CASH_SYMBOL) {
+      return "Deposits and withdrawals are recorded through /api/portfolio/cash";
+    }
+    // Crypto symbols keep their lowercase @ form, stocks are uppercase
+    input.symbol = body.symbol.startsWith('@') ? body.symbol.toLowerCase() : body.symbol.toUpperCase();
+  } else if (!partial) {
+    return "symbol is required";
+  }
+
+  if (body.tradeDate !== undefined) {
+    const tradeDate = new Date(body.tradeDate);
+    if (isNaN(tradeDate.getTime()) || tradeDate > new Date()) {
+      return "tradeDate must be a valid date that is not in the future";
+    }
+    input.tradeDate = toDateString(tradeDate);
+  } else if (!partial) {
+    input.tradeDate = toDateString(new Date());
+  }
+
+  const isSplit = (input.entryType ?? existing?.entryType) === 'split';
+  if (isSplit) {
+    if (body.splitRatio !== undefined || !partial) {
+      const splitRatio = Number(body.splitRatio);
+      if (!(splitRatio > 0)) return "splitRatio must be a positive number";
+      input.splitRatio = splitRatio;
+    }
+    if (!partial) {
+      input.quantity = 0;
+      input.price = 0;
+    }
+  } else {
+    if (body.quantity !== undefined || !partial) {
+      const quantity = parseQuantity(body.quantity);
+      if (quantity === null) return "quantity must be a positive number";
+      input.quantity = quantity;
+    }
+    if (body.price !== undefined || !partial) {
+      const price = Number(body.price);
+      if (!(price >= 0)) return "price must be zero or a positive number";
+      input.price = price;
+    }
+  }
+
+  if (body.lotMethod !== undefined) {
+    if (!LOT_METHODS.includes(body.lotMethod)) {
+      return `lotMethod must be one of ${LOT_METHODS.join(', ')}`;
+    }
+    input.lotMethod = body.lotMethod;
+  }
+  if (body.lots !== undefined) {
+    if (!Array.isArray(body.lots)) return "lots must be an array of { lotId, quantity }";
+    input.lotSelections = body.lots.map((lot: any) => ({
+      lotId: Number(lot.lotId),
+      quantity: parseQuantity(lot.quantity) ?? 0,
+    }));
+  }
+
+  if (body.companyName !== undefined) input.companyName = body.companyName;
+  if (body.note !== undefined) input.note = body.note;
+  if (body.assetType !== undefined) {
+    input.assetType = body.assetType;
+  } else if (!partial && input.symbol) {
+    input.assetType = input.symbol.startsWith('@') ? 'crypto' : 'stock';
+  }
+
+  return input;
+}
+
+// Ledger errors are conflicts with the existing history
+const ledgerErrorResponse = (error: LedgerError) =>
+  NextResponse.json({ error: error.message }, { status: 409 });
+
+// League errors are entries the rules of a league portfolio do not allow
+const leagueErrorResponse = (error: LeagueError) =>
+  NextResponse.json({ error: error.message }, { status: 400 });
+
+// Dividend credits follow the trades they were paid on (lib/dividends.ts), and corporate action
+// entries are applied and reverted by an admin (lib/corporate-actions.ts), so neither is edited by hand.
+// Deposits and withdrawals have their own route.
+function managedEntryResponse(entry: LedgerEntry) {
+  if (isCashEntry(entry)) {
+    return NextResponse.json({ error: "Deposits and withdrawals are changed through /api/portfolio/cash" }, { status: 400 });
+  }
+  if (entry.entryType === 'dividend') {
+    return NextResponse.json({ error: "Dividend credits are managed automatically; correct the trades instead" }, { status: 400 });
+  }
+  if (entry.corporateActionId !== null) {
+    return NextResponse.json({ error: "Corporate action entries can only be changed by reverting the action" }, { status: 400 });
+  }
+  return null;
+}
+
+// GET /api/portfolio/ledger?userId=1[&portfolioId=2][&symbol=AAPL][&history=true][&asOf=YYYY-MM-DD]
+// Ledgers are public, like portfolios, so every position can be audited.
+// Positions are replayed per portfolio and carry the portfolio they are held in.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get("userId") || "", 10);
+    const symbol = searchParams.get("symbol") || undefined;
+    const includeHistory = searchParams.get("history") === "true";
+    const asOf = searchParams.get("asOf") || undefined;
+
+    if (isNaN(userId)) {
+      return NextResponse.json(
+        { error: "Valid User ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = (await resolvePortfolioId(userId, searchParams.get("portfolioId"))) ?? undefined;
+
+    await db.ensureLedgerSeeded(userId);
+    const entries = await db.getLedgerEntries(userId, symbol, portfolioId);
+    const replays = replayPortfolios(entries, asOf);
+
+    return NextResponse.json({
+      entries,
+      positions: Array.from(replays.entries()).flatMap(([id, replay]) =>
+        replay.positions.map(position => ({ ...position, portfolioId: id }))),
+      // Superseded and voided entries, for a full audit trail
+      history: includeHistory ? await db.getLedgerHistory(userId, symbol, portfolioId) : undefined,
+    });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error fetching ledger:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ledger" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST records a new entry (buy, sell, split or transfer), in body.portfolioId or the default portfolio
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    const input = parseEntryInput(body);
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 });
+    }
+    input.portfolioId = (await resolvePortfolioId(user.id, body.portfolioId)) ?? undefined;
+    await checkLeagueTrade(user.id, input as db.LedgerEntryInput);
+
+    const entry = await db.recordLedgerEntry(user.id, input as db.LedgerEntryInput);
+    await invalidatePortfolioCache(user.id);
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    if (error instanceof LedgerError) return ledgerErrorResponse(error);
+    if (error instanceof LeagueError) return leagueErrorResponse(error);
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error recording ledger entry:", error);
+    return NextResponse.json(
+      { error: "Failed to record ledger entry" },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT corrects a past entry; the original is kept and marked as superseded.
+// The correction stays in the entry's portfolio.
+export const PUT = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const entryId = Number(body.entryId);
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    if (!Number.isInteger(entryId)) {
+      return NextResponse.json(
+        { error: "entryId is required" },
+        { status: 400 }
+      );
+    }
+
+    // Only the user's own active entries can be amended
+    const existing = (await db.getLedgerEntries(user.id)).find(entry => entry.id === entryId);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Ledger entry not found" },
+        { status: 404 }
+      );
+    }
+
+    const managed = managedEntryResponse(existing);
+    if (managed) return managed;
+    await checkLeagueCorrection(existing.portfolioId);
+
+    const changes = parseEntryInput(body, existing);
+    if (typeof changes === 'string') {
+      return NextResponse.json({ error: changes }, { status: 400 });
+    }
+
+    const entry = await db.amendLedgerEntry(user.id, entryId, changes);
+    await invalidatePortfolioCache(user.id);
+
+    return NextResponse.json({ entry });
+  } catch (error) {
+    if (error instanceof LedgerError) return ledgerErrorResponse(error);
+    if (error instanceof LeagueError) return leagueErrorResponse(error);
+    console.error("Error amending ledger entry:", error);
+    return NextResponse.json(
+      { error: "Failed to amend ledger entry" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/portfolio/ledger?entryId=1 voids an entry (it stays in the history)
+export const DELETE = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const entryId = Number(searchParams.get("entryId"));
+
+    const forbidden = forbidOtherUser(user, searchParams.get("userId"));
+    if (forbidden) return forbidden;
+
+    if (!Number.isInteger(entryId) || entryId <= 0) {
+      return NextResponse.json(
+        { error: "entryId is required" },
+        { status: 400 }
+      );
+    }
+
+    const existing = (await db.getLedgerEntries(user.id)).find(entry => entry.id === entryId);
+    const managed = existing ? managedEntryResponse(existing) : null;
+    if (managed) return managed;
+    if (existing) await checkLeagueCorrection(existing.portfolioId);
+
+    const voided = await db.voidLedgerEntries(user.id, [entryId]);
+    if (!voided) {
+      return NextResponse.json(
+        { error: "Ledger entry not found" },
+        { status: 404 }
+      );
+    }
+    await invalidatePortfolioCache(user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof LedgerError) return ledgerErrorResponse(error);
+    if (error instanceof LeagueError) return leagueErrorResponse(error);
+    console.error("Error voiding ledger entry:", error);
+    return NextResponse.json(
+      { error: "Failed to void ledger entry" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,156 @@
+import { NextResponse } from "next/server";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import {
+  cancelOrder,
+  listOrders,
+  modifyOrder,
+  OrderError,
+  OrderStatus,
+  parseOrderInput,
+  placeOrder,
+} from "@/lib/orders";
+import { PortfolioError, resolvePortfolioId } from "@/lib/portfolios";
+
+export const dynamic = "force-dynamic";
+
+const ORDER_STATUSES: OrderStatus[] = ["open", "filled", "cancelled", "expired", "rejected"];
+
+// Order errors are orders that cannot be placed or changed as asked
+const orderErrorResponse = (error: OrderError) =>
+  NextResponse.json({ error: error.message }, { status: 400 });
+
+// GET /api/portfolio/orders[?status=open][&portfolioId=2]
+// The logged-in user's orders, newest first
+export const GET = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status") || undefined;
+
+    const forbidden = forbidOtherUser(user, searchParams.get("userId"));
+    if (forbidden) return forbidden;
+
+    if (status !== undefined && !ORDER_STATUSES.includes(status as OrderStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${ORDER_STATUSES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = (await resolvePortfolioId(user.id, searchParams.get("portfolioId"))) ?? undefined;
+    const orders = await listOrders(user.id, status as OrderStatus | undefined, portfolioId);
+
+    return NextResponse.json({ orders });
+  } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error fetching orders:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch orders" },
+      { status: 500 }
+    );
+  }
+});
+
+// POST { symbol, assetType?, side, orderType, quantity, limitPrice?, stopPrice?, trailPercent?, expiresOn?, portfolioId? }
+// places a limit, stop or trailing stop order, in body.portfolioId or the default portfolio
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    const input = parseOrderInput(body);
+    input.portfolioId = (await resolvePortfolioId(user.id, body.portfolioId)) ?? undefined;
+
+    const order = await placeOrder(user.id, input);
+    return NextResponse.json({ order }, { status: 201 });
+  } catch (error) {
+    if (error instanceof OrderError) return orderErrorResponse(error);
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error("Error placing order:", error);
+    return NextResponse.json(
+      { error: "Failed to place order" },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT { orderId, quantity?, limitPrice?, stopPrice?, trailPercent?, expiresOn? } changes an open order
+export const PUT = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+    const orderId = Number(body.orderId);
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    if (!Number.isInteger(orderId) || orderId <= 0) {
+      return NextResponse.json(
+        { error: "orderId is required" },
+        { status: 400 }
+      );
+    }
+
+    const { quantity, limitPrice, stopPrice, trailPercent, expiresOn } = body;
+    const changes = Object.fromEntries(
+      Object.entries({ quantity, limitPrice, stopPrice, trailPercent, expiresOn })
+        .filter(([, value]) => value !== undefined)
+    );
+
+    const order = await modifyOrder(user.id, orderId, changes);
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    if (error instanceof OrderError) return orderErrorResponse(error);
+    console.error("Error changing order:", error);
+    return NextResponse.json(
+      { error: "Failed to change order" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE ?orderId= cancels an open order
+export const DELETE = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const orderId = Number(searchParams.get("orderId"));
+
+    const forbidden = forbidOtherUser(user, searchParams.get("userId"));
+    if (forbidden) return forbidden;
+
+    if (!Number.isInteger(orderId) || orderId <= 0) {
+      return NextResponse.json(
+        { error: "orderId is required" },
+        { status: 400 }
+      );
+    }
+
+    const order = await cancelOrder(user.id, orderId);
+    if (!order) {
+      return NextResponse.json(
+        { error: "Order not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ order });
+  } catch (error) {
+    if (error instanceof OrderError) return orderErrorResponse(error);
+    console.error("Error cancelling order:", error);
+    return NextResponse.json(
+      { error: "Failed to cancel order" },
+      { status: 500 }
+    );
+  }
+});
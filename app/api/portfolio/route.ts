@@ -1,39 +1,52 @@
 import { NextResponse } from "next/server";
-import { createSqlClient } from "@/lib/db";
-import yahooFinance from "yahoo-finance2";
+import { createSqlClient, ensureLedgerSeeded, getLedgerEntries, getRealizedGainTotals, getUserLots } from "@/lib/db";
+import { Lot, replayPortfolios, toDateString } from "@/lib/ledger";
+import { multiply, percentage, subtract, sum, sumProducts } from "@/lib/decimal";
 import { getCachedData, cacheData } from "@/lib/redis";
-import { isCryptoCurrency, getCryptoPrice, getCryptoHistoricalPrice } from '@/lib/crypto-api';
+import { isCryptoCurrency } from '@/lib/crypto-api';
+import { getCashBalance } from '@/lib/cash';
+import { getSplitAdjustments, SplitAdjustment, splitFactor } from '@/lib/corporate-actions';
+import { getDividendTotals } from '@/lib/dividends';
+import { getMarketDataProvider } from '@/lib/market-data';
+import { getClosingPrice } from '@/lib/price-history';
+import { savePortfolioSummary, summarizePortfolio } from '@/lib/portfolio';
+import { isPaperTrading, PortfolioError, resolvePortfolioId } from '@/lib/portfolios';
+import { getSecurities, Security } from '@/lib/securities';
 
-// Define types for our data structures
+// Define types for our data structures.
+// A stock row is one symbol in one portfolio; its lots are the individual purchases
+// still held, and purchasePrice/purchaseDate are the average cost and the oldest open lot.
 type StockRecord = {
   id: number;
+  portfolioId: number;
   symbol: string;
   companyName: string;
   quantity: number;
   purchasePrice: number;
   purchaseDate: string;
+  lots: Lot[];
 };
 
-type EnrichedStock = StockRecord & {
-  currentPrice: number;
+type EnrichedLot = Lot & {
   currentValue: number;
-  historicalPrice: number;
   gain: number;
   gainPercentage: number;
 };
 
-type PortfolioSummary = {
-  totalCurrentValue: number;
-  totalPurchaseValue: number;
-  totalGain: number;
-  totalGainPercentage: number;
-};
-
-// Yahoo Finance quote response type - make properties optional to handle various response formats
-type YahooQuote = {
-  symbol: string;
-  regularMarketPrice?: number;
-  [key: string]: any;
+type EnrichedStock = Omit<StockRecord, 'lots'> & {
+  currentPrice: number;
+  currentValue: number;
+  historicalPrice: number;
+  gain: number;
+  gainPercentage: number;
+  lots: EnrichedLot[];
+  // Every open lot was opened by a market fill (lib/paper-trading.ts)
+  verified: boolean;
+  // Classification from the securities table; null when it is not known
+  assetClass: 'stock' | 'crypto';
+  sector: string | null;
+  industry: string | null;
+  country: string | null;
 };
 
 export async function GET(request: Request) {
@@ -42,6 +55,10 @@ export async function GET(request: Request) {
     const { searchParams } = new URL(request.url);
     const userIdParam = searchParams.get("userId");
     const forceRefresh = searchParams.get("refresh") === "true";
+    // Optional YYYY-MM-DD date to reconstruct the portfolio as it was at the end of that day
+    const asOf = searchParams.get("asOf");
+    // Optional portfolio id; all of the user's portfolios together when not given
+    const portfolioParam = searchParams.get("portfolioId");
 
     if (!userIdParam) {
       return NextResponse.json(
@@ -60,32 +77,77 @@ export async function GET(request: Request) {
       );
     }
 
+    if (asOf && (!/^\d{4}-\d{2}-\d{2}$/.test(asOf) || isNaN(new Date(asOf).getTime()))) {
+      return NextResponse.json(
+        { error: "asOf must be a date in YYYY-MM-DD format" },
+        { status: 400 }
+      );
+    }
+
+    const portfolioId = (await resolvePortfolioId(userId, portfolioParam)) ?? undefined;
+    // A paper-trading portfolio only takes market orders
+    const paperTrading = portfolioId !== undefined && await isPaperTrading(userId, portfolioId);
+
     const sql = createSqlClient();
     
-    // Query to get user's stocks
-    const result = await sql`
-      SELECT 
-        s.id,
-        s.symbol,
-        s.company_name as "companyName",
-        s.quantity,
-        s.purchase_price as "purchasePrice",
-        s.purchase_date as "purchaseDate"
-      FROM user_stocks s
-      WHERE s.user_id = ${userId}
-      ORDER BY s.symbol
-    `;
+    let result: StockRecord[];
+    if (asOf) {
+      // Replay each portfolio's ledger up to the requested date
+      await ensureLedgerSeeded(userId);
+      const replays = replayPortfolios(await getLedgerEntries(userId, undefined, portfolioId), asOf);
+      const positions = Array.from(replays.entries()).flatMap(([id, replay]) =>
+        replay.positions.map(position => ({ portfolioId: id, position })));
+      result = positions.map(({ portfolioId, position }, index) => ({
+        // Past positions have no user_stocks row, so they get a placeholder id
+        id: -(index + 1),
+        portfolioId,
+        symbol: position.symbol,
+        companyName: position.companyName,
+        quantity: position.quantity,
+        purchasePrice: position.averageCost,
+        purchaseDate: position.lots[0]?.acquiredDate || position.openedAt,
+        lots: position.lots,
+      }));
+    } else {
+      // Query to get user's stocks
+      const stocks = await sql`
+        SELECT 
+          s.id,
+          s.portfolio_id as "portfolioId",
+          s.symbol,
+          s.company_name as "companyName",
+          s.quantity,
+          s.purchase_price as "purchasePrice",
+          s.purchase_date as "purchaseDate"
+        FROM user_stocks s
+        WHERE s.user_id = ${userId}
+          AND (${portfolioId ?? null}::int IS NULL OR s.portfolio_id = ${portfolioId ?? null})
+        ORDER BY s.symbol, s.portfolio_id
+      `;
+      
+      // Attach each stock's open lots
+      const lots = await getUserLots(userId, undefined, portfolioId);
+      result = stocks.map((stock: any) => ({
+        ...stock,
+        quantity: Number(stock.quantity),
+        purchasePrice: Number(stock.purchasePrice),
+        lots: lots.filter(lot => lot.symbol === stock.symbol && lot.portfolioId === stock.portfolioId),
+      }));
+    }
+    
+    // Gains already locked in by sales, dividends received and the cash balance (as of asOf for a past portfolio)
+    const realized = await getRealizedGainTotals(userId, asOf || undefined, portfolioId);
+    const dividends = await getDividendTotals(userId, asOf || undefined, portfolioId);
+    const cash = await getCashBalance(userId, asOf || undefined, portfolioId);
     
     // If the user has no stocks, return an empty portfolio
     if (result.length === 0) {
       return NextResponse.json({
         stocks: [],
-        summary: {
-          totalCurrentValue: 0,
-          totalPurchaseValue: 0,
-          totalGain: 0,
-          totalGainPercentage: 0
-        }
+        asOf,
+        portfolioId: portfolioId ?? null,
+        paperTrading,
+        summary: summarizePortfolio(0, 0, realized, dividends.total, cash.balance)
       });
     }
     
@@ -104,8 +166,8 @@ export async function GET(request: Request) {
     let symbolPrices = new Map<string, number>();
     let useCachedData = !forceRefresh;
     
-    // Handle stock prices
-    if (stockSymbols.length > 0) {
+    // Handle stock prices (a past portfolio is valued at that day's close instead)
+    if (stockSymbols.length > 0 && !asOf) {
       const cachedStockPrices = useCachedData ? await getCachedData<Record<string, number>>(stockCacheKey) : null;
       
       // If we have cached prices, use them
@@ -115,29 +177,14 @@ export async function GET(request: Request) {
           symbolPrices.set(symbol, price);
         });
       } else {
-        // If no cached data, fetch from Yahoo Finance
-        console.log('Fetching fresh stock prices from Yahoo Finance');
+        // If no cached data, fetch from the market data provider
+        console.log('Fetching fresh stock prices from the market data provider');
         try {
           // Fetch real-time quotes for all symbols in a single batch request
-          const quotesResponse = await yahooFinance.quote(stockSymbols);
-          
-          // Type-safe processing of Yahoo Finance response
-          // Process a single quote response
-          if (!Array.isArray(quotesResponse)) {
-            const quote = quotesResponse as YahooQuote;
-            if (quote.symbol && quote.regularMarketPrice) {
-              symbolPrices.set(quote.symbol, quote.regularMarketPrice);
-            }
-          } 
-          // Process multiple quotes
-          else {
-            for (const quote of quotesResponse) {
-              const typedQuote = quote as YahooQuote;
-              if (typedQuote.symbol && typedQuote.regularMarketPrice) {
-                symbolPrices.set(typedQuote.symbol, typedQuote.regularMarketPrice);
-              }
-            }
-          }
+          const quotes = await getMarketDataProvider('stock').getQuotes(stockSymbols);
+          quotes.forEach((quote, symbol) => {
+            symbolPrices.set(symbol, quote.price);
+          });
           
           // Cache the prices for 5 minutes (300 seconds) to balance freshness with API rate limits
           if (symbolPrices.size > 0) {
@@ -149,14 +196,14 @@ export async function GET(request: Request) {
             console.log('Cached new stock prices for 5 minutes:', pricesToCache);
           }
         } catch (e) {
-          console.error("Error processing Yahoo Finance quotes:", e);
+          console.error("Error processing stock quotes:", e);
           // Fallback to default prices if there's an error
         }
       }
     }
     
     // Handle cryptocurrency prices
-    if (cryptoSymbols.length > 0) {
+    if (cryptoSymbols.length > 0 && !asOf) {
       const cachedCryptoPrices = useCachedData ? await getCachedData<Record<string, number>>(cryptoCacheKey) : null;
       
       // If we have cached prices, use them
@@ -166,26 +213,19 @@ export async function GET(request: Request) {
           symbolPrices.set(symbol, price);
         });
       } else {
-        // If no cached data, fetch from CoinGecko
-        console.log('Fetching fresh crypto prices from CoinGecko');
+        // If no cached data, fetch from the market data provider
+        console.log('Fetching fresh crypto prices from the market data provider');
         try {
-          // Fetch prices for each crypto
-          const cryptoPrices = await Promise.all(
-            cryptoSymbols.map(async (symbol) => {
-              const price = await getCryptoPrice(symbol);
-              return { symbol, price };
-            })
-          );
+          // Fetch prices for all cryptocurrencies in a single batch request
+          const quotes = await getMarketDataProvider('crypto').getQuotes(cryptoSymbols);
           
           // Add prices to the map and prepare for caching
           const pricesToCache: Record<string, number> = {};
           
-          cryptoPrices.forEach(({ symbol, price }) => {
-            if (price !== null) {
-              symbolPrices.set(symbol, price);
-              pricesToCache[symbol] = price;
-              console.log(`Got price for ${symbol}: ${price}`);
-            }
+          quotes.forEach((quote, symbol) => {
+            symbolPrices.set(symbol, quote.price);
+            pricesToCache[symbol] = quote.price;
+            console.log(`Got price for ${symbol}: ${quote.price}`);
           });
           
           // Cache the prices
@@ -194,7 +234,7 @@ export async function GET(request: Request) {
             console.log('Cached new crypto prices for 5 minutes:', pricesToCache);
           }
         } catch (e) {
-          console.error("Error processing CoinGecko prices:", e);
+          console.error("Error processing crypto prices:", e);
         }
       }
     }
@@ -207,7 +247,18 @@ export async function GET(request: Request) {
       return date > today;
     };
     
-    // Get historical prices for each stock based on purchase date
+    // Price history is adjusted for later splits, while a past portfolio holds the
+    // shares of the day, so its closes are taken back to the prices of the day
+    let splits = new Map<string, SplitAdjustment[]>();
+    if (asOf) {
+      try {
+        splits = await getSplitAdjustments(stockSymbols);
+      } catch (error) {
+        console.error('Error fetching splits:', error);
+      }
+    }
+    
+    // Get the price of a stock on a past date
     const getHistoricalPrice = async (symbol: string, purchaseDate: string): Promise<number | null> => {
       // If the purchase date is in the future, we can't get historical data
       if (isDateInFuture(purchaseDate)) {
@@ -215,22 +266,14 @@ export async function GET(request: Request) {
         return null;
       }
       
-      // If it's a cryptocurrency, use CoinGecko
+      // Cryptocurrencies trade every day, so take that day's close directly
       if (isCryptoCurrency(symbol)) {
-        const purchaseDateObj = new Date(purchaseDate);
-        return getCryptoHistoricalPrice(symbol, purchaseDateObj);
-      }
-      
-      // For stocks, continue with the existing implementation
-      
-      // Create a cache key for this historical price
-      const historicalCacheKey = `yahoo:historical:${symbol}:${purchaseDate}`;
-      
-      // Try to get from cache first
-      const cachedPrice = await getCachedData<number>(historicalCacheKey);
-      if (cachedPrice !== null && !forceRefresh) {
-        console.log(`Using cached historical price for ${symbol} on ${purchaseDate}: ${cachedPrice}`);
-        return cachedPrice;
+        try {
+          return await getClosingPrice(symbol, toDateString(purchaseDate));
+        } catch (error) {
+          console.error(`Error fetching historical price for ${symbol}:`, error);
+          return null;
+        }
       }
       
       // For recently purchased stocks, especially if purchased today,
@@ -254,51 +297,14 @@ export async function GET(request: Request) {
         
         console.log(`Fetching historical price for ${symbol} on ${purchaseDate}`);
         
-        // Parse the purchase date
-        const purchaseDateObj = new Date(purchaseDate);
-        
-        // Check if it's a weekend or holiday and adjust accordingly if needed
-        const dayOfWeek = purchaseDateObj.getDay();
-        if (dayOfWeek === 0 || dayOfWeek === 6) {
-          console.log(`Purchase date for ${symbol} (${purchaseDate}) is a weekend, will try to find nearest trading day`);
-        }
-        
-        // Try to get data for a range around the purchase date to increase chances of finding data
-        // Go back 7 days from the purchase date to find trading data
-        const startDate = new Date(purchaseDateObj);
-        startDate.setDate(startDate.getDate() - 7);
-        
-        // End date is the purchase date plus 1 day (to ensure we include the purchase date itself)
-        const endDate = new Date(purchaseDateObj);
-        endDate.setDate(endDate.getDate() + 1);
-        
         // Use a try/catch block specifically for the historical data request
         try {
-          const historicalData = await yahooFinance.historical(symbol, {
-            period1: startDate,
-            period2: endDate,
-            interval: '1d'
-          });
+          // The close on the purchase date, or the last trading day before it (weekends, holidays)
+          const close = await getClosingPrice(symbol, toDateString(purchaseDate));
           
-          if (historicalData && historicalData.length > 0) {
-            // Find the closest date to the purchase date
-            let closestIndex = 0;
-            let smallestDiff = Infinity;
-            
-            for (let i = 0; i < historicalData.length; i++) {
-              const date = new Date(historicalData[i].date);
-              const diff = Math.abs(date.getTime() - purchaseDateObj.getTime());
-              if (diff < smallestDiff) {
-                smallestDiff = diff;
-                closestIndex = i;
-              }
-            }
-            
-            const price = historicalData[closestIndex].close;
-            console.log(`Found historical price for ${symbol} on ${new Date(historicalData[closestIndex].date).toLocaleDateString()}: ${price}`);
-            
-            // Cache the historical price for 30 days (since it won't change)
-            await cacheData(historicalCacheKey, price, 30 * 24 * 60 * 60);
+          if (close !== null) {
+            const price = multiply(close, splitFactor(splits.get(symbol), toDateString(purchaseDate)));
+            console.log(`Found historical price for ${symbol} on ${purchaseDate}: ${price}`);
             return price;
           }
         } catch (histError: any) {
@@ -313,82 +319,89 @@ export async function GET(request: Request) {
       }
     };
     
+    // Sector, industry and country of each symbol (looked up the first time it is held)
+    let securities = new Map<string, Security>();
+    try {
+      securities = await getSecurities(symbols);
+    } catch (error) {
+      console.error('Error fetching security metadata:', error);
+    }
+    
     // Process all stocks and get their historical prices
-    const portfolioData = await Promise.all(result.map(async (stock: any) => {
-      const currentPrice = symbolPrices.get(stock.symbol) || stock.purchasePrice;
-      const currentValue = stock.quantity * currentPrice;
-      
-      // Try to get the actual historical price for more accurate gain calculation
-      const historicalPrice = await getHistoricalPrice(stock.symbol, stock.purchaseDate);
+    const portfolioData = await Promise.all(result.map(async (stock: StockRecord) => {
+      const currentPrice = asOf
+        ? (await getHistoricalPrice(stock.symbol, asOf)) || stock.purchasePrice
+        : symbolPrices.get(stock.symbol) || stock.purchasePrice;
+      const currentValue = multiply(stock.quantity, currentPrice);
       
-      // If we couldn't get historical price, use the purchase price that was recorded
-      const actualPurchasePrice = stock.purchasePrice; // Always use the recorded purchase price for accuracy
-      const purchaseValue = stock.quantity * actualPurchasePrice;
+      // Always use the recorded purchase price (the ledger's cost, restated by any
+      // splits applied since) rather than a close from the purchase date
+      const actualPurchasePrice = stock.purchasePrice;
+      const purchaseValue = multiply(stock.quantity, actualPurchasePrice);
       
       // Calculate gain/loss based on purchase vs current price
-      const gain = currentValue - purchaseValue;
-      const gainPercentage = ((currentPrice - actualPurchasePrice) / actualPurchasePrice) * 100;
+      const gain = subtract(currentValue, purchaseValue);
+      const gainPercentage = percentage(subtract(currentPrice, actualPurchasePrice), actualPurchasePrice);
       
       console.log(`Stock ${stock.symbol}: Purchase Price: ${actualPurchasePrice}, Current Price: ${currentPrice}, Gain: ${gain}, Gain %: ${gainPercentage}%`);
       
+      // Value each lot at the same current price
+      const lots = stock.lots.map(lot => {
+        const lotValue = multiply(lot.quantity, currentPrice);
+        const lotCost = multiply(lot.quantity, lot.costPerShare);
+        return {
+          ...lot,
+          currentValue: lotValue,
+          gain: subtract(lotValue, lotCost),
+          gainPercentage: percentage(subtract(lotValue, lotCost), lotCost),
+        };
+      });
+      
+      const security = securities.get(stock.symbol);
       return {
         ...stock,
         currentPrice,
         currentValue,
         historicalPrice: actualPurchasePrice,
         gain,
-        gainPercentage
+        gainPercentage,
+        lots,
+        verified: lots.length > 0 && lots.every(lot => lot.verified),
+        assetClass: isCryptoCurrency(stock.symbol) ? 'crypto' : 'stock',
+        sector: security?.sector ?? null,
+        industry: security?.industry ?? null,
+        country: security?.country ?? null
       } as EnrichedStock;
     }));
     
     // Calculate portfolio totals using the historical prices for accuracy
-    const totalCurrentValue = portfolioData.reduce((sum: number, stock: EnrichedStock) => sum + stock.currentValue, 0);
-    const totalPurchaseValue = portfolioData.reduce((sum: number, stock: EnrichedStock) => sum + (stock.quantity * stock.historicalPrice), 0);
-    const totalGain = totalCurrentValue - totalPurchaseValue;
-    const totalGainPercentage = totalPurchaseValue > 0 ? (totalGain / totalPurchaseValue) * 100 : 0;
+    const totalCurrentValue = sum(portfolioData.map((stock: EnrichedStock) => stock.currentValue));
+    const totalPurchaseValue = sumProducts(portfolioData, (stock: EnrichedStock) => stock.quantity, stock => stock.historicalPrice);
+    const summary = summarizePortfolio(totalCurrentValue, totalPurchaseValue, realized, dividends.total, cash.balance);
     
-    console.log(`Portfolio summary: Total Current: ${totalCurrentValue}, Total Purchase: ${totalPurchaseValue}, Total Gain: ${totalGain}`);
+    console.log(`Portfolio summary: Total Current: ${totalCurrentValue}, Total Purchase: ${totalPurchaseValue}, Unrealized: ${summary.unrealizedGain}, Realized: ${summary.realizedGain}, Dividends: ${summary.dividendIncome}, Cash: ${summary.cash}`);
 
-    // Store the portfolio summary in the database
-    try {
-      await sql`
-        INSERT INTO portfolio_summaries (
-          user_id,
-          total_current_value,
-          total_purchase_value,
-          total_gain,
-          total_gain_percentage,
-          last_updated
-        ) VALUES (
-          ${userId},
-          ${totalCurrentValue},
-          ${totalPurchaseValue},
-          ${totalGain},
-          ${totalGainPercentage},
-          NOW()
-        )
-        ON CONFLICT (user_id) DO UPDATE SET
-          total_current_value = EXCLUDED.total_current_value,
-          total_purchase_value = EXCLUDED.total_purchase_value,
-          total_gain = EXCLUDED.total_gain,
-          total_gain_percentage = EXCLUDED.total_gain_percentage,
-          last_updated = EXCLUDED.last_updated
-      `;
-      console.log('Portfolio summary stored in database');
-    } catch (error) {
-      console.error('Error storing portfolio summary:', error);
+    // Store the portfolio summary in the database (only for all of the user's portfolios as they are now)
+    if (!asOf && !portfolioId) {
+      try {
+        await savePortfolioSummary(userId, summary);
+        console.log('Portfolio summary stored in database');
+      } catch (error) {
+        console.error('Error storing portfolio summary:', error);
+      }
     }
     
     return NextResponse.json({
       stocks: portfolioData,
-      summary: {
-        totalCurrentValue,
-        totalPurchaseValue,
-        totalGain,
-        totalGainPercentage
-      }
+      asOf,
+      portfolioId: portfolioId ?? null,
+      paperTrading,
+      summary
     });
   } catch (error) {
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
     console.error("Error fetching portfolio data:", error);
     return NextResponse.json(
       { error: "Failed to fetch portfolio data" },
@@ -0,0 +1,156 @@
+import { NextResponse } from "next/server";
+import * as db from "@/lib/db";
+import * as redis from "@/lib/redis";
+import { LOT_METHODS, LotMethod, LotSelection, LedgerError, toDateString } from "@/lib/ledger";
+import { withAuth, forbidOtherUser, requireStockOwnership } from "@/lib/auth";
+import { parseQuantity, sum } from "@/lib/decimal";
+import { checkLeagueTrade, LeagueError } from "@/lib/leagues";
+import { isPaperTrading } from "@/lib/portfolios";
+import { fillAtMarket, PaperTradeError } from "@/lib/paper-trading";
+
+// POST /api/portfolio/sell
+// Body: { stockId, quantity, price, saleDate?, lotMethod?, lots?: [{ lotId, quantity }], orderType? }
+// With orderType 'market' (always, in a paper-trading portfolio) the sale is
+// filled at the current quote and price and saleDate are ignored
+export const POST = withAuth(async (request, user) => {
+  try {
+    const {
+      stockId,
+      userId: requestedUserId,
+      quantity,
+      price,
+      saleDate,
+      lotMethod = 'fifo',
+      lots,
+      note,
+      orderType,
+    } = await request.json();
+
+    const noPrice = price === undefined || price === null || price === '';
+    if (!stockId || !quantity || (noPrice && orderType !== 'market')) {
+      return NextResponse.json(
+        { message: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    // Only the owner may sell a holding
+    const denied = forbidOtherUser(user, requestedUserId) || await requireStockOwnership(user, stockId);
+    if (denied) return denied;
+    const userId = user.id;
+
+    const qtyNum = parseQuantity(quantity);
+    const requestedPrice = Number(price);
+    if (qtyNum === null || (orderType !== 'market' && !(requestedPrice >= 0))) {
+      return NextResponse.json(
+        { message: "Quantity must be positive and price cannot be negative" },
+        { status: 400 }
+      );
+    }
+
+    const requestedDate = saleDate ? new Date(saleDate) : new Date();
+    if (isNaN(requestedDate.getTime()) || requestedDate > new Date()) {
+      return NextResponse.json(
+        { message: "Sale date must be a valid date that is not in the future" },
+        { status: 400 }
+      );
+    }
+
+    if (!LOT_METHODS.includes(lotMethod)) {
+      return NextResponse.json(
+        { message: `lotMethod must be one of ${LOT_METHODS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    let lotSelections: LotSelection[] | null = null;
+    if (lotMethod === 'specific') {
+      if (!Array.isArray(lots) || lots.length === 0) {
+        return NextResponse.json(
+          { message: "Choose at least one lot to sell from" },
+          { status: 400 }
+        );
+      }
+      lotSelections = lots.map((lot: any) => ({
+        lotId: Number(lot.lotId),
+        quantity: parseQuantity(lot.quantity) ?? 0,
+      }));
+      if (lotSelections.some(lot => !Number.isInteger(lot.lotId) || !(lot.quantity > 0))) {
+        return NextResponse.json(
+          { message: "Each lot needs a lotId and a positive quantity" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The sale comes out of the portfolio the holding is in
+    const holding = await db.getHolding(Number(stockId), userId);
+    if (!holding) {
+      return NextResponse.json(
+        { message: "Stock not found" },
+        { status: 404 }
+      );
+    }
+
+    // Market orders, and every order in a paper-trading portfolio, are filled at the
+    // current quote
+    const isMarketOrder = orderType === 'market' || await isPaperTrading(userId, holding.portfolioId);
+    const fill = isMarketOrder ? await fillAtMarket(holding.symbol) : null;
+    const priceNum = fill ? fill.price : requestedPrice;
+    const tradeDate = fill ? fill.tradeDate : toDateString(requestedDate);
+
+    await checkLeagueTrade(userId, {
+      portfolioId: holding.portfolioId,
+      symbol: holding.symbol,
+      entryType: 'sell',
+      quantity: qtyNum,
+      price: priceNum,
+      tradeDate,
+      executedAt: fill?.executedAt ?? null,
+    });
+
+    const { entry, realizedGains } = await db.sellStock(userId, {
+      portfolioId: holding.portfolioId,
+      symbol: holding.symbol,
+      quantity: qtyNum,
+      price: priceNum,
+      tradeDate,
+      lotMethod: lotMethod as LotMethod,
+      lotSelections,
+      note,
+      executedAt: fill?.executedAt ?? null,
+    });
+
+    // Clear the user's portfolio cache to ensure fresh data on next fetch
+    const redisClient = await redis.getRedisClient();
+    if (redisClient) {
+      await redisClient.del(`portfolio:${userId}`);
+    }
+
+    return NextResponse.json({
+      message: "Sale recorded successfully",
+      entry,
+      realizedGains,
+      realizedGain: sum(realizedGains.map(gain => gain.gain)),
+      fill,
+    });
+  } catch (error) {
+    // Sales the ledger can't apply, e.g. selling more than was held on that date
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ message: error.message }, { status: 409 });
+    }
+    // Sales the rules of a league portfolio do not allow
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ message: error.message }, { status: 400 });
+    }
+    // No quote to fill a market order at
+    if (error instanceof PaperTradeError) {
+      return NextResponse.json({ message: error.message }, { status: 503 });
+    }
+    console.error("Error selling stock:", error);
+    return NextResponse.json(
+      { message: "Failed to record sale" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,7 +1,10 @@
 import { NextResponse } from 'next/server';
-import { sql } from '@vercel/postgres';
+import { getHolding, removeHolding } from '@/lib/db';
+import { checkLeagueCorrection, LeagueError } from '@/lib/leagues';
+import { LedgerError } from '@/lib/ledger';
+import { withAuth, requireStockOwnership } from '@/lib/auth';
 
-export async function DELETE(request: Request) {
+export const DELETE = withAuth(async (request, user) => {
   try {
     // Get the stock ID from the query parameters
     const { searchParams } = new URL(request.url);
@@ -14,42 +17,39 @@ export async function DELETE(request: Request) {
       );
     }
 
-    // Delete the stock from user_stocks table
-    const result = await sql`
-      DELETE FROM user_stocks 
-      WHERE id = ${id}
-      RETURNING id
-    `;
+    // Only the owner may delete a holding
+    const denied = await requireStockOwnership(user, id);
+    if (denied) return denied;
+
+    const holding = await getHolding(Number(id), user.id);
+    if (holding) await checkLeagueCorrection(holding.portfolioId);
+
+    // Void the holding's ledger entries; the audit history is kept
+    const removed = await removeHolding(Number(id), user.id);
     
-    // Check if any rows were affected
-    if (result.rowCount === 0) {
+    if (!removed) {
       return NextResponse.json(
         { error: "Stock not found" },
         { status: 404 }
       );
     }
     
-    // Try to delete from transaction history if it exists
-    try {
-      await sql`
-        DELETE FROM transactions
-        WHERE id = ${id}
-      `;
-    } catch (err) {
-      // Ignore errors here, it's optional and we don't want to fail the whole request
-      console.warn('Could not delete transaction record:', err);
-    }
-    
     return NextResponse.json({ 
       success: true,
       message: "Stock deleted successfully",
       deletedId: id
     });
   } catch (error) {
+    if (error instanceof LedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    if (error instanceof LeagueError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error("Error deleting stock:", error);
     return NextResponse.json(
       { error: "Failed to delete stock" },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
+import {
+  createPortfolio,
+  deletePortfolio,
+  getLeaderboardPortfolioId,
+  listPortfolios,
+  PortfolioError,
+  renamePortfolio,
+  resolvePortfolioId,
+  setLeaderboardPortfolioId,
+} from "@/lib/portfolios";
+
+export const dynamic = "force-dynamic";
+
+// Portfolio errors are bad names or ids, which the request can fix
+const portfolioErrorResponse = (error: PortfolioError) =>
+  NextResponse.json({ error: error.message }, { status: 400 });
+
+// GET /api/portfolios?userId=1
+// A user's portfolios and the one they are ranked by on the leaderboard (null for all of them)
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const userId = parseInt(searchParams.get("userId") || "", 10);
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: "User ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const [portfolios, leaderboardPortfolioId] = await Promise.all([
+      listPortfolios(userId),
+      getLeaderboardPortfolioId(userId),
+    ]);
+
+    return NextResponse.json({ userId: String(userId), portfolios, leaderboardPortfolioId });
+  } catch (error) {
+    console.error("Error fetching portfolios:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch portfolios" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { name, paperTrading? } creates a portfolio; a paper-trading one only
+// takes market orders, paid for from its cash
+export const POST = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    const portfolio = await createPortfolio(user.id, body.name, body.paperTrading === true);
+    return NextResponse.json({ portfolio }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PortfolioError) return portfolioErrorResponse(error);
+    console.error("Error creating portfolio:", error);
+    return NextResponse.json(
+      { error: "Failed to create portfolio" },
+      { status: 500 }
+    );
+  }
+});
+
+// PUT { portfolioId, name } renames a portfolio, and
+// PUT { leaderboardPortfolioId } chooses the one the user is ranked by (null for all of them)
+export const PUT = withAuth(async (request, user) => {
+  try {
+    const body = await request.json();
+
+    const forbidden = forbidOtherUser(user, body.userId);
+    if (forbidden) return forbidden;
+
+    if (body.leaderboardPortfolioId !== undefined) {
+      const portfolioId = await resolvePortfolioId(user.id, body.leaderboardPortfolioId);
+      await setLeaderboardPortfolioId(user.id, portfolioId);
+      // The leaderboard ranks the user by the new choice from its next rebuild
+      return NextResponse.json({ leaderboardPortfolioId: portfolioId });
+    }
+
+    const portfolioId = Number(body.portfolioId);
+    if (!Number.isInteger(portfolioId) || portfolioId <= 0) {
+      return NextResponse.json(
+        { error: "portfolioId or leaderboardPortfolioId is required" },
+        { status: 400 }
+      );
+    }
+
+    const portfolio = await renamePortfolio(user.id, portfolioId, body.name);
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: "Portfolio not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ portfolio });
+  } catch (error) {
+    if (error instanceof PortfolioError) return portfolioErrorResponse(error);
+    console.error("Error updating portfolio:", error);
+    return NextResponse.json(
+      { error: "Failed to update portfolio" },
+      { status: 500 }
+    );
+  }
+});
+
+// DELETE /api/portfolios?portfolioId=2 deletes a portfolio that has no trades
+export const DELETE = withAuth(async (request, user) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const portfolioId = Number(searchParams.get("portfolioId"));
+
+    if (!Number.isInteger(portfolioId) || portfolioId <= 0) {
+      return NextResponse.json(
+        { error: "portfolioId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deletePortfolio(user.id, portfolioId))) {
+      return NextResponse.json(
+        { error: "Portfolio not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    // The default portfolio, or one with trades
+    if (error instanceof PortfolioError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error deleting portfolio:", error);
+    return NextResponse.json(
+      { error: "Failed to delete portfolio" },
+      { status: 500 }
+    );
+  }
+});
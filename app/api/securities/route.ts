@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { getSecurities, listSecurities } from "@/lib/securities";
+
+export const dynamic = "force-dynamic";
+
+// Name and classification of symbols: ?symbols=AAPL,MSFT,@btc, or every known
+// security in one sector with ?sector=Technology
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const symbols = (searchParams.get("symbols") || "")
+      .split(",")
+      .map(symbol => symbol.trim())
+      .filter(Boolean);
+    const sector = searchParams.get("sector");
+
+    if (sector) {
+      return NextResponse.json({ securities: await listSecurities(sector) });
+    }
+
+    if (symbols.length === 0) {
+      return NextResponse.json(
+        { error: "symbols or sector is required" },
+        { status: 400 }
+      );
+    }
+
+    if (symbols.length > 100) {
+      return NextResponse.json(
+        { error: "At most 100 symbols can be looked up at once" },
+        { status: 400 }
+      );
+    }
+
+    const securities = await getSecurities(symbols);
+    return NextResponse.json({ securities: Array.from(securities.values()) });
+  } catch (error) {
+    console.error("Error fetching securities:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch securities" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
-import yahooFinance from "yahoo-finance2";
+import { toDateString } from "@/lib/ledger";
+import { BAR_INTERVALS, BarInterval } from "@/lib/market-data";
+import { getPriceBars } from "@/lib/price-history";
 
 export async function GET(request: Request) {
   try {
@@ -18,33 +20,27 @@ export async function GET(request: Request) {
     }
     
     // Validate interval (1d, 1wk, 1mo are common values)
-    const validIntervals = ['1d', '1wk', '1mo'];
-    if (!validIntervals.includes(interval)) {
+    if (!BAR_INTERVALS.includes(interval as BarInterval)) {
       return NextResponse.json(
         { error: 'Invalid interval. Use 1d, 1wk, or 1mo' },
         { status: 400 }
       );
     }
     
-    // Fetch historical data from Yahoo Finance
-    const queryOptions = {
-      period1: period1,
-      period2: period2,
-      interval: interval as '1d' | '1wk' | '1mo'
-    };
-    
-    const result = await yahooFinance.historical(symbol.toUpperCase(), queryOptions);
+    if (isNaN(Date.parse(period1)) || isNaN(Date.parse(period2))) {
+      return NextResponse.json(
+        { error: 'Invalid period. Use YYYY-MM-DD dates' },
+        { status: 400 }
+      );
+    }
     
-    // Format the response to a more convenient structure
-    const formattedData = result.map(item => ({
-      date: item.date.toISOString().split('T')[0],
-      open: item.open,
-      high: item.high,
-      low: item.low,
-      close: item.close,
-      volume: item.volume,
-      adjClose: item.adjClose
-    }));
+    // Read the bars from the stored price history; missing days come from the provider
+    const formattedData = await getPriceBars(
+      symbol.toUpperCase(),
+      toDateString(period1),
+      toDateString(period2),
+      interval as BarInterval
+    );
     
     return NextResponse.json({
       symbol: symbol.toUpperCase(),
@@ -56,14 +52,6 @@ export async function GET(request: Request) {
   } catch (error) {
     console.error('Error getting historical stock data:', error);
     
-    // Check if it's a "symbol not found" error
-    if (error instanceof Error && error.message.includes("Not Found")) {
-      return NextResponse.json(
-        { error: 'Stock symbol not found' },
-        { status: 404 }
-      );
-    }
-    
     return NextResponse.json(
       { error: 'Failed to get historical stock data' },
       { status: 500 }
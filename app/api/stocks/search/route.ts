@@ -1,19 +1,5 @@
 import { NextResponse } from "next/server";
-import yahooFinance from "yahoo-finance2";
-
-// Define types for the Yahoo Finance search results
-type YahooSearchResultQuote = {
-  exchange?: string;
-  shortname?: string;
-  longname?: string;
-  quoteType?: string;
-  symbol?: string;
-  index?: string;
-  score?: number;
-  typeDisp?: string;
-  isYahooFinance?: boolean;
-  name?: string;
-};
+import { getMarketDataProvider } from "@/lib/market-data";
 
 export async function GET(request: Request) {
   try {
@@ -28,19 +14,14 @@ export async function GET(request: Request) {
       );
     }
     
-    // Use the search module from Yahoo Finance
-    const result = await yahooFinance.search(query);
-    
-    // Filter out results that aren't quotes (stocks, ETFs)
-    const stockResults = result.quotes
-      .filter((item: YahooSearchResultQuote) => 
-        item.quoteType === 'EQUITY' || item.quoteType === 'ETF')
-      .map((item: YahooSearchResultQuote) => ({
-        symbol: item.symbol || '',
-        name: item.shortname || item.longname || item.name || item.symbol || '',
-        exchange: item.exchange || '',
-        quoteType: item.quoteType || item.typeDisp || ''
-      }));
+    // The stock provider only returns stocks and ETFs
+    const results = await getMarketDataProvider('stock').search(query);
+    const stockResults = results.map(({ symbol, name, exchange, quoteType }) => ({
+      symbol,
+      name,
+      exchange,
+      quoteType
+    }));
     
     // If no results, return a 404
     if (stockResults.length === 0) {
@@ -1,133 +1,43 @@
 import { NextResponse } from "next/server";
-import { getRedisClient, cacheData, getCachedData } from '@/lib/redis';
+import { cacheData, getCachedData } from '@/lib/redis';
 import { createSqlClient } from "@/lib/db";
 
 // Cache key for transactions
 const CACHE_KEY = "transactions:recent";
 const CACHE_EXPIRY = 60 * 5; // 5 minutes in seconds
 
-// Ensure transactions table exists
-async function ensureTransactionsTable() {
-  const sql = createSqlClient();
-  
-  try {
-    // Check if table exists
-    const tableExists = await sql`
-      SELECT EXISTS (
-        SELECT FROM information_schema.tables 
-        WHERE table_name = 'transactions'
-      );
-    `;
-    
-    if (!tableExists[0]?.exists) {
-      console.log("Creating transactions table...");
-      
-      // Create transactions table
-      await sql`
-        CREATE TABLE IF NOT EXISTS transactions (
-          id SERIAL PRIMARY KEY,
-          user_id INTEGER NOT NULL,
-          symbol VARCHAR(10) NOT NULL,
-          quantity INTEGER NOT NULL,
-          price NUMERIC(10, 2) NOT NULL,
-          type VARCHAR(4) NOT NULL CHECK (type IN ('buy', 'sell')),
-          created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-        );
-      `;
-      
-      // Seed with some initial data
-      await seedTransactionsData();
-    }
-    
-    return true;
-  } catch (error) {
-    console.error("Error ensuring transactions table:", error);
-    return false;
-  }
-}
-
-// Seed transactions table with initial data
-async function seedTransactionsData() {
-  const sql = createSqlClient();
-  
-  try {
-    console.log("Seeding transactions table with initial data...");
-    
-    // Get existing users
-    const users = await sql`SELECT id, username FROM users LIMIT 10`;
-    
-    if (users.length === 0) {
-      console.log("No users found to seed transactions");
-      return;
-    }
-    
-    // Symbols to use for transactions
-    const symbols = ["AAPL", "MSFT", "GOOGL", "AMZN", "META", "TSLA", "NVDA", "JPM", "BAC", "GS"];
-    
-    // Generate 50 random transactions
-    const transactions = [];
-    
-    for (let i = 0; i < 50; i++) {
-      const user = users[Math.floor(Math.random() * users.length)];
-      const symbol = symbols[Math.floor(Math.random() * symbols.length)];
-      const type = Math.random() > 0.5 ? 'buy' : 'sell';
-      const quantity = Math.floor(Math.random() * 5) + 1;
-      const price = parseFloat((Math.random() * 500 + 50).toFixed(2));
-      
-      // Generate a random date within the last 30 days
-      const date = new Date();
-      date.setDate(date.getDate() - Math.floor(Math.random() * 30));
-      
-      transactions.push({
-        user_id: user.id,
-        symbol,
-        quantity,
-        price,
-        type,
-        created_at: date.toISOString()
-      });
-    }
-    
-    // Insert transactions in batches
-    for (const transaction of transactions) {
-      await sql`
-        INSERT INTO transactions (user_id, symbol, quantity, price, type, created_at)
-        VALUES (${transaction.user_id}, ${transaction.symbol}, ${transaction.quantity}, ${transaction.price}, ${transaction.type}, ${transaction.created_at})
-      `;
-    }
-    
-    console.log(`Seeded ${transactions.length} transactions`);
-  } catch (error) {
-    console.error("Error seeding transactions data:", error);
-  }
-}
-
 export async function GET(request: Request) {
   try {
-    // Ensure transactions table exists
-    await ensureTransactionsTable();
-    
     // Check if we have cached data
     const cachedTransactions = await getCachedData<any[]>(CACHE_KEY);
     if (cachedTransactions) {
       return NextResponse.json(cachedTransactions);
     }
 
-    // If no cached data, fetch from database
+    // If no cached data, read recent buys and sells from the ledger.
+    // Corrected and voided trades are left out. Market fills carry executedAt,
+    // and fills of pending orders also carry the order's type.
     const sql = createSqlClient();
     const transactions = await sql`
       SELECT 
-        t.id,
-        t.user_id as "userId",
+        e.id,
+        e.user_id as "userId",
         u.username as "userName",
-        t.symbol,
-        t.quantity,
-        t.price,
-        t.type,
-        t.created_at as "date"
-      FROM transactions t
-      JOIN users u ON t.user_id = u.id
-      ORDER BY t.created_at DESC
+        e.symbol,
+        e.quantity::float as quantity,
+        e.price::float as price,
+        e.entry_type as type,
+        e.trade_date as "date",
+        e.executed_at as "executedAt",
+        o.order_type as "orderType"
+      FROM ledger_entries e
+      JOIN users u ON e.user_id = u.id
+      LEFT JOIN orders o ON o.ledger_entry_id = e.id
+      WHERE e.entry_type IN ('buy', 'sell')
+        AND NOT EXISTS (
+          SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = e.id
+        )
+      ORDER BY e.trade_date DESC, e.id DESC
       LIMIT 50
     `;
 
@@ -1,22 +1,25 @@
-import { NextRequest, NextResponse } from "next/server";
-import { updateUserAvatar, ensureAvatarColumn } from "@/lib/db";
+import { NextResponse } from "next/server";
+import { updateUserAvatar } from "@/lib/db";
+import { withAuth, forbidOtherUser } from "@/lib/auth";
 
 // Add this to prevent static generation of this API route
 export const dynamic = 'force-dynamic';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth(async (request, sessionUser) => {
   try {
-    const { userId, avatarUrl } = await request.json();
+    const { userId: requestedUserId, avatarUrl } = await request.json();
     
-    if (!userId || !avatarUrl) {
+    if (!avatarUrl) {
       return NextResponse.json(
-        { success: false, message: "User ID and avatar URL are required" },
+        { success: false, message: "Avatar URL is required" },
         { status: 400 }
       );
     }
 
-    // Ensure the avatar column exists
-    await ensureAvatarColumn();
+    // Users can only change their own avatar
+    const forbidden = forbidOtherUser(sessionUser, requestedUserId);
+    if (forbidden) return forbidden;
+    const userId = sessionUser.id;
 
     const user = await updateUserAvatar(userId, avatarUrl);
     
@@ -42,4 +45,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+});
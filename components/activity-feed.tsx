@@ -16,6 +16,23 @@ type Transaction = {
   price: number;
   type: "buy" | "sell";
   date: string;
+  // Set when the trade was filled at the market price
+  executedAt?: string | null;
+  // Set when the fill came from a pending order
+  orderType?: "limit" | "stop" | "trailing_stop" | null;
+};
+
+const ORDER_TYPE_LABELS = {
+  limit: "Limit order",
+  stop: "Stop order",
+  trailing_stop: "Trailing stop",
+};
+
+// How the trade was placed, for fills; null for manually entered trades
+const describeFill = (transaction: Transaction) => {
+  if (transaction.orderType) return `${ORDER_TYPE_LABELS[transaction.orderType]} filled`;
+  if (transaction.executedAt) return "Market order";
+  return null;
 };
 
 export function ActivityFeed() {
@@ -191,6 +208,7 @@ export function ActivityFeed() {
                     </h3>
                     <p className="text-xs text-muted-foreground">
                       {transaction.userName} • {transaction.quantity} {transaction.quantity > 1 ? "shares" : "share"} at ${formatPrice(transaction.price)}
+                      {describeFill(transaction) && ` • ${describeFill(transaction)}`}
                     </p>
                   </div>
                 </div>
@@ -12,6 +12,13 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useAuth } from "@/lib/auth-context";
 import { toast } from "@/components/ui/use-toast";
 import { Loader2 } from "lucide-react";
@@ -20,6 +27,10 @@ type CryptoDialogProps = {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onCryptoAdded: () => void;
+  // The portfolio to add to; the default one when not given
+  portfolioId?: number | null;
+  // A paper-trading portfolio only takes market orders
+  paperTrading?: boolean;
 };
 
 type CryptoDetails = {
@@ -30,11 +41,12 @@ type CryptoDetails = {
   currentPrice?: number;
 };
 
-export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded }: CryptoDialogProps) {
+export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded, portfolioId, paperTrading = false }: CryptoDialogProps) {
   const { user } = useAuth();
   const [symbol, setSymbol] = useState("");
   const [quantity, setQuantity] = useState("");
   const [purchasePrice, setPurchasePrice] = useState("");
+  const [orderType, setOrderType] = useState<"market" | "manual">("manual");
   const [loading, setLoading] = useState(false);
   const [searchResults, setSearchResults] = useState<CryptoDetails[]>([]);
   const [searching, setSearching] = useState(false);
@@ -117,6 +129,9 @@ export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded }: CryptoDia
     setSearchResults([]);
   };
 
+  // Market orders are filled at the current price by the server
+  const isMarketOrder = paperTrading || orderType === "market";
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user || !selectedCrypto) return;
@@ -132,18 +147,23 @@ export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded }: CryptoDia
           userId: user.id,
           symbol: selectedCrypto.symbol,
           quantity: parseFloat(quantity),
-          purchasePrice: parseFloat(purchasePrice),
-          assetType: 'crypto'
+          purchasePrice: isMarketOrder ? undefined : parseFloat(purchasePrice),
+          assetType: 'crypto',
+          portfolioId,
+          orderType: isMarketOrder ? 'market' : undefined,
         }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error('Failed to add crypto');
+        throw new Error(data.error || 'Failed to add crypto');
       }
 
       toast({
         title: "Success",
-        description: `${selectedCrypto.name} added to your portfolio`,
+        description: data.fill
+          ? `${selectedCrypto.name} bought at ${formatCurrency(data.fill.price)}`
+          : `${selectedCrypto.name} added to your portfolio`,
       });
 
       // Reset form and close dialog
@@ -157,7 +177,7 @@ export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded }: CryptoDia
       console.error('Error adding crypto:', error);
       toast({
         title: "Error",
-        description: "Failed to add cryptocurrency to portfolio",
+        description: error instanceof Error ? error.message : "Failed to add cryptocurrency to portfolio",
         variant: "destructive",
       });
     } finally {
@@ -252,17 +272,37 @@ export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded }: CryptoDia
               placeholder="Enter quantity"
             />
           </div>
-          <div className="space-y-2">
-            <Label htmlFor="purchasePrice">Purchase Price (USD)</Label>
-            <Input
-              id="purchasePrice"
-              type="number"
-              step="any"
-              value={purchasePrice}
-              onChange={(e) => setPurchasePrice(e.target.value)}
-              placeholder="Enter purchase price"
-            />
-          </div>
+          {paperTrading ? (
+            <p className="text-sm text-muted-foreground">
+              This is a paper-trading portfolio: the order is filled at the current price, paid from its cash.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <Label>Order type</Label>
+              <Select value={orderType} onValueChange={(value) => setOrderType(value as "market" | "manual")}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="manual">Enter purchase price</SelectItem>
+                  <SelectItem value="market">Market order (verified)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {!isMarketOrder && (
+            <div className="space-y-2">
+              <Label htmlFor="purchasePrice">Purchase Price (USD)</Label>
+              <Input
+                id="purchasePrice"
+                type="number"
+                step="any"
+                value={purchasePrice}
+                onChange={(e) => setPurchasePrice(e.target.value)}
+                placeholder="Enter purchase price"
+              />
+            </div>
+          )}
           <div className="flex justify-end gap-2">
             <Button
               type="button"
@@ -273,7 +313,7 @@ export function AddCryptoDialog({ open, onOpenChange, onCryptoAdded }: CryptoDia
             </Button>
             <Button
               type="submit"
-              disabled={loading || !selectedCrypto || !quantity || !purchasePrice}
+              disabled={loading || !selectedCrypto || !quantity || (!isMarketOrder && !purchasePrice)}
             >
               {loading ? (
                 <>
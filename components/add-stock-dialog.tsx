@@ -21,7 +21,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Slider } from "@/components/ui/slider";
 import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Loader2 } from "lucide-react";
+import { divide, multiply } from "@/lib/decimal";
 
 // Stock type definition
 type Stock = {
@@ -39,13 +47,13 @@ type Stock = {
 const popularSymbols = ["AAPL", "MSFT", "NVDA", "TSLA", "AMZN", "GOOGL", "META", "AMD"];
 // Trending stocks (will be fetched from API)
 const trendingSymbols = ["NVDA", "META", "MSFT"];
-// Sectors for browsing
+// Sectors for browsing; these are the names the securities table uses
 const sectors = [
   "Technology",
   "Consumer Cyclical",
-  "Communication",
+  "Communication Services",
   "Healthcare",
-  "Financial",
+  "Financial Services",
   "Energy",
   "Utilities",
   "Real Estate",
@@ -55,12 +63,18 @@ type AddStockDialogProps = {
   open?: boolean;
   onOpenChange?: (open: boolean) => void;
   onStockAdded?: () => void;
+  // The portfolio to add to; the default one when not given
+  portfolioId?: number | null;
+  // A paper-trading portfolio only takes market orders
+  paperTrading?: boolean;
 };
 
 export function AddStockDialog({
   open,
   onOpenChange,
   onStockAdded,
+  portfolioId,
+  paperTrading = false,
 }: AddStockDialogProps) {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -75,6 +89,7 @@ export function AddStockDialog({
   const [trendingStocks, setTrendingStocks] = useState<Stock[]>([]);
   const [filteredStocks, setFilteredStocks] = useState<Stock[]>([]);
   const [purchaseDate, setPurchaseDate] = useState(new Date().toISOString().split("T")[0]);
+  const [orderType, setOrderType] = useState<"market" | "manual">("manual");
   const [portfolioValue, setPortfolioValue] = useState(0);
   const [searchResults, setSearchResults] = useState<Stock[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -213,9 +228,15 @@ export function AddStockDialog({
     
     setIsSearching(true);
     try {
-      const response = await fetch(`/api/stocks/search?query=${encodeURIComponent(query)}`);
+      // A sector name lists the classified stocks in that sector instead of searching by name
+      const isSector = sectors.includes(query);
+      const response = isSector
+        ? await fetch(`/api/securities?sector=${encodeURIComponent(query)}`)
+        : await fetch(`/api/stocks/search?query=${encodeURIComponent(query)}`);
       if (response.ok) {
-        const data = await response.json();
+        const data = isSector
+          ? (await response.json()).securities.filter((security: any) => security.assetClass === "stock")
+          : await response.json();
         
         // Fetch prices for search results
         const stocksWithPrices = await Promise.all(
@@ -226,7 +247,7 @@ export function AddStockDialog({
                 const priceData = await priceResponse.json();
                 return {
                   symbol: stock.symbol,
-                  name: stock.name,
+                  name: stock.name || stock.symbol,
                   price: priceData.price || 0,
                   change: priceData.change || 0,
                   changePercent: priceData.changePercent || 0,
@@ -307,10 +328,10 @@ export function AddStockDialog({
 
   // Handle shares change
   const handleSharesChange = (newShares: number) => {
-    if (newShares >= 1) {
+    if (newShares > 0) {
       setShares(newShares);
       if (selectedStock) {
-        setInvestmentAmount(selectedStock.price * newShares);
+        setInvestmentAmount(multiply(selectedStock.price, newShares));
       }
     }
   };
@@ -321,7 +342,8 @@ export function AddStockDialog({
     if (!isNaN(numAmount) && numAmount >= 0) {
       setInvestmentAmount(numAmount);
       if (selectedStock) {
-        setShares(Math.max(1, Math.floor(numAmount / selectedStock.price)));
+        // Buying by amount gives fractional shares
+        setShares(Number(divide(numAmount, selectedStock.price).toFixed(6)));
       }
     }
   };
@@ -356,6 +378,9 @@ export function AddStockDialog({
     return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
   };
 
+  // Market orders are filled at the current price by the server
+  const isMarketOrder = paperTrading || orderType === "market";
+
   // Add stock to portfolio
   const addStockToPortfolio = async () => {
     if (!user || !selectedStock) return;
@@ -374,18 +399,23 @@ export function AddStockDialog({
           symbol: selectedStock.symbol,
           companyName: selectedStock.name,
           quantity: shares,
-          purchasePrice: selectedStock.price,
-          purchaseDate: purchaseDate,
+          purchasePrice: isMarketOrder ? undefined : selectedStock.price,
+          purchaseDate: isMarketOrder ? undefined : purchaseDate,
+          portfolioId,
+          orderType: isMarketOrder ? "market" : undefined,
         }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        throw new Error("Failed to add stock to portfolio");
+        throw new Error(data.error || "Failed to add stock to portfolio");
       }
 
       toast({
         title: "Success",
-        description: `${shares} shares of ${selectedStock.symbol} added to your portfolio.`,
+        description: data.fill
+          ? `${shares} shares of ${selectedStock.symbol} bought at ${formatCurrency(data.fill.price)}.`
+          : `${shares} shares of ${selectedStock.symbol} added to your portfolio.`,
       });
 
       // Reset form
@@ -407,7 +437,7 @@ export function AddStockDialog({
       console.error("Error adding stock:", error);
       toast({
         title: "Error",
-        description: "Failed to add stock to your portfolio. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to add stock to your portfolio. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -651,22 +681,45 @@ export function AddStockDialog({
                 </div>
               </div>
 
-              <div>
-                <label htmlFor="purchaseDate" className="text-sm font-medium block mb-2">
-                  Purchase Date
-                </label>
-                <div className="relative">
-                  <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
-                  <Input
-                    id="purchaseDate"
-                    type="date"
-                    className="pl-9"
-                    value={purchaseDate}
-                    onChange={(e) => handlePurchaseDateChange(e.target.value)}
-                    max={new Date().toISOString().split("T")[0]}
-                  />
+              {paperTrading ? (
+                <p className="text-sm text-muted-foreground">
+                  This is a paper-trading portfolio: the order is filled at the current price, paid from its cash.
+                </p>
+              ) : (
+                <div>
+                  <label className="text-sm font-medium block mb-2">
+                    Order Type
+                  </label>
+                  <Select value={orderType} onValueChange={(value) => setOrderType(value as "market" | "manual")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="manual">Enter purchase date</SelectItem>
+                      <SelectItem value="market">Market order (verified)</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
+              )}
+
+              {!isMarketOrder && (
+                <div>
+                  <label htmlFor="purchaseDate" className="text-sm font-medium block mb-2">
+                    Purchase Date
+                  </label>
+                  <div className="relative">
+                    <Calendar className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                    <Input
+                      id="purchaseDate"
+                      type="date"
+                      className="pl-9"
+                      value={purchaseDate}
+                      onChange={(e) => handlePurchaseDateChange(e.target.value)}
+                      max={new Date().toISOString().split("T")[0]}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             <div className="bg-muted p-4 rounded-lg mb-6">
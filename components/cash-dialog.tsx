@@ -0,0 +1,159 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+type TransferType = "deposit" | "withdrawal";
+
+type CashDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  balance: number;
+  onCashChanged: () => void;
+  // The portfolio to move cash in or out of; the default one when not given
+  portfolioId?: number | null;
+};
+
+export function CashDialog({
+  open,
+  onOpenChange,
+  balance,
+  onCashChanged,
+  portfolioId,
+}: CashDialogProps) {
+  const { user } = useAuth();
+  const [type, setType] = useState<TransferType>("deposit");
+  const [amount, setAmount] = useState("");
+  const [date, setDate] = useState(new Date().toISOString().split("T")[0]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const value = parseFloat(amount);
+
+    // Form validation
+    if (!value || !date) {
+      setError("All fields are required");
+      return;
+    }
+    if (type === "withdrawal" && value > balance) {
+      setError(`You only have ${formatCurrency(balance)} in cash`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+
+      const response = await fetch(`/api/portfolio/cash`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: user.id, type, amount: value, date, portfolioId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to record cash transfer");
+      }
+
+      toast({
+        title: type === "deposit" ? "Deposit Recorded" : "Withdrawal Recorded",
+        description: `Cash balance is now ${formatCurrency(data.balance)}`,
+      });
+
+      setAmount("");
+      onOpenChange(false);
+      onCashChanged();
+    } catch (err) {
+      console.error("Failed to record cash transfer:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Cash - {formatCurrency(balance)}</DialogTitle>
+          <DialogDescription>
+            Move money in or out. Buys are paid for from the cash balance and sales are credited to it.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="transferType">Type</Label>
+              <Select value={type} onValueChange={(value) => setType(value as TransferType)}>
+                <SelectTrigger id="transferType">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deposit">Deposit</SelectItem>
+                  <SelectItem value="withdrawal">Withdrawal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="transferAmount">Amount</Label>
+              <Input
+                id="transferAmount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="e.g., 1000.00"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="transferDate">Date</Label>
+              <Input
+                id="transferDate"
+                type="date"
+                value={date}
+                max={new Date().toISOString().split("T")[0]}
+                onChange={(e) => setDate(e.target.value)}
+              />
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : "Record"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,272 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+// Same shapes as lib/dividends.ts
+type DividendPayment = {
+  entryId: number;
+  symbol: string;
+  companyName: string | null;
+  exDate: string;
+  payDate: string;
+  shares: number;
+  amountPerShare: number;
+  amount: number;
+  reinvestedShares: number;
+  reinvestPrice: number | null;
+};
+
+type UpcomingDividend = {
+  symbol: string;
+  companyName: string | null;
+  exDate: string;
+  payDate: string;
+  shares: number;
+  amountPerShare: number;
+  amount: number;
+  estimated: boolean;
+};
+
+type Dividends = {
+  reinvest: boolean;
+  totals: { cash: number; reinvested: number; total: number };
+  payments: DividendPayment[];
+  upcoming: UpcomingDividend[];
+};
+
+// Most recent payments shown before "show all"
+const RECENT_PAYMENTS = 12;
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const monthOf = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+// Dividends received and expected, with the cash/reinvest choice for the profile's own user
+export function DividendCalendar({ userId }: { userId: number }) {
+  const { user } = useAuth();
+  const [dividends, setDividends] = useState<Dividends | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    const fetchDividends = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/portfolio/dividends?userId=${userId}&days=90`);
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch dividends");
+        }
+
+        setDividends(await response.json());
+      } catch (err) {
+        console.error("Error fetching dividends:", err);
+        setError("Failed to load dividends");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchDividends();
+  }, [userId]);
+
+  const setReinvest = async (reinvest: boolean) => {
+    try {
+      setSaving(true);
+      const response = await fetch("/api/portfolio/dividends", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, reinvest }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || data.message || "Failed to update dividend reinvestment");
+      }
+
+      setDividends(current => (current ? { ...current, reinvest: data.reinvest } : current));
+      toast({
+        title: data.reinvest ? "Reinvesting Dividends" : "Taking Dividends as Cash",
+        description: "Applies to dividends paid from now on",
+      });
+    } catch (err) {
+      console.error("Failed to update dividend reinvestment:", err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update dividend reinvestment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <Skeleton className="h-[320px] w-full" />;
+  }
+
+  if (error || !dividends) {
+    return <p className="text-center text-red-500">{error}</p>;
+  }
+
+  const isOwnProfile = user?.id === userId;
+  const payments = showAll ? dividends.payments : dividends.payments.slice(0, RECENT_PAYMENTS);
+
+  // Upcoming dividends grouped by the month they are paid in
+  const upcomingByMonth = dividends.upcoming.reduce((months, dividend) => {
+    const month = monthOf(dividend.payDate);
+    months.set(month, [...(months.get(month) || []), dividend]);
+    return months;
+  }, new Map<string, UpcomingDividend[]>());
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">Dividends Received</div>
+          <div className="text-2xl font-bold text-green-600">{formatCurrency(dividends.totals.total)}</div>
+          <div className="text-xs text-muted-foreground">
+            Cash {formatCurrency(dividends.totals.cash)} · Reinvested {formatCurrency(dividends.totals.reinvested)}
+          </div>
+        </div>
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">Expected (90 days)</div>
+          <div className="text-2xl font-bold">
+            {formatCurrency(dividends.upcoming.reduce((total, dividend) => total + dividend.amount, 0))}
+          </div>
+          <div className="text-xs text-muted-foreground">{dividends.upcoming.length} payments</div>
+        </div>
+        <div className="bg-muted p-4 rounded-md">
+          <div className="text-sm text-muted-foreground">New Dividends</div>
+          {isOwnProfile ? (
+            <div className="flex gap-2 mt-2">
+              <Button
+                size="sm"
+                variant={dividends.reinvest ? "outline" : "default"}
+                disabled={saving}
+                onClick={() => dividends.reinvest && setReinvest(false)}
+              >
+                Take as cash
+              </Button>
+              <Button
+                size="sm"
+                variant={dividends.reinvest ? "default" : "outline"}
+                disabled={saving}
+                onClick={() => !dividends.reinvest && setReinvest(true)}
+              >
+                Reinvest
+              </Button>
+            </div>
+          ) : (
+            <div className="text-2xl font-bold">{dividends.reinvest ? "Reinvested" : "Taken as cash"}</div>
+          )}
+        </div>
+      </div>
+
+      {/* Calendar of the dividends still to be paid */}
+      <div>
+        <h3 className="text-lg font-medium mb-3">Upcoming</h3>
+        {upcomingByMonth.size === 0 ? (
+          <p className="text-sm text-muted-foreground">No dividends expected on the current holdings in the next 90 days.</p>
+        ) : (
+          <div className="space-y-4">
+            {Array.from(upcomingByMonth.entries()).map(([month, upcoming]) => (
+              <div key={month}>
+                <div className="text-sm font-medium text-muted-foreground mb-1">{month}</div>
+                <div className="space-y-1">
+                  {upcoming.map(dividend => (
+                    <div
+                      key={`${dividend.symbol}-${dividend.exDate}`}
+                      className="flex justify-between gap-2 border-b py-1 last:border-b-0 text-sm"
+                    >
+                      <span>
+                        <span className="font-medium">{formatDate(dividend.payDate)}</span>{" "}
+                        {dividend.symbol}{" "}
+                        <span className="text-muted-foreground">
+                          {formatCurrency(dividend.amountPerShare)} × {dividend.shares} (ex {formatDate(dividend.exDate)})
+                        </span>
+                        {dividend.estimated && (
+                          <Badge variant="outline" className="ml-2 text-xs">Estimated</Badge>
+                        )}
+                      </span>
+                      <span>{formatCurrency(dividend.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Dividends already credited */}
+      <div>
+        <h3 className="text-lg font-medium mb-3">Received</h3>
+        {payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No dividends received yet.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead className="text-right">Shares</TableHead>
+                  <TableHead className="text-right">Per Share</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Taken As</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => (
+                  <TableRow key={payment.entryId}>
+                    <TableCell>
+                      <div>{formatDate(payment.payDate)}</div>
+                      <div className="text-xs text-muted-foreground">ex {formatDate(payment.exDate)}</div>
+                    </TableCell>
+                    <TableCell className="font-medium">{payment.symbol}</TableCell>
+                    <TableCell className="text-right">{payment.shares}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.amountPerShare)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(payment.amount)}</TableCell>
+                    <TableCell>
+                      {payment.reinvestPrice ? (
+                        <span className="text-sm">
+                          {payment.reinvestedShares.toFixed(4)} shares at {formatCurrency(payment.reinvestPrice)}
+                        </span>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Cash</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {dividends.payments.length > RECENT_PAYMENTS && (
+              <Button variant="link" size="sm" className="mt-2 px-0" onClick={() => setShowAll(!showAll)}>
+                {showAll ? "Show recent only" : `Show all ${dividends.payments.length} payments`}
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
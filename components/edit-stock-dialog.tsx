@@ -74,7 +74,7 @@ export function EditStockDialog({
         body: JSON.stringify({
           stockId: stock.id,
           userId: user.id,
-          quantity: parseInt(quantity),
+          quantity: parseFloat(quantity),
           purchasePrice: parseFloat(purchasePrice),
           purchaseDate,
         }),
@@ -124,8 +124,8 @@ export function EditStockDialog({
               <Input
                 id="quantity"
                 type="number"
-                min="1"
-                step="1"
+                min="0"
+                step="any"
                 value={quantity}
                 onChange={(e) => setQuantity(e.target.value)}
                 placeholder="e.g., 10"
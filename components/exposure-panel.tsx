@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Same shapes as lib/exposure.ts
+type StockExposure = {
+  symbol: string;
+  name: string | null;
+  sector: string;
+  direct: number;
+  viaFunds: { fund: string; value: number }[];
+  total: number;
+  percentage: number;
+};
+
+type Exposure = {
+  totalValue: number;
+  lookThroughValue: number;
+  funds: { symbol: string; value: number; asOf: string; holdings: number; coverage: number }[];
+  stocks: StockExposure[];
+  stockCount: number;
+  sectors: { sector: string; value: number; percentage: number }[];
+  overlap: StockExposure[];
+  fundOverlap: { funds: [string, string]; overlap: number; sharedHoldings: number }[];
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 }).format(value);
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Stock, sector and top-holding exposure with ETFs split into what they hold
+export function ExposurePanel({ userId }: { userId: number }) {
+  const [exposure, setExposure] = useState<Exposure | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchExposure = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const response = await fetch(`/api/portfolio/exposure?userId=${userId}&top=15`);
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch exposure");
+        }
+
+        setExposure(await response.json());
+      } catch (err) {
+        console.error("Error fetching exposure:", err);
+        setError("Failed to load look-through exposure");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchExposure();
+  }, [userId]);
+
+  if (loading) {
+    return <Skeleton className="h-[320px] w-full" />;
+  }
+
+  if (error || !exposure) {
+    return <p className="text-center text-red-500">{error}</p>;
+  }
+
+  const fundSymbols = new Set(exposure.funds.map(fund => fund.symbol));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-muted p-4 rounded-md text-sm">
+        {exposure.funds.length > 0 ? (
+          <>
+            <span className="font-medium">
+              {((exposure.lookThroughValue / (exposure.totalValue || 1)) * 100).toFixed(1)}%
+            </span>{" "}
+            of this portfolio is in funds, split into their holdings below:
+            <div className="flex flex-wrap gap-2 mt-2">
+              {exposure.funds.map(fund => (
+                <Badge key={fund.symbol} variant="outline">
+                  {fund.symbol}: {fund.holdings} holdings ({fund.coverage.toFixed(0)}% listed) as of {formatDate(fund.asOf)}
+                </Badge>
+              ))}
+            </div>
+          </>
+        ) : (
+          <span className="text-muted-foreground">
+            None of this portfolio&apos;s funds have imported holdings, so every position is shown as held.
+          </span>
+        )}
+      </div>
+
+      {/* Sector exposure including what the funds hold */}
+      <div>
+        <h3 className="text-lg font-medium mb-3">Sector Exposure</h3>
+        <div className="space-y-2">
+          {exposure.sectors.map(sector => (
+            <div key={sector.sector} className="grid grid-cols-[160px_1fr_60px] items-center gap-3 text-sm">
+              <span className="truncate">{sector.sector}</span>
+              <Progress value={sector.percentage} className="h-2" />
+              <span className="text-right">{sector.percentage.toFixed(1)}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Largest underlying holdings */}
+      <div>
+        <h3 className="text-lg font-medium mb-3">Top Holdings</h3>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Holding</TableHead>
+              <TableHead className="text-right">Direct</TableHead>
+              <TableHead>Through Funds</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Weight</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {exposure.stocks.map(stock => (
+              <TableRow key={stock.symbol}>
+                <TableCell>
+                  <div className="font-medium">
+                    {stock.symbol}
+                    {fundSymbols.has(stock.symbol) && <span className="text-xs text-muted-foreground"> (unlisted part)</span>}
+                  </div>
+                  {stock.name && <div className="text-xs text-muted-foreground truncate max-w-[180px]">{stock.name}</div>}
+                </TableCell>
+                <TableCell className="text-right">{stock.direct > 0 ? formatCurrency(stock.direct) : "—"}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {stock.viaFunds.map(via => (
+                      <Badge key={via.fund} variant="secondary" className="text-xs">
+                        {via.fund} {formatCurrency(via.value)}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{formatCurrency(stock.total)}</TableCell>
+                <TableCell className="text-right">{stock.percentage.toFixed(1)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {exposure.stockCount > exposure.stocks.length && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Showing the largest {exposure.stocks.length} of {exposure.stockCount} underlying holdings
+          </p>
+        )}
+      </div>
+
+      {/* Where the same companies are held more than once */}
+      {(exposure.overlap.length > 0 || exposure.fundOverlap.length > 0) && (
+        <div>
+          <h3 className="text-lg font-medium mb-3">Overlap</h3>
+          {exposure.fundOverlap.length > 0 && (
+            <div className="space-y-1 mb-3 text-sm">
+              {exposure.fundOverlap.map(pair => (
+                <div key={pair.funds.join("-")}>
+                  <span className="font-medium">{pair.funds[0]} and {pair.funds[1]}</span> share {pair.sharedHoldings} holdings,{" "}
+                  {pair.overlap.toFixed(1)}% of each fund
+                </div>
+              ))}
+            </div>
+          )}
+          {exposure.overlap.length > 0 && (
+            <div className="space-y-1 text-sm">
+              {exposure.overlap.map(stock => (
+                <div key={stock.symbol} className="flex justify-between gap-2 border-b py-1 last:border-b-0">
+                  <span>
+                    <span className="font-medium">{stock.symbol}</span>{" "}
+                    <span className="text-muted-foreground">
+                      {[stock.direct > 0 ? "held directly" : null, ...stock.viaFunds.map(via => `in ${via.fund}`)]
+                        .filter(Boolean)
+                        .join(", ")}
+                    </span>
+                  </span>
+                  <span>{formatCurrency(stock.total)} ({stock.percentage.toFixed(1)}%)</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+
+// Same shape as LeagueMembership in lib/leagues.ts
+export type League = {
+  id: number;
+  name: string;
+  startDate: string;
+  endDate: string;
+  startingBankroll: number;
+  allowedAssetTypes: ("stock" | "crypto")[];
+  maxPositionPercent: number | null;
+  requireVerified: boolean;
+  status: "upcoming" | "active" | "ended";
+  archivedAt: string | null;
+  memberCount: number;
+  inviteCode: string;
+  portfolioId: number;
+};
+
+// Select values for the entries that are not a league
+const GLOBAL = "global";
+const NEW_LEAGUE = "new";
+const JOIN_LEAGUE = "join";
+
+// The asset type choices of a new league
+const ASSET_TYPE_OPTIONS: Record<string, League["allowedAssetTypes"]> = {
+  all: ["stock", "crypto"],
+  stock: ["stock"],
+  crypto: ["crypto"],
+};
+
+type LeagueSelectorProps = {
+  // The league shown; null for the global leaderboard
+  leagueId: number | null;
+  onLeagueChange: (league: League | null) => void;
+  compact?: boolean;
+};
+
+// Choose between the global leaderboard and the user's private leagues, and
+// create or join leagues
+export function LeagueSelector({
+  leagueId,
+  onLeagueChange,
+  compact = false,
+}: LeagueSelectorProps) {
+  const { user } = useAuth();
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [dialog, setDialog] = useState<"create" | "join" | null>(null);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState(new Date().toISOString().split("T")[0]);
+  const [endDate, setEndDate] = useState("");
+  const [startingBankroll, setStartingBankroll] = useState("10000");
+  const [assetTypes, setAssetTypes] = useState("all");
+  const [maxPositionPercent, setMaxPositionPercent] = useState("");
+  const [orders, setOrders] = useState("any");
+  const [inviteCode, setInviteCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchLeagues = async () => {
+    if (!user) return [];
+
+    try {
+      const response = await fetch("/api/leagues");
+      if (!response.ok) {
+        throw new Error("Failed to fetch leagues");
+      }
+
+      const data = await response.json();
+      setLeagues(data.leagues);
+      return data.leagues as League[];
+    } catch (err) {
+      console.error("Failed to fetch leagues:", err);
+      return [];
+    }
+  };
+
+  useEffect(() => {
+    fetchLeagues();
+  }, [user]);
+
+  const handleSelect = (value: string) => {
+    if (value === NEW_LEAGUE || value === JOIN_LEAGUE) {
+      setError("");
+      setDialog(value === NEW_LEAGUE ? "create" : "join");
+      return;
+    }
+    onLeagueChange(leagues.find(league => String(league.id) === value) ?? null);
+  };
+
+  // Create or join a league, then show it
+  const submit = async (url: string, body: object, failure: string) => {
+    if (!user) return;
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: user.id, ...body }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || failure);
+      }
+
+      setDialog(null);
+      setName("");
+      setInviteCode("");
+      await fetchLeagues();
+      onLeagueChange(data.league);
+      toast({
+        title: `You are in ${data.league.name}`,
+        description: `Trade it from your "${data.league.name}" portfolio. Invite others with the code ${data.league.inviteCode}.`,
+      });
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !endDate) {
+      setError("Name and end date are required");
+      return;
+    }
+
+    submit("/api/leagues", {
+      name,
+      startDate,
+      endDate,
+      startingBankroll: Number(startingBankroll),
+      allowedAssetTypes: ASSET_TYPE_OPTIONS[assetTypes],
+      maxPositionPercent: maxPositionPercent === "" ? null : Number(maxPositionPercent),
+      requireVerified: orders === "market",
+    }, "Failed to create league");
+  };
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!inviteCode.trim()) {
+      setError("Invite code is required");
+      return;
+    }
+
+    submit("/api/leagues/join", { inviteCode }, "Failed to join league");
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={leagueId === null ? GLOBAL : String(leagueId)} onValueChange={handleSelect}>
+        <SelectTrigger className={compact ? "h-8 w-[140px]" : "w-[200px]"}>
+          <SelectValue placeholder="Leaderboard" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={GLOBAL}>Global</SelectItem>
+          {leagues.map((league) => (
+            <SelectItem key={league.id} value={String(league.id)}>
+              {league.name}
+            </SelectItem>
+          ))}
+          {user && (
+            <>
+              <SelectSeparator />
+              <SelectItem value={NEW_LEAGUE}>New league...</SelectItem>
+              <SelectItem value={JOIN_LEAGUE}>Join league...</SelectItem>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+
+      <Dialog open={dialog === "create"} onOpenChange={(open) => setDialog(open ? "create" : null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New League</DialogTitle>
+            <DialogDescription>
+              Everyone who joins trades the same virtual bankroll, ranked by their return from the start date.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="leagueName">Name</Label>
+                <Input
+                  id="leagueName"
+                  value={name}
+                  maxLength={80}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Office Stock Challenge"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="leagueStart">Start date</Label>
+                  <Input
+                    id="leagueStart"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="leagueEnd">End date</Label>
+                  <Input
+                    id="leagueEnd"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="grid gap-2">
+                  <Label htmlFor="leagueBankroll">Starting bankroll ($)</Label>
+                  <Input
+                    id="leagueBankroll"
+                    type="number"
+                    min="1"
+                    step="any"
+                    value={startingBankroll}
+                    onChange={(e) => setStartingBankroll(e.target.value)}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="leagueMaxPosition">Max position (%)</Label>
+                  <Input
+                    id="leagueMaxPosition"
+                    type="number"
+                    min="1"
+                    max="100"
+                    step="any"
+                    value={maxPositionPercent}
+                    onChange={(e) => setMaxPositionPercent(e.target.value)}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label>Allowed assets</Label>
+                <Select value={assetTypes} onValueChange={setAssetTypes}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Stocks and crypto</SelectItem>
+                    <SelectItem value="stock">Stocks only</SelectItem>
+                    <SelectItem value="crypto">Crypto only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Trades</Label>
+                <Select value={orders} onValueChange={setOrders}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">At about the market price</SelectItem>
+                    <SelectItem value="market">Market orders only (verified)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={dialog === "join"} onOpenChange={(open) => setDialog(open ? "join" : null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Join League</DialogTitle>
+            <DialogDescription>
+              Enter the invite code you were given. You get a portfolio for the league with its starting bankroll.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleJoin}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="inviteCode">Invite code</Label>
+                <Input
+                  id="inviteCode"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value.toUpperCase())}
+                  placeholder="e.g., 3FA94C0B1E"
+                />
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Joining..." : "Join"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
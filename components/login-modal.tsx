@@ -20,8 +20,10 @@ interface LoginModalProps {
 }
 
 export function LoginModal({ initialOpen = false }: LoginModalProps) {
-  const { user, login, logout } = useAuth();
+  const { user, login, register, logout } = useAuth();
+  const [mode, setMode] = useState<"login" | "register">("login");
   const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
   const [open, setOpen] = useState(initialOpen);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
@@ -40,25 +42,41 @@ export function LoginModal({ initialOpen = false }: LoginModalProps) {
       return;
     }
     
+    if (!password) {
+      setError("Password is required");
+      return;
+    }
+    
     try {
       setIsLoading(true);
       setError("");
-      await login(username);
+      if (mode === "register") {
+        await register(username.trim(), password);
+      } else {
+        await login(username.trim(), password);
+      }
       setOpen(false);
       setUsername("");
+      setPassword("");
       
       // Redirect to home page after successful login
       if (window.location.pathname === "/login") {
         router.push("/");
       }
     } catch (err) {
-      setError("Failed to login. Please try again.");
+      setError(err instanceof Error ? err.message : "Failed to login. Please try again.");
       console.error("Login error:", err);
     } finally {
       setIsLoading(false);
     }
   };
 
+  // Switch between logging in and creating an account
+  const toggleMode = () => {
+    setMode(mode === "login" ? "register" : "login");
+    setError("");
+  };
+
   if (user) {
     return (
       <Button 
@@ -78,9 +96,11 @@ export function LoginModal({ initialOpen = false }: LoginModalProps) {
       <DialogContent className="sm:max-w-[425px]">
         <form onSubmit={handleSubmit}>
           <DialogHeader>
-            <DialogTitle>Login to Stoki</DialogTitle>
+            <DialogTitle>{mode === "login" ? "Login to Stoki" : "Create a Stoki account"}</DialogTitle>
             <DialogDescription>
-              Enter a username to create an account or log in to an existing one.
+              {mode === "login"
+                ? "Enter your username and password to log in."
+                : "Pick a username and a password of at least 8 characters."}
             </DialogDescription>
           </DialogHeader>
           <div className="grid gap-4 py-4">
@@ -92,15 +112,29 @@ export function LoginModal({ initialOpen = false }: LoginModalProps) {
                 value={username}
                 onChange={(e) => setUsername(e.target.value)}
                 disabled={isLoading}
+                autoComplete="username"
+              />
+              <Input
+                id="password"
+                type="password"
+                placeholder="Password"
+                className="col-span-4"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+                autoComplete={mode === "login" ? "current-password" : "new-password"}
               />
             </div>
             {error && (
               <p className="text-sm text-red-500">{error}</p>
             )}
           </div>
-          <DialogFooter>
+          <DialogFooter className="flex-col gap-2 sm:flex-row sm:justify-between">
+            <Button type="button" variant="link" className="px-0" onClick={toggleMode} disabled={isLoading}>
+              {mode === "login" ? "Need an account? Sign up" : "Already have an account? Log in"}
+            </Button>
             <Button type="submit" disabled={isLoading}>
-              {isLoading ? "Loading..." : "Continue"}
+              {isLoading ? "Loading..." : mode === "login" ? "Log in" : "Create account"}
             </Button>
           </DialogFooter>
         </form>
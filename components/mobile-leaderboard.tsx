@@ -7,6 +7,8 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { getCachedLeaderboardData } from "@/lib/cache";
 import { Skeleton } from "@/components/ui/skeleton";
+import { BadgeCheck } from "lucide-react";
+import { RankChange } from "./rank-change";
 
 type LeaderboardUser = {
   id: number;
@@ -18,9 +20,16 @@ type LeaderboardUser = {
   dailyGainPercentage: string;
   weeklyGain: string;
   weeklyGainPercentage: string;
+  twr?: string | null;
+  mwr?: string | null;
   topGainer: string | null;
   topGainerPercentage?: string;
   currentWorth: string;
+  netWorth?: string;
+  portfolio?: string | null;
+  verified?: boolean;
+  // Places moved since the previous day's ranking in this time frame
+  rankChange?: number | null;
   startingAmount: string;
   latestPurchase?: {
     symbol: string;
@@ -40,7 +49,8 @@ interface MobileLeaderboardProps {
   loading?: boolean;
 }
 
-type TimeFrame = "total" | "weekly" | "daily";
+// Net worth ranking is desktop only and shows here like total
+type TimeFrame = "total" | "weekly" | "daily" | "worth" | "twr" | "mwr";
 
 export function MobileLeaderboard({ 
   users, 
@@ -163,6 +173,16 @@ export function MobileLeaderboard({
           percentage: user.weeklyGainPercentage || "0",
           isPositive: user.weeklyGain ? parseCurrency(user.weeklyGain) >= 0 : true
         };
+      case "twr":
+      case "mwr": {
+        // Return since the first trade, next to the total gain in dollars
+        const rate = (timeFrame === "twr" ? user.twr : user.mwr) || "0";
+        return {
+          gain: user.totalGain || "$0.00",
+          percentage: rate,
+          isPositive: parseFloat(rate) >= 0
+        };
+      }
       case "total":
       default:
         return {
@@ -185,6 +205,12 @@ export function MobileLeaderboard({
       } else if (timeFrame === "weekly") {
         aValue = a.weeklyGainPercentage ? parseFloat(a.weeklyGainPercentage) : 0;
         bValue = b.weeklyGainPercentage ? parseFloat(b.weeklyGainPercentage) : 0;
+      } else if (timeFrame === "twr") {
+        aValue = a.twr ? parseFloat(a.twr) : 0;
+        bValue = b.twr ? parseFloat(b.twr) : 0;
+      } else if (timeFrame === "mwr") {
+        aValue = a.mwr ? parseFloat(a.mwr) : 0;
+        bValue = b.mwr ? parseFloat(b.mwr) : 0;
       } else {
         aValue = a.totalGainPercentage ? parseFloat(a.totalGainPercentage) : 0;
         bValue = b.totalGainPercentage ? parseFloat(b.totalGainPercentage) : 0;
@@ -276,10 +302,12 @@ export function MobileLeaderboard({
         onValueChange={handleTabChange}
         className="w-full"
       >
-        <TabsList className="grid w-full grid-cols-3 mb-4">
+        <TabsList className="grid w-full grid-cols-5 mb-4">
           <TabsTrigger value="total">All Time</TabsTrigger>
           <TabsTrigger value="weekly">Weekly</TabsTrigger>
           <TabsTrigger value="daily">Daily</TabsTrigger>
+          <TabsTrigger value="twr">TWR</TabsTrigger>
+          <TabsTrigger value="mwr">MWR</TabsTrigger>
         </TabsList>
       </Tabs>
 
@@ -321,9 +349,18 @@ export function MobileLeaderboard({
                     
                     {/* Name and Net Worth */}
                     <div>
-                      <h3 className="font-semibold text-base">{user.username}</h3>
+                      <h3 className="font-semibold text-base">
+                        {user.username}
+                        <RankChange change={user.rankChange} />
+                        {user.verified && (
+                          <BadgeCheck className="ml-1 inline h-4 w-4 text-blue-500" />
+                        )}
+                        {user.portfolio && (
+                          <span className="ml-1 text-xs font-normal text-muted-foreground">({user.portfolio})</span>
+                        )}
+                      </h3>
                       <div className="text-xs text-muted-foreground">
-                        {user.currentWorth}
+                        {user.netWorth ?? user.currentWorth}
                       </div>
                     </div>
                   </div>
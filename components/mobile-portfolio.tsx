@@ -12,11 +12,13 @@ import { AddStockDialog } from "./add-stock-dialog";
 import { EditStockDialog } from "./edit-stock-dialog";
 import { toast } from "@/components/ui/use-toast";
 import { AddCryptoDialog } from "./add-crypto-dialog";
+import { PortfolioSwitcher } from "./portfolio-switcher";
 import { isCryptoCurrency, getCryptoDisplayName } from "@/lib/crypto-api";
 
 // Types for stock data
 type Stock = {
   id: number;
+  portfolioId: number;
   symbol: string;
   companyName: string;
   quantity: number;
@@ -32,8 +34,13 @@ type Stock = {
 type PortfolioSummary = {
   totalCurrentValue: number;
   totalPurchaseValue: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  dividendIncome: number;
   totalGain: number;
   totalGainPercentage: number;
+  cash: number;
+  netWorth: number;
 };
 
 interface MobilePortfolioProps {
@@ -53,6 +60,10 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
   const [refreshing, setRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState("all");
   const [isCryptoDialogOpen, setIsCryptoDialogOpen] = useState(false);
+  // The portfolio shown; null for all of the user's portfolios together
+  const [portfolioId, setPortfolioId] = useState<number | null>(null);
+  // Whether the portfolio shown only takes market orders
+  const [paperTrading, setPaperTrading] = useState(false);
 
   const fetchPortfolio = async (forceRefresh = false) => {
     if (!user) return;
@@ -63,7 +74,8 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
       if (forceRefresh) setRefreshing(true);
       
       const refreshParam = forceRefresh ? '&refresh=true' : '';
-      const response = await fetch(`/api/portfolio?userId=${user.id}${refreshParam}`);
+      const portfolioParam = portfolioId !== null ? `&portfolioId=${portfolioId}` : '';
+      const response = await fetch(`/api/portfolio?userId=${user.id}${refreshParam}${portfolioParam}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch portfolio data');
@@ -72,6 +84,7 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
       const data = await response.json();
       setPortfolio(data.stocks);
       setSummary(data.summary);
+      setPaperTrading(data.paperTrading === true);
     } catch (err) {
       console.error("Failed to fetch portfolio data:", err);
       setError("Failed to load portfolio data");
@@ -93,20 +106,10 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
       setPortfolio([]);
       setSummary(null);
     }
-  }, [user]);
-
-  // This function refreshes the leaderboard cache to show updated data
-  const refreshLeaderboard = async () => {
-    try {
-      await fetch('/api/leaderboard?refresh=true');
-    } catch (error) {
-      console.error('Failed to refresh leaderboard:', error);
-    }
-  };
+  }, [user, portfolioId]);
 
   const handleStockAdded = async () => {
     await fetchPortfolio(true);
-    await refreshLeaderboard();
     toast({
       title: "Stock added successfully",
       description: "Your portfolio has been updated.",
@@ -129,7 +132,6 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
       
       // Refresh the portfolio data
       await fetchPortfolio(true);
-      await refreshLeaderboard();
       
       toast({
         title: "Stock deleted",
@@ -154,7 +156,6 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
 
   const handleStockEdited = async () => {
     await fetchPortfolio(true);
-    await refreshLeaderboard();
     toast({
       title: "Stock updated",
       description: "Your portfolio has been updated.",
@@ -222,6 +223,13 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
 
   return (
     <div className="space-y-4">
+      {/* Portfolio Switcher */}
+      <PortfolioSwitcher
+        portfolioId={portfolioId}
+        onPortfolioChange={setPortfolioId}
+        compact
+      />
+
       {/* Portfolio Summary Card */}
       {loading ? (
         <Card>
@@ -278,6 +286,13 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
                     <span>{summary ? formatCurrency(summary.totalPurchaseValue) : '$0.00'}</span>
                   </div>
                   
+                  {summary && summary.cash !== 0 && (
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-sm text-muted-foreground">Cash</span>
+                      <span>{formatCurrency(summary.cash)} (net worth {formatCurrency(summary.netWorth)})</span>
+                    </div>
+                  )}
+                  
                   <div className="flex justify-between items-center mt-1">
                     <span className="text-sm text-muted-foreground">Total Gain/Loss</span>
                     <div className="flex items-center">
@@ -432,12 +447,16 @@ export function MobilePortfolio({ onViewProfile }: MobilePortfolioProps) {
         open={isAddStockOpen}
         onOpenChange={setIsAddStockOpen}
         onStockAdded={handleStockAdded}
+        portfolioId={portfolioId}
+        paperTrading={paperTrading}
       />
 
       <AddCryptoDialog
         open={isCryptoDialogOpen}
         onOpenChange={setIsCryptoDialogOpen}
         onCryptoAdded={handleStockAdded}
+        portfolioId={portfolioId}
+        paperTrading={paperTrading}
       />
 
       {/* Edit Stock Dialog */}
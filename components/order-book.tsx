@@ -0,0 +1,205 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Edit, PlusCircle, X } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { Order, OrderDialog } from "./order-dialog";
+
+// How many closed orders are listed under the open ones
+const RECENT_CLOSED = 10;
+
+const ORDER_TYPE_LABELS: Record<Order["orderType"], string> = {
+  limit: "Limit",
+  stop: "Stop",
+  trailing_stop: "Trailing stop",
+};
+
+type OrderBookProps = {
+  // The portfolio shown; null for all of the user's portfolios together
+  portfolioId: number | null;
+  // Called after an order is cancelled, so fills since the last load show up too
+  onOrdersChanged?: () => void;
+};
+
+// What an order is waiting for
+const describeTrigger = (order: Order) => {
+  if (order.orderType === "trailing_stop") {
+    return `${order.trailPercent}% below ${order.highWaterMark !== null ? formatCurrency(order.highWaterMark) : "the high"}`;
+  }
+  const price = formatCurrency((order.orderType === "limit" ? order.limitPrice : order.stopPrice) ?? 0);
+  return order.orderType === "limit"
+    ? `${order.side === "buy" ? "At or below" : "At or above"} ${price}`
+    : `${order.side === "buy" ? "At or above" : "At or below"} ${price}`;
+};
+
+// The user's pending orders, with cancel and modify actions, and their latest fills
+export function OrderBook({ portfolioId, onOrdersChanged }: OrderBookProps) {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<Order | null>(null);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+
+  const fetchOrders = async () => {
+    if (!user) return;
+
+    try {
+      const portfolioParam = portfolioId !== null ? `&portfolioId=${portfolioId}` : "";
+      const response = await fetch(`/api/portfolio/orders?userId=${user.id}${portfolioParam}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch orders");
+      }
+
+      const data = await response.json();
+      setOrders(data.orders);
+    } catch (err) {
+      console.error("Failed to fetch orders:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchOrders();
+  }, [user, portfolioId]);
+
+  const openDialog = (order: Order | null) => {
+    setEditingOrder(order);
+    setIsDialogOpen(true);
+  };
+
+  const cancelOrder = async (order: Order) => {
+    if (!user) return;
+
+    try {
+      setCancellingId(order.id);
+      const response = await fetch(`/api/portfolio/orders?userId=${user.id}&orderId=${order.id}`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to cancel order");
+      }
+
+      toast({
+        title: "Order Cancelled",
+        description: `${ORDER_TYPE_LABELS[order.orderType]} ${order.side} of ${order.quantity} ${order.symbol}`,
+      });
+    } catch (err) {
+      console.error("Failed to cancel order:", err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to cancel order",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingId(null);
+      fetchOrders();
+      onOrdersChanged?.();
+    }
+  };
+
+  const openOrders = orders.filter(order => order.status === "open");
+  const closedOrders = orders.filter(order => order.status !== "open").slice(0, RECENT_CLOSED);
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="flex flex-row items-center justify-between py-3">
+        <CardTitle className="text-lg">Orders</CardTitle>
+        <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+          <PlusCircle className="mr-2 h-4 w-4" />
+          New Order
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {orders.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No orders yet. Limit, stop and trailing stop orders wait here until the price reaches them.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Quantity</TableHead>
+                <TableHead>Fills</TableHead>
+                <TableHead className="hidden md:table-cell">Good till</TableHead>
+                <TableHead className="text-right">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...openOrders, ...closedOrders].map((order) => (
+                <TableRow key={order.id} className={order.status === "open" ? "" : "text-muted-foreground"}>
+                  <TableCell className="font-medium">
+                    <div>{order.symbol}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {ORDER_TYPE_LABELS[order.orderType]} {order.side}
+                    </div>
+                  </TableCell>
+                  <TableCell>{order.quantity}</TableCell>
+                  <TableCell>
+                    {order.status === "filled" && order.fillPrice !== null
+                      ? `Filled at ${formatCurrency(order.fillPrice)}`
+                      : describeTrigger(order)}
+                  </TableCell>
+                  <TableCell className="hidden md:table-cell">
+                    {order.expiresOn ? new Date(order.expiresOn).toLocaleDateString() : "Until cancelled"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {order.status === "open" ? (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openDialog(order)}
+                          title="Modify order"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => cancelOrder(order)}
+                          disabled={cancellingId === order.id}
+                          title="Cancel order"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Badge variant="outline" title={order.statusReason ?? undefined}>
+                        {order.status}
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <OrderDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onOrderSaved={fetchOrders}
+        portfolioId={portfolioId}
+        order={editingOrder}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,288 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+
+// Same shape as Order in lib/orders.ts
+export type Order = {
+  id: number;
+  portfolioId: number;
+  symbol: string;
+  companyName: string | null;
+  side: "buy" | "sell";
+  orderType: "limit" | "stop" | "trailing_stop";
+  quantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  trailPercent: number | null;
+  highWaterMark: number | null;
+  expiresOn: string | null;
+  status: "open" | "filled" | "cancelled" | "expired" | "rejected";
+  statusReason: string | null;
+  fillPrice: number | null;
+  filledAt: string | null;
+  createdAt: string;
+};
+
+type OrderDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOrderSaved: () => void;
+  // The portfolio to place the order in; the default one when not given
+  portfolioId?: number | null;
+  // The open order to modify; a new order when not given
+  order?: Order | null;
+};
+
+// Place a limit, stop or trailing stop order, or modify an open one
+export function OrderDialog({
+  open,
+  onOpenChange,
+  onOrderSaved,
+  portfolioId,
+  order,
+}: OrderDialogProps) {
+  const { user } = useAuth();
+  const [symbol, setSymbol] = useState("");
+  const [assetType, setAssetType] = useState("stock");
+  const [side, setSide] = useState<Order["side"]>("buy");
+  const [orderType, setOrderType] = useState<Order["orderType"]>("limit");
+  const [quantity, setQuantity] = useState("");
+  const [price, setPrice] = useState("");
+  const [trailPercent, setTrailPercent] = useState("");
+  const [expiresOn, setExpiresOn] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Start from the order being modified, or an empty form
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    setSymbol(order ? order.symbol.replace(/^@/, "") : "");
+    setAssetType(order?.symbol.startsWith("@") ? "crypto" : "stock");
+    setSide(order?.side ?? "buy");
+    setOrderType(order?.orderType ?? "limit");
+    setQuantity(order ? String(order.quantity) : "");
+    setPrice(order ? String(order.limitPrice ?? order.stopPrice ?? "") : "");
+    setTrailPercent(order?.trailPercent ? String(order.trailPercent) : "");
+    setExpiresOn(order?.expiresOn ?? "");
+  }, [open, order]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!symbol.trim() || !quantity) {
+      setError("Symbol and quantity are required");
+      return;
+    }
+
+    const prices = orderType === "trailing_stop"
+      ? { trailPercent: parseFloat(trailPercent) }
+      : orderType === "limit"
+        ? { limitPrice: parseFloat(price) }
+        : { stopPrice: parseFloat(price) };
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+
+      const response = await fetch("/api/portfolio/orders", {
+        method: order ? "PUT" : "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(order
+          ? { userId: user.id, orderId: order.id, quantity: parseFloat(quantity), expiresOn: expiresOn || null, ...prices }
+          : {
+              userId: user.id,
+              symbol,
+              assetType,
+              side,
+              orderType,
+              quantity: parseFloat(quantity),
+              expiresOn: expiresOn || null,
+              portfolioId,
+              ...prices,
+            }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save order");
+      }
+
+      toast({
+        title: order ? "Order Updated" : "Order Placed",
+        description: `It fills when ${data.order.symbol.replace(/^@/, "").toUpperCase()} reaches it, checked every few minutes.`,
+      });
+
+      onOpenChange(false);
+      onOrderSaved();
+    } catch (err) {
+      console.error("Failed to save order:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>{order ? `Modify Order - ${order.symbol}` : "New Order"}</DialogTitle>
+          <DialogDescription>
+            The order waits in the book and is filled at the market price once it is reached.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="orderSymbol">Symbol</Label>
+                <Input
+                  id="orderSymbol"
+                  value={symbol}
+                  disabled={!!order}
+                  onChange={(e) => setSymbol(e.target.value)}
+                  placeholder="e.g., AAPL or btc"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Asset</Label>
+                <Select value={assetType} onValueChange={setAssetType} disabled={!!order}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="stock">Stock</SelectItem>
+                    <SelectItem value="crypto">Crypto</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label>Side</Label>
+                <Select
+                  value={side}
+                  onValueChange={(value) => setSide(value as Order["side"])}
+                  disabled={!!order || orderType === "trailing_stop"}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="buy">Buy</SelectItem>
+                    <SelectItem value="sell">Sell</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label>Type</Label>
+                <Select
+                  value={orderType}
+                  onValueChange={(value) => {
+                    setOrderType(value as Order["orderType"]);
+                    // Trailing stops only sell
+                    if (value === "trailing_stop") setSide("sell");
+                  }}
+                  disabled={!!order}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="limit">Limit</SelectItem>
+                    <SelectItem value="stop">Stop</SelectItem>
+                    <SelectItem value="trailing_stop">Trailing stop</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="orderQuantity">Quantity</Label>
+                <Input
+                  id="orderQuantity"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                />
+              </div>
+              {orderType === "trailing_stop" ? (
+                <div className="grid gap-2">
+                  <Label htmlFor="orderTrail">Trail (%)</Label>
+                  <Input
+                    id="orderTrail"
+                    type="number"
+                    min="0"
+                    max="99"
+                    step="any"
+                    value={trailPercent}
+                    onChange={(e) => setTrailPercent(e.target.value)}
+                    placeholder="e.g., 5"
+                  />
+                </div>
+              ) : (
+                <div className="grid gap-2">
+                  <Label htmlFor="orderPrice">{orderType === "limit" ? "Limit price" : "Stop price"}</Label>
+                  <Input
+                    id="orderPrice"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="orderExpires">Good till</Label>
+              <Input
+                id="orderExpires"
+                type="date"
+                value={expiresOn}
+                min={new Date().toISOString().split("T")[0]}
+                onChange={(e) => setExpiresOn(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to keep the order until it fills or is cancelled.</p>
+            </div>
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : order ? "Update Order" : "Place Order"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
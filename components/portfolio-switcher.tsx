@@ -0,0 +1,242 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trophy } from "lucide-react";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+
+// Same shape as lib/portfolios.ts
+type Portfolio = {
+  id: number;
+  name: string;
+  isDefault: boolean;
+  paperTrading: boolean;
+};
+
+// Select values for the entries that are not a portfolio
+const ALL_PORTFOLIOS = "all";
+const NEW_PORTFOLIO = "new";
+
+type PortfolioSwitcherProps = {
+  // The portfolio shown; null for all of them together
+  portfolioId: number | null;
+  onPortfolioChange: (portfolioId: number | null) => void;
+  compact?: boolean;
+};
+
+// Choose which of the user's portfolios to show, create new ones, and pick the
+// one the user is ranked by on the leaderboard
+export function PortfolioSwitcher({
+  portfolioId,
+  onPortfolioChange,
+  compact = false,
+}: PortfolioSwitcherProps) {
+  const { user } = useAuth();
+  const [portfolios, setPortfolios] = useState<Portfolio[]>([]);
+  const [leaderboardPortfolioId, setLeaderboardPortfolioId] = useState<number | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [paperTrading, setPaperTrading] = useState("no");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const fetchPortfolios = async () => {
+    if (!user) return;
+
+    try {
+      const response = await fetch(`/api/portfolios?userId=${user.id}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch portfolios");
+      }
+
+      const data = await response.json();
+      setPortfolios(data.portfolios);
+      setLeaderboardPortfolioId(data.leaderboardPortfolioId);
+    } catch (err) {
+      console.error("Failed to fetch portfolios:", err);
+    }
+  };
+
+  useEffect(() => {
+    fetchPortfolios();
+  }, [user]);
+
+  const handleSelect = (value: string) => {
+    if (value === NEW_PORTFOLIO) {
+      setIsCreateOpen(true);
+      return;
+    }
+    onPortfolioChange(value === ALL_PORTFOLIOS ? null : Number(value));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!name.trim()) {
+      setError("Name is required");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+
+      const response = await fetch("/api/portfolios", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: user.id, name, paperTrading: paperTrading === "yes" }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to create portfolio");
+      }
+
+      setName("");
+      setPaperTrading("no");
+      setIsCreateOpen(false);
+      await fetchPortfolios();
+      onPortfolioChange(data.portfolio.id);
+    } catch (err) {
+      console.error("Failed to create portfolio:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Rank the user by the portfolio shown (or all of them)
+  const showOnLeaderboard = async () => {
+    if (!user) return;
+
+    try {
+      const response = await fetch("/api/portfolios", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ userId: user.id, leaderboardPortfolioId: portfolioId }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update leaderboard portfolio");
+      }
+
+      setLeaderboardPortfolioId(data.leaderboardPortfolioId);
+      toast({
+        title: "Leaderboard updated",
+        description: portfolioId === null
+          ? "You are ranked by all of your portfolios together"
+          : `You are ranked by ${portfolios.find(portfolio => portfolio.id === portfolioId)?.name}`,
+      });
+    } catch (err) {
+      console.error("Failed to update leaderboard portfolio:", err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to update leaderboard portfolio",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onLeaderboard = leaderboardPortfolioId === portfolioId;
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select value={portfolioId === null ? ALL_PORTFOLIOS : String(portfolioId)} onValueChange={handleSelect}>
+        <SelectTrigger className={compact ? "h-8 w-[140px]" : "w-[180px]"}>
+          <SelectValue placeholder="Portfolio" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_PORTFOLIOS}>All portfolios</SelectItem>
+          {portfolios.map((portfolio) => (
+            <SelectItem key={portfolio.id} value={String(portfolio.id)}>
+              {portfolio.paperTrading ? `${portfolio.name} (paper)` : portfolio.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_PORTFOLIO}>New portfolio...</SelectItem>
+        </SelectContent>
+      </Select>
+      <Button
+        variant={onLeaderboard ? "secondary" : "outline"}
+        size={compact ? "sm" : "default"}
+        onClick={showOnLeaderboard}
+        disabled={onLeaderboard}
+        title={onLeaderboard ? "You are ranked by this view on the leaderboard" : "Rank me by this view on the leaderboard"}
+      >
+        <Trophy className={compact ? "h-4 w-4" : "mr-2 h-4 w-4"} />
+        {!compact && (onLeaderboard ? "On leaderboard" : "Use for leaderboard")}
+      </Button>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>New Portfolio</DialogTitle>
+            <DialogDescription>
+              Keep a separate set of holdings and cash, such as a retirement account.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="portfolioName">Name</Label>
+                <Input
+                  id="portfolioName"
+                  value={name}
+                  maxLength={50}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g., Retirement"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Trades</Label>
+                <Select value={paperTrading} onValueChange={setPaperTrading}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="no">Entered by hand</SelectItem>
+                    <SelectItem value="yes">Paper trading: market orders from cash</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsCreateOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import React from "react";
+
+// Places a user moved since the previous day's ranking, as ▲3 (up) or ▼1 (down).
+// Nothing is shown for an unchanged rank, or when the user was not ranked then.
+export function RankChange({ change }: { change?: number | null }) {
+  if (!change) return null;
+
+  const places = Math.abs(change);
+  return (
+    <span
+      className={`ml-1 text-xs font-medium ${change > 0 ? "text-green-600" : "text-red-600"}`}
+      title={`${change > 0 ? "Up" : "Down"} ${places} ${places === 1 ? "place" : "places"} since the previous day`}
+    >
+      {change > 0 ? "▲" : "▼"}{places}
+    </span>
+  );
+}
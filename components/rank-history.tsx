@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from "recharts";
+
+// Same shape as RankHistoryPoint in lib/leaderboard.ts
+type RankHistoryPoint = {
+  date: string;
+  rank: number;
+  users: number;
+};
+
+const TIME_FRAMES = [
+  { value: "total", name: "Total gain" },
+  { value: "daily", name: "Daily gain" },
+  { value: "weekly", name: "Weekly gain" },
+  { value: "worth", name: "Net worth" },
+  { value: "twr", name: "Time-weighted" },
+  { value: "mwr", name: "Money-weighted" },
+];
+
+const PERIODS = [
+  { days: "30", name: "1 month" },
+  { days: "90", name: "3 months" },
+  { days: "365", name: "1 year" },
+];
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const formatShortDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+// A user's place on each day's leaderboard, with the best rank at the top of the chart
+export function RankHistory({ userId }: { userId: number }) {
+  const [timeFrame, setTimeFrame] = useState("total");
+  const [days, setDays] = useState("90");
+  const [history, setHistory] = useState<RankHistoryPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = new URLSearchParams({ userId: String(userId), timeFrame, days });
+        const response = await fetch(`/api/leaderboard/ranks?${params.toString()}`);
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch rank history");
+        }
+
+        const data = await response.json();
+        setHistory(data.history);
+      } catch (err) {
+        console.error("Error fetching rank history:", err);
+        setError("Failed to load rank history");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [userId, timeFrame, days]);
+
+  const latest = history[history.length - 1];
+  const best = history.reduce<RankHistoryPoint | null>(
+    (top, point) => (!top || point.rank < top.rank ? point : top),
+    null
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select value={timeFrame} onValueChange={setTimeFrame}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Ranking" />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_FRAMES.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(option => (
+              <SelectItem key={option.days} value={option.days}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-[240px] w-full" />
+      ) : error ? (
+        <p className="text-center text-red-500">{error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-center text-muted-foreground py-6">Not ranked on the leaderboard in this period yet</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-muted p-4 rounded-md">
+              <span className="text-sm">Latest Rank</span>
+              <div className="text-2xl font-semibold">#{latest.rank}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                of {latest.users} on {formatDate(latest.date)}
+              </p>
+            </div>
+            {best && (
+              <div className="bg-muted p-4 rounded-md">
+                <span className="text-sm">Best Rank</span>
+                <div className="text-2xl font-semibold">#{best.rank}</div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  of {best.users} on {formatDate(best.date)}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="h-[240px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} opacity={0.3} />
+                <XAxis dataKey="date" tickFormatter={formatShortDate} tick={{ fontSize: 12 }} />
+                {/* Reversed, so first place is at the top */}
+                <YAxis
+                  reversed
+                  allowDecimals={false}
+                  domain={[1, "dataMax"]}
+                  tick={{ fontSize: 12 }}
+                  width={40}
+                />
+                <Tooltip
+                  labelFormatter={(date) => formatDate(String(date))}
+                  formatter={(rank, _name, item) => [`#${rank} of ${item.payload.users}`, "Rank"]}
+                />
+                <Line type="stepAfter" dataKey="rank" stroke="#3b82f6" strokeWidth={2} dot={history.length < 40} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Same shapes as lib/risk.ts
+type Drawdown = {
+  percentage: number;
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+};
+
+type RiskMetrics = {
+  totalReturn: number | null;
+  volatility: number | null;
+  maxDrawdown: Drawdown | null;
+  sharpe: number | null;
+  sortino: number | null;
+};
+
+type RiskAnalytics = {
+  from: string;
+  to: string | null;
+  observations: number;
+  riskFreeRate: number;
+  portfolio: RiskMetrics;
+  benchmark: (RiskMetrics & { symbol: string }) | null;
+  beta: number | null;
+  correlation: number | null;
+};
+
+const BENCHMARKS = [
+  { symbol: "^GSPC", name: "S&P 500" },
+  { symbol: "^IXIC", name: "Nasdaq" },
+  { symbol: "^DJI", name: "Dow Jones" },
+];
+
+const PERIODS = [
+  { days: "90", name: "3 months" },
+  { days: "182", name: "6 months" },
+  { days: "365", name: "1 year" },
+];
+
+const formatPercentage = (value: number | null) =>
+  value === null ? "—" : `${value >= 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const formatRatio = (value: number | null) => (value === null ? "—" : value.toFixed(2));
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// Plain-language reading of beta and volatility next to the benchmark
+function describeRisk(analytics: RiskAnalytics): string | null {
+  const { portfolio, benchmark, beta } = analytics;
+  if (beta === null || !benchmark || portfolio.volatility === null || benchmark.volatility === null) {
+    return null;
+  }
+
+  const relativeVolatility = portfolio.volatility / benchmark.volatility;
+  if (beta > 1.3 || relativeVolatility > 1.5) {
+    return `This portfolio swings ${relativeVolatility.toFixed(1)}× as much as the benchmark, so its results lean heavily on concentration rather than steady outperformance.`;
+  }
+  if (beta < 0.7 && relativeVolatility < 1) {
+    return "This portfolio moves less than the benchmark; its returns came with below-market risk.";
+  }
+  return "This portfolio carries roughly market-level risk.";
+}
+
+function MetricRow({ label, portfolio, benchmark }: { label: string; portfolio: string; benchmark?: string }) {
+  return (
+    <div className="grid grid-cols-3 gap-2 py-2 border-b last:border-b-0 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right">{portfolio}</span>
+      <span className="text-right text-muted-foreground">{benchmark ?? "—"}</span>
+    </div>
+  );
+}
+
+// Volatility, drawdown, Sharpe/Sortino and beta for a user's portfolio against an index
+export function RiskPanel({ userId }: { userId: number }) {
+  const [benchmark, setBenchmark] = useState(BENCHMARKS[0].symbol);
+  const [days, setDays] = useState("365");
+  const [analytics, setAnalytics] = useState<RiskAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const params = new URLSearchParams({ userId: String(userId), days, benchmark });
+        const response = await fetch(`/api/portfolio/analytics?${params.toString()}`);
+
+        if (!response.ok) {
+          throw new Error("Failed to fetch risk analytics");
+        }
+
+        setAnalytics(await response.json());
+      } catch (err) {
+        console.error("Error fetching risk analytics:", err);
+        setError("Failed to load risk analytics");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchAnalytics();
+  }, [userId, days, benchmark]);
+
+  const benchmarkName = BENCHMARKS.find(option => option.symbol === benchmark)?.name ?? benchmark;
+  const drawdown = analytics?.portfolio.maxDrawdown;
+  const summary = analytics ? describeRisk(analytics) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <Select value={benchmark} onValueChange={setBenchmark}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Benchmark" />
+          </SelectTrigger>
+          <SelectContent>
+            {BENCHMARKS.map(option => (
+              <SelectItem key={option.symbol} value={option.symbol}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[140px]">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(option => (
+              <SelectItem key={option.days} value={option.days}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <Skeleton className="h-[240px] w-full" />
+      ) : error ? (
+        <p className="text-center text-red-500">{error}</p>
+      ) : !analytics || analytics.observations < 2 ? (
+        <p className="text-center text-muted-foreground py-6">Not enough history yet to measure risk</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="bg-muted p-4 rounded-md">
+              <span className="text-sm">Beta vs {benchmarkName}</span>
+              <div className="text-2xl font-semibold">{formatRatio(analytics.beta)}</div>
+              <p className="text-xs text-muted-foreground mt-1">
+                Correlation {formatRatio(analytics.correlation)} over {analytics.observations} trading days
+              </p>
+            </div>
+            <div className="bg-muted p-4 rounded-md">
+              <span className="text-sm">Max Drawdown</span>
+              <div className="text-2xl font-semibold text-red-600">
+                {drawdown ? formatPercentage(drawdown.percentage) : "None"}
+              </div>
+              {drawdown && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatDate(drawdown.peakDate)} → {formatDate(drawdown.troughDate)}
+                  {drawdown.recoveryDate ? `, recovered ${formatDate(drawdown.recoveryDate)}` : ", not yet recovered"}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="rounded-md border px-4">
+            <div className="grid grid-cols-3 gap-2 py-2 border-b text-xs font-medium text-muted-foreground">
+              <span></span>
+              <span className="text-right">Portfolio</span>
+              <span className="text-right">{benchmarkName}</span>
+            </div>
+            <MetricRow
+              label="Return"
+              portfolio={formatPercentage(analytics.portfolio.totalReturn)}
+              benchmark={analytics.benchmark ? formatPercentage(analytics.benchmark.totalReturn) : undefined}
+            />
+            <MetricRow
+              label="Volatility (annual)"
+              portfolio={formatPercentage(analytics.portfolio.volatility)}
+              benchmark={analytics.benchmark ? formatPercentage(analytics.benchmark.volatility) : undefined}
+            />
+            <MetricRow
+              label="Max drawdown"
+              portfolio={formatPercentage(analytics.portfolio.maxDrawdown?.percentage ?? null)}
+              benchmark={analytics.benchmark ? formatPercentage(analytics.benchmark.maxDrawdown?.percentage ?? null) : undefined}
+            />
+            <MetricRow
+              label="Sharpe ratio"
+              portfolio={formatRatio(analytics.portfolio.sharpe)}
+              benchmark={analytics.benchmark ? formatRatio(analytics.benchmark.sharpe) : undefined}
+            />
+            <MetricRow
+              label="Sortino ratio"
+              portfolio={formatRatio(analytics.portfolio.sortino)}
+              benchmark={analytics.benchmark ? formatRatio(analytics.benchmark.sortino) : undefined}
+            />
+          </div>
+
+          {summary && <p className="text-xs text-muted-foreground">{summary}</p>}
+          {!analytics.benchmark && (
+            <p className="text-xs text-muted-foreground">Benchmark prices are unavailable, so beta and correlation are not shown.</p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/lib/auth-context";
+import { toast } from "@/components/ui/use-toast";
+import { formatCurrency } from "@/lib/utils";
+
+// Type for stock data (should match the one in user-portfolio.tsx)
+type Stock = {
+  id: number;
+  symbol: string;
+  companyName: string;
+  quantity: number;
+  purchasePrice: number;
+  purchaseDate: string;
+  currentPrice: number;
+};
+
+// An open lot as returned by /api/portfolio/ledger
+type Lot = {
+  lotId: number;
+  acquiredDate: string;
+  quantity: number;
+  costPerShare: number;
+};
+
+type LotMethod = "fifo" | "lifo" | "specific";
+
+type SellStockDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stock: Stock;
+  onStockSold: () => void;
+  // A paper-trading portfolio only takes market orders
+  paperTrading?: boolean;
+};
+
+export function SellStockDialog({
+  open,
+  onOpenChange,
+  stock,
+  onStockSold,
+  paperTrading = false,
+}: SellStockDialogProps) {
+  const { user } = useAuth();
+  const [quantity, setQuantity] = useState(stock.quantity.toString());
+  const [salePrice, setSalePrice] = useState(stock.currentPrice.toString());
+  const [saleDate, setSaleDate] = useState(new Date().toISOString().split("T")[0]);
+  const [orderType, setOrderType] = useState<"market" | "manual">("manual");
+  const [lotMethod, setLotMethod] = useState<LotMethod>("fifo");
+  const [lots, setLots] = useState<Lot[]>([]);
+  // Shares to sell from each lot when picking specific lots, keyed by lot id
+  const [lotQuantities, setLotQuantities] = useState<Record<number, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  // Load the open lots so specific ones can be picked
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const fetchLots = async () => {
+      try {
+        const response = await fetch(
+          `/api/portfolio/ledger?userId=${user.id}&symbol=${encodeURIComponent(stock.symbol)}`
+        );
+        if (!response.ok) throw new Error("Failed to load lots");
+
+        const data = await response.json();
+        setLots(data.positions?.[0]?.lots || []);
+      } catch (err) {
+        console.error("Failed to load lots:", err);
+        setLots([]);
+      }
+    };
+
+    fetchLots();
+  }, [open, user, stock.symbol]);
+
+  const selectedQuantity = Object.values(lotQuantities)
+    .reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+
+  // Market orders are filled at the current price by the server
+  const isMarketOrder = paperTrading || orderType === "market";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const sellQuantity = lotMethod === "specific" ? selectedQuantity : parseFloat(quantity);
+
+    // Form validation
+    if (!sellQuantity || (!isMarketOrder && (!salePrice || !saleDate))) {
+      setError("All fields are required");
+      return;
+    }
+    if (sellQuantity > stock.quantity) {
+      setError(`You only hold ${stock.quantity} ${stock.symbol}`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError("");
+
+      const response = await fetch(`/api/portfolio/sell`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          stockId: stock.id,
+          userId: user.id,
+          quantity: sellQuantity,
+          price: isMarketOrder ? undefined : parseFloat(salePrice),
+          saleDate: isMarketOrder ? undefined : saleDate,
+          orderType: isMarketOrder ? "market" : undefined,
+          lotMethod,
+          lots: lotMethod === "specific"
+            ? Object.entries(lotQuantities)
+                .filter(([, value]) => parseFloat(value) > 0)
+                .map(([lotId, value]) => ({ lotId: Number(lotId), quantity: parseFloat(value) }))
+            : undefined,
+        }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to sell stock");
+      }
+
+      toast({
+        title: "Sale Recorded",
+        description: `Sold ${sellQuantity} ${stock.symbol}${data.fill ? ` at ${formatCurrency(data.fill.price)}` : ""} for a realized ${data.realizedGain >= 0 ? "gain" : "loss"} of ${formatCurrency(Math.abs(data.realizedGain))}`,
+      });
+
+      onOpenChange(false);
+      onStockSold();
+    } catch (err) {
+      console.error("Failed to sell stock:", err);
+      setError(err instanceof Error ? err.message : "An unknown error occurred");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Sell - {stock.symbol}</DialogTitle>
+          <DialogDescription>
+            Record a sale. The gain or loss on the shares sold is realized.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="lotMethod">Lots to Sell</Label>
+              <Select value={lotMethod} onValueChange={(value) => setLotMethod(value as LotMethod)}>
+                <SelectTrigger id="lotMethod">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fifo">Oldest first (FIFO)</SelectItem>
+                  <SelectItem value="lifo">Newest first (LIFO)</SelectItem>
+                  <SelectItem value="specific">Choose specific lots</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {lotMethod === "specific" ? (
+              <div className="grid gap-2">
+                {lots.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No open lots found</p>
+                )}
+                {lots.map((lot) => (
+                  <div key={lot.lotId} className="flex items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <div>{new Date(lot.acquiredDate).toLocaleDateString()}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {lot.quantity} @ {formatCurrency(lot.costPerShare)}
+                      </div>
+                    </div>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={lot.quantity}
+                      step="any"
+                      className="w-28"
+                      value={lotQuantities[lot.lotId] || ""}
+                      onChange={(e) => setLotQuantities(prev => ({ ...prev, [lot.lotId]: e.target.value }))}
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="grid gap-2">
+                <Label htmlFor="sellQuantity">Quantity</Label>
+                <Input
+                  id="sellQuantity"
+                  type="number"
+                  min="0"
+                  max={stock.quantity}
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  placeholder={`Up to ${stock.quantity}`}
+                />
+              </div>
+            )}
+            {paperTrading ? (
+              <p className="text-sm text-muted-foreground">
+                This is a paper-trading portfolio: the order is filled at the current price.
+              </p>
+            ) : (
+              <div className="grid gap-2">
+                <Label htmlFor="orderType">Order Type</Label>
+                <Select value={orderType} onValueChange={(value) => setOrderType(value as "market" | "manual")}>
+                  <SelectTrigger id="orderType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Enter price and date</SelectItem>
+                    <SelectItem value="market">Market order (verified)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {!isMarketOrder && (
+              <>
+                <div className="grid gap-2">
+                  <Label htmlFor="salePrice">Sale Price</Label>
+                  <Input
+                    id="salePrice"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={salePrice}
+                    onChange={(e) => setSalePrice(e.target.value)}
+                    placeholder="e.g., 150.00"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="saleDate">Sale Date</Label>
+                  <Input
+                    id="saleDate"
+                    type="date"
+                    value={saleDate}
+                    max={new Date().toISOString().split("T")[0]}
+                    onChange={(e) => setSaleDate(e.target.value)}
+                  />
+                </div>
+              </>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isSubmitting ? "Selling..." : "Record Sale"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,8 @@ import { format } from "date-fns";
 import { CalendarIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/lib/auth-context";
+import { QUANTITY_DECIMALS } from "@/lib/decimal";
+import { z } from "zod";
 
 type StockResult = {
   symbol: string;
@@ -18,6 +20,15 @@ type StockResult = {
   price: number;
 };
 
+// Quantities can be fractional (broker fractional shares), up to the stored precision
+const quantitySchema = z.coerce
+  .number({ invalid_type_error: "Enter a number of shares" })
+  .positive("Number of shares must be greater than 0")
+  .refine(
+    (value) => Number(value.toFixed(QUANTITY_DECIMALS)) === value,
+    `At most ${QUANTITY_DECIMALS} decimal places`
+  );
+
 export function StockAddForm() {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -25,7 +36,7 @@ export function StockAddForm() {
   const [searching, setSearching] = useState(false);
   const [results, setResults] = useState<StockResult[]>([]);
   const [selectedStock, setSelectedStock] = useState<StockResult | null>(null);
-  const [quantity, setQuantity] = useState(1);
+  const [quantity, setQuantity] = useState("1");
   const [purchaseDate, setPurchaseDate] = useState<Date>(new Date());
   const [historicalPrice, setHistoricalPrice] = useState<number | null>(null);
   const [submitting, setSubmitting] = useState(false);
@@ -106,6 +117,16 @@ export function StockAddForm() {
     e.preventDefault();
     
     if (!user || !selectedStock || !historicalPrice) return;
+
+    const parsedQuantity = quantitySchema.safeParse(quantity);
+    if (!parsedQuantity.success) {
+      toast({
+        title: "Invalid quantity",
+        description: parsedQuantity.error.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
     
     setSubmitting(true);
     try {
@@ -118,7 +139,7 @@ export function StockAddForm() {
           userId: user.id,
           symbol: selectedStock.symbol,
           companyName: selectedStock.name,
-          quantity,
+          quantity: parsedQuantity.data,
           purchasePrice: historicalPrice,
           purchaseDate: format(purchaseDate, "yyyy-MM-dd"),
         }),
@@ -131,12 +152,12 @@ export function StockAddForm() {
 
       toast({
         title: "Stock Added",
-        description: `Added ${quantity} shares of ${selectedStock.name} to your portfolio.`,
+        description: `Added ${parsedQuantity.data} shares of ${selectedStock.name} to your portfolio.`,
       });
 
       // Reset form
       setSelectedStock(null);
-      setQuantity(1);
+      setQuantity("1");
       setPurchaseDate(new Date());
       setHistoricalPrice(null);
     } catch (error) {
@@ -210,10 +231,10 @@ export function StockAddForm() {
             <Input
               id="quantity"
               type="number"
-              min="1"
-              step="1"
+              min="0"
+              step="any"
               value={quantity}
-              onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+              onChange={(e) => setQuantity(e.target.value)}
               required
             />
           </div>
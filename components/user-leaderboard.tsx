@@ -29,9 +29,11 @@ import {
 import { Button } from "@/components/ui/button";
 import { UserProfile } from "@/components/user-profile";
 import { useIsMobile } from "@/lib/hooks";
-import { RefreshCw } from "lucide-react";
+import { BadgeCheck, RefreshCw } from "lucide-react";
+import { RankChange } from "./rank-change";
 import { MobileLeaderboard } from "./mobile-leaderboard";
 import { UserComparison } from "./user-comparison";
+import { League, LeagueSelector } from "./league-selector";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { cacheLeaderboardData, getCachedLeaderboardData, clearLeaderboardCache } from "@/lib/cache";
 
@@ -68,6 +70,19 @@ const StockLogo = ({ symbol }: { symbol: string }) => {
   );
 };
 
+// Ranking modes; twr and mwr are the time- and money-weighted returns since the first trade
+type TimeFrame = "total" | "weekly" | "daily" | "worth" | "twr" | "mwr";
+
+// The column each ranking mode sorts by
+const TIME_FRAME_SORT_COLUMNS: Record<TimeFrame, string> = {
+  total: "totalGain",
+  daily: "dailyGain",
+  weekly: "weeklyGain",
+  worth: "netWorth",
+  twr: "twr",
+  mwr: "mwr",
+};
+
 // Type for leaderboard user data
 type LeaderboardUser = {
   id: number;
@@ -75,13 +90,27 @@ type LeaderboardUser = {
   avatar?: string;
   totalGain: string;
   totalGainPercentage: string;
+  unrealizedGain?: string;
+  realizedGain?: string;
+  dividendIncome?: string;
   dailyGain: string;
   dailyGainPercentage: string;
   weeklyGain: string;
   weeklyGainPercentage: string;
+  twr?: string | null;
+  mwr?: string | null;
   topGainer: string | null;
   topGainerPercentage?: string;
   currentWorth: string;
+  // Holdings plus uninvested cash
+  cash?: string;
+  netWorth?: string;
+  // The portfolio the user is ranked by; null for all of their portfolios
+  portfolio?: string | null;
+  // Every open position was bought with market orders
+  verified?: boolean;
+  // Places moved since the previous day's ranking in this time frame; null when not ranked then
+  rankChange?: number | null;
   startingAmount: string;
   latestPurchase?: {
     symbol: string;
@@ -97,14 +126,19 @@ export function UserLeaderboard() {
   const [leaderboardData, setLeaderboardData] = useState<LeaderboardUser[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sortColumn, setSortColumn] = useState("currentWorth");
+  const [sortColumn, setSortColumn] = useState("netWorth");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   const [selectedUser, setSelectedUser] = useState<LeaderboardUser | null>(null);
   const [refreshing, setRefreshing] = useState(false);
-  const [timeFrame, setTimeFrame] = useState<"total" | "weekly" | "daily">("total");
+  const [timeFrame, setTimeFrame] = useState<TimeFrame>("total");
   const { isMobile } = useIsMobile();
   const [viewingComparison, setViewingComparison] = useState(false);
   const [viewingProfile, setViewingProfile] = useState(false);
+  // The private league shown; null for the global leaderboard
+  const [league, setLeague] = useState<League | null>(null);
+
+  // Leagues are ranked the same way in every time frame, so they are cached once
+  const cacheKey = league ? `league:${league.id}` : timeFrame;
 
   // Fetch leaderboard data
   const fetchLeaderboardData = async (forceRefresh = false, updateDb = false) => {
@@ -114,7 +148,7 @@ export function UserLeaderboard() {
       
       // Check browser cache first if not forcing refresh
       if (!forceRefresh) {
-        const cachedData = getCachedLeaderboardData(timeFrame);
+        const cachedData = getCachedLeaderboardData(cacheKey);
         
         if (cachedData) {
           setLeaderboardData(cachedData);
@@ -126,10 +160,6 @@ export function UserLeaderboard() {
       let url = "/api/leaderboard";
       const params = new URLSearchParams();
       
-      if (forceRefresh) {
-        params.append('refresh', 'true');
-      }
-      
       if (updateDb) {
         params.append('updateDb', 'true');
       }
@@ -137,6 +167,10 @@ export function UserLeaderboard() {
       // Add the current time frame to the request
       params.append('timeFrame', timeFrame);
       
+      if (league) {
+        params.append('leagueId', String(league.id));
+      }
+      
       // Append params to URL if there are any
       if (params.toString()) {
         url += `?${params.toString()}`;
@@ -153,7 +187,7 @@ export function UserLeaderboard() {
       setLeaderboardData(data);
       
       // Cache the results
-      cacheLeaderboardData(timeFrame, data);
+      cacheLeaderboardData(cacheKey, data);
     } catch (err) {
       console.error("Failed to fetch leaderboard data:", err);
       setError(err instanceof Error ? err.message : "Failed to fetch leaderboard data");
@@ -165,7 +199,7 @@ export function UserLeaderboard() {
   // Load data on component mount
   useEffect(() => {
     fetchLeaderboardData();
-  }, [timeFrame]);
+  }, [timeFrame, league]);
 
   // Handle sorting
   const handleSort = (column: string) => {
@@ -185,9 +219,9 @@ export function UserLeaderboard() {
     
     // Get values based on sortColumn and timeFrame
     switch (sortColumn) {
-      case "currentWorth":
-        aValue = a.currentWorth ? parseCurrency(a.currentWorth) : 0;
-        bValue = b.currentWorth ? parseCurrency(b.currentWorth) : 0;
+      case "netWorth":
+        aValue = parseCurrency(a.netWorth ?? a.currentWorth ?? "$0.00");
+        bValue = parseCurrency(b.netWorth ?? b.currentWorth ?? "$0.00");
         break;
       case "totalGain":
         aValue = a.totalGain ? parseCurrency(a.totalGain) : 0;
@@ -201,6 +235,14 @@ export function UserLeaderboard() {
         aValue = a.weeklyGain ? parseCurrency(a.weeklyGain) : 0;
         bValue = b.weeklyGain ? parseCurrency(b.weeklyGain) : 0;
         break;
+      case "twr":
+        aValue = a.twr ? parseFloat(a.twr) : 0;
+        bValue = b.twr ? parseFloat(b.twr) : 0;
+        break;
+      case "mwr":
+        aValue = a.mwr ? parseFloat(a.mwr) : 0;
+        bValue = b.mwr ? parseFloat(b.mwr) : 0;
+        break;
       case "startingAmount":
         aValue = a.startingAmount ? parseCurrency(a.startingAmount) : 0;
         bValue = b.startingAmount ? parseCurrency(b.startingAmount) : 0;
@@ -280,7 +322,7 @@ export function UserLeaderboard() {
   const handleRefreshWithUpdate = async () => {
     setRefreshing(true);
     // Clear cache for current timeframe before refreshing
-    clearLeaderboardCache(timeFrame);
+    clearLeaderboardCache(cacheKey);
     await fetchLeaderboardData(true, true);
     setRefreshing(false);
   };
@@ -289,15 +331,39 @@ export function UserLeaderboard() {
   const handleRefresh = async () => {
     setRefreshing(true);
     // Clear cache for current timeframe before refreshing
-    clearLeaderboardCache(timeFrame);
+    clearLeaderboardCache(cacheKey);
     await fetchLeaderboardData(true, false);
     setRefreshing(false);
   };
 
+  // Handle league change; leagues rank by return since the league started
+  const handleLeagueChange = (selected: League | null) => {
+    setLeague(selected);
+    setSortColumn(selected ? "totalGain" : TIME_FRAME_SORT_COLUMNS[timeFrame]);
+    setSortDirection("desc");
+  };
+
+  // The rules of the league shown
+  const leagueSummary = league && (
+    <p className="text-sm text-muted-foreground mb-4">
+      {league.startDate} to {league.endDate}
+      {" · "}{league.status === "ended" ? (league.archivedAt ? "Final standings" : "Ended") : league.status === "upcoming" ? "Not started" : "In progress"}
+      {" · "}${league.startingBankroll.toLocaleString()} bankroll
+      {" · "}{league.allowedAssetTypes.length === 2 ? "Stocks and crypto" : league.allowedAssetTypes[0] === "stock" ? "Stocks only" : "Crypto only"}
+      {league.maxPositionPercent !== null && <>{" · "}Max {league.maxPositionPercent}% per position</>}
+      {league.requireVerified && <>{" · "}Market orders only</>}
+      {" · "}{league.memberCount} {league.memberCount === 1 ? "member" : "members"}
+      {" · "}Invite code <span className="font-mono font-medium">{league.inviteCode}</span>
+    </p>
+  );
+
   // Handle time frame change
   const handleTimeFrameChange = (value: string, forceRefresh = false) => {
-    const newTimeFrame = value as "total" | "weekly" | "daily";
+    const newTimeFrame = value as TimeFrame;
     setTimeFrame(newTimeFrame);
+    // Rank by the mode's own column
+    setSortColumn(TIME_FRAME_SORT_COLUMNS[newTimeFrame]);
+    setSortDirection("desc");
     
     // Data will be loaded by the useEffect that depends on timeFrame
     if (forceRefresh) {
@@ -364,8 +430,9 @@ export function UserLeaderboard() {
         ) : (
           <>
             <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-bold">Leaderboard</h2>
+              <h2 className="text-xl font-bold">{league ? league.name : "Leaderboard"}</h2>
               <div className="flex gap-2">
+                <LeagueSelector leagueId={league?.id ?? null} onLeagueChange={handleLeagueChange} compact />
                 <Button
                   variant="outline"
                   size="sm"
@@ -386,6 +453,7 @@ export function UserLeaderboard() {
                 </Button>
               </div>
             </div>
+            {leagueSummary}
             <MobileLeaderboard 
               users={sortedUsers} 
               onUserClick={handleUserClick} 
@@ -449,9 +517,10 @@ export function UserLeaderboard() {
         <>
           <div className="flex justify-between items-center mb-4">
             <h2 className={`${isMobile ? 'text-xl' : 'text-2xl'} font-bold`}>
-              {isMobile ? "Leaderboard" : "Stock Trading Leaderboard"}
+              {league ? league.name : isMobile ? "Leaderboard" : "Stock Trading Leaderboard"}
             </h2>
             <div className="flex gap-2">
+              <LeagueSelector leagueId={league?.id ?? null} onLeagueChange={handleLeagueChange} />
               <Button
                 variant="outline"
                 size="sm"
@@ -472,6 +541,7 @@ export function UserLeaderboard() {
               </Button>
             </div>
           </div>
+          {leagueSummary}
 
           {isMobile ? (
             // Mobile-specific leaderboard
@@ -485,14 +555,17 @@ export function UserLeaderboard() {
           ) : (
             // Desktop leaderboard with tabs
             <Tabs defaultValue="total" value={timeFrame} onValueChange={handleTimeFrameChange} className="w-full">
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className="grid w-full grid-cols-6">
                 <TabsTrigger value="total">Total Gain</TabsTrigger>
                 <TabsTrigger value="daily">Today</TabsTrigger>
                 <TabsTrigger value="weekly">Weekly</TabsTrigger>
                 <TabsTrigger value="worth">Net Worth</TabsTrigger>
+                <TabsTrigger value="twr">Time-Weighted</TabsTrigger>
+                <TabsTrigger value="mwr">Money-Weighted</TabsTrigger>
               </TabsList>
               
-              <TabsContent value="total">
+              {/* Every mode shows the same table, ranked by its own column */}
+              <TabsContent value={timeFrame}>
                 <div className="rounded-md border bg-card text-card-foreground overflow-x-auto">
                   <Table>
                     <TableHeader>
@@ -508,13 +581,19 @@ export function UserLeaderboard() {
                         <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => handleSort("totalGain")}>
                           Total Gain {sortColumn === "totalGain" && (sortDirection === "desc" ? "↓" : "↑")}
                         </TableHead>
+                        <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => handleSort("twr")}>
+                          TWR {sortColumn === "twr" && (sortDirection === "desc" ? "↓" : "↑")}
+                        </TableHead>
+                        <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => handleSort("mwr")}>
+                          MWR {sortColumn === "mwr" && (sortDirection === "desc" ? "↓" : "↑")}
+                        </TableHead>
                         <TableHead className="hidden md:table-cell">Trend</TableHead>
                         <TableHead className="hidden md:table-cell whitespace-nowrap">Latest Purchase</TableHead>
                         <TableHead className="cursor-pointer whitespace-nowrap" onClick={() => handleSort("startingAmount")}>
                           Initial Investment {sortColumn === "startingAmount" && (sortDirection === "desc" ? "↓" : "↑")}
                         </TableHead>
-                        <TableHead className="text-right cursor-pointer whitespace-nowrap" onClick={() => handleSort("currentWorth")}>
-                          Net Worth {sortColumn === "currentWorth" && (sortDirection === "desc" ? "↓" : "↑")}
+                        <TableHead className="text-right cursor-pointer whitespace-nowrap" onClick={() => handleSort("netWorth")}>
+                          Net Worth {sortColumn === "netWorth" && (sortDirection === "desc" ? "↓" : "↑")}
                         </TableHead>
                       </TableRow>
                     </TableHeader>
@@ -569,6 +648,15 @@ export function UserLeaderboard() {
                           <TableCell className="font-medium max-w-[120px] md:max-w-none">
                             <div className="truncate">
                               {user.username}
+                              <RankChange change={user.rankChange} />
+                              {user.verified && (
+                                <span title="Verified: bought with market orders">
+                                  <BadgeCheck className="ml-1 inline h-4 w-4 text-blue-500" />
+                                </span>
+                              )}
+                              {user.portfolio && (
+                                <span className="ml-1 text-xs text-muted-foreground">({user.portfolio})</span>
+                              )}
                               {user.topGainer && (
                                 <div className="mt-1">
                                   <Badge variant="outline" className="text-xs">
@@ -626,6 +714,7 @@ export function UserLeaderboard() {
                                 className={
                                   user.totalGain && parseCurrency(user.totalGain) >= 0 ? "text-green-600" : "text-red-600"
                                 }
+                                title={`Unrealized ${user.unrealizedGain || "$0.00"} · Realized ${user.realizedGain || "$0.00"} · Dividends ${user.dividendIncome || "$0.00"}`}
                               >
                                 {user.totalGain || "$0.00"}
                               </span>
@@ -641,6 +730,18 @@ export function UserLeaderboard() {
                               </span>
                             </div>
                           </TableCell>
+                          {[user.twr, user.mwr].map((rate, i) => (
+                            <TableCell key={i} className="whitespace-nowrap">
+                              {rate ? (
+                                <span className={parseFloat(rate) >= 0 ? "text-green-600" : "text-red-600"}>
+                                  {parseFloat(rate) >= 0 ? "+" : ""}
+                                  {rate}%
+                                </span>
+                              ) : (
+                                <span className="text-xs text-muted-foreground">—</span>
+                              )}
+                            </TableCell>
+                          ))}
                           <TableCell className="hidden md:table-cell">
                             <MiniChart data={user.chartData} />
                           </TableCell>
@@ -663,7 +764,7 @@ export function UserLeaderboard() {
                             {user.startingAmount}
                           </TableCell>
                           <TableCell className="text-right font-medium whitespace-nowrap">
-                            {user.currentWorth}
+                            {user.netWorth ?? user.currentWorth}
                           </TableCell>
                         </TableRow>
                       ))}
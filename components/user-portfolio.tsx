@@ -13,9 +13,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/lib/auth-context";
 import { Skeleton } from "@/components/ui/skeleton";
-import { PlusCircle, RefreshCw, Trash2, Edit, BarChart2 } from "lucide-react";
+import { PlusCircle, RefreshCw, Trash2, Edit, BarChart2, DollarSign, ChevronRight, ChevronDown, BadgeCheck } from "lucide-react";
 import { AddStockDialog } from "./add-stock-dialog";
 import { EditStockDialog } from "./edit-stock-dialog";
+import { SellStockDialog } from "./sell-stock-dialog";
+import { CashDialog } from "./cash-dialog";
+import { PortfolioSwitcher } from "./portfolio-switcher";
+import { OrderBook } from "./order-book";
 import { toast } from "@/components/ui/use-toast";
 import { UserProfile } from "./user-profile";
 import { useIsMobile } from "@/lib/hooks";
@@ -25,8 +29,21 @@ import { isCryptoCurrency, getCryptoDisplayName } from "@/lib/crypto-api";
 import { Badge } from "@/components/ui/badge";
 
 // Types for stock data
+type Lot = {
+  lotId: number;
+  acquiredDate: string;
+  quantity: number;
+  costPerShare: number;
+  currentValue: number;
+  gain: number;
+  gainPercentage: number;
+  // Opened by a market fill
+  verified: boolean;
+};
+
 type Stock = {
   id: number;
+  portfolioId: number;
   symbol: string;
   companyName: string;
   quantity: number;
@@ -37,13 +54,23 @@ type Stock = {
   historicalPrice: number;
   gain: number;
   gainPercentage: number;
+  lots: Lot[];
+  // Every open lot was opened by a market fill
+  verified: boolean;
 };
 
 type PortfolioSummary = {
   totalCurrentValue: number;
   totalPurchaseValue: number;
+  unrealizedGain: number;
+  unrealizedGainPercentage: number;
+  realizedGain: number;
+  realizedGainPercentage: number;
+  dividendIncome: number;
   totalGain: number;
   totalGainPercentage: number;
+  cash: number;
+  netWorth: number;
 };
 
 export function UserPortfolio() {
@@ -54,12 +81,20 @@ export function UserPortfolio() {
   const [error, setError] = useState<string | null>(null);
   const [isAddStockOpen, setIsAddStockOpen] = useState(false);
   const [isEditStockOpen, setIsEditStockOpen] = useState(false);
+  const [isSellStockOpen, setIsSellStockOpen] = useState(false);
   const [selectedStock, setSelectedStock] = useState<Stock | null>(null);
   const [deletingStockId, setDeletingStockId] = useState<number | null>(null);
+  // Stocks whose rows are expanded to show their individual lots
+  const [expandedStockIds, setExpandedStockIds] = useState<number[]>([]);
   const [viewingProfile, setViewingProfile] = useState(false);
   const [refreshing, setRefreshing] = useState(false);
   const { isMobile } = useIsMobile();
   const [isCryptoDialogOpen, setIsCryptoDialogOpen] = useState(false);
+  const [isCashDialogOpen, setIsCashDialogOpen] = useState(false);
+  // The portfolio shown; null for all of the user's portfolios together
+  const [portfolioId, setPortfolioId] = useState<number | null>(null);
+  // Whether the portfolio shown only takes market orders
+  const [paperTrading, setPaperTrading] = useState(false);
 
   const fetchPortfolio = async (forceRefresh = false) => {
     if (!user) return;
@@ -70,7 +105,8 @@ export function UserPortfolio() {
       if (forceRefresh) setRefreshing(true);
       
       const refreshParam = forceRefresh ? '&refresh=true' : '';
-      const response = await fetch(`/api/portfolio?userId=${user.id}${refreshParam}`);
+      const portfolioParam = portfolioId !== null ? `&portfolioId=${portfolioId}` : '';
+      const response = await fetch(`/api/portfolio?userId=${user.id}${refreshParam}${portfolioParam}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch portfolio data');
@@ -79,6 +115,7 @@ export function UserPortfolio() {
       const data = await response.json();
       setPortfolio(data.stocks);
       setSummary(data.summary);
+      setPaperTrading(data.paperTrading === true);
     } catch (err) {
       console.error("Failed to fetch portfolio data:", err);
       setError("Failed to load portfolio data");
@@ -97,23 +134,11 @@ export function UserPortfolio() {
     if (user) {
       fetchPortfolio();
     }
-  }, [user]);
-
-  // This function refreshes the leaderboard cache to show updated data
-  const refreshLeaderboard = async () => {
-    try {
-      await fetch('/api/leaderboard?refresh=true');
-      console.log('Leaderboard cache refreshed');
-    } catch (error) {
-      console.error('Failed to refresh leaderboard:', error);
-    }
-  };
+  }, [user, portfolioId]);
 
   // Handle successful stock addition
   const handleStockAdded = async () => {
     await fetchPortfolio(true);
-    // Also refresh the leaderboard to show the updated data
-    await refreshLeaderboard();
   };
 
   // Handle stock deletion
@@ -130,29 +155,8 @@ export function UserPortfolio() {
         throw new Error('Failed to delete stock');
       }
       
-      // Remove the stock from the local state
-      setPortfolio(prev => prev.filter(stock => stock.id !== stockId));
-      
-      // Update the summary
-      if (summary) {
-        const deletedStock = portfolio.find(stock => stock.id === stockId);
-        if (deletedStock) {
-          const newTotalCurrentValue = summary.totalCurrentValue - deletedStock.currentValue;
-          const newTotalPurchaseValue = summary.totalPurchaseValue - (deletedStock.quantity * deletedStock.historicalPrice);
-          const newTotalGain = newTotalCurrentValue - newTotalPurchaseValue;
-          const newTotalGainPercentage = newTotalPurchaseValue > 0 ? (newTotalGain / newTotalPurchaseValue) * 100 : 0;
-          
-          setSummary({
-            totalCurrentValue: newTotalCurrentValue,
-            totalPurchaseValue: newTotalPurchaseValue,
-            totalGain: newTotalGain,
-            totalGainPercentage: newTotalGainPercentage
-          });
-        }
-      }
-      
-      // Also refresh the leaderboard to show the updated data
-      await refreshLeaderboard();
+      // Reload so the summary reflects the removed trades, including any realized gains
+      await fetchPortfolio(true);
       
       toast({
         title: "Stock deleted",
@@ -248,27 +252,58 @@ export function UserPortfolio() {
     stock, 
     onDelete, 
     onEdit,
+    onSell,
     deletingStockId,
+    isExpanded,
+    onToggleExpanded,
     formatCurrency,
     formatPercentage
   }: { 
     stock: Stock;
     onDelete: (id: number) => void;
     onEdit: (stock: Stock) => void;
+    onSell: (stock: Stock) => void;
     deletingStockId: number | null;
+    isExpanded: boolean;
+    onToggleExpanded: (id: number) => void;
     formatCurrency: (value: number) => string;
     formatPercentage: (value: number) => string;
   }) => {
     const isDeleting = deletingStockId === stock.id;
     const isCrypto = isCryptoCurrency(stock.symbol);
+    const lots = stock.lots || [];
+    // Only worth expanding when the position was bought more than once
+    const hasLots = lots.length > 1;
     
     return (
+      <>
       <TableRow key={stock.id}>
         <TableCell className="font-medium">
-          <div>
-            <div>{isCrypto ? getCryptoDisplayName(stock.symbol) : stock.symbol}</div>
-            <div className="text-xs text-muted-foreground">
-              {isCrypto ? "Cryptocurrency" : stock.companyName}
+          <div className="flex items-center gap-1">
+            {hasLots && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onToggleExpanded(stock.id)}
+                className="h-6 w-6 -ml-2"
+                title={isExpanded ? "Hide lots" : `Show ${lots.length} lots`}
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </Button>
+            )}
+            <div>
+              <div className="flex items-center gap-1">
+                {isCrypto ? getCryptoDisplayName(stock.symbol) : stock.symbol}
+                {stock.verified && (
+                  <span title="Verified: bought with market orders">
+                    <BadgeCheck className="h-4 w-4 text-blue-500" />
+                  </span>
+                )}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {isCrypto ? "Cryptocurrency" : stock.companyName}
+                {hasLots && ` · ${lots.length} lots`}
+              </div>
             </div>
           </div>
         </TableCell>
@@ -306,6 +341,15 @@ export function UserPortfolio() {
             >
               <Edit className="h-4 w-4" />
             </Button>
+            <Button 
+              variant="ghost" 
+              size="icon" 
+              onClick={() => onSell(stock)}
+              className="h-8 w-8"
+              title="Sell"
+            >
+              <DollarSign className="h-4 w-4" />
+            </Button>
             <Button 
               variant="ghost" 
               size="icon" 
@@ -322,6 +366,40 @@ export function UserPortfolio() {
           </div>
         </TableCell>
       </TableRow>
+      {hasLots && isExpanded && lots.map((lot) => (
+        <TableRow key={`${stock.id}-lot-${lot.lotId}`} className="bg-muted/40 text-sm">
+          <TableCell className="pl-10 text-muted-foreground">
+            Lot bought {new Date(lot.acquiredDate).toLocaleDateString()}
+            {lot.verified && " · verified"}
+          </TableCell>
+          <TableCell className="hidden md:table-cell" />
+          <TableCell>
+            {isCrypto ? lot.quantity.toFixed(5) : lot.quantity}
+          </TableCell>
+          <TableCell className="hidden md:table-cell">{formatCurrency(lot.costPerShare)}</TableCell>
+          <TableCell className="hidden md:table-cell">{new Date(lot.acquiredDate).toLocaleDateString()}</TableCell>
+          <TableCell className="text-muted-foreground">Value {formatCurrency(lot.currentValue)}</TableCell>
+          <TableCell className="text-right">
+            <div className="flex flex-col items-end">
+              <span className={lot.gain >= 0 ? "text-green-600" : "text-red-600"}>
+                {formatCurrency(lot.gain)}
+              </span>
+              <span className={`text-xs ${lot.gainPercentage >= 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatPercentage(lot.gainPercentage)}
+              </span>
+            </div>
+          </TableCell>
+          <TableCell />
+        </TableRow>
+      ))}
+      </>
+    );
+  };
+
+  // Expand or collapse a stock's lots
+  const toggleExpanded = (stockId: number) => {
+    setExpandedStockIds(prev =>
+      prev.includes(stockId) ? prev.filter(id => id !== stockId) : [...prev, stockId]
     );
   };
 
@@ -331,6 +409,12 @@ export function UserPortfolio() {
     setIsEditStockOpen(true);
   };
 
+  // Open the sell dialog for a stock
+  const handleSellStock = (stock: Stock) => {
+    setSelectedStock(stock);
+    setIsSellStockOpen(true);
+  };
+
   return (
     <div>
       {viewingProfile ? (
@@ -355,10 +439,14 @@ export function UserPortfolio() {
               {isMobile ? "Portfolio" : "Your Portfolio"}
             </h2>
             <div className="flex items-center gap-2">
+              <PortfolioSwitcher
+                portfolioId={portfolioId}
+                onPortfolioChange={setPortfolioId}
+              />
               <Button 
                 variant="outline" 
                 size={isMobile ? "sm" : "default"}
-                onClick={refreshLeaderboard} 
+                onClick={() => fetchPortfolio(true)} 
                 disabled={loading}
               >
                 <RefreshCw className={`mr-2 h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
@@ -380,6 +468,14 @@ export function UserPortfolio() {
                   <PlusCircle className="mr-2 h-4 w-4" />
                   {isMobile ? "Add Crypto" : "Add Crypto"}
                 </Button>
+                <Button 
+                  onClick={() => setIsCashDialogOpen(true)}
+                  size={isMobile ? "sm" : "default"}
+                  variant="outline"
+                >
+                  <DollarSign className="mr-2 h-4 w-4" />
+                  Cash
+                </Button>
               </div>
             </div>
           </div>
@@ -426,6 +522,11 @@ export function UserPortfolio() {
                     <div className="text-2xl font-bold">
                       {summary ? formatCurrency(summary.totalCurrentValue) : "$0.00"}
                     </div>
+                    {summary && summary.cash !== 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        Cash {formatCurrency(summary.cash)} · Net worth {formatCurrency(summary.netWorth)}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
                 <Card>
@@ -446,6 +547,12 @@ export function UserPortfolio() {
                     <div className={`text-2xl font-bold ${summary && summary.totalGain >= 0 ? "text-green-600" : "text-red-600"}`}>
                       {summary ? formatCurrency(summary.totalGain) : "$0.00"}
                     </div>
+                    {summary && (
+                      <div className="text-xs text-muted-foreground">
+                        Unrealized {formatCurrency(summary.unrealizedGain)} · Realized {formatCurrency(summary.realizedGain)}
+                        {summary.dividendIncome > 0 && <> · Dividends {formatCurrency(summary.dividendIncome)}</>}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
                 <Card>
@@ -482,7 +589,10 @@ export function UserPortfolio() {
                         stock={stock}
                         onDelete={deleteStock}
                         onEdit={handleEditStock}
+                        onSell={handleSellStock}
                         deletingStockId={deletingStockId}
+                        isExpanded={expandedStockIds.includes(stock.id)}
+                        onToggleExpanded={toggleExpanded}
                         formatCurrency={formatCurrency}
                         formatPercentage={formatPercentage}
                       />
@@ -493,16 +603,33 @@ export function UserPortfolio() {
             </>
           )}
 
+          <OrderBook
+            portfolioId={portfolioId}
+            onOrdersChanged={() => fetchPortfolio(true)}
+          />
+
           <AddStockDialog
             open={isAddStockOpen}
             onOpenChange={setIsAddStockOpen}
             onStockAdded={handleStockAdded}
+            portfolioId={portfolioId}
+            paperTrading={paperTrading}
           />
 
           <AddCryptoDialog
             open={isCryptoDialogOpen}
             onOpenChange={setIsCryptoDialogOpen}
             onCryptoAdded={handleStockAdded}
+            portfolioId={portfolioId}
+            paperTrading={paperTrading}
+          />
+
+          <CashDialog
+            open={isCashDialogOpen}
+            onOpenChange={setIsCashDialogOpen}
+            balance={summary?.cash ?? 0}
+            onCashChanged={handleStockAdded}
+            portfolioId={portfolioId}
           />
 
           {selectedStock && (
@@ -513,6 +640,17 @@ export function UserPortfolio() {
               onStockUpdated={handleStockAdded}
             />
           )}
+
+          {selectedStock && (
+            <SellStockDialog
+              key={selectedStock.id}
+              open={isSellStockOpen}
+              onOpenChange={setIsSellStockOpen}
+              stock={selectedStock}
+              onStockSold={handleStockAdded}
+              paperTrading={paperTrading}
+            />
+          )}
         </>
       )}
     </div>
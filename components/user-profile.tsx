@@ -40,6 +40,10 @@ import {
   YAxis
 } from "recharts";
 import { Combobox } from "@/components/ui/combobox";
+import { RiskPanel } from "@/components/risk-panel";
+import { ExposurePanel } from "@/components/exposure-panel";
+import { DividendCalendar } from "@/components/dividend-calendar";
+import { RankHistory } from "@/components/rank-history";
 
 // Types for stock data matching what we have in user-portfolio.tsx
 type Stock = {
@@ -54,6 +58,9 @@ type Stock = {
   historicalPrice: number;
   gain: number;
   gainPercentage: number;
+  // From the securities table; null until the symbol has been classified
+  sector: string | null;
+  industry: string | null;
 };
 
 type PortfolioSummary = {
@@ -99,12 +106,14 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
   const [comparisonOptions, setComparisonOptions] = useState<ComparisonOption[]>([
     { id: 'sp500', name: 'S&P 500', type: 'index' },
     { id: 'nasdaq', name: 'Nasdaq', type: 'index' },
+    { id: 'dow', name: 'Dow Jones', type: 'index' },
   ]);
   const [selectedComparisons, setSelectedComparisons] = useState<string[]>([]);
   const [comparisonData, setComparisonData] = useState<Record<string, PerformanceData[]>>({});
   const [comparisonLoading, setComparisonLoading] = useState(false);
   const [usersList, setUsersList] = useState<{id: number, name: string}[]>([]);
   const [searchValue, setSearchValue] = useState("");
+  const [tickerInput, setTickerInput] = useState("");
   
   // State for hover tooltip
   const [tooltipData, setTooltipData] = useState<{
@@ -404,9 +413,10 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
       // Fetch other selected comparisons
       for (const comparisonId of selectedComparisons) {
         try {
-          if (comparisonId === 'sp500' || comparisonId === 'nasdaq') {
-            // Fetch index data
-            const response = await fetch(`/api/market-index?index=${comparisonId}&days=${days}${shouldForceRefresh ? '&force=true' : ''}`);
+          // User ids are numeric; anything else is an index name or a ticker
+          if (!/^\d+$/.test(comparisonId)) {
+            // Fetch index data (daily closes from the stored price history)
+            const response = await fetch(`/api/market-index?index=${encodeURIComponent(comparisonId)}&days=${days}${shouldForceRefresh ? '&force=true' : ''}`);
             
             if (response.ok) {
               const data = await response.json();
@@ -420,19 +430,9 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                 // Fill gaps in data
                 const filledData = fillDateGaps(sortedData);
                 newComparisonData[comparisonId] = filledData;
-              } else {
-                // Generate mock data for indices if API not implemented
-                newComparisonData[comparisonId] = generateMockIndexData(
-                  comparisonId, 
-                  performanceData.map(p => p.date)
-                );
               }
             } else {
-              // Fallback to mock data
-              newComparisonData[comparisonId] = generateMockIndexData(
-                comparisonId, 
-                performanceData.map(p => p.date)
-              );
+              console.error(`No market data for ${comparisonId}: ${response.status}`);
             }
           } else {
             // This is a user ID (without 'user-' prefix)
@@ -473,49 +473,6 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
     fetchComparisonData();
   }, [selectedComparisons, performanceData, userId, user]);
 
-  // Helper function to generate mock index data
-  const generateMockIndexData = (index: string, dates: string[]): PerformanceData[] => {
-    const mockData: PerformanceData[] = [];
-    let baseValue = index === 'sp500' ? 4500 : 14000; // Starting values
-    
-    // Create a map to make lookup of existing dates easier
-    const dateMap = new Set(dates);
-    
-    // Find the earliest and latest dates
-    if (dates.length === 0) return mockData;
-    
-    const sortedDates = [...dates].sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
-    const firstDate = new Date(sortedDates[0]);
-    const lastDate = new Date(sortedDates[sortedDates.length - 1]);
-    
-    // Generate a continuous series of dates
-    const currentDate = new Date(firstDate);
-    while (currentDate <= lastDate) {
-      const dateStr = currentDate.toISOString().split('T')[0];
-      
-      // Different trends for indices
-      const trend = index === 'sp500' ? 1.0007 : 1.0006; // Slightly different growth rates
-      const volatility = index === 'sp500' ? 0.008 : 0.01; // Different volatility
-      
-      // Random daily change but with a slight upward trend
-      const dailyChange = trend * (1 - volatility + Math.random() * volatility * 2);
-      
-      if (mockData.length > 0) {
-        baseValue = mockData[mockData.length - 1].value * dailyChange;
-      }
-      
-      mockData.push({
-        date: dateStr,
-        value: baseValue
-      });
-      
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-    
-    return mockData;
-  };
-  
   // Helper function to normalize performance data for comparison
   const normalizePerformanceData = (
     data: PerformanceData[], 
@@ -575,6 +532,21 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
     }
   };
 
+  // Compare against any ticker (QQQ, ^RUT, @btc) typed into the ticker box
+  const handleAddTicker = () => {
+    const value = tickerInput.trim();
+    if (!value) return;
+    const ticker = value.startsWith('@') ? value.toLowerCase() : value.toUpperCase();
+    
+    setComparisonOptions(prev => prev.some(option => option.id === ticker)
+      ? prev
+      : [...prev, { id: ticker, name: ticker, type: 'index' }]);
+    setTickerInput("");
+    if (!selectedComparisons.includes(ticker)) {
+      handleComparisonChange(ticker);
+    }
+  };
+
   // Get color for each data series
   const getSeriesColor = (id: string) => {
     // Check if this is the current user's portfolio
@@ -667,72 +639,10 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
     return ((lastValue - firstValue) / firstValue) * 100;
   };
 
-  // Helper to map stock symbols to their sectors
-  const getStockSector = (symbol: string): string => {
-    // Map of common stock symbols to their sectors
-    const sectorMap: Record<string, string> = {
-      // Technology
-      'AAPL': 'Technology',
-      'MSFT': 'Technology',
-      'GOOGL': 'Technology',
-      'GOOG': 'Technology',
-      'META': 'Technology',
-      'AMZN': 'Technology',
-      'TSLA': 'Technology',
-      'NVDA': 'Technology',
-      'AMD': 'Technology',
-      'INTC': 'Technology',
-      'HOOD': 'Technology',
-      'PYPL': 'Technology',
-      'CRM': 'Technology',
-      'ADBE': 'Technology',
-      'NFLX': 'Technology',
-      
-      // Financial
-      'JPM': 'Financial',
-      'BAC': 'Financial',
-      'WFC': 'Financial',
-      'GS': 'Financial',
-      'MS': 'Financial',
-      'V': 'Financial',
-      'MA': 'Financial',
-      
-      // Healthcare
-      'JNJ': 'Healthcare',
-      'PFE': 'Healthcare',
-      'MRK': 'Healthcare',
-      'UNH': 'Healthcare',
-      'ABBV': 'Healthcare',
-      
-      // Consumer Cyclical
-      'HD': 'Consumer Cyclical',
-      'NKE': 'Consumer Cyclical',
-      'SBUX': 'Consumer Cyclical',
-      'MCD': 'Consumer Cyclical',
-      'DIS': 'Consumer Cyclical',
-      
-      // Consumer Defensive
-      'WMT': 'Consumer Defensive',
-      'PG': 'Consumer Defensive',
-      'KO': 'Consumer Defensive',
-      'PEP': 'Consumer Defensive',
-      
-      // Energy
-      'XOM': 'Energy',
-      'CVX': 'Energy',
-      
-      // Communication
-      'T': 'Communication',
-      'VZ': 'Communication',
-      
-      // Industrial
-      'BA': 'Industrial',
-      'CAT': 'Industrial',
-      'GE': 'Industrial'
-    };
-    
-    return sectorMap[symbol] || 'Other';
-  };
+  // Sector and industry come from the securities table; unclassified holdings go under Other
+  const getStockSector = (stock: Stock): string => stock.sector || 'Other';
+
+  const getStockIndustry = (stock: Stock): string => stock.industry || getStockSector(stock);
   
   // Calculate sector distribution based on actual portfolio
   const calculateSectorDistribution = () => {
@@ -742,7 +652,7 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
     
     // Calculate the value of each stock and add it to its sector
     portfolio.forEach(stock => {
-      const sector = getStockSector(stock.symbol);
+      const sector = getStockSector(stock);
       if (!sectorValues[sector]) {
         sectorValues[sector] = 0;
       }
@@ -762,16 +672,16 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
     const colorMap: { [key: string]: string } = {
       Technology: 'rgb(59, 130, 246)', // bright blue
       Healthcare: 'rgb(16, 185, 129)', // bright green
-      Financial: 'rgb(245, 158, 11)', // bright amber
-      Consumer: 'rgb(236, 72, 153)', // bright pink
+      'Financial Services': 'rgb(245, 158, 11)', // bright amber
+      'Consumer Cyclical': 'rgb(236, 72, 153)', // bright pink
       Energy: 'rgb(139, 92, 246)', // bright purple
-      Telecom: 'rgb(6, 182, 212)', // bright cyan
-      Materials: 'rgb(248, 113, 113)', // bright red
-      Industrial: 'rgb(251, 146, 60)', // bright orange
+      'Communication Services': 'rgb(6, 182, 212)', // bright cyan
+      'Basic Materials': 'rgb(248, 113, 113)', // bright red
+      Industrials: 'rgb(251, 146, 60)', // bright orange
       Utilities: 'rgb(124, 58, 237)', // bright violet
-      Real: 'rgb(52, 211, 153)', // bright emerald
-      'Consumer Discretionary': 'rgb(244, 114, 182)', // bright pink
-      'Consumer Staples': 'rgb(251, 191, 36)', // bright yellow
+      'Real Estate': 'rgb(52, 211, 153)', // bright emerald
+      'Consumer Defensive': 'rgb(251, 191, 36)', // bright yellow
+      Cryptocurrency: 'rgb(234, 179, 8)', // gold
     };
 
     return colorMap[sector] || 'rgb(156, 163, 175)'; // default: gray-400
@@ -911,45 +821,21 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
     });
   };
 
-  // Helper function to get industries for a sector
-  const getIndustriesForSector = (sector: string, percentage: number): {name: string, percentage: number}[] => {
-    // This is a simplified version - in a real implementation, this would be based on actual data
-    switch(sector) {
-      case 'Technology':
-        return [
-          { name: 'Semiconductors', percentage: 40 },
-          { name: 'Tech Hardware', percentage: 30 },
-          { name: 'Software', percentage: 30 }
-        ];
-      case 'Financial':
-        return [
-          { name: 'Banks', percentage: 60 },
-          { name: 'Insurance', percentage: 40 }
-        ];
-      case 'Healthcare':
-        return [
-          { name: 'Pharma', percentage: 50 },
-          { name: 'Medical Devices', percentage: 50 }
-        ];
-      case 'Consumer Cyclical':
-        return [
-          { name: 'Retail', percentage: 70 },
-          { name: 'Automotive', percentage: 30 }
-        ];
-      case 'Energy':
-        return [
-          { name: 'Oil & Gas', percentage: 100 }
-        ];
-      case 'Communication':
-        return [
-          { name: 'Telecom', percentage: 50 },
-          { name: 'Media', percentage: 50 }
-        ];
-      default:
-        return [
-          { name: sector, percentage: 100 }
-        ];
-    }
+  // Industries held within a sector, as percentages of the sector's value
+  const getIndustriesForSector = (sector: string): {name: string, percentage: number}[] => {
+    const holdings = portfolio.filter(stock => getStockSector(stock) === sector);
+    const sectorValue = holdings.reduce((total, stock) => total + stock.currentValue, 0);
+    
+    const industryValues: Record<string, number> = {};
+    holdings.forEach(stock => {
+      const industry = getStockIndustry(stock);
+      industryValues[industry] = (industryValues[industry] || 0) + stock.currentValue;
+    });
+    
+    return Object.entries(industryValues).map(([name, value]) => ({
+      name,
+      percentage: sectorValue > 0 ? (value / sectorValue) * 100 : 0
+    }));
   };
 
   // Helper function to generate a smooth Sankey path
@@ -993,15 +879,19 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
         // Always include the indices
         const indexOptions = [
           { id: 'sp500', name: 'S&P 500', type: 'index' as const },
-          { id: 'nasdaq', name: 'Nasdaq', type: 'index' as const }
+          { id: 'nasdaq', name: 'Nasdaq', type: 'index' as const },
+          { id: 'dow', name: 'Dow Jones', type: 'index' as const }
         ];
         
         // Combine user and index options
         const allOptions = [...userOptions, ...indexOptions];
         console.log("All comparison options:", allOptions);
         
-        // Update the state
-        setComparisonOptions(allOptions);
+        // Update the state, keeping any tickers added by hand
+        setComparisonOptions(prev => [
+          ...allOptions,
+          ...prev.filter(option => option.type === 'index' && !allOptions.some(o => o.id === option.id))
+        ]);
       } catch (error) {
         console.error("Error preparing comparison options:", error);
       }
@@ -1113,6 +1003,32 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                   >
                     + Nasdaq
                   </button>
+                  <button 
+                    type="button"
+                    onClick={() => handleComparisonChange('dow')}
+                    className="px-2 py-1 text-xs rounded bg-amber-600 hover:bg-amber-700 text-white"
+                  >
+                    + Dow
+                  </button>
+                </div>
+                
+                {/* Any ticker as a benchmark */}
+                <div className="flex gap-2 ml-2">
+                  <input
+                    type="text"
+                    value={tickerInput}
+                    onChange={(e) => setTickerInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddTicker()}
+                    placeholder="Ticker, e.g. QQQ"
+                    className="h-7 w-[120px] rounded border bg-background px-2 text-xs"
+                  />
+                  <button 
+                    type="button"
+                    onClick={handleAddTicker}
+                    className="px-2 py-1 text-xs rounded bg-slate-600 hover:bg-slate-700 text-white"
+                  >
+                    + Add
+                  </button>
                 </div>
               </div>
               
@@ -1442,9 +1358,26 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
         <Card>
           <CardHeader>
             <CardTitle>Portfolio Analysis</CardTitle>
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full pt-2">
+              <TabsList className="grid w-full grid-cols-5">
+                <TabsTrigger value="stocks">Holdings</TabsTrigger>
+                <TabsTrigger value="exposure">Look-through</TabsTrigger>
+                <TabsTrigger value="risk">Risk</TabsTrigger>
+                <TabsTrigger value="dividends">Dividends</TabsTrigger>
+                <TabsTrigger value="rank">Rank</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </CardHeader>
           <CardContent>
-            <div className="space-y-6">
+            {/* Risk tab: volatility, drawdown and beta from the daily snapshots */}
+            {activeTab === "risk" && <RiskPanel userId={userId} />}
+            {/* Look-through tab: ETFs split into their holdings, and overlap with direct holdings */}
+            {activeTab === "exposure" && <ExposurePanel userId={userId} />}
+            {/* Dividends tab: received and upcoming dividends, and cash or reinvest */}
+            {activeTab === "dividends" && <DividendCalendar userId={userId} />}
+            {/* Rank tab: the user's place on each day's leaderboard */}
+            {activeTab === "rank" && <RankHistory userId={userId} />}
+            <div className={activeTab === "stocks" ? "space-y-6" : "hidden"}>
               {/* Sector Distribution */}
               <div>
                 <h3 className="text-lg font-medium mb-3">Sector Distribution</h3>
@@ -1523,7 +1456,7 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                         let industryY = 50;
                         sectorDistribution.forEach((sector) => {
                           const sectorValue = parseFloat(sector.percentage);
-                          const industries = getIndustriesForSector(sector.name, sectorValue);
+                          const industries = getIndustriesForSector(sector.name);
                           const baseSectorColor = getSectorColor(sector.name);
                           
                           industries.forEach((industry, index) => {
@@ -1558,7 +1491,7 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                           const stockValue = stock.currentValue;
                           const stockPercentage = (stockValue / (summary?.totalCurrentValue || 1)) * 100;
                           const stockHeight = Math.max(20, (stockPercentage / 100) * 300);
-                          const sector = getStockSector(stock.symbol);
+                          const sector = getStockSector(stock);
                           const tickerColor = getSectorColor(sector);
                           
                           nodes.push({
@@ -1632,7 +1565,7 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                           const sectorNode = nodes.find(n => n.id === `sector-${sector.name}`);
                           
                           if (sectorNode) {
-                            const industries = getIndustriesForSector(sector.name, parseFloat(sector.percentage));
+                            const industries = getIndustriesForSector(sector.name);
                             
                             let sectorOffsetY = 0;
                             industries.forEach((industry) => {
@@ -1676,28 +1609,8 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                         // Links from industries to tickers
                         portfolio.forEach((stock) => {
                           const tickerNode = nodes.find(n => n.id === `ticker-${stock.symbol}`);
-                          const sector = getStockSector(stock.symbol);
-                          
-                          // Find the industry this ticker belongs to (simplified mapping)
-                          const industries = getIndustriesForSector(sector, 100);
-                          let targetIndustry = industries[0]?.name || sector;
-                          
-                          // Map specific tickers to specific industries if needed
-                          if (sector === 'Technology') {
-                            if (['NVDA', 'AMD', 'INTC'].includes(stock.symbol)) {
-                              targetIndustry = 'Semiconductors';
-                            } else if (['AAPL', 'MSFT'].includes(stock.symbol)) {
-                              targetIndustry = 'Tech Hardware';
-                            } else {
-                              targetIndustry = 'Software';
-                            }
-                          } else if (sector === 'Financial') {
-                            if (['JPM', 'BAC', 'WFC'].includes(stock.symbol)) {
-                              targetIndustry = 'Banks';
-                            } else {
-                              targetIndustry = 'Insurance';
-                            }
-                          }
+                          const sector = getStockSector(stock);
+                          const targetIndustry = getStockIndustry(stock);
                           
                           const industryNode = nodes.find(n => n.id === `industry-${sector}-${targetIndustry}`);
                           
@@ -1893,30 +1806,6 @@ export function UserProfile({ userId, userName, onBack }: ProfileProps) {
                 </div>
               </div>
               
-              {/* Risk Assessment */}
-              <div>
-                <h3 className="text-lg font-medium mb-3">Risk Assessment</h3>
-                <div className="bg-muted p-4 rounded-md">
-                  <div className="flex items-center justify-between mb-2">
-                    <span>Portfolio Volatility</span>
-                    <div className="flex space-x-1">
-                      <div className={`w-3 h-6 ${sectorDistribution.length > 2 ? 'bg-green-500/60' : 'bg-amber-500/60'} rounded-sm`}></div>
-                      <div className={`w-3 h-8 ${sectorDistribution.length > 2 ? 'bg-green-500/70' : 'bg-amber-500/70'} rounded-sm`}></div>
-                      <div className={`w-3 h-10 ${sectorDistribution.length === 1 ? 'bg-red-500/70' : 'bg-amber-500/70'} rounded-sm`}></div>
-                      <div className={`w-3 h-8 ${sectorDistribution.length === 1 ? 'bg-red-500/60' : 'bg-green-500/60'} rounded-sm`}></div>
-                      <div className={`w-3 h-6 ${sectorDistribution.length === 1 ? 'bg-red-500/60' : 'bg-green-500/60'} rounded-sm`}></div>
-                    </div>
-                  </div>
-                  <p className="text-xs text-muted-foreground">
-                    {sectorDistribution.length === 1 
-                      ? `Your portfolio is concentrated in the ${sectorDistribution[0].name} sector, which may lead to higher volatility.`
-                      : sectorDistribution.length <= 2
-                      ? `Your portfolio has moderate volatility with limited sector diversification.`
-                      : `Your portfolio has lower volatility due to good sector diversification.`}
-                  </p>
-                </div>
-              </div>
-              
               {/* Stock Recommendations */}
               <div>
                 <h3 className="text-lg font-medium mb-3">Stock Insights</h3>
@@ -10,179 +10,83 @@ export type User = {
   avatar?: string;
 };
 
-// Define minimal user type for cookie storage
-type MinimalUser = {
-  id: number;
-  username: string;
-  // Only store avatar if it's a URL, not base64
-  avatar?: string;
-};
-
 // Define context type
 type AuthContextType = {
   user: User | null;
   loading: boolean;
-  login: (username: string) => Promise<void>;
-  logout: () => void;
+  login: (username: string, password: string) => Promise<void>;
+  register: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
   updateAvatar: (avatarUrl: string, base64Image?: string) => Promise<void>;
 };
 
 // Create the auth context
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-// Cookie name
-const USER_COOKIE = "stoki_user";
-// Cookie expiration (90 days instead of 30)
-const COOKIE_EXPIRATION = 90;
-
-// Helper function to minimize user data for cookie storage
-const minimizeUserForCookie = (user: User): MinimalUser => {
-  // Create a minimal version of the user object
-  const minimalUser: MinimalUser = {
-    id: user.id,
-    username: user.username,
-  };
+// Cookie used by the old username-only login; it is no longer trusted and is
+// removed whenever it is found. The session itself lives in an httpOnly cookie
+// that only the server can read.
+const LEGACY_USER_COOKIE = "stoki_user";
+
+// Send credentials to one of the auth endpoints and return the user
+const submitCredentials = async (endpoint: string, username: string, password: string): Promise<User> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ username, password })
+  });
+  
+  const data = await response.json();
   
-  // Only include avatar if it's a URL, not a base64 string
-  if (user.avatar && !user.avatar.startsWith('data:')) {
-    minimalUser.avatar = user.avatar;
+  if (!response.ok || !data.success) {
+    throw new Error(data.message || 'Authentication failed');
   }
   
-  return minimalUser;
+  return data.user;
 };
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
-  // Debug function to check cookie
-  const debugCookie = () => {
-    if (typeof window === 'undefined') return;
-    const cookie = Cookies.get(USER_COOKIE);
-    console.log('Current cookie value:', cookie ? 'Found' : 'Not found');
-    if (cookie) {
-      try {
-        const parsed = JSON.parse(cookie);
-        console.log('Parsed cookie:', parsed);
-        // Check cookie size
-        const cookieSize = new Blob([cookie]).size;
-        console.log(`Cookie size: ${cookieSize} bytes (max: 4096 bytes)`);
-      } catch (e) {
-        console.error('Failed to parse cookie:', e);
-      }
-    }
-  };
-
-  // Check for existing user cookie on load - only in browser
+  // Check for an existing session on load - only in browser
   useEffect(() => {
-    const checkUser = async () => {
+    const checkSession = async () => {
       try {
         // Ensure this only runs client-side
         if (typeof window === 'undefined') return;
         
-        console.log('Checking for user cookie...');
-        const userCookie = Cookies.get(USER_COOKIE);
-        console.log('User cookie found:', userCookie ? 'Yes' : 'No');
+        // Drop the legacy cookie so stale ids are never sent around
+        Cookies.remove(LEGACY_USER_COOKIE, { path: '/' });
+        
+        // The server resolves the user from the session cookie
+        const response = await fetch('/api/auth/verify');
+        const data = await response.json();
         
-        if (userCookie) {
-          try {
-            const userData = JSON.parse(userCookie);
-            console.log('Parsed user data from cookie:', userData);
-            
-            // Verify user exists in database via API
-            console.log('Verifying user with API...');
-            const response = await fetch('/api/auth/verify', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json'
-              },
-              body: JSON.stringify({ username: userData.username })
-            });
-            
-            const data = await response.json();
-            console.log('API verification response:', data);
-            
-            if (data.success && data.user) {
-              console.log('User verified successfully, setting user state');
-              setUser(data.user);
-              
-              // Refresh the cookie to extend its lifetime - use minimal data
-              console.log('Refreshing cookie with verified user data');
-              const minimalUserData = minimizeUserForCookie(data.user);
-              Cookies.set(USER_COOKIE, JSON.stringify(minimalUserData), { 
-                expires: COOKIE_EXPIRATION,
-                sameSite: 'lax',
-                path: '/'
-              });
-              
-              // Debug cookie after setting
-              setTimeout(debugCookie, 100);
-            } else {
-              // User doesn't exist in the database, clear cookie
-              console.log('User verification failed, clearing cookie');
-              Cookies.remove(USER_COOKIE, { path: '/' });
-            }
-          } catch (parseError) {
-            console.error('Error parsing user cookie:', parseError);
-            Cookies.remove(USER_COOKIE, { path: '/' });
-          }
+        if (response.ok && data.success && data.user) {
+          console.log('Session verified, setting user state');
+          setUser(data.user);
         } else {
-          console.log('No user cookie found, user is not logged in');
+          console.log('No active session, user is not logged in');
         }
       } catch (error) {
-        console.error("Error checking user:", error);
-        // If there's an error, clear the cookie
-        if (typeof window !== 'undefined') {
-          Cookies.remove(USER_COOKIE, { path: '/' });
-        }
+        console.error("Error checking session:", error);
       } finally {
         setLoading(false);
       }
     };
 
-    checkUser();
+    checkSession();
   }, []);
 
   // Login function
-  const login = async (username: string) => {
+  const login = async (username: string, password: string) => {
     try {
       setLoading(true);
       console.log('Logging in user:', username);
-      
-      // Create or get existing user via API
-      const response = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ username })
-      });
-      
-      const data = await response.json();
-      console.log('Login API response:', data);
-      
-      if (!response.ok) {
-        throw new Error(data.message || 'Login failed');
-      }
-      
-      // Set user in state
-      console.log('Setting user state after login');
-      setUser(data.user);
-      
-      // Save user in cookie (90 days) - only in browser
-      if (typeof window !== 'undefined') {
-        console.log('Setting user cookie after login');
-        // Use minimal user data for cookie
-        const minimalUserData = minimizeUserForCookie(data.user);
-        Cookies.set(USER_COOKIE, JSON.stringify(minimalUserData), { 
-          expires: COOKIE_EXPIRATION,
-          sameSite: 'lax',
-          path: '/'
-        });
-        
-        // Debug cookie after setting
-        setTimeout(debugCookie, 100);
-      }
+      setUser(await submitCredentials('/api/auth/login', username, password));
     } catch (error) {
       console.error("Error during login:", error);
       throw error;
@@ -191,13 +95,28 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Registration function - creates the account and starts a session
+  const register = async (username: string, password: string) => {
+    try {
+      setLoading(true);
+      console.log('Registering user:', username);
+      setUser(await submitCredentials('/api/auth/register', username, password));
+    } catch (error) {
+      console.error("Error during registration:", error);
+      throw error;
+    } finally {
+      setLoading(false);
+    }
+  };
+
   // Logout function
-  const logout = () => {
+  const logout = async () => {
     console.log('Logging out user');
     setUser(null);
-    if (typeof window !== 'undefined') {
-      Cookies.remove(USER_COOKIE, { path: '/' });
-      console.log('Cookie removed during logout');
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error during logout:', error);
     }
   };
 
@@ -222,25 +141,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       }
 
       const data = await response.json();
-      console.log('Avatar update API response:', data);
       
       if (data.success) {
-        // Update user in state and cookie
-        const updatedUser = { ...user, avatar: base64Image || avatarUrl };
-        console.log('Setting updated user with new avatar');
-        setUser(updatedUser);
-        
-        console.log('Updating cookie with new avatar');
-        // Use minimal user data for cookie - don't store base64 in cookie
-        const minimalUserData = minimizeUserForCookie(updatedUser);
-        Cookies.set(USER_COOKIE, JSON.stringify(minimalUserData), { 
-          expires: COOKIE_EXPIRATION,
-          sameSite: 'lax',
-          path: '/'
-        });
-        
-        // Debug cookie after setting
-        setTimeout(debugCookie, 100);
+        setUser({ ...user, avatar: base64Image || avatarUrl });
       } else {
         throw new Error(data.message || 'Failed to update avatar');
       }
@@ -251,7 +154,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, logout, updateAvatar }}>
+    <AuthContext.Provider value={{ user, loading, login, register, logout, updateAvatar }}>
       {children}
     </AuthContext.Provider>
   );
@@ -264,4 +167,4 @@ export function useAuth() {
     throw new Error("useAuth must be used within an AuthProvider");
   }
   return context;
-} 
\ No newline at end of file
+}
@@ -0,0 +1,246 @@
+/**
+ * Server-side session handling and password hashing.
+ * Only import this from API routes and scripts - it relies on Node's crypto and bcrypt.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { hash, compare } from 'bcrypt';
+import { NextResponse } from 'next/server';
+import { getUserById, getStockOwnerId } from './db';
+
+// Name of the httpOnly cookie holding the signed session token
+export const SESSION_COOKIE = 'stoki_session';
+// Sessions last 90 days, matching the old client cookie lifetime
+export const SESSION_MAX_AGE = 90 * 24 * 60 * 60;
+
+// bcrypt work factor (same as the seed script)
+const BCRYPT_ROUNDS = 10;
+
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_USERNAME_LENGTH = 50;
+
+// Fallback secret so local development works without extra setup
+const DEV_SESSION_SECRET = 'stoki-dev-session-secret';
+
+type SessionPayload = {
+  sub: number;
+  iat: number;
+  exp: number;
+};
+
+// Get the session signing secret from environment variables
+const getSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET;
+
+  if (!secret) {
+    // In development, use a fixed secret; in production, throw
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SESSION_SECRET environment variable is missing');
+    }
+    console.warn('SESSION_SECRET is not set, using the development secret');
+    return DEV_SESSION_SECRET;
+  }
+
+  return secret;
+};
+
+const sign = (value: string) =>
+  createHmac('sha256', getSessionSecret()).update(value).digest('base64url');
+
+// Create a signed session token for a user
+export function createSessionToken(userId: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: SessionPayload = { sub: userId, iat: now, exp: now + SESSION_MAX_AGE };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+// Verify a session token and return the user id it was issued for
+export function verifySessionToken(token: string): number | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as SessionPayload;
+    if (typeof payload.sub !== 'number' || payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
+
+// Read a cookie value from a request's Cookie header
+function readCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+  return null;
+}
+
+// Resolve the logged-in user from the session cookie, or null if there is no valid session
+export async function getSessionUser(request: Request) {
+  const token = readCookie(request, SESSION_COOKIE);
+  if (!token) return null;
+
+  const userId = verifySessionToken(token);
+  if (userId === null) return null;
+
+  return getUserById(userId);
+}
+
+// Attach a fresh session cookie for the user to a response
+export function setSessionCookie(response: NextResponse, userId: number) {
+  response.cookies.set(SESSION_COOKIE, createSessionToken(userId), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+  return response;
+}
+
+// Remove the session cookie from the browser
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: 0,
+  });
+  return response;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  return hash(password, BCRYPT_ROUNDS);
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  return compare(password, passwordHash);
+}
+
+// Validate registration input, returning an error message or null when valid
+export function validateCredentials(username: unknown, password: unknown): string | null {
+  if (!username || typeof username !== 'string' || username.trim() === '') {
+    return 'Username is required';
+  }
+  if (username.trim().length > MAX_USERNAME_LENGTH) {
+    return `Username must be at most ${MAX_USERNAME_LENGTH} characters`;
+  }
+  if (!password || typeof password !== 'string') {
+    return 'Password is required';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Route authorization
+ */
+
+export type SessionUser = {
+  id: number;
+  username: string;
+  avatar?: string | null;
+};
+
+type AuthedHandler<C> = (request: Request, user: SessionUser, context: C) => Promise<Response>;
+
+// Consistent error body for authentication (401) and authorization (403) failures
+export function authErrorResponse(status: 401 | 403, message: string) {
+  return NextResponse.json(
+    { error: status === 401 ? 'Unauthorized' : 'Forbidden', message },
+    { status }
+  );
+}
+
+// Wrap a route handler so it only runs for a logged-in user, who is passed in
+export function withAuth<C = unknown>(handler: AuthedHandler<C>) {
+  return async (request: Request, context: C) => {
+    const user = await getSessionUser(request);
+    if (!user) {
+      return authErrorResponse(401, 'You must be logged in to do this');
+    }
+    return handler(request, user as SessionUser, context);
+  };
+}
+
+// Reject requests that name a different user than the one logged in.
+// Returns an error response, or null when the request may proceed.
+export function forbidOtherUser(user: SessionUser, requestedUserId: unknown) {
+  if (requestedUserId === undefined || requestedUserId === null || requestedUserId === '') {
+    return null;
+  }
+  if (Number(requestedUserId) !== user.id) {
+    return authErrorResponse(403, "You can only modify your own portfolio");
+  }
+  return null;
+}
+
+// Check the request carries the admin API key (Authorization: Bearer <ADMIN_API_KEY>).
+// Returns an error response, or null when the request may proceed. Without a
+// configured key every request is refused.
+export function requireAdminKey(request: Request) {
+  const apiKey = process.env.ADMIN_API_KEY;
+  if (!apiKey) {
+    return authErrorResponse(403, 'Admin endpoints are disabled until ADMIN_API_KEY is set');
+  }
+  if (!hasBearerToken(request, apiKey)) {
+    return authErrorResponse(401, 'A valid admin API key is required');
+  }
+  return null;
+}
+
+// Check the request comes from the scheduler (Authorization: Bearer <CRON_SECRET>).
+// Returns an error response, or null when the request may proceed. Without a
+// configured secret every request is refused.
+export function requireCronSecret(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    return authErrorResponse(403, 'Cron endpoints are disabled until CRON_SECRET is set');
+  }
+  if (!hasBearerToken(request, secret)) {
+    return authErrorResponse(401, 'A valid cron secret is required');
+  }
+  return null;
+}
+
+// Compare the Authorization header with the token in constant time
+function hasBearerToken(request: Request, token: string) {
+  const header = request.headers.get('authorization') || '';
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Check that a user_stocks row belongs to the user.
+// Returns an error response, or null when the user owns the row.
+export async function requireStockOwnership(user: SessionUser, stockId: unknown) {
+  const ownerId = await getStockOwnerId(Number(stockId));
+  if (ownerId === null) {
+    return NextResponse.json({ error: "Stock not found" }, { status: 404 });
+  }
+  if (ownerId !== user.id) {
+    return authErrorResponse(403, "You can only modify your own portfolio");
+  }
+  return null;
+}
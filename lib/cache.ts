@@ -130,53 +130,6 @@ export async function getHistoricalStockPrice(symbol: string, date: string): Pro
   return data ? data.price : null;
 }
 
-/**
- * Store user portfolio value history
- */
-export async function cachePortfolioValue(userId: number, date: string, value: number) {
-  const key = `user:${userId}:portfolio:${date}`;
-  return cacheData(key, { value }, 60 * 60 * 24 * 90); // 90 days expiration
-}
-
-/**
- * Get user portfolio value history for the last N days
- */
-export async function getPortfolioHistory(userId: number, days: number = 7): Promise<{date: string, value: number}[]> {
-  const pattern = `user:${userId}:portfolio:`;
-  
-  // Find all matching keys
-  const entries: {date: string, value: number}[] = [];
-  
-  if (typeof window !== 'undefined') {
-    // Client-side
-    for (const key in clientMemoryCache) {
-      if (key.startsWith(pattern) && clientMemoryCache[key].expiry > Date.now()) {
-        const date = key.split(':')[3]; // Extract date from key
-        entries.push({
-          date,
-          value: clientMemoryCache[key].value.value
-        });
-      }
-    }
-  } else {
-    // Server-side
-    for (const key in serverMemoryCache) {
-      if (key.startsWith(pattern) && serverMemoryCache[key].expiry > Date.now()) {
-        const date = key.split(':')[3]; // Extract date from key
-        entries.push({
-          date,
-          value: serverMemoryCache[key].value.value
-        });
-      }
-    }
-  }
-  
-  // Sort by date (descending) and limit to requested days
-  return entries
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    .slice(0, days);
-}
-
 /**
  * Cache and retrieve leaderboard data with browser storage
  */
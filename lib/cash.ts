@@ -0,0 +1,115 @@
+import { sum } from './decimal';
+import { createSqlClient, ensureLedgerSeeded, getLedgerEntries, recordLedgerEntry, voidLedgerEntries } from './db';
+import { CASH_SYMBOL, CashPosting, isCashEntry, replayPortfolios, toDateString } from './ledger';
+
+/**
+ * Cash accounts.
+ *
+ * Every portfolio has a cash balance, kept by the ledger replay (lib/ledger.ts):
+ * deposits and withdrawals are ledger entries, and buys, sells, cash dividends
+ * and cash from corporate actions post to the balance. cash_accounts and
+ * cash_postings are rebuilt from the ledger with the holdings.
+ *
+ * A buy larger than the balance is normally funded from outside for the
+ * difference, which counts as a contribution. Users who require cash have
+ * such buys refused instead.
+ */
+
+export type CashTransferType = 'deposit' | 'withdrawal';
+
+export const CASH_TRANSFER_TYPES: CashTransferType[] = ['deposit', 'withdrawal'];
+
+export type CashBalance = {
+  balance: number;
+  // Money and shares put in less what was taken out, at cost (see CashAccount in lib/ledger.ts)
+  contributions: number;
+};
+
+export type CashTransferInput = {
+  type: CashTransferType;
+  amount: number;
+  date: string;
+  note?: string | null;
+  // The user's default portfolio when not given
+  portfolioId?: number;
+};
+
+// A user's cash balance now, from cash_accounts, or at the end of a past day from the ledger.
+// Adds up all of the user's portfolios unless one is given.
+export async function getCashBalance(userId: number, asOf?: string, portfolioId?: number): Promise<CashBalance> {
+  if (!asOf) {
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT COUNT(*) AS accounts, COALESCE(SUM(balance), 0) AS balance, COALESCE(SUM(contributions), 0) AS contributions
+      FROM cash_accounts
+      WHERE user_id = ${userId}
+        AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+    `;
+    if (Number(result[0].accounts) > 0) {
+      return { balance: Number(result[0].balance), contributions: Number(result[0].contributions) };
+    }
+  }
+
+  // Ledgers not rebuilt since cash was tracked have no cash_accounts rows yet
+  const replays = Array.from(replayPortfolios(await getLedgerEntries(userId, undefined, portfolioId), asOf).values());
+  return {
+    balance: sum(replays.map(replay => replay.cash.balance)),
+    contributions: sum(replays.map(replay => replay.cash.contributions)),
+  };
+}
+
+// Postings to a user's cash balances, most recent first. The balance after each
+// posting is that of the posting's own portfolio.
+export async function getCashPostings(userId: number, limit = 100, portfolioId?: number): Promise<CashPosting[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT entry_id, posting_date, kind, symbol, amount, balance
+    FROM cash_postings
+    WHERE user_id = ${userId}
+      AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+    ORDER BY id DESC
+    LIMIT ${limit}
+  `;
+  return result.map(row => ({
+    entryId: row.entry_id,
+    date: toDateString(row.posting_date),
+    kind: row.kind,
+    symbol: row.symbol,
+    amount: Number(row.amount),
+    balance: Number(row.balance),
+  }));
+}
+
+export async function getRequireCash(userId: number): Promise<boolean> {
+  const sql = createSqlClient();
+  const result = await sql`SELECT require_cash FROM users WHERE id = ${userId}`;
+  return result.length > 0 && result[0].require_cash === true;
+}
+
+// Applies to ledger changes from now on; buys already funded from outside stay as they are
+export async function setRequireCash(userId: number, requireCash: boolean) {
+  const sql = createSqlClient();
+  await sql`UPDATE users SET require_cash = ${requireCash} WHERE id = ${userId}`;
+}
+
+// Record a deposit or withdrawal. Throws a LedgerError if a withdrawal is larger than the balance.
+export async function recordCashTransfer(userId: number, transfer: CashTransferInput) {
+  return recordLedgerEntry(userId, {
+    symbol: CASH_SYMBOL,
+    entryType: transfer.type,
+    quantity: transfer.amount,
+    price: 1,
+    tradeDate: transfer.date,
+    assetType: 'cash',
+    note: transfer.note ?? null,
+    portfolioId: transfer.portfolioId,
+  });
+}
+
+// Cancel a deposit or withdrawal. Returns false if the user has no such active entry.
+export async function voidCashTransfer(userId: number, entryId: number) {
+  await ensureLedgerSeeded(userId);
+  const entry = (await getLedgerEntries(userId, CASH_SYMBOL)).find(cashEntry => cashEntry.id === entryId);
+  if (!entry || !isCashEntry(entry)) return false;
+  return voidLedgerEntries(userId, [entryId]);
+}
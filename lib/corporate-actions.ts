@@ -0,0 +1,566 @@
+import {
+  createSqlClient,
+  getLedgerEntries,
+  LedgerEntryInput,
+  recordLedgerEntry,
+  voidLedgerEntries,
+} from './db';
+import { isCryptoCurrency } from './crypto-api';
+import { multiply } from './decimal';
+import { addDays, LedgerError, Position, replayLedger, toDateString } from './ledger';
+import { getProviderForSymbol } from './market-data';
+
+/**
+ * Corporate actions: splits, reverse splits, ticker changes, mergers and delistings.
+ *
+ * Splits are found through the market data provider; the other actions are
+ * entered by an admin. An action starts out pending. It is applied by an admin,
+ * or by the apply-corporate-actions job once it takes effect if it is marked
+ * auto_apply (detected splits are when CORPORATE_ACTIONS_AUTO_APPLY=true).
+ *
+ * Applying an action writes a ledger entry in every portfolio that held the
+ * symbol at the end of the day before it took effect: a 'split', or a
+ * 'conversion' into the new symbol and/or cash. Each position before and after is kept
+ * in corporate_action_applications, and reverting an action voids its entries.
+ * Applying again picks up holders added since by backdated trades.
+ *
+ * Provider price history is adjusted for splits, but the ledger keeps the share
+ * counts that were actually held, so prices before a split are multiplied back
+ * by its ratio (splitFactor) when valuing past positions.
+ */
+
+export type CorporateActionType = 'split' | 'ticker_change' | 'merger' | 'delisting';
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ['split', 'ticker_change', 'merger', 'delisting'];
+
+export type CorporateActionStatus = 'pending' | 'applied' | 'cancelled' | 'reverted';
+
+export const CORPORATE_ACTION_STATUSES: CorporateActionStatus[] = ['pending', 'applied', 'cancelled', 'reverted'];
+
+export type CorporateAction = {
+  id: number;
+  symbol: string;
+  actionType: CorporateActionType;
+  effectiveDate: string;
+  // New shares per old share: the split ratio, or shares of newSymbol per share (1 for a ticker change)
+  ratio: number | null;
+  newSymbol: string | null;
+  newCompanyName: string | null;
+  cashPerShare: number;
+  note: string | null;
+  source: string;
+  autoApply: boolean;
+  status: CorporateActionStatus;
+  createdAt: string;
+  appliedAt: string | null;
+  appliedBy: string | null;
+};
+
+export type CorporateActionInput = {
+  symbol: string;
+  actionType: CorporateActionType;
+  effectiveDate: string;
+  ratio?: number | null;
+  newSymbol?: string | null;
+  newCompanyName?: string | null;
+  cashPerShare?: number;
+  note?: string | null;
+  autoApply?: boolean;
+};
+
+// One holder's position before and after an action, in one of their portfolios
+export type CorporateActionApplication = {
+  actionId: number;
+  userId: number;
+  portfolioId: number;
+  username: string | null;
+  ledgerEntryId: number;
+  quantityBefore: number;
+  costBasisBefore: number;
+  quantityAfter: number;
+  costBasisAfter: number;
+  cashPaid: number;
+  appliedAt: string;
+  revertedAt: string | null;
+};
+
+// Holders an apply or revert changed, and the ones whose ledger would not allow it
+export type CorporateActionResult = {
+  action: CorporateAction;
+  userIds: number[];
+  failed: { userId: number; error: string }[];
+};
+
+// A split as far as historical prices are concerned
+export type SplitAdjustment = {
+  date: string;
+  ratio: number;
+};
+
+// Raised when an action is invalid, or cannot be applied, cancelled or reverted in its current state
+export class CorporateActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CorporateActionError';
+    Object.setPrototypeOf(this, CorporateActionError.prototype);
+  }
+}
+
+const today = () => toDateString(new Date());
+
+// Whether splits found through the provider are applied without an admin
+const autoApplyDetected = () => process.env.CORPORATE_ACTIONS_AUTO_APPLY === 'true';
+
+const toCorporateAction = (row: any): CorporateAction => ({
+  id: row.id,
+  symbol: row.symbol,
+  actionType: row.action_type,
+  effectiveDate: toDateString(row.effective_date),
+  ratio: row.ratio === null ? null : Number(row.ratio),
+  newSymbol: row.new_symbol,
+  newCompanyName: row.new_company_name,
+  cashPerShare: Number(row.cash_per_share),
+  note: row.note,
+  source: row.source,
+  autoApply: row.auto_apply,
+  status: row.status,
+  createdAt: row.created_at,
+  appliedAt: row.applied_at,
+  appliedBy: row.applied_by,
+});
+
+/**
+ * Check an action's terms and fill in the defaults:
+ * - split: a positive ratio other than 1 (below 1 for a reverse split)
+ * - ticker_change: the new symbol, one share for one
+ * - merger: shares of the acquirer (newSymbol and ratio), cash per share, or both
+ * - delisting: the cash paid out per share, 0 if the shares became worthless
+ */
+export function normalizeCorporateAction(input: CorporateActionInput): CorporateActionInput {
+  const symbol = input.symbol.trim().toUpperCase();
+  const newSymbol = input.newSymbol ? input.newSymbol.trim().toUpperCase() : null;
+  const cashPerShare = input.cashPerShare ?? 0;
+  const ratio = input.ratio ?? null;
+
+  if (!symbol || isCryptoCurrency(symbol)) {
+    throw new CorporateActionError('Corporate actions only apply to stocks and funds');
+  }
+  if (!CORPORATE_ACTION_TYPES.includes(input.actionType)) {
+    throw new CorporateActionError(`actionType must be one of ${CORPORATE_ACTION_TYPES.join(', ')}`);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.effectiveDate) || isNaN(new Date(input.effectiveDate).getTime())) {
+    throw new CorporateActionError('effectiveDate must be a YYYY-MM-DD date');
+  }
+  if (!(cashPerShare >= 0)) {
+    throw new CorporateActionError('cashPerShare must be zero or a positive number');
+  }
+  if (newSymbol === symbol) {
+    throw new CorporateActionError('newSymbol must differ from symbol');
+  }
+
+  const base = {
+    symbol,
+    actionType: input.actionType,
+    effectiveDate: input.effectiveDate,
+    note: input.note ?? null,
+    autoApply: input.autoApply ?? false,
+  };
+
+  switch (input.actionType) {
+    case 'split':
+      if (!ratio || !(ratio > 0) || ratio === 1) {
+        throw new CorporateActionError('A split needs a positive ratio other than 1');
+      }
+      return { ...base, ratio, newSymbol: null, newCompanyName: null, cashPerShare: 0 };
+
+    case 'ticker_change':
+      if (!newSymbol) throw new CorporateActionError('A ticker change needs newSymbol');
+      return { ...base, ratio: 1, newSymbol, newCompanyName: input.newCompanyName ?? null, cashPerShare: 0 };
+
+    case 'merger':
+      if (newSymbol && !(ratio && ratio > 0)) {
+        throw new CorporateActionError('A stock merger needs a positive ratio of new shares per share');
+      }
+      if (!newSymbol && !(cashPerShare > 0)) {
+        throw new CorporateActionError('A merger needs newSymbol and ratio, cashPerShare, or both');
+      }
+      return {
+        ...base,
+        ratio: newSymbol ? ratio : null,
+        newSymbol,
+        newCompanyName: newSymbol ? input.newCompanyName ?? null : null,
+        cashPerShare,
+      };
+
+    case 'delisting':
+      return { ...base, ratio: null, newSymbol: null, newCompanyName: null, cashPerShare };
+  }
+}
+
+export async function getCorporateAction(id: number): Promise<CorporateAction | null> {
+  const sql = createSqlClient();
+  const result = await sql`SELECT * FROM corporate_actions WHERE id = ${id}`;
+  return result.length > 0 ? toCorporateAction(result[0]) : null;
+}
+
+// Actions by effective date, newest first
+export async function listCorporateActions(filter: { symbol?: string; status?: CorporateActionStatus } = {}) {
+  const sql = createSqlClient();
+  const symbol = filter.symbol ? filter.symbol.toUpperCase() : null;
+  const result = await sql`
+    SELECT *
+    FROM corporate_actions
+    WHERE (${symbol}::text IS NULL OR symbol = ${symbol} OR new_symbol = ${symbol})
+      AND (${filter.status ?? null}::text IS NULL OR status = ${filter.status ?? null})
+    ORDER BY effective_date DESC, id DESC
+  `;
+  return result.map(toCorporateAction);
+}
+
+export async function getCorporateActionApplications(actionId: number): Promise<CorporateActionApplication[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT a.*, u.username
+    FROM corporate_action_applications a
+    LEFT JOIN users u ON u.id = a.user_id
+    WHERE a.action_id = ${actionId}
+    ORDER BY a.user_id, a.portfolio_id
+  `;
+  return result.map(row => ({
+    actionId: row.action_id,
+    userId: row.user_id,
+    portfolioId: row.portfolio_id,
+    username: row.username ?? null,
+    ledgerEntryId: row.ledger_entry_id,
+    quantityBefore: Number(row.quantity_before),
+    costBasisBefore: Number(row.cost_basis_before),
+    quantityAfter: Number(row.quantity_after),
+    costBasisAfter: Number(row.cost_basis_after),
+    cashPaid: Number(row.cash_paid),
+    appliedAt: row.applied_at,
+    revertedAt: row.reverted_at,
+  }));
+}
+
+// A split changes the price of every day before it, so the snapshots of
+// every portfolio that traded the symbol are recomputed from its first trade in it
+async function clearSymbolSnapshots(symbol: string) {
+  const sql = createSqlClient();
+  await sql`
+    DELETE FROM portfolio_snapshots p
+    USING (
+      SELECT portfolio_id, MIN(trade_date) AS first_date
+      FROM ledger_entries
+      WHERE symbol = ${symbol} AND entry_type <> 'void'
+      GROUP BY portfolio_id
+    ) h
+    WHERE p.portfolio_id = h.portfolio_id AND p.snapshot_date >= h.first_date
+  `;
+}
+
+// Add an action by hand. Throws a CorporateActionError if it is invalid or already recorded.
+export async function createCorporateAction(input: CorporateActionInput, source = 'admin'): Promise<CorporateAction> {
+  const action = normalizeCorporateAction(input);
+  const sql = createSqlClient();
+  const result = await sql`
+    INSERT INTO corporate_actions (
+      symbol, action_type, effective_date, ratio, new_symbol, new_company_name,
+      cash_per_share, note, source, auto_apply
+    )
+    VALUES (
+      ${action.symbol}, ${action.actionType}, ${action.effectiveDate}, ${action.ratio ?? null},
+      ${action.newSymbol ?? null}, ${action.newCompanyName ?? null}, ${action.cashPerShare ?? 0},
+      ${action.note ?? null}, ${source}, ${action.autoApply ?? false}
+    )
+    ON CONFLICT (symbol, action_type, effective_date) DO NOTHING
+    RETURNING *
+  `;
+  if (result.length === 0) {
+    throw new CorporateActionError(
+      `A ${action.actionType} of ${action.symbol} effective ${action.effectiveDate} is already recorded`
+    );
+  }
+  if (action.actionType === 'split') {
+    await clearSymbolSnapshots(action.symbol);
+  }
+  return toCorporateAction(result[0]);
+}
+
+// Fetch the splits of each symbol since `from` and record the new ones as pending
+// actions. Returns the number recorded; a symbol whose fetch fails is skipped.
+export async function detectSplits(symbols: string[], from: string): Promise<number> {
+  const sql = createSqlClient();
+  const keys = Array.from(new Set(symbols.filter(symbol => !isCryptoCurrency(symbol)).map(symbol => symbol.toUpperCase())));
+
+  let recorded = 0;
+  for (const key of keys) {
+    try {
+      const provider = getProviderForSymbol(key);
+      const splits = await provider.getSplits(key, { from, to: today(), interval: '1d' });
+      if (splits.length === 0) continue;
+
+      const result = await sql`
+        INSERT INTO corporate_actions (symbol, action_type, effective_date, ratio, source, auto_apply)
+        SELECT ${key}, 'split', split.date, split.ratio, ${provider.name}, ${autoApplyDetected()}
+        FROM unnest(
+          ${splits.map(split => split.date)}::date[],
+          ${splits.map(split => split.ratio)}::numeric[]
+        ) AS split(date, ratio)
+        ON CONFLICT (symbol, action_type, effective_date) DO NOTHING
+        RETURNING id
+      `;
+      if (result.length > 0) {
+        console.log(`Recorded ${result.length} new ${key} split(s) from ${provider.name}`);
+        await clearSymbolSnapshots(key);
+      }
+      recorded += result.length;
+    } catch (error) {
+      console.error(`Error detecting splits for ${key}:`, error);
+    }
+  }
+  return recorded;
+}
+
+// The ledger entry an action makes for one holder's position
+const ledgerInputFor = (action: CorporateAction, portfolioId: number, position: Position): LedgerEntryInput => ({
+  portfolioId,
+  symbol: action.symbol,
+  entryType: action.actionType === 'split' ? 'split' : 'conversion',
+  quantity: action.actionType === 'split' ? 0 : position.quantity,
+  price: action.cashPerShare,
+  splitRatio: action.ratio,
+  targetSymbol: action.newSymbol,
+  tradeDate: action.effectiveDate,
+  companyName: action.newSymbol ? action.newCompanyName || (action.actionType === 'ticker_change' ? position.companyName : null) : null,
+  assetType: position.assetType,
+  note: action.note || `${action.actionType.replace('_', ' ')} (corporate action #${action.id})`,
+  corporateActionId: action.id,
+});
+
+/**
+ * Apply an action to every portfolio that held the symbol at the end of the day
+ * before it took effect and does not have an entry for it yet. A portfolio whose ledger
+ * will not take the change is left out and reported. Returns null if there is
+ * no such action.
+ */
+export async function applyCorporateAction(id: number, appliedBy: string): Promise<CorporateActionResult | null> {
+  const action = await getCorporateAction(id);
+  if (!action) return null;
+
+  if (action.status === 'cancelled' || action.status === 'reverted') {
+    throw new CorporateActionError(`Corporate action #${id} was ${action.status}`);
+  }
+  if (action.effectiveDate > today()) {
+    throw new CorporateActionError(`Corporate action #${id} does not take effect until ${action.effectiveDate}`);
+  }
+
+  const sql = createSqlClient();
+  const holders = (await sql`
+    SELECT DISTINCT e.user_id, e.portfolio_id
+    FROM ledger_entries e
+    WHERE e.symbol = ${action.symbol}
+      AND e.entry_type <> 'void'
+      AND e.trade_date < ${action.effectiveDate}
+      AND NOT EXISTS (
+        SELECT 1 FROM ledger_entries a
+        WHERE a.portfolio_id = e.portfolio_id
+          AND a.corporate_action_id = ${id}
+          AND NOT EXISTS (SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = a.id)
+      )
+    ORDER BY e.user_id, e.portfolio_id
+  `).map(row => ({ userId: row.user_id as number, portfolioId: row.portfolio_id as number }));
+
+  const userIds: number[] = [];
+  const failed: CorporateActionResult['failed'] = [];
+  for (const { userId, portfolioId } of holders) {
+    const entries = await getLedgerEntries(userId, undefined, portfolioId);
+    const position = replayLedger(entries, addDays(action.effectiveDate, -1))
+      .find(held => held.symbol === action.symbol);
+    if (!position) continue;
+
+    try {
+      const entry = await recordLedgerEntry(userId, ledgerInputFor(action, portfolioId, position));
+      const quantityAfter = action.actionType === 'delisting' || !action.ratio ? 0 : multiply(position.quantity, action.ratio);
+      const costBasisAfter = quantityAfter > 0 ? position.costBasis : 0;
+      await sql`
+        INSERT INTO corporate_action_applications (
+          action_id, user_id, portfolio_id, ledger_entry_id, quantity_before, cost_basis_before,
+          quantity_after, cost_basis_after, cash_paid
+        )
+        VALUES (
+          ${id}, ${userId}, ${portfolioId}, ${entry.id}, ${position.quantity}, ${position.costBasis},
+          ${quantityAfter}, ${costBasisAfter}, ${multiply(position.quantity, action.cashPerShare)}
+        )
+        ON CONFLICT (action_id, portfolio_id) DO UPDATE SET
+          ledger_entry_id = EXCLUDED.ledger_entry_id,
+          quantity_before = EXCLUDED.quantity_before,
+          cost_basis_before = EXCLUDED.cost_basis_before,
+          quantity_after = EXCLUDED.quantity_after,
+          cost_basis_after = EXCLUDED.cost_basis_after,
+          cash_paid = EXCLUDED.cash_paid,
+          applied_at = NOW(),
+          reverted_at = NULL
+      `;
+      if (!userIds.includes(userId)) userIds.push(userId);
+    } catch (error) {
+      if (!(error instanceof LedgerError)) throw error;
+      console.error(`Error applying corporate action #${id} for user ${userId}, portfolio ${portfolioId}:`, error);
+      failed.push({ userId, error: error.message });
+    }
+  }
+
+  // Stays pending until every holder has it, so it can be retried
+  if (failed.length === 0 && action.status === 'pending') {
+    await sql`
+      UPDATE corporate_actions
+      SET status = 'applied', applied_at = NOW(), applied_by = ${appliedBy}
+      WHERE id = ${id}
+    `;
+  }
+
+  return { action: (await getCorporateAction(id)) as CorporateAction, userIds, failed };
+}
+
+// Undo an applied action by voiding the entries it wrote. A holder who has
+// since traded shares that only exist because of it is left as is and reported.
+export async function revertCorporateAction(id: number, revertedBy: string): Promise<CorporateActionResult | null> {
+  const action = await getCorporateAction(id);
+  if (!action) return null;
+
+  if (action.status === 'cancelled' || action.status === 'reverted') {
+    throw new CorporateActionError(`Corporate action #${id} was already ${action.status}`);
+  }
+
+  const sql = createSqlClient();
+  const entries = await sql`
+    SELECT e.user_id, e.id
+    FROM ledger_entries e
+    WHERE e.corporate_action_id = ${id}
+      AND NOT EXISTS (SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = e.id)
+    ORDER BY e.user_id
+  `;
+
+  const userIds: number[] = [];
+  const failed: CorporateActionResult['failed'] = [];
+  for (const userId of Array.from(new Set(entries.map(row => row.user_id as number)))) {
+    try {
+      await voidLedgerEntries(userId, entries.filter(row => row.user_id === userId).map(row => row.id as number));
+      await sql`
+        UPDATE corporate_action_applications SET reverted_at = NOW()
+        WHERE action_id = ${id} AND user_id = ${userId}
+      `;
+      userIds.push(userId);
+    } catch (error) {
+      if (!(error instanceof LedgerError)) throw error;
+      console.error(`Error reverting corporate action #${id} for user ${userId}:`, error);
+      failed.push({ userId, error: error.message });
+    }
+  }
+
+  if (failed.length === 0) {
+    await sql`
+      UPDATE corporate_actions
+      SET status = 'reverted', applied_at = NOW(), applied_by = ${revertedBy}
+      WHERE id = ${id}
+    `;
+    if (action.actionType === 'split') {
+      await clearSymbolSnapshots(action.symbol);
+    }
+  }
+
+  return { action: (await getCorporateAction(id)) as CorporateAction, userIds, failed };
+}
+
+// Drop a pending action that has not been applied to anyone (a wrong detection, say)
+export async function cancelCorporateAction(id: number): Promise<CorporateAction | null> {
+  const action = await getCorporateAction(id);
+  if (!action) return null;
+
+  const sql = createSqlClient();
+  const result = await sql`
+    UPDATE corporate_actions SET status = 'cancelled'
+    WHERE id = ${id}
+      AND status = 'pending'
+      AND NOT EXISTS (
+        SELECT 1 FROM ledger_entries e
+        WHERE e.corporate_action_id = ${id}
+          AND NOT EXISTS (SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = e.id)
+      )
+    RETURNING *
+  `;
+  if (result.length === 0) {
+    throw new CorporateActionError(
+      action.status === 'pending'
+        ? `Corporate action #${id} has been applied to some holders; revert it instead`
+        : `Only pending actions can be cancelled; #${id} is ${action.status}`
+    );
+  }
+  if (action.actionType === 'split') {
+    await clearSymbolSnapshots(action.symbol);
+  }
+  return toCorporateAction(result[0]);
+}
+
+/**
+ * What the apply-corporate-actions job does: record new splits of the held
+ * symbols, apply the auto-apply actions that have taken effect, and bring
+ * applied actions to holders added since by backdated trades.
+ */
+export async function processCorporateActions() {
+  const sql = createSqlClient();
+  const held = await sql`
+    SELECT e.symbol, MIN(e.trade_date) AS first_date
+    FROM ledger_entries e
+    WHERE e.entry_type <> 'void'
+      AND e.symbol IN (SELECT DISTINCT symbol FROM user_stocks)
+    GROUP BY e.symbol
+  `;
+
+  let detected = 0;
+  for (const row of held) {
+    detected += await detectSplits([row.symbol], toDateString(row.first_date));
+  }
+
+  const due = await sql`
+    SELECT id FROM corporate_actions
+    WHERE effective_date <= ${today()}
+      AND (status = 'applied' OR (status = 'pending' AND auto_apply))
+    ORDER BY effective_date, id
+  `;
+
+  const totals = { detected, actions: due.length, holders: 0, failed: 0 };
+  for (const row of due) {
+    const result = await applyCorporateAction(row.id, 'job');
+    totals.holders += result?.userIds.length ?? 0;
+    totals.failed += result?.failed.length ?? 0;
+  }
+  return totals;
+}
+
+// Splits of the given symbols that are pending or applied, for undoing the
+// split adjustment in historical prices
+export async function getSplitAdjustments(symbols: string[]): Promise<Map<string, SplitAdjustment[]>> {
+  const adjustments = new Map<string, SplitAdjustment[]>();
+  const keys = Array.from(new Set(symbols.filter(symbol => !isCryptoCurrency(symbol)).map(symbol => symbol.toUpperCase())));
+  if (keys.length === 0) return adjustments;
+
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT symbol, effective_date, ratio
+    FROM corporate_actions
+    WHERE symbol = ANY(${keys}::text[])
+      AND action_type = 'split'
+      AND status IN ('pending', 'applied')
+    ORDER BY effective_date
+  `;
+  for (const row of result) {
+    const splits = adjustments.get(row.symbol) || [];
+    splits.push({ date: toDateString(row.effective_date), ratio: Number(row.ratio) });
+    adjustments.set(row.symbol, splits);
+  }
+  return adjustments;
+}
+
+// What a split-adjusted price on `date` is multiplied by to get the price that day
+export const splitFactor = (splits: SplitAdjustment[] | undefined, date: string) =>
+  (splits || []).filter(split => split.date > date).reduce((factor, split) => multiply(factor, split.ratio), 1);
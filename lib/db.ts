@@ -1,4 +1,18 @@
 import { neon } from '@neondatabase/serverless';
+import { Client } from 'pg';
+import { subtract, sum } from './decimal';
+import {
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerError,
+  LedgerReplay,
+  Lot,
+  LotMethod,
+  LotSelection,
+  RealizedGain,
+  replayPortfolios,
+  toDateString,
+} from './ledger';
 
 // Get database URL from environment variables
 const getDatabaseUrl = () => {
@@ -33,99 +47,73 @@ export const createSqlClient = () => {
   return neon(url);
 };
 
-// Check if avatar column exists and add it if it doesn't
-export async function ensureAvatarColumn() {
+// User functions - only used server-side in API routes
+export async function registerUser(username: string, passwordHash: string) {
   try {
     const sql = createSqlClient();
     
-    // Check if the avatar column exists
-    const columnExists = await sql`
-      SELECT column_name 
-      FROM information_schema.columns 
-      WHERE table_name = 'users' AND column_name = 'avatar'
+    // Insert the user; an existing username is never taken over
+    const insertResult = await sql`
+      INSERT INTO users (username, password_hash)
+      VALUES (${username}, ${passwordHash})
+      ON CONFLICT (username) DO NOTHING
+      RETURNING id, username, avatar
     `;
     
-    // If the column doesn't exist, add it
-    if (columnExists.length === 0) {
-      console.log('Adding avatar column to users table...');
-      await sql`
-        ALTER TABLE users 
-        ADD COLUMN avatar TEXT
-      `;
-      console.log('Avatar column added successfully');
-    }
-    
-    return true;
+    // If no row was inserted, the username is already taken
+    return insertResult.length > 0 ? insertResult[0] : null;
   } catch (error) {
-    console.error('Failed to ensure avatar column exists:', error);
-    return false;
+    console.error('Failed to register user:', error);
+    throw error;
   }
 }
 
-// User functions - only used server-side in API routes
-export async function createUser(username: string) {
+// Get a user together with their password hash - only for verifying credentials
+export async function getUserCredentials(username: string) {
   try {
-    // Ensure the avatar column exists
-    await ensureAvatarColumn();
-    
     const sql = createSqlClient();
-    
-    // Try to insert the user
-    let insertResult;
-    try {
-      insertResult = await sql`
-        INSERT INTO users (username)
-        VALUES (${username})
-        ON CONFLICT (username) DO NOTHING
-        RETURNING id, username, avatar
-      `;
-    } catch (error: any) {
-      // If the error is about the avatar column, try without it
-      if (error.message && typeof error.message === 'string' && error.message.includes('column "avatar" does not exist')) {
-        insertResult = await sql`
-          INSERT INTO users (username)
-          VALUES (${username})
-          ON CONFLICT (username) DO NOTHING
-          RETURNING id, username
-        `;
-      } else {
-        throw error;
-      }
-    }
-    
-    // If no row was inserted, the user already exists
-    if (insertResult.length === 0) {
-      // Fetch the existing user
-      let existingUser;
-      try {
-        existingUser = await sql`
-          SELECT id, username, avatar FROM users WHERE username = ${username}
-        `;
-      } catch (error: any) {
-        // If the error is about the avatar column, try without it
-        if (error.message && typeof error.message === 'string' && error.message.includes('column "avatar" does not exist')) {
-          existingUser = await sql`
-            SELECT id, username FROM users WHERE username = ${username}
-          `;
-        } else {
-          throw error;
-        }
-      }
-      return existingUser[0];
-    }
-    
-    return insertResult[0];
+    const result = await sql`
+      SELECT id, username, avatar, password_hash FROM users WHERE username = ${username}
+    `;
+    return result.length > 0 ? result[0] : null;
   } catch (error) {
-    console.error('Failed to create user:', error);
+    console.error('Failed to get user credentials:', error);
+    throw error;
+  }
+}
+
+export async function getUserById(userId: number) {
+  try {
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT id, username, avatar FROM users WHERE id = ${userId}
+    `;
+    return result.length > 0 ? result[0] : null;
+  } catch (error) {
+    console.error('Failed to get user:', error);
+    throw error;
+  }
+}
+
+// Set or replace a user's password hash
+export async function setUserPassword(userId: number, passwordHash: string) {
+  try {
+    const sql = createSqlClient();
+    const result = await sql`
+      UPDATE users
+      SET password_hash = ${passwordHash}
+      WHERE id = ${userId}
+      RETURNING id
+    `;
+    return result.length > 0;
+  } catch (error) {
+    console.error('Failed to set user password:', error);
     throw error;
   }
 }
 
 export async function getUserByUsername(username: string) {
   try {
-    // Ensure the avatar column exists
-    await ensureAvatarColumn();
-    
     const sql = createSqlClient();
     let result;
     try {
@@ -151,9 +139,6 @@ export async function getUserByUsername(username: string) {
 
 export async function updateUserAvatar(userId: number, avatarUrl: string) {
   try {
-    // Ensure the avatar column exists
-    await ensureAvatarColumn();
-    
     const sql = createSqlClient();
     let result;
     try {
@@ -166,7 +151,7 @@ export async function updateUserAvatar(userId: number, avatarUrl: string) {
     } catch (error: any) {
       // If the error is about the avatar column, try without it
       if (error.message && typeof error.message === 'string' && error.message.includes('column "avatar" does not exist')) {
-        console.error('Avatar column does not exist. Please run the migration.');
+        console.error('Avatar column does not exist. Please run the database migrations.');
         return null;
       } else {
         throw error;
@@ -179,6 +164,583 @@ export async function updateUserAvatar(userId: number, avatarUrl: string) {
   }
 }
 
+/**
+ * Ledger functions
+ *
+ * ledger_entries is append-only: an amendment inserts a replacement entry that
+ * supersedes the old one, and a removal inserts a 'void' entry. An entry is
+ * active while nothing supersedes it. user_stocks (open positions),
+ * user_stock_lots (open tax lots), realized_gains (closed lots), cash_accounts
+ * and cash_postings are projections of the active entries that
+ * rebuildHoldings() keeps in sync after every change.
+ *
+ * Each change is validated, written and projected in a single transaction that
+ * holds the user's ledger lock (withLedgerLock), so changes from requests and
+ * from the order matcher apply one at a time per user.
+ *
+ * Entries belong to one of the user's portfolios and each portfolio is replayed
+ * on its own, so the projections have a row set per portfolio. Reads cover all
+ * of a user's portfolios unless given a portfolioId.
+ */
+
+export type LedgerEntryInput = {
+  // The user's default portfolio when not given
+  portfolioId?: number;
+  symbol: string;
+  entryType: LedgerEntryType;
+  quantity: number;
+  price: number;
+  splitRatio?: number | null;
+  tradeDate: string;
+  companyName?: string | null;
+  assetType?: string;
+  note?: string | null;
+  lotMethod?: LotMethod | null;
+  lotSelections?: LotSelection[] | null;
+  exDate?: string | null;
+  reinvestPrice?: number | null;
+  targetSymbol?: string | null;
+  corporateActionId?: number | null;
+  // Market fills only (lib/paper-trading.ts)
+  executedAt?: string | null;
+};
+
+// A ledger_entries row; NUMERIC columns come back as strings
+type LedgerEntryRow = {
+  id: number;
+  user_id: number;
+  portfolio_id: number;
+  symbol: string;
+  entry_type: LedgerEntryType;
+  quantity: string;
+  price: string;
+  split_ratio: string | null;
+  ex_date: string | Date | null;
+  reinvest_price: string | null;
+  target_symbol: string | null;
+  corporate_action_id: number | null;
+  trade_date: string | Date;
+  company_name: string | null;
+  asset_type: string;
+  note: string | null;
+  lot_method: LotMethod | null;
+  lot_selections: LotSelection[] | null;
+  executed_at: string | Date | null;
+  supersedes_id: number | null;
+  created_at: string;
+};
+
+// Map a ledger_entries row to a LedgerEntry
+const toLedgerEntry = (row: LedgerEntryRow): LedgerEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  portfolioId: row.portfolio_id,
+  symbol: row.symbol,
+  entryType: row.entry_type,
+  quantity: Number(row.quantity),
+  price: Number(row.price),
+  splitRatio: row.split_ratio === null ? null : Number(row.split_ratio),
+  exDate: row.ex_date ? toDateString(row.ex_date) : null,
+  reinvestPrice: row.reinvest_price === null ? null : Number(row.reinvest_price),
+  targetSymbol: row.target_symbol ?? null,
+  corporateActionId: row.corporate_action_id ?? null,
+  tradeDate: toDateString(row.trade_date),
+  companyName: row.company_name,
+  assetType: row.asset_type,
+  note: row.note,
+  lotMethod: row.lot_method,
+  lotSelections: row.lot_selections,
+  executedAt: row.executed_at ? new Date(row.executed_at).toISOString() : null,
+  supersedesId: row.supersedes_id,
+  createdAt: row.created_at,
+});
+
+// Get the active (not superseded or voided) ledger entries for a user
+export async function getLedgerEntries(userId: number, symbol?: string, portfolioId?: number): Promise<LedgerEntry[]> {
+  try {
+    return await readLedgerEntries(createSqlClient(), userId, symbol, portfolioId);
+  } catch (error) {
+    console.error('Failed to get ledger entries:', error);
+    throw error;
+  }
+}
+
+// The active entries as seen by a client, which inside withLedgerLock includes the change being made
+async function readLedgerEntries(sql: SqlClient, userId: number, symbol?: string, portfolioId?: number) {
+  const result = await sql`
+    SELECT e.*
+    FROM ledger_entries e
+    WHERE e.user_id = ${userId}
+      AND e.entry_type <> 'void'
+      AND (${symbol ?? null}::text IS NULL OR e.symbol = ${symbol ?? null})
+      AND (${portfolioId ?? null}::int IS NULL OR e.portfolio_id = ${portfolioId ?? null})
+      AND NOT EXISTS (
+        SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = e.id
+      )
+    ORDER BY e.trade_date, e.id
+  `;
+  return (result as LedgerEntryRow[]).map(toLedgerEntry);
+}
+
+// Get every ledger entry for a user, including superseded ones, for auditing
+export async function getLedgerHistory(userId: number, symbol?: string, portfolioId?: number) {
+  try {
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT 
+        e.*,
+        EXISTS (SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = e.id) AS superseded
+      FROM ledger_entries e
+      WHERE e.user_id = ${userId}
+        AND (${symbol ?? null}::text IS NULL OR e.symbol = ${symbol ?? null})
+        AND (${portfolioId ?? null}::int IS NULL OR e.portfolio_id = ${portfolioId ?? null})
+      ORDER BY e.id
+    `;
+    return (result as (LedgerEntryRow & { superseded: boolean })[])
+      .map(row => ({ ...toLedgerEntry(row), superseded: row.superseded }));
+  } catch (error) {
+    console.error('Failed to get ledger history:', error);
+    throw error;
+  }
+}
+
+// The portfolio entries go to when none is chosen, created the first time it is needed.
+// It is called Main, or Main 2 and so on when the user already has a portfolio called Main.
+export async function getDefaultPortfolioId(userId: number): Promise<number> {
+  const sql = createSqlClient();
+  const existing = await sql`SELECT id FROM portfolios WHERE user_id = ${userId} AND is_default`;
+  if (existing.length > 0) return existing[0].id;
+  
+  const names = new Set((await sql`SELECT name FROM portfolios WHERE user_id = ${userId}`).map(row => row.name));
+  let name = 'Main';
+  for (let n = 2; names.has(name); n++) name = `Main ${n}`;
+  
+  // Another request may create the default first; that one is used
+  const created = await sql`
+    INSERT INTO portfolios (user_id, name, is_default)
+    VALUES (${userId}, ${name}, TRUE)
+    ON CONFLICT (user_id) WHERE is_default DO NOTHING
+    RETURNING id
+  `;
+  const result = created.length > 0
+    ? created
+    : await sql`SELECT id FROM portfolios WHERE user_id = ${userId} AND is_default`;
+  if (result.length === 0) {
+    throw new Error(`No default portfolio could be created for user ${userId}`);
+  }
+  return result[0].id;
+}
+
+// Users who had holdings before the ledger existed get an opening entry per holding,
+// so rebuilding from the ledger never drops their positions
+export async function ensureLedgerSeeded(userId: number, sql: SqlClient = createSqlClient()) {
+  await sql`
+    INSERT INTO ledger_entries (user_id, portfolio_id, symbol, entry_type, quantity, price, trade_date, company_name, asset_type, note)
+    SELECT 
+      s.user_id,
+      s.portfolio_id,
+      s.symbol,
+      'transfer_in',
+      s.quantity,
+      s.purchase_price,
+      COALESCE(s.purchase_date, CURRENT_TIMESTAMP)::date,
+      s.company_name,
+      CASE WHEN s.symbol LIKE '@%' THEN 'crypto' ELSE 'stock' END,
+      'Opening balance from holdings recorded before the ledger'
+    FROM user_stocks s
+    WHERE s.user_id = ${userId}
+      AND NOT EXISTS (SELECT 1 FROM ledger_entries e WHERE e.user_id = ${userId})
+  `;
+}
+
+// A tagged-template query function: the Neon client from createSqlClient, or the
+// transaction a ledger change runs in (withLedgerLock)
+type SqlClient = (strings: TemplateStringsArray, ...values: any[]) => Promise<Record<string, any>[]>;
+
+// Arbitrary key that, with the user id, names the advisory lock on a user's ledger
+const LEDGER_LOCK_ID = 7305002;
+
+// Run a change to a user's ledger in one transaction that holds the user's ledger lock,
+// so concurrent changes (requests, the order matcher) validate against the ledger as
+// the previous change left it, and its entries, holdings and snapshots commit together.
+// The Neon HTTP client cannot hold a transaction open, so this uses a pg connection.
+async function withLedgerLock<T>(userId: number, change: (sql: SqlClient) => Promise<T>): Promise<T> {
+  const url = getDatabaseUrl();
+  if (!url) {
+    throw new Error('Database connection string missing');
+  }
+  
+  const client = new Client({ connectionString: url });
+  await client.connect();
+  const sql: SqlClient = async (strings, ...values) => {
+    const text = strings.reduce((query, part, index) => `${query}$${index}${part}`);
+    return (await client.query(text, values)).rows;
+  };
+  
+  try {
+    await client.query('BEGIN');
+    await client.query('SELECT pg_advisory_xact_lock($1, $2)', [LEDGER_LOCK_ID, userId]);
+    const result = await change(sql);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  } finally {
+    await client.end();
+  }
+}
+
+// Replay each of the user's portfolios and rewrite their user_stocks, user_stock_lots,
+// realized_gains and cash rows to match. Runs inside withLedgerLock.
+async function rebuildHoldings(sql: SqlClient, userId: number) {
+  const replays = Array.from(replayPortfolios(await readLedgerEntries(sql, userId)).entries());
+  const holdings = replays.flatMap(([portfolioId, replay]) => replay.positions.map(position => ({ portfolioId, position })));
+  const holdingKeys = holdings.map(({ portfolioId, position }) => `${portfolioId}:${position.symbol}`);
+  const lots = holdings.flatMap(({ portfolioId, position }) => position.lots.map(lot => ({ portfolioId, lot })));
+  const gains = replays.flatMap(([portfolioId, replay]) => replay.realizedGains.map(gain => ({ portfolioId, gain })));
+  const postings = replays.flatMap(([portfolioId, replay]) => replay.cash.postings.map(posting => ({ portfolioId, posting })));
+  
+  await sql`
+    DELETE FROM user_stocks 
+    WHERE user_id = ${userId} AND NOT ((portfolio_id || ':' || symbol) = ANY(${holdingKeys}::text[]))
+  `;
+  await sql`
+    INSERT INTO user_stocks (user_id, portfolio_id, symbol, company_name, quantity, purchase_price, purchase_date, asset_type)
+    SELECT ${userId}, holding.portfolio_id, holding.symbol, holding.company_name, holding.quantity, holding.purchase_price, holding.purchase_date, holding.asset_type
+    FROM unnest(
+      ${holdings.map(({ portfolioId }) => portfolioId)}::int[],
+      ${holdings.map(({ position }) => position.symbol)}::text[],
+      ${holdings.map(({ position }) => position.companyName)}::text[],
+      ${holdings.map(({ position }) => position.quantity)}::numeric[],
+      ${holdings.map(({ position }) => position.averageCost)}::numeric[],
+      ${holdings.map(({ position }) => position.openedAt)}::timestamptz[],
+      ${holdings.map(({ position }) => position.assetType)}::text[]
+    ) AS holding(portfolio_id, symbol, company_name, quantity, purchase_price, purchase_date, asset_type)
+    ON CONFLICT (portfolio_id, symbol) DO UPDATE SET
+      company_name = EXCLUDED.company_name,
+      asset_type = EXCLUDED.asset_type,
+      quantity = EXCLUDED.quantity,
+      purchase_price = EXCLUDED.purchase_price,
+      purchase_date = EXCLUDED.purchase_date
+  `;
+  await sql`DELETE FROM user_stock_lots WHERE user_id = ${userId}`;
+  await sql`
+    INSERT INTO user_stock_lots (user_id, portfolio_id, symbol, lot_entry_id, acquired_date, quantity, cost_per_share, verified)
+    SELECT ${userId}, lot.portfolio_id, lot.symbol, lot.lot_entry_id, lot.acquired_date, lot.quantity, lot.cost_per_share, lot.verified
+    FROM unnest(
+      ${lots.map(({ portfolioId }) => portfolioId)}::int[],
+      ${lots.map(({ lot }) => lot.symbol)}::text[],
+      ${lots.map(({ lot }) => lot.lotId)}::int[],
+      ${lots.map(({ lot }) => lot.acquiredDate)}::date[],
+      ${lots.map(({ lot }) => lot.quantity)}::numeric[],
+      ${lots.map(({ lot }) => lot.costPerShare)}::numeric[],
+      ${lots.map(({ lot }) => lot.verified)}::boolean[]
+    ) AS lot(portfolio_id, symbol, lot_entry_id, acquired_date, quantity, cost_per_share, verified)
+  `;
+  await sql`DELETE FROM realized_gains WHERE user_id = ${userId}`;
+  await sql`
+    INSERT INTO realized_gains (
+      user_id, portfolio_id, symbol, sell_entry_id, lot_entry_id, quantity,
+      acquired_date, sold_date, cost_basis, proceeds, realized_gain
+    )
+    SELECT
+      ${userId}, gain.portfolio_id, gain.symbol, gain.sell_entry_id, gain.lot_entry_id, gain.quantity,
+      gain.acquired_date, gain.sold_date, gain.cost_basis, gain.proceeds, gain.realized_gain
+    FROM unnest(
+      ${gains.map(({ portfolioId }) => portfolioId)}::int[],
+      ${gains.map(({ gain }) => gain.symbol)}::text[],
+      ${gains.map(({ gain }) => gain.sellEntryId)}::int[],
+      ${gains.map(({ gain }) => gain.lotId)}::int[],
+      ${gains.map(({ gain }) => gain.quantity)}::numeric[],
+      ${gains.map(({ gain }) => gain.acquiredDate)}::date[],
+      ${gains.map(({ gain }) => gain.soldDate)}::date[],
+      ${gains.map(({ gain }) => gain.costBasis)}::numeric[],
+      ${gains.map(({ gain }) => gain.proceeds)}::numeric[],
+      ${gains.map(({ gain }) => gain.gain)}::numeric[]
+    ) AS gain(portfolio_id, symbol, sell_entry_id, lot_entry_id, quantity, acquired_date, sold_date, cost_basis, proceeds, realized_gain)
+  `;
+  await sql`DELETE FROM cash_accounts WHERE user_id = ${userId}`;
+  await sql`
+    INSERT INTO cash_accounts (user_id, portfolio_id, balance, contributions, updated_at)
+    SELECT ${userId}, account.portfolio_id, account.balance, account.contributions, NOW()
+    FROM unnest(
+      ${replays.map(([portfolioId]) => portfolioId)}::int[],
+      ${replays.map(([, { cash }]) => cash.balance)}::numeric[],
+      ${replays.map(([, { cash }]) => cash.contributions)}::numeric[]
+    ) AS account(portfolio_id, balance, contributions)
+  `;
+  await sql`DELETE FROM cash_postings WHERE user_id = ${userId}`;
+  await sql`
+    INSERT INTO cash_postings (user_id, portfolio_id, entry_id, posting_date, kind, symbol, amount, balance)
+    SELECT ${userId}, posting.portfolio_id, posting.entry_id, posting.posting_date, posting.kind, posting.symbol, posting.amount, posting.balance
+    FROM unnest(
+      ${postings.map(({ portfolioId }) => portfolioId)}::int[],
+      ${postings.map(({ posting }) => posting.entryId)}::int[],
+      ${postings.map(({ posting }) => posting.date)}::date[],
+      ${postings.map(({ posting }) => posting.kind)}::text[],
+      ${postings.map(({ posting }) => posting.symbol)}::text[],
+      ${postings.map(({ posting }) => posting.amount)}::numeric[],
+      ${postings.map(({ posting }) => posting.balance)}::numeric[]
+    ) WITH ORDINALITY AS posting(portfolio_id, entry_id, posting_date, kind, symbol, amount, balance, position)
+    ORDER BY posting.position
+  `;
+}
+
+// Money brought in from outside to cover buys, across the portfolios that are checked (see lib/ledger.ts)
+const fundingOf = (replays: Map<number, LedgerReplay>, checked: (portfolioId: number) => boolean) =>
+  sum(Array.from(replays.entries())
+    .filter(([portfolioId]) => checked(portfolioId))
+    .flatMap(([, replay]) => replay.cash.postings
+      .filter(posting => posting.kind === 'funding')
+      .map(posting => posting.amount)));
+
+// Check that the ledger would still replay cleanly after a change, and that it
+// needs no more outside funding in paper-trading portfolios, or in any portfolio
+// when the user requires buys to be paid from cash
+async function assertLedgerConsistent(sql: SqlClient, userId: number, change: (entries: LedgerEntry[]) => LedgerEntry[]) {
+  const entries = await readLedgerEntries(sql, userId);
+  const after = replayPortfolios(change(entries));
+
+  const user = await sql`SELECT require_cash FROM users WHERE id = ${userId}`;
+  const paper = (await sql`SELECT id FROM portfolios WHERE user_id = ${userId} AND paper_trading`)
+    .map(row => row.id as number);
+  const checked = (portfolioId: number) => user[0]?.require_cash === true || paper.includes(portfolioId);
+
+  const shortfall = subtract(fundingOf(after, checked), fundingOf(replayPortfolios(entries), checked));
+  if (shortfall > 0.005) {
+    throw new LedgerError(`Not enough cash: this needs ${shortfall} more than the cash balance`);
+  }
+}
+
+// Entries users record by hand; the other types are written automatically
+const MANUAL_ENTRY_TYPES: LedgerEntryType[] = ['buy', 'sell', 'split', 'transfer_in', 'transfer_out'];
+
+// Market fills stand once made, and paper-trading portfolios take no trades typed in by hand.
+// Deposits, withdrawals, dividends and corporate actions are recorded in them as usual.
+async function assertPaperTradingAllowed(sql: SqlClient, portfolioId: number, input: LedgerEntryInput, supersedesId: number | null) {
+  if (supersedesId !== null) {
+    const superseded = await sql`SELECT executed_at FROM ledger_entries WHERE id = ${supersedesId}`;
+    if (superseded[0]?.executed_at) {
+      throw new LedgerError('Market fills cannot be changed');
+    }
+  }
+
+  if (input.executedAt || input.corporateActionId || !MANUAL_ENTRY_TYPES.includes(input.entryType)) return;
+  const portfolio = await sql`SELECT name FROM portfolios WHERE id = ${portfolioId} AND paper_trading`;
+  if (portfolio.length > 0) {
+    throw new LedgerError(`${portfolio[0].name} is a paper-trading portfolio: trades are placed as market orders`);
+  }
+}
+
+// Build an in-memory entry for validating an input (with its portfolio chosen) before it is stored
+const draftEntry = (userId: number, input: LedgerEntryInput & { portfolioId: number }, id: number): LedgerEntry => ({
+  id,
+  userId,
+  portfolioId: input.portfolioId,
+  symbol: input.symbol,
+  entryType: input.entryType,
+  quantity: input.quantity,
+  price: input.price,
+  splitRatio: input.splitRatio ?? null,
+  exDate: input.exDate ?? null,
+  reinvestPrice: input.reinvestPrice ?? null,
+  targetSymbol: input.targetSymbol ?? null,
+  corporateActionId: input.corporateActionId ?? null,
+  tradeDate: input.tradeDate,
+  companyName: input.companyName ?? null,
+  assetType: input.assetType || 'stock',
+  note: input.note ?? null,
+  lotMethod: input.lotMethod ?? null,
+  lotSelections: input.lotSelections ?? null,
+  executedAt: input.executedAt ?? null,
+  supersedesId: null,
+  createdAt: new Date().toISOString(),
+});
+
+// Portfolio snapshots from a trade date onwards no longer match the ledger;
+// they are recomputed the next time they are read (lib/snapshots.ts)
+async function clearSnapshotsFrom(sql: SqlClient, userId: number, tradeDate: string) {
+  await sql`
+    DELETE FROM portfolio_snapshots
+    WHERE user_id = ${userId} AND snapshot_date >= ${tradeDate}
+  `;
+}
+
+// Append an entry to the ledger and recompute holdings
+export async function recordLedgerEntry(userId: number, input: LedgerEntryInput, supersedesId: number | null = null) {
+  try {
+    const portfolioId = input.portfolioId ?? await getDefaultPortfolioId(userId);
+    
+    return await withLedgerLock(userId, async sql => {
+      await ensureLedgerSeeded(userId, sql);
+      
+      // Validate against the rest of the ledger before writing anything
+      const entries = await readLedgerEntries(sql, userId);
+      if (supersedesId !== null && !entries.some(entry => entry.id === supersedesId)) {
+        throw new LedgerError(`Entry #${supersedesId} has already been changed or removed`);
+      }
+      await assertPaperTradingAllowed(sql, portfolioId, input, supersedesId);
+      await assertLedgerConsistent(sql, userId, current => [
+        ...current.filter(entry => entry.id !== supersedesId),
+        draftEntry(userId, { ...input, portfolioId }, Number.MAX_SAFE_INTEGER),
+      ]);
+      
+      const result = await sql`
+        INSERT INTO ledger_entries (
+          user_id, portfolio_id, symbol, entry_type, quantity, price, split_ratio,
+          trade_date, company_name, asset_type, note, lot_method, lot_selections,
+          ex_date, reinvest_price, target_symbol, corporate_action_id, executed_at, supersedes_id
+        )
+        VALUES (
+          ${userId}, ${portfolioId}, ${input.symbol}, ${input.entryType}, ${input.quantity}, ${input.price}, ${input.splitRatio ?? null},
+          ${input.tradeDate}, ${input.companyName ?? null}, ${input.assetType || 'stock'}, ${input.note ?? null},
+          ${input.lotMethod ?? null}, ${input.lotSelections ? JSON.stringify(input.lotSelections) : null},
+          ${input.exDate ?? null}, ${input.reinvestPrice ?? null}, ${input.targetSymbol ?? null},
+          ${input.corporateActionId ?? null}, ${input.executedAt ?? null}, ${supersedesId}
+        )
+        RETURNING *
+      `;
+      
+      await rebuildHoldings(sql, userId);
+      
+      // A correction also changes the days from the superseded entry's date
+      const superseded = entries.filter(entry => entry.id === supersedesId);
+      const changedFrom = [toDateString(input.tradeDate), ...superseded.map(entry => toDateString(entry.tradeDate))].sort()[0];
+      await clearSnapshotsFrom(sql, userId, changedFrom);
+      
+      return toLedgerEntry(result[0] as LedgerEntryRow);
+    });
+  } catch (error) {
+    console.error('Failed to record ledger entry:', error);
+    throw error;
+  }
+}
+
+// Find one of the user's active entries
+async function getActiveEntry(userId: number, entryId: number) {
+  const entries = await getLedgerEntries(userId);
+  return entries.find(entry => entry.id === entryId) || null;
+}
+
+// Correct a past entry; everything after it is recomputed on rebuild
+export async function amendLedgerEntry(userId: number, entryId: number, changes: Partial<LedgerEntryInput>) {
+  const existing = await getActiveEntry(userId, entryId);
+  if (!existing) return null;
+  
+  return recordLedgerEntry(userId, {
+    portfolioId: existing.portfolioId,
+    symbol: existing.symbol,
+    entryType: existing.entryType,
+    quantity: existing.quantity,
+    price: existing.price,
+    splitRatio: existing.splitRatio,
+    tradeDate: existing.tradeDate,
+    companyName: existing.companyName,
+    assetType: existing.assetType,
+    note: existing.note,
+    lotMethod: existing.lotMethod,
+    lotSelections: existing.lotSelections,
+    exDate: existing.exDate,
+    reinvestPrice: existing.reinvestPrice,
+    targetSymbol: existing.targetSymbol,
+    corporateActionId: existing.corporateActionId,
+    ...changes,
+  }, entryId);
+}
+
+// Cancel entries by appending 'void' entries that supersede them
+export async function voidLedgerEntries(userId: number, entryIds: number[]) {
+  try {
+    return await withLedgerLock(userId, async sql => {
+      await ensureLedgerSeeded(userId, sql);
+      
+      const entries = await readLedgerEntries(sql, userId);
+      const toVoid = entries.filter(entry => entryIds.includes(entry.id));
+      if (toVoid.length === 0) return false;
+      if (toVoid.some(entry => entry.executedAt !== null)) {
+        throw new LedgerError('Market fills cannot be removed');
+      }
+      
+      await assertLedgerConsistent(sql, userId, current => current.filter(entry => !entryIds.includes(entry.id)));
+      
+      for (const entry of toVoid) {
+        await sql`
+          INSERT INTO ledger_entries (user_id, portfolio_id, symbol, entry_type, quantity, price, trade_date, asset_type, supersedes_id)
+          VALUES (${userId}, ${entry.portfolioId}, ${entry.symbol}, 'void', 0, 0, ${entry.tradeDate}, ${entry.assetType}, ${entry.id})
+        `;
+      }
+      
+      await rebuildHoldings(sql, userId);
+      await clearSnapshotsFrom(sql, userId, toVoid.map(entry => toDateString(entry.tradeDate)).sort()[0]);
+      return true;
+    });
+  } catch (error) {
+    console.error('Failed to void ledger entries:', error);
+    throw error;
+  }
+}
+
+// A dividend credit to record in a portfolio; with supersedesId it corrects an earlier credit
+export type DividendCreditChange = {
+  input: LedgerEntryInput & { portfolioId: number };
+  supersedesId: number | null;
+};
+
+// Record new and corrected dividend credits and void the ones that no longer
+// apply, with a single rebuild (lib/dividends.ts works out which)
+export async function applyDividendCredits(userId: number, credits: DividendCreditChange[], voidIds: number[]) {
+  if (credits.length === 0 && voidIds.length === 0) return;
+
+  try {
+    await withLedgerLock(userId, async sql => {
+      const entries = await readLedgerEntries(sql, userId);
+      const replaced = new Set([...voidIds, ...credits.map(credit => credit.supersedesId)]);
+      const toVoid = entries.filter(entry => voidIds.includes(entry.id));
+      const stale = Array.from(replaced).filter(id => id !== null && !entries.some(entry => entry.id === id));
+      if (stale.length > 0) {
+        throw new LedgerError(`Entries ${stale.map(id => `#${id}`).join(', ')} have already been changed or removed`);
+      }
+
+      await assertLedgerConsistent(sql, userId, current => [
+        ...current.filter(entry => !replaced.has(entry.id)),
+        ...credits.map((credit, index) => draftEntry(userId, credit.input, Number.MAX_SAFE_INTEGER - index)),
+      ]);
+
+      for (const { input, supersedesId } of credits) {
+        await sql`
+          INSERT INTO ledger_entries (
+            user_id, portfolio_id, symbol, entry_type, quantity, price, trade_date,
+            company_name, asset_type, note, ex_date, reinvest_price, supersedes_id
+          )
+          VALUES (
+            ${userId}, ${input.portfolioId}, ${input.symbol}, 'dividend', ${input.quantity}, ${input.price}, ${input.tradeDate},
+            ${input.companyName ?? null}, ${input.assetType || 'stock'}, ${input.note ?? null},
+            ${input.exDate ?? null}, ${input.reinvestPrice ?? null}, ${supersedesId}
+          )
+        `;
+      }
+      for (const entry of toVoid) {
+        await sql`
+          INSERT INTO ledger_entries (user_id, portfolio_id, symbol, entry_type, quantity, price, trade_date, asset_type, supersedes_id)
+          VALUES (${userId}, ${entry.portfolioId}, ${entry.symbol}, 'void', 0, 0, ${entry.tradeDate}, ${entry.assetType}, ${entry.id})
+        `;
+      }
+
+      await rebuildHoldings(sql, userId);
+
+      const changedDates = [
+        ...credits.map(credit => toDateString(credit.input.tradeDate)),
+        ...entries.filter(entry => replaced.has(entry.id)).map(entry => toDateString(entry.tradeDate)),
+      ];
+      await clearSnapshotsFrom(sql, userId, changedDates.sort()[0]);
+    });
+  } catch (error) {
+    console.error('Failed to apply dividend credits:', error);
+    throw error;
+  }
+}
+
 // Stock functions
 export async function addStockToUser(
   userId: number,
@@ -186,30 +748,49 @@ export async function addStockToUser(
   companyName: string,
   quantity: number,
   purchasePrice: number,
-  purchaseDate: string = new Date().toISOString().split('T')[0]
+  purchaseDate: string = new Date().toISOString().split('T')[0],
+  assetType: string = 'stock',
+  portfolioId?: number,
+  executedAt: string | null = null
 ) {
   try {
+    // Record the buy in the ledger; the holding is derived from it
+    const entry = await recordLedgerEntry(userId, {
+      portfolioId,
+      symbol,
+      entryType: 'buy',
+      quantity,
+      price: purchasePrice,
+      tradeDate: purchaseDate,
+      companyName,
+      assetType,
+      executedAt,
+    });
+    
     const sql = createSqlClient();
     const result = await sql`
-      INSERT INTO user_stocks (user_id, symbol, company_name, quantity, purchase_price, purchase_date)
-      VALUES (${userId}, ${symbol}, ${companyName}, ${quantity}, ${purchasePrice}, ${purchaseDate})
-      RETURNING id, symbol, company_name, quantity, purchase_price, purchase_date
+      SELECT id, portfolio_id, symbol, company_name, quantity, purchase_price, purchase_date
+      FROM user_stocks
+      WHERE portfolio_id = ${entry.portfolioId} AND symbol = ${symbol}
     `;
-    return result[0];
+    // The holding after the buy, and the ledger entry that recorded it
+    return { ...result[0], ledger_entry_id: entry.id };
   } catch (error) {
     console.error('Failed to add stock:', error);
     throw error;
   }
 }
 
-export async function getUserStocks(userId: number) {
+// A user's holdings, one row per symbol in each portfolio
+export async function getUserStocks(userId: number, portfolioId?: number) {
   try {
     const sql = createSqlClient();
     const result = await sql`
-      SELECT id, symbol, company_name, quantity, purchase_price, purchase_date
+      SELECT id, portfolio_id, symbol, company_name, quantity, purchase_price, purchase_date
       FROM user_stocks
       WHERE user_id = ${userId}
-      ORDER BY symbol
+        AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+      ORDER BY symbol, portfolio_id
     `;
     return result;
   } catch (error) {
@@ -218,32 +799,61 @@ export async function getUserStocks(userId: number) {
   }
 }
 
-export async function updateStockQuantity(
-  stockId: number,
-  newQuantity: number
-) {
+// Get a user's open tax lots, oldest first, with the portfolio each is held in
+export async function getUserLots(userId: number, symbol?: string, portfolioId?: number): Promise<(Lot & { portfolioId: number })[]> {
   try {
     const sql = createSqlClient();
-    if (newQuantity <= 0) {
-      // Delete the stock if quantity is 0 or negative
-      await sql`DELETE FROM user_stocks WHERE id = ${stockId}`;
-      return null;
-    } else {
-      const result = await sql`
-        UPDATE user_stocks
-        SET quantity = ${newQuantity}
-        WHERE id = ${stockId}
-        RETURNING id, symbol, quantity, purchase_price
-      `;
-      return result[0];
-    }
+    const result = await sql`
+      SELECT lot_entry_id, portfolio_id, symbol, acquired_date, quantity, cost_per_share, verified
+      FROM user_stock_lots
+      WHERE user_id = ${userId}
+        AND (${symbol ?? null}::text IS NULL OR symbol = ${symbol ?? null})
+        AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+      ORDER BY symbol, acquired_date, lot_entry_id
+    `;
+    return result.map(row => ({
+      lotId: row.lot_entry_id,
+      portfolioId: row.portfolio_id,
+      symbol: row.symbol,
+      acquiredDate: toDateString(row.acquired_date),
+      quantity: Number(row.quantity),
+      costPerShare: Number(row.cost_per_share),
+      verified: row.verified === true,
+    }));
+  } catch (error) {
+    console.error('Failed to get user lots:', error);
+    throw error;
+  }
+}
+
+// Get the id of the user who owns a user_stocks row, or null if it doesn't exist
+export async function getStockOwnerId(stockId: number): Promise<number | null> {
+  try {
+    if (!Number.isInteger(stockId)) return null;
+    
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT user_id FROM user_stocks WHERE id = ${stockId}
+    `;
+    return result.length > 0 ? Number(result[0].user_id) : null;
   } catch (error) {
-    console.error('Failed to update stock quantity:', error);
+    console.error('Failed to get stock owner:', error);
     throw error;
   }
 }
 
-// Add this function after the updateStockQuantity function
+// Get the symbol and portfolio of one of the user's holdings
+export async function getHolding(stockId: number, userId: number): Promise<{ symbol: string; portfolioId: number } | null> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT symbol, portfolio_id FROM user_stocks 
+    WHERE id = ${stockId} AND user_id = ${userId}
+  `;
+  return result.length > 0 ? { symbol: result[0].symbol, portfolioId: result[0].portfolio_id } : null;
+}
+
+// Edit a holding. Holdings built from a single trade have that trade amended;
+// holdings with several trades must be corrected trade by trade.
 export async function updateStock(
   stockId: number,
   userId: number,
@@ -252,136 +862,153 @@ export async function updateStock(
   purchaseDate: string
 ) {
   try {
-    const sql = createSqlClient();
+    await ensureLedgerSeeded(userId);
     
     // First, check if the stock belongs to the specified user
-    const stockCheck = await sql`
-      SELECT id FROM user_stocks 
-      WHERE id = ${stockId} AND user_id = ${userId}
-    `;
-    
-    if (stockCheck.length === 0) {
+    const holding = await getHolding(stockId, userId);
+    if (!holding) {
       // Stock not found or doesn't belong to user
       return null;
     }
+    const { symbol, portfolioId } = holding;
+    
+    const entries = await getLedgerEntries(userId, symbol, portfolioId);
     
     if (quantity <= 0) {
-      // Delete the stock if quantity is 0 or negative
-      await sql`DELETE FROM user_stocks WHERE id = ${stockId}`;
+      // Remove the whole position if quantity is 0 or negative
+      await voidLedgerEntries(userId, entries.map(entry => entry.id));
       return null;
-    } else {
-      const result = await sql`
-        UPDATE user_stocks
-        SET 
-          quantity = ${quantity}, 
-          purchase_price = ${purchasePrice}, 
-          purchase_date = ${purchaseDate}
-        WHERE id = ${stockId}
-        RETURNING id, symbol, company_name, quantity, purchase_price, purchase_date
-      `;
-      return result[0];
     }
+    
+    if (entries.length !== 1 || entries[0].entryType === 'sell' || entries[0].entryType === 'split') {
+      throw new LedgerError(
+        `${symbol} has ${entries.length} trades; edit the individual trades instead`
+      );
+    }
+    
+    await amendLedgerEntry(userId, entries[0].id, {
+      quantity,
+      price: purchasePrice,
+      tradeDate: purchaseDate,
+    });
+    
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT id, portfolio_id, symbol, company_name, quantity, purchase_price, purchase_date
+      FROM user_stocks
+      WHERE portfolio_id = ${portfolioId} AND symbol = ${symbol}
+    `;
+    return result[0];
   } catch (error) {
     console.error('Failed to update stock:', error);
     throw error;
   }
 }
 
-// Function to get all users with their stocks for the leaderboard
-export async function getLeaderboardData() {
+// Remove a holding by voiding all of its ledger entries (the history is kept)
+export async function removeHolding(stockId: number, userId: number) {
   try {
-    const sql = createSqlClient();
+    await ensureLedgerSeeded(userId);
     
-    // Get all users who have at least one stock
-    const usersWithStocks = await sql`
-      SELECT DISTINCT u.id, u.username 
-      FROM users u
-      JOIN user_stocks s ON u.id = s.user_id
-    `;
+    const holding = await getHolding(stockId, userId);
+    if (!holding) return false;
     
-    if (usersWithStocks.length === 0) {
-      return [];
-    }
-    
-    // For each user, get their stocks and calculate totals
-    const leaderboardData = await Promise.all(
-      usersWithStocks.map(async (user) => {
-        const stocks = await sql`
-          SELECT symbol, company_name, quantity, purchase_price, purchase_date
-          FROM user_stocks
-          WHERE user_id = ${user.id}
-        `;
-        
-        // Calculate user's portfolio metrics
-        let totalInvestment = 0;
-        let topGainer = { symbol: '', gainPercentage: -Infinity };
-        
-        // Process each stock
-        const stocksWithCurrentPrice = await Promise.all(
-          stocks.map(async (stock) => {
-            // In a real app, we would fetch current prices from an API
-            // For this demo, we'll use our local price API
-            const response = await fetch(
-              `${process.env.NEXT_PUBLIC_APP_URL || ''}/api/stocks/price?symbol=${stock.symbol}`,
-              { cache: 'no-store' }
-            );
-            
-            const priceData = await response.json();
-            const currentPrice = priceData.price;
-            
-            // Calculate values
-            const totalValue = currentPrice * stock.quantity;
-            const invested = stock.purchase_price * stock.quantity;
-            const gainLoss = totalValue - invested;
-            const gainPercentage = ((currentPrice - stock.purchase_price) / stock.purchase_price) * 100;
-            
-            totalInvestment += invested;
-            
-            // Check if this is the top gainer
-            if (gainPercentage > topGainer.gainPercentage) {
-              topGainer = { 
-                symbol: stock.symbol, 
-                gainPercentage 
-              };
-            }
-            
-            return {
-              ...stock,
-              currentPrice,
-              totalValue,
-              gainLoss,
-              gainPercentage
-            };
-          })
-        );
-        
-        // Calculate totals
-        const currentWorth = stocksWithCurrentPrice.reduce(
-          (sum, stock) => sum + stock.totalValue, 0
-        );
-        
-        const totalGain = currentWorth - totalInvestment;
-        const totalGainPercentage = totalInvestment > 0 
-          ? (totalGain / totalInvestment) * 100 
-          : 0;
-        
-        return {
-          id: user.id,
-          name: user.username,
-          totalGain,
-          totalGainPercentage,
-          topGainer: topGainer.symbol,
-          topGainerPercentage: topGainer.gainPercentage,
-          currentWorth,
-          stocks: stocksWithCurrentPrice
-        };
-      })
-    );
+    const entries = await getLedgerEntries(userId, holding.symbol, holding.portfolioId);
+    return voidLedgerEntries(userId, entries.map(entry => entry.id));
+  } catch (error) {
+    console.error('Failed to remove holding:', error);
+    throw error;
+  }
+}
+
+export type SellInput = {
+  portfolioId: number;
+  symbol: string;
+  quantity: number;
+  price: number;
+  tradeDate: string;
+  lotMethod?: LotMethod;
+  lotSelections?: LotSelection[] | null;
+  note?: string | null;
+  // Market orders only (lib/paper-trading.ts)
+  executedAt?: string | null;
+};
+
+// Sell some or all of a holding. Returns the sell entry and the gains it realized.
+export async function sellStock(userId: number, sale: SellInput) {
+  try {
+    const entry = await recordLedgerEntry(userId, {
+      portfolioId: sale.portfolioId,
+      symbol: sale.symbol,
+      entryType: 'sell',
+      quantity: sale.quantity,
+      price: sale.price,
+      tradeDate: sale.tradeDate,
+      assetType: sale.symbol.startsWith('@') ? 'crypto' : 'stock',
+      note: sale.note,
+      lotMethod: sale.lotMethod || 'fifo',
+      lotSelections: sale.lotMethod === 'specific' ? sale.lotSelections : null,
+      executedAt: sale.executedAt ?? null,
+    });
     
-    // Sort by total gain in descending order
-    return leaderboardData.sort((a, b) => b.totalGain - a.totalGain);
+    const realizedGains = (await getRealizedGains(userId, sale.symbol))
+      .filter(gain => gain.sellEntryId === entry.id);
+    return { entry, realizedGains };
+  } catch (error) {
+    console.error('Failed to sell stock:', error);
+    throw error;
+  }
+}
+
+// Get the realized gains for a user, most recent sale first
+export async function getRealizedGains(userId: number, symbol?: string): Promise<RealizedGain[]> {
+  try {
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT *
+      FROM realized_gains
+      WHERE user_id = ${userId}
+        AND (${symbol ?? null}::text IS NULL OR symbol = ${symbol ?? null})
+      ORDER BY sold_date DESC, sell_entry_id DESC, id
+    `;
+    return result.map(row => ({
+      sellEntryId: row.sell_entry_id,
+      symbol: row.symbol,
+      lotId: row.lot_entry_id,
+      quantity: Number(row.quantity),
+      acquiredDate: toDateString(row.acquired_date),
+      soldDate: toDateString(row.sold_date),
+      costBasis: Number(row.cost_basis),
+      proceeds: Number(row.proceeds),
+      gain: Number(row.realized_gain),
+    }));
+  } catch (error) {
+    console.error('Failed to get realized gains:', error);
+    throw error;
+  }
+}
+
+// Sum a user's realized gains, optionally only sales up to a date or in one portfolio
+export async function getRealizedGainTotals(userId: number, asOf?: string, portfolioId?: number) {
+  try {
+    const sql = createSqlClient();
+    const result = await sql`
+      SELECT 
+        COALESCE(SUM(realized_gain), 0) as realized_gain,
+        COALESCE(SUM(cost_basis), 0) as cost_basis,
+        COALESCE(SUM(proceeds), 0) as proceeds
+      FROM realized_gains
+      WHERE user_id = ${userId}
+        AND (${asOf ?? null}::date IS NULL OR sold_date <= ${asOf ?? null}::date)
+        AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+    `;
+    return {
+      realizedGain: Number(result[0].realized_gain),
+      costBasis: Number(result[0].cost_basis),
+      proceeds: Number(result[0].proceeds),
+    };
   } catch (error) {
-    console.error('Failed to get leaderboard data:', error);
+    console.error('Failed to get realized gain totals:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,57 @@
+/**
+ * Decimal-safe arithmetic for quantities and money.
+ *
+ * Quantities can be fractional (0.05 BTC, 0.3 shares from a broker), and
+ * adding them up as floats drifts (0.1 + 0.2 !== 0.3). Values are kept as plain
+ * numbers at the edges (JSON, props) and every calculation goes through
+ * Decimal, which works from each number's shortest decimal representation.
+ */
+
+import Decimal from 'decimal.js';
+
+export type Numeric = Decimal.Value;
+
+// Quantities are stored as NUMERIC(28, 10)
+export const QUANTITY_DECIMALS = 10;
+
+export const toDecimal = (value: Numeric | null | undefined) => new Decimal(value ?? 0);
+
+export const add = (a: Numeric, b: Numeric) => toDecimal(a).plus(b).toNumber();
+
+export const subtract = (a: Numeric, b: Numeric) => toDecimal(a).minus(b).toNumber();
+
+export const multiply = (a: Numeric, b: Numeric) => toDecimal(a).times(b).toNumber();
+
+// Division by zero gives 0 rather than Infinity, which is what every caller wants
+export const divide = (a: Numeric, b: Numeric) => {
+  const divisor = toDecimal(b);
+  return divisor.isZero() ? 0 : toDecimal(a).dividedBy(divisor).toNumber();
+};
+
+export const sum = (values: Numeric[]) =>
+  values.reduce<Decimal>((total, value) => total.plus(value), new Decimal(0)).toNumber();
+
+// Sum of quantity * price over a list of items
+export const sumProducts = <T>(items: T[], quantity: (item: T) => Numeric, price: (item: T) => Numeric) =>
+  items.reduce<Decimal>((total, item) => total.plus(toDecimal(quantity(item)).times(price(item))), new Decimal(0)).toNumber();
+
+// Percentage change of gain over basis, 0 when there is no basis
+export const percentage = (gain: Numeric, basis: Numeric) => {
+  const base = toDecimal(basis);
+  return base.isZero() ? 0 : toDecimal(gain).dividedBy(base).times(100).toNumber();
+};
+
+// Parse a user-supplied quantity, returning null unless it is a positive decimal
+// with at most QUANTITY_DECIMALS places
+export function parseQuantity(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  try {
+    const quantity = new Decimal(String(value).trim());
+    if (!quantity.isFinite() || quantity.lte(0) || quantity.decimalPlaces() > QUANTITY_DECIMALS) {
+      return null;
+    }
+    return quantity.toNumber();
+  } catch {
+    return null;
+  }
+}
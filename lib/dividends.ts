@@ -0,0 +1,401 @@
+import {
+  applyDividendCredits,
+  createSqlClient,
+  DividendCreditChange,
+  ensureLedgerSeeded,
+  getLedgerEntries,
+} from './db';
+import { getSplitAdjustments, SplitAdjustment, splitFactor } from './corporate-actions';
+import { isCryptoCurrency } from './crypto-api';
+import { multiply } from './decimal';
+import {
+  addDays,
+  dividendAmount,
+  groupByPortfolio,
+  isCashEntry,
+  LedgerEntry,
+  reinvestedShares,
+  replayLedger,
+  sortLedgerEntries,
+  toDateString,
+} from './ledger';
+import { DividendEvent, getProviderForSymbol } from './market-data';
+import { Coverage, getClosingPrice, missingRanges } from './price-history';
+
+/**
+ * Dividends.
+ *
+ * Dividend events are fetched per symbol from the market data provider into
+ * dividend_events; dividend_event_coverage records the ranges already fetched,
+ * as for price history. Once a dividend is paid, every holder is credited with
+ * a 'dividend' ledger entry for the shares they held at the end of the day
+ * before the ex-date.
+ *
+ * Each user takes dividends as cash or reinvests them (DRIP) at the pay date's
+ * close. The choice applies to dividends credited after it is made. Credits are
+ * reconciled with the ledger each time they are checked, so a corrected trade
+ * also corrects the dividends it was owed. Provider dividends and closes are
+ * adjusted for later splits; credits use the amounts and prices of the day.
+ */
+
+type Sql = ReturnType<typeof createSqlClient>;
+
+export type DividendTotals = {
+  // Paid out, and used to buy more shares
+  cash: number;
+  reinvested: number;
+  total: number;
+};
+
+// A dividend credited to the user
+export type DividendPayment = {
+  entryId: number;
+  symbol: string;
+  companyName: string | null;
+  exDate: string;
+  payDate: string;
+  shares: number;
+  amountPerShare: number;
+  amount: number;
+  // Shares bought with the dividend, and their price, when it was reinvested
+  reinvestedShares: number;
+  reinvestPrice: number | null;
+};
+
+// A dividend still to be paid on current holdings. Announced dividends past
+// their ex-date are owed on the shares held then; later ones are estimated from
+// the symbol's last dividend and how often it pays.
+export type UpcomingDividend = {
+  symbol: string;
+  companyName: string | null;
+  exDate: string;
+  payDate: string;
+  shares: number;
+  amountPerShare: number;
+  amount: number;
+  estimated: boolean;
+};
+
+// Days between dividends when a symbol has only paid one so far
+const DEFAULT_INTERVAL_DAYS = 91;
+
+const today = () => toDateString(new Date());
+
+// The day a dividend is paid; the ex-date when the provider gives no pay date
+const paidOn = (event: DividendEvent) => event.payDate ?? event.exDate;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / (24 * 60 * 60 * 1000));
+
+async function getCoverage(sql: Sql, symbol: string): Promise<Coverage | null> {
+  const result = await sql`
+    SELECT first_date, last_date FROM dividend_event_coverage WHERE symbol = ${symbol}
+  `;
+  return result.length > 0
+    ? { firstDate: toDateString(result[0].first_date), lastDate: toDateString(result[0].last_date) }
+    : null;
+}
+
+async function readDividendEvents(sql: Sql, symbols: string[], from: string, to: string): Promise<DividendEvent[]> {
+  const result = await sql`
+    SELECT symbol, ex_date, amount, pay_date
+    FROM dividend_events
+    WHERE symbol = ANY(${symbols}::text[]) AND ex_date BETWEEN ${from} AND ${to}
+    ORDER BY ex_date, symbol
+  `;
+  return result.map(row => ({
+    symbol: row.symbol,
+    exDate: toDateString(row.ex_date),
+    amount: Number(row.amount),
+    payDate: row.pay_date ? toDateString(row.pay_date) : null,
+  }));
+}
+
+// Fetch and store the dividends of a stock symbol with ex-dates in the finished
+// days between from and to that have not been fetched yet. Returns the number stored.
+export async function fillDividendEvents(symbol: string, from: string, to: string): Promise<number> {
+  const key = symbol.toUpperCase();
+  if (isCryptoCurrency(symbol)) return 0;
+
+  const sql = createSqlClient();
+  const provider = getProviderForSymbol(key);
+  const lastFinishedDay = addDays(today(), -1);
+
+  let stored = 0;
+  const ranges = missingRanges(await getCoverage(sql, key), from, to < lastFinishedDay ? to : lastFinishedDay);
+  for (const range of ranges) {
+    console.log(`Fetching ${key} dividends from ${range.from} to ${range.to} (${provider.name})`);
+    const events = (await provider.getDividends(key, { ...range, interval: '1d' }))
+      .filter(event => event.exDate >= range.from && event.exDate <= range.to);
+
+    if (events.length > 0) {
+      await sql`
+        INSERT INTO dividend_events (symbol, ex_date, amount, pay_date, source)
+        SELECT ${key}, event.*, ${provider.name}
+        FROM unnest(
+          ${events.map(event => event.exDate)}::date[],
+          ${events.map(event => event.amount)}::numeric[],
+          ${events.map(event => event.payDate)}::date[]
+        ) AS event
+        ON CONFLICT (symbol, ex_date) DO UPDATE SET
+          amount = EXCLUDED.amount,
+          pay_date = EXCLUDED.pay_date,
+          source = EXCLUDED.source,
+          fetched_at = NOW()
+      `;
+    }
+
+    await sql`
+      INSERT INTO dividend_event_coverage (symbol, first_date, last_date)
+      VALUES (${key}, ${range.from}, ${range.to})
+      ON CONFLICT (symbol) DO UPDATE SET
+        first_date = LEAST(dividend_event_coverage.first_date, EXCLUDED.first_date),
+        last_date = GREATEST(dividend_event_coverage.last_date, EXCLUDED.last_date),
+        updated_at = NOW()
+    `;
+    stored += events.length;
+  }
+  return stored;
+}
+
+// Dividends of the given symbols with an ex-date between from and to, by ex-date.
+// Missing ranges are fetched first; a symbol whose fetch fails serves what is stored.
+export async function getDividendEvents(symbols: string[], from: string, to: string): Promise<DividendEvent[]> {
+  const keys = Array.from(new Set(symbols.filter(symbol => !isCryptoCurrency(symbol)).map(symbol => symbol.toUpperCase())));
+  if (keys.length === 0) return [];
+
+  for (const key of keys) {
+    try {
+      await fillDividendEvents(key, from, to);
+    } catch (error) {
+      console.error(`Error filling dividends for ${key}:`, error);
+    }
+  }
+  return readDividendEvents(createSqlClient(), keys, from, to);
+}
+
+export async function getDividendReinvestment(userId: number): Promise<boolean> {
+  const sql = createSqlClient();
+  const result = await sql`SELECT reinvest_dividends FROM users WHERE id = ${userId}`;
+  return result.length > 0 && result[0].reinvest_dividends === true;
+}
+
+// Only dividends credited from now on follow the new choice
+export async function setDividendReinvestment(userId: number, reinvest: boolean) {
+  const sql = createSqlClient();
+  await sql`UPDATE users SET reinvest_dividends = ${reinvest} WHERE id = ${userId}`;
+}
+
+// Close on the pay date to reinvest at, or null (paid out instead) when there is none
+async function reinvestPriceFor(event: DividendEvent, splits: SplitAdjustment[] | undefined): Promise<number | null> {
+  try {
+    const close = await getClosingPrice(event.symbol, paidOn(event));
+    return close === null ? null : multiply(close, splitFactor(splits, paidOn(event)));
+  } catch (error) {
+    console.error(`Error fetching the ${event.symbol} close to reinvest at on ${paidOn(event)}:`, error);
+    return null;
+  }
+}
+
+// In-memory copy of a credit, so later dividends see the shares it bought
+const draftCredit = (userId: number, input: DividendCreditChange['input'], id: number): LedgerEntry => ({
+  id,
+  userId,
+  portfolioId: input.portfolioId,
+  symbol: input.symbol,
+  entryType: 'dividend',
+  quantity: input.quantity,
+  price: input.price,
+  splitRatio: null,
+  exDate: input.exDate ?? null,
+  reinvestPrice: input.reinvestPrice ?? null,
+  targetSymbol: null,
+  corporateActionId: null,
+  tradeDate: input.tradeDate,
+  companyName: input.companyName ?? null,
+  assetType: input.assetType || 'stock',
+  note: null,
+  lotMethod: null,
+  lotSelections: null,
+  executedAt: null,
+  supersedesId: null,
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Bring a user's dividend credits in line with their ledger: credit paid
+ * dividends they were owed, correct credits whose share count changed, and void
+ * credits for positions they no longer held on the ex-date. Each portfolio is
+ * credited for the shares it held.
+ */
+export async function creditDividends(userId: number) {
+  await ensureLedgerSeeded(userId);
+  const allEntries = sortLedgerEntries(await getLedgerEntries(userId));
+  const counts = { credited: 0, corrected: 0, voided: 0 };
+  if (allEntries.length === 0) return counts;
+
+  const currentDay = today();
+  const symbols = Array.from(new Set(allEntries.filter(entry => !isCashEntry(entry)).map(entry => entry.symbol)));
+  const events = (await getDividendEvents(symbols, toDateString(allEntries[0].tradeDate), currentDay))
+    .filter(event => paidOn(event) <= currentDay);
+  if (events.length === 0) return counts;
+
+  const reinvest = await getDividendReinvestment(userId);
+  const splits = await getSplitAdjustments(symbols);
+  const changes: DividendCreditChange[] = [];
+  const voidIds: number[] = [];
+
+  for (const [portfolioId, portfolioEntries] of Array.from(groupByPortfolio(allEntries).entries())) {
+    let entries = portfolioEntries;
+    const credited = new Map(entries
+      .filter(entry => entry.entryType === 'dividend')
+      .map(entry => [`${entry.symbol}:${entry.exDate}`, entry]));
+
+    // In ex-date order, so each dividend is paid on the shares earlier reinvested dividends bought
+    for (const event of events) {
+      const credit = credited.get(`${event.symbol}:${event.exDate}`);
+      const position = replayLedger(entries, addDays(event.exDate, -1)).find(held => held.symbol === event.symbol);
+      const shares = position?.quantity ?? 0;
+
+      if (shares === 0) {
+        if (credit) {
+          voidIds.push(credit.id);
+          entries = entries.filter(entry => entry !== credit);
+          counts.voided++;
+        }
+        continue;
+      }
+
+      const amount = multiply(event.amount, splitFactor(splits.get(event.symbol), event.exDate));
+      const unchanged = credit
+        && Math.abs(credit.quantity - shares) < 1e-9
+        && credit.price === amount
+        && credit.tradeDate === paidOn(event);
+      if (unchanged) {
+        continue;
+      }
+
+      // A correction keeps how the dividend was taken; a new credit follows the current choice
+      const input: DividendCreditChange['input'] = {
+        portfolioId,
+        symbol: event.symbol,
+        entryType: 'dividend',
+        quantity: shares,
+        price: amount,
+        tradeDate: paidOn(event),
+        companyName: position?.companyName || null,
+        assetType: 'stock',
+        exDate: event.exDate,
+        reinvestPrice: credit ? credit.reinvestPrice : reinvest ? await reinvestPriceFor(event, splits.get(event.symbol)) : null,
+      };
+      changes.push({ input, supersedesId: credit?.id ?? null });
+      counts[credit ? 'corrected' : 'credited']++;
+
+      entries = sortLedgerEntries([
+        ...entries.filter(entry => entry !== credit),
+        draftCredit(userId, input, -changes.length),
+      ]);
+    }
+  }
+
+  await applyDividendCredits(userId, changes, voidIds);
+  return counts;
+}
+
+// Dividends credited to a user, optionally only those paid up to a date or in one portfolio
+export async function getDividendTotals(userId: number, asOf?: string, portfolioId?: number): Promise<DividendTotals> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT
+      COALESCE(SUM(e.quantity * e.price) FILTER (WHERE e.reinvest_price IS NULL), 0) AS cash,
+      COALESCE(SUM(e.quantity * e.price) FILTER (WHERE e.reinvest_price IS NOT NULL), 0) AS reinvested
+    FROM ledger_entries e
+    WHERE e.user_id = ${userId}
+      AND e.entry_type = 'dividend'
+      AND (${asOf ?? null}::date IS NULL OR e.trade_date <= ${asOf ?? null}::date)
+      AND (${portfolioId ?? null}::int IS NULL OR e.portfolio_id = ${portfolioId ?? null})
+      AND NOT EXISTS (SELECT 1 FROM ledger_entries s WHERE s.supersedes_id = e.id)
+  `;
+  const cash = Number(result[0].cash);
+  const reinvested = Number(result[0].reinvested);
+  return { cash, reinvested, total: cash + reinvested };
+}
+
+// Dividends credited to a user, most recently paid first
+export async function getDividendPayments(userId: number, portfolioId?: number): Promise<DividendPayment[]> {
+  const entries = await getLedgerEntries(userId, undefined, portfolioId);
+  return entries
+    .filter(entry => entry.entryType === 'dividend')
+    .map(entry => ({
+      entryId: entry.id,
+      symbol: entry.symbol,
+      companyName: entry.companyName,
+      exDate: entry.exDate ?? entry.tradeDate,
+      payDate: entry.tradeDate,
+      shares: entry.quantity,
+      amountPerShare: entry.price,
+      amount: dividendAmount(entry),
+      reinvestedShares: reinvestedShares(entry),
+      reinvestPrice: entry.reinvestPrice,
+    }))
+    .sort((a, b) => b.payDate.localeCompare(a.payDate) || b.entryId - a.entryId);
+}
+
+// Dividends expected on the user's holdings (in one portfolio, or all of them) over the next `days` days, by pay date
+export async function getUpcomingDividends(userId: number, days = 90, portfolioId?: number): Promise<UpcomingDividend[]> {
+  const currentDay = today();
+  const until = addDays(currentDay, days);
+  const portfolios = Array.from(groupByPortfolio(sortLedgerEntries(await getLedgerEntries(userId, undefined, portfolioId))).values())
+    .map(entries => ({ entries, positions: replayLedger(entries).filter(position => !isCryptoCurrency(position.symbol)) }));
+  const symbols = Array.from(new Set(portfolios.flatMap(({ positions }) => positions.map(position => position.symbol))));
+  if (symbols.length === 0) return [];
+
+  // Two years is enough to see how often each symbol pays
+  const events = await readDividendEvents(createSqlClient(), symbols, addDays(currentDay, -730), currentDay);
+  const upcoming: UpcomingDividend[] = [];
+
+  for (const { entries, positions } of portfolios) {
+    for (const position of positions) {
+      const history = events.filter(event => event.symbol === position.symbol);
+      if (history.length === 0) continue;
+
+      // Past their ex-date but not paid yet: owed on the shares held the day before
+      for (const event of history.filter(event => paidOn(event) > currentDay)) {
+        const shares = replayLedger(entries, addDays(event.exDate, -1)).find(held => held.symbol === event.symbol)?.quantity ?? 0;
+        if (shares === 0) continue;
+        upcoming.push({
+          symbol: event.symbol,
+          companyName: position.companyName || null,
+          exDate: event.exDate,
+          payDate: paidOn(event),
+          shares,
+          amountPerShare: event.amount,
+          amount: multiply(shares, event.amount),
+          estimated: false,
+        });
+      }
+
+      // Later ones at the last dividend's amount and interval, on the shares held now
+      const last = history[history.length - 1];
+      const interval = history.length > 1 ? daysBetween(history[history.length - 2].exDate, last.exDate) : DEFAULT_INTERVAL_DAYS;
+      const payDelay = daysBetween(last.exDate, paidOn(last));
+      if (interval <= 0) continue;
+
+      for (let exDate = addDays(last.exDate, interval); addDays(exDate, payDelay) <= until; exDate = addDays(exDate, interval)) {
+        if (exDate <= currentDay) continue;
+        upcoming.push({
+          symbol: position.symbol,
+          companyName: position.companyName || null,
+          exDate,
+          payDate: addDays(exDate, payDelay),
+          shares: position.quantity,
+          amountPerShare: last.amount,
+          amount: multiply(position.quantity, last.amount),
+          estimated: true,
+        });
+      }
+    }
+  }
+
+  return upcoming.sort((a, b) => a.payDate.localeCompare(b.payDate) || a.symbol.localeCompare(b.symbol));
+}
@@ -0,0 +1,180 @@
+import { FundHoldings } from './fund-holdings';
+
+/**
+ * Look-through exposure of a portfolio.
+ *
+ * Positions in funds with imported holdings (lib/fund-holdings.ts) are split
+ * into their constituents by weight, so a portfolio holding SPY and AAPL shows
+ * its whole Apple exposure rather than two unrelated lines. Positions without
+ * holdings data (stocks, crypto, funds never imported) count as themselves.
+ * The part of a fund its holdings file does not list (cash, futures, rounding)
+ * stays with the fund under its own sector.
+ *
+ * Values are in dollars; percentages are of the portfolio's total value.
+ */
+
+export type ExposurePosition = {
+  symbol: string;
+  name: string | null;
+  value: number;
+  sector: string | null;
+};
+
+export type StockExposure = {
+  symbol: string;
+  name: string | null;
+  sector: string;
+  // Held directly, and through each fund
+  direct: number;
+  viaFunds: { fund: string; value: number }[];
+  total: number;
+  percentage: number;
+};
+
+export type SectorExposure = {
+  sector: string;
+  value: number;
+  percentage: number;
+};
+
+export type FundExposure = {
+  symbol: string;
+  value: number;
+  asOf: string;
+  holdings: number;
+  // Share of the fund its holdings file lists (percentage)
+  coverage: number;
+};
+
+export type FundOverlap = {
+  funds: [string, string];
+  // Percentage of each fund in holdings the other also has: the sum of the smaller weight of each shared holding
+  overlap: number;
+  sharedHoldings: number;
+};
+
+export type Exposure = {
+  totalValue: number;
+  // Value of the positions that were split into their constituents
+  lookThroughValue: number;
+  funds: FundExposure[];
+  stocks: StockExposure[];
+  sectors: SectorExposure[];
+  // Stocks held in more than one place: directly and through a fund, or through several funds
+  overlap: StockExposure[];
+  fundOverlap: FundOverlap[];
+};
+
+const UNCLASSIFIED = 'Other';
+
+const percentOf = (value: number, total: number) => (total > 0 ? (value / total) * 100 : 0);
+
+// Pairs of funds and how much of them is the same holdings
+function overlapBetween(funds: FundHoldings[]): FundOverlap[] {
+  const pairs: FundOverlap[] = [];
+  for (let i = 0; i < funds.length; i++) {
+    const weights = new Map(funds[i].holdings.map(holding => [holding.symbol, holding.weight]));
+    for (let j = i + 1; j < funds.length; j++) {
+      let overlap = 0;
+      let sharedHoldings = 0;
+      for (const holding of funds[j].holdings) {
+        const weight = weights.get(holding.symbol);
+        if (weight !== undefined) {
+          overlap += Math.min(weight, holding.weight);
+          sharedHoldings++;
+        }
+      }
+      if (sharedHoldings > 0) {
+        pairs.push({ funds: [funds[i].fund, funds[j].fund], overlap: overlap * 100, sharedHoldings });
+      }
+    }
+  }
+  return pairs.sort((a, b) => b.overlap - a.overlap);
+}
+
+// `funds` holds the imported holdings of any fund in the positions; `sectors`
+// classifies constituents whose holdings file gives no sector
+export function computeExposure(
+  positions: ExposurePosition[],
+  funds: Map<string, FundHoldings>,
+  sectors: Map<string, string | null> = new Map()
+): Exposure {
+  const totalValue = positions.reduce((total, position) => total + position.value, 0);
+  const stocks = new Map<string, StockExposure>();
+  const sectorValues = new Map<string, number>();
+
+  const addSector = (sector: string, value: number) =>
+    sectorValues.set(sector, (sectorValues.get(sector) ?? 0) + value);
+
+  const stockFor = (symbol: string, name: string | null, sector: string) => {
+    let stock = stocks.get(symbol);
+    if (!stock) {
+      stock = { symbol, name, sector, direct: 0, viaFunds: [], total: 0, percentage: 0 };
+      stocks.set(symbol, stock);
+    }
+    // Prefer a real name and sector over a blank one from another source
+    if (!stock.name && name) stock.name = name;
+    if (stock.sector === UNCLASSIFIED && sector !== UNCLASSIFIED) stock.sector = sector;
+    return stock;
+  };
+
+  let lookThroughValue = 0;
+  const fundExposures: FundExposure[] = [];
+  for (const position of positions) {
+    const fund = funds.get(position.symbol);
+    if (!fund) {
+      const stock = stockFor(position.symbol, position.name, position.sector || UNCLASSIFIED);
+      stock.direct += position.value;
+      continue;
+    }
+
+    lookThroughValue += position.value;
+    let listed = 0;
+    for (const holding of fund.holdings) {
+      const value = position.value * holding.weight;
+      const stock = stockFor(holding.symbol, holding.name, holding.sector || sectors.get(holding.symbol) || UNCLASSIFIED);
+      stock.viaFunds.push({ fund: fund.fund, value });
+      listed += holding.weight;
+    }
+
+    // What the file does not list stays with the fund itself
+    const unlisted = Math.max(0, 1 - listed);
+    if (unlisted > 0.0001) {
+      const stock = stockFor(position.symbol, position.name, position.sector || UNCLASSIFIED);
+      stock.direct += position.value * unlisted;
+    }
+
+    fundExposures.push({
+      symbol: fund.fund,
+      value: position.value,
+      asOf: fund.asOf,
+      holdings: fund.holdings.length,
+      coverage: Math.min(listed, 1) * 100,
+    });
+  }
+
+  const stockExposures = Array.from(stocks.values())
+    .map(stock => {
+      const total = stock.direct + stock.viaFunds.reduce((sum, via) => sum + via.value, 0);
+      addSector(stock.sector, total);
+      return { ...stock, total, percentage: percentOf(total, totalValue) };
+    })
+    .filter(stock => stock.total > 0)
+    .sort((a, b) => b.total - a.total);
+
+  const sectorExposures = Array.from(sectorValues.entries())
+    .map(([sector, value]) => ({ sector, value, percentage: percentOf(value, totalValue) }))
+    .sort((a, b) => b.value - a.value);
+
+  const heldFunds = Array.from(funds.values()).filter(fund => positions.some(position => position.symbol === fund.fund));
+
+  return {
+    totalValue,
+    lookThroughValue,
+    funds: fundExposures,
+    stocks: stockExposures,
+    sectors: sectorExposures,
+    overlap: stockExposures.filter(stock => stock.viaFunds.length + (stock.direct > 0 && !funds.has(stock.symbol) ? 1 : 0) > 1),
+    fundOverlap: overlapBetween(heldFunds),
+  };
+}
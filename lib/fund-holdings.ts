@@ -0,0 +1,274 @@
+import { createSqlClient } from './db';
+import { toDateString } from './ledger';
+
+/**
+ * ETF and fund constituents.
+ *
+ * Funds publish their holdings as CSV or JSON files; `parseFundHoldings` reads
+ * either into weights (fractions of the fund) and `saveFundHoldings` replaces
+ * the fund's rows in fund_holdings. Nothing here talks to the market data
+ * providers, none of which offer full constituent lists.
+ */
+
+export type FundHolding = {
+  symbol: string;
+  name: string | null;
+  // Fraction of the fund (0.0712 for 7.12%)
+  weight: number;
+  sector: string | null;
+};
+
+export type FundHoldings = {
+  fund: string;
+  asOf: string;
+  source: string;
+  holdings: FundHolding[];
+};
+
+export class FundHoldingsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FundHoldingsError';
+    Object.setPrototypeOf(this, FundHoldingsError.prototype);
+  }
+}
+
+// Header names funds use for each column, lower case
+const COLUMN_NAMES = {
+  symbol: ['symbol', 'ticker', 'holding ticker', 'ticker symbol'],
+  name: ['name', 'holding', 'holding name', 'company', 'security name', 'description'],
+  weight: ['weight', 'weight (%)', 'weight %', '% weight', '% of fund', '% of net assets', 'percent', 'allocation'],
+  sector: ['sector', 'gics sector'],
+};
+
+// Fund files write share classes as BRK.B or BRK/B; the app uses BRK-B
+export const normaliseHoldingSymbol = (symbol: string) => symbol.trim().toUpperCase().replace(/[./ ]/g, '-');
+
+// Split CSV text into rows of fields, honouring quoted fields
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+type RawHolding = { symbol: unknown; name?: unknown; weight: unknown; sector?: unknown };
+
+function parseCsv(content: string): RawHolding[] {
+  const rows = parseCsvRows(content);
+  // Some files start with a few lines about the fund; the header is the first row naming a weight column
+  const headerIndex = rows.findIndex(fields =>
+    fields.some(value => COLUMN_NAMES.weight.includes(value.trim().toLowerCase())));
+  if (headerIndex === -1) {
+    throw new FundHoldingsError(`No weight column found (expected one of: ${COLUMN_NAMES.weight.join(', ')})`);
+  }
+
+  const header = rows[headerIndex].map(value => value.trim().toLowerCase());
+  const column = (names: string[]) => header.findIndex(value => names.includes(value));
+  const symbolColumn = column(COLUMN_NAMES.symbol);
+  if (symbolColumn === -1) {
+    throw new FundHoldingsError(`No symbol column found (expected one of: ${COLUMN_NAMES.symbol.join(', ')})`);
+  }
+  const nameColumn = column(COLUMN_NAMES.name);
+  const weightColumn = column(COLUMN_NAMES.weight);
+  const sectorColumn = column(COLUMN_NAMES.sector);
+
+  return rows.slice(headerIndex + 1).map(fields => ({
+    symbol: fields[symbolColumn],
+    name: nameColumn === -1 ? null : fields[nameColumn],
+    weight: fields[weightColumn],
+    sector: sectorColumn === -1 ? null : fields[sectorColumn],
+  }));
+}
+
+// A JSON file is an array of holdings, or { fund, asOf, holdings: [...] }
+function parseJson(content: string): { fund?: string; asOf?: string; holdings: RawHolding[] } {
+  let data: any;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new FundHoldingsError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const list = Array.isArray(data) ? data : data?.holdings;
+  if (!Array.isArray(list)) {
+    throw new FundHoldingsError('Expected an array of holdings or an object with a holdings array');
+  }
+  return {
+    fund: typeof data.fund === 'string' ? data.fund : undefined,
+    asOf: typeof data.asOf === 'string' ? data.asOf : undefined,
+    holdings: list.map((item: any) => ({
+      symbol: item?.symbol ?? item?.ticker,
+      name: item?.name ?? null,
+      weight: item?.weight,
+      sector: item?.sector ?? null,
+    })),
+  };
+}
+
+const text = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : null);
+
+// Weights as fractions of the fund. Files give either fractions or percentages:
+// a '%' sign, or weights adding up to well over 1, means percentages.
+function toHoldings(raw: RawHolding[]): FundHolding[] {
+  const parsed = raw
+    .map(item => {
+      const weightText = typeof item.weight === 'number' ? String(item.weight) : String(item.weight ?? '');
+      return {
+        symbol: text(item.symbol),
+        name: text(item.name),
+        weight: parseFloat(weightText.replace(/[%,\s]/g, '')),
+        percent: weightText.includes('%'),
+        sector: text(item.sector),
+      };
+    })
+    // Cash, futures and other lines without a ticker stay in the fund's unlisted remainder
+    .filter(item => item.symbol && item.symbol !== '-' && !isNaN(item.weight) && item.weight > 0);
+
+  if (parsed.length === 0) {
+    throw new FundHoldingsError('No holdings with a symbol and a positive weight');
+  }
+
+  const total = parsed.reduce((sum, item) => sum + item.weight, 0);
+  const scale = parsed.some(item => item.percent) || total > 1.5 ? 100 : 1;
+  if (total / scale > 1.05) {
+    throw new FundHoldingsError(`Weights add up to ${((total / scale) * 100).toFixed(1)}% of the fund`);
+  }
+
+  // The same company can appear twice (e.g. two share lines); merge them
+  const holdings = new Map<string, FundHolding>();
+  for (const item of parsed) {
+    const symbol = normaliseHoldingSymbol(item.symbol as string);
+    const existing = holdings.get(symbol);
+    holdings.set(symbol, {
+      symbol,
+      name: existing?.name ?? item.name,
+      weight: (existing?.weight ?? 0) + item.weight / scale,
+      sector: existing?.sector ?? item.sector,
+    });
+  }
+  return Array.from(holdings.values()).sort((a, b) => b.weight - a.weight);
+}
+
+// Parse a fund's holdings file. The fund and date can come from a JSON file itself;
+// otherwise they must be passed in (the import script takes the fund from the file name).
+export function parseFundHoldings(
+  content: string,
+  format: 'csv' | 'json',
+  options: { fund?: string; asOf?: string; source: string }
+): FundHoldings {
+  const json = format === 'json' ? parseJson(content) : null;
+  const fund = options.fund ?? json?.fund;
+  if (!fund) {
+    throw new FundHoldingsError('The fund symbol is required');
+  }
+
+  const asOf = options.asOf ?? json?.asOf ?? toDateString(new Date());
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(asOf)) {
+    throw new FundHoldingsError('asOf must be a date in YYYY-MM-DD format');
+  }
+
+  return {
+    fund: normaliseHoldingSymbol(fund),
+    asOf,
+    source: options.source,
+    holdings: toHoldings(json ? json.holdings : parseCsv(content)),
+  };
+}
+
+// Replace everything stored for the fund with these holdings
+export async function saveFundHoldings({ fund, asOf, source, holdings }: FundHoldings) {
+  const sql = createSqlClient();
+  await sql.transaction(txn => [
+    txn`DELETE FROM fund_holdings WHERE fund_symbol = ${fund}`,
+    txn`
+      INSERT INTO fund_holdings (fund_symbol, holding_symbol, name, weight, sector, as_of, source)
+      SELECT ${fund}, holding.*, ${asOf}::date, ${source}
+      FROM unnest(
+        ${holdings.map(holding => holding.symbol)}::text[],
+        ${holdings.map(holding => holding.name)}::text[],
+        ${holdings.map(holding => holding.weight)}::numeric[],
+        ${holdings.map(holding => holding.sector)}::text[]
+      ) AS holding
+    `,
+  ]);
+}
+
+// Stored holdings of each fund that has any, keyed by fund symbol; other symbols are left out
+export async function getFundHoldings(symbols: string[]): Promise<Map<string, FundHoldings>> {
+  const funds = new Map<string, FundHoldings>();
+  if (symbols.length === 0) return funds;
+
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT fund_symbol, holding_symbol, name, weight, sector, as_of, source
+    FROM fund_holdings
+    WHERE fund_symbol = ANY(${symbols}::text[])
+    ORDER BY fund_symbol, weight DESC
+  `;
+
+  for (const row of result) {
+    let fund = funds.get(row.fund_symbol);
+    if (!fund) {
+      fund = { fund: row.fund_symbol, asOf: toDateString(row.as_of), source: row.source, holdings: [] };
+      funds.set(row.fund_symbol, fund);
+    }
+    fund.holdings.push({
+      symbol: row.holding_symbol,
+      name: row.name,
+      weight: Number(row.weight),
+      sector: row.sector,
+    });
+  }
+  return funds;
+}
+
+// Every fund with stored holdings: how many, their total weight, and when they are from
+export async function listFunds() {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT fund_symbol, COUNT(*) AS holdings, SUM(weight) AS weight, MAX(as_of) AS as_of, MAX(source) AS source
+    FROM fund_holdings
+    GROUP BY fund_symbol
+    ORDER BY fund_symbol
+  `;
+  return result.map(row => ({
+    fund: row.fund_symbol as string,
+    holdings: Number(row.holdings),
+    weight: Number(row.weight),
+    asOf: toDateString(row.as_of),
+    source: row.source as string,
+  }));
+}
@@ -0,0 +1,108 @@
+/**
+ * Scheduled jobs.
+ *
+ * Jobs are registered by name in ./registry. runJob records every run in
+ * job_runs and holds a row in job_locks while the job works, so a run that
+ * starts while another run of the same job is still going is recorded as
+ * skipped instead of overlapping it.
+ *
+ * Runs are started by app/api/cron/route.ts as GET /api/cron?job=<name> (called
+ * on a schedule by the GitHub workflows), by /api/admin/jobs and by scripts/run-job.ts.
+ */
+
+import { createSqlClient } from '../db';
+import { getJob } from './registry';
+import { JobError, JobResult, JobRun, JobStatus, JobTrigger } from './types';
+
+export * from './types';
+export { JOBS, getJob } from './registry';
+
+const toJobRun = (row: any): JobRun => ({
+  id: row.id,
+  jobName: row.job_name,
+  trigger: row.trigger,
+  status: row.status,
+  startedAt: new Date(row.started_at).toISOString(),
+  finishedAt: row.finished_at ? new Date(row.finished_at).toISOString() : null,
+  result: row.result ?? null,
+  error: row.error ?? null,
+});
+
+async function finishRun(runId: number, status: JobStatus, result: JobResult | null, error: string | null) {
+  const sql = createSqlClient();
+  const rows = await sql`
+    UPDATE job_runs
+    SET status = ${status},
+        finished_at = NOW(),
+        result = ${result ? JSON.stringify(result) : null}::jsonb,
+        error = ${error}
+    WHERE id = ${runId}
+    RETURNING *
+  `;
+  return toJobRun(rows[0]);
+}
+
+// Run a job by name and return the finished run. Failures are recorded on the
+// run rather than thrown; only an unknown job name throws.
+export async function runJob(name: string, trigger: JobTrigger): Promise<JobRun> {
+  const job = getJob(name);
+  if (!job) {
+    throw new JobError(`Unknown job: ${name}`);
+  }
+
+  const sql = createSqlClient();
+  const [run] = await sql`
+    INSERT INTO job_runs (job_name, trigger)
+    VALUES (${name}, ${trigger})
+    RETURNING id
+  `;
+  const runId: number = run.id;
+
+  // Take the lock, unless a run that has not timed out holds it
+  const locked = await sql`
+    INSERT INTO job_locks (job_name, run_id, expires_at)
+    VALUES (${name}, ${runId}, NOW() + make_interval(secs => ${job.timeoutSeconds}))
+    ON CONFLICT (job_name) DO UPDATE SET
+      run_id = EXCLUDED.run_id,
+      locked_at = NOW(),
+      expires_at = EXCLUDED.expires_at
+    WHERE job_locks.expires_at < NOW()
+    RETURNING run_id
+  `;
+  if (locked.length === 0) {
+    console.log(`Skipping ${name}: another run is still in progress`);
+    return finishRun(runId, 'skipped', null, 'Another run of this job is still in progress');
+  }
+
+  // Any other run still marked as running lost its lock without finishing
+  await sql`
+    UPDATE job_runs
+    SET status = 'failed', finished_at = NOW(), error = 'Timed out before finishing'
+    WHERE job_name = ${name} AND status = 'running' AND id <> ${runId}
+  `;
+
+  console.log(`Running job ${name} (run ${runId}, ${trigger})`);
+  try {
+    const result = await job.run();
+    console.log(`Job ${name} succeeded:`, result);
+    return await finishRun(runId, 'succeeded', result, null);
+  } catch (error) {
+    console.error(`Job ${name} failed:`, error);
+    return await finishRun(runId, 'failed', null, error instanceof Error ? error.message : String(error));
+  } finally {
+    await sql`DELETE FROM job_locks WHERE job_name = ${name} AND run_id = ${runId}`;
+  }
+}
+
+// Most recent runs first, optionally for one job only
+export async function getJobRuns(jobName?: string, limit = 20): Promise<JobRun[]> {
+  const sql = createSqlClient();
+  const rows = await sql`
+    SELECT *
+    FROM job_runs
+    WHERE (${jobName ?? null}::text IS NULL OR job_name = ${jobName ?? null})
+    ORDER BY started_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(toJobRun);
+}
@@ -0,0 +1,200 @@
+import { processCorporateActions } from '../corporate-actions';
+import { createSqlClient, getRealizedGainTotals } from '../db';
+import { isCryptoCurrency } from '../crypto-api';
+import { multiply, sum } from '../decimal';
+import { creditDividends, getDividendTotals } from '../dividends';
+import { buildLeaderboard, LEADERBOARD_TIME_FRAMES } from '../leaderboard';
+import { archiveEndedLeagues } from '../leagues';
+import { getQuotes } from '../market-data';
+import { matchOpenOrders } from '../orders';
+import { savePortfolioSummary, summarizePortfolio } from '../portfolio';
+import { backfillPriceHistory } from '../price-history';
+import { cacheData, getRedisClient } from '../redis';
+import { getPortfolioSnapshots } from '../snapshots';
+import { Job } from './types';
+
+// Current prices of every held symbol, in the caches the leaderboard reads
+const refreshQuotes: Job = {
+  name: 'refresh-quotes',
+  description: 'Fetch current prices for every held symbol into the price caches',
+  schedule: '*/15 13-21 * * 1-5',
+  timeoutSeconds: 5 * 60,
+
+  async run() {
+    const sql = createSqlClient();
+    const symbols = (await sql`SELECT DISTINCT symbol FROM user_stocks`).map(row => row.symbol as string);
+    const quotes = await getQuotes(symbols);
+
+    const stockPrices: Record<string, number> = {};
+    const cryptoPrices: Record<string, number> = {};
+    quotes.forEach((quote, symbol) => {
+      (isCryptoCurrency(symbol) ? cryptoPrices : stockPrices)[symbol] = quote.price;
+    });
+
+    // Keep the prices until just after the next run
+    await cacheData('stocks:prices:current', stockPrices, 20 * 60);
+    await cacheData('crypto:prices:current', cryptoPrices, 20 * 60);
+
+    return { symbols: symbols.length, quotes: quotes.size };
+  },
+};
+
+// Value every user's portfolios together at current prices for portfolio_summaries, and
+// store every daily snapshot since each portfolio's first trade that is missing from
+// portfolio_snapshots, so the leaderboard's returns cover the whole history
+const snapshotPortfolios: Job = {
+  name: 'snapshot-portfolios',
+  description: 'Record the current value and daily snapshots of every portfolio',
+  schedule: '30 21 * * *',
+  timeoutSeconds: 10 * 60,
+
+  async run() {
+    const sql = createSqlClient();
+    const holdings = await sql`
+      SELECT user_id, symbol, quantity, purchase_price
+      FROM user_stocks
+      ORDER BY user_id
+    `;
+    const cashAccounts = await sql`SELECT user_id, balance FROM cash_accounts`;
+    const quotes = await getQuotes(Array.from(new Set(holdings.map(row => row.symbol as string))));
+
+    let snapshots = 0;
+    // Users holding only cash are summarized too
+    const userIds = Array.from(new Set([...holdings, ...cashAccounts].map(row => row.user_id as number)));
+    for (const userId of userIds) {
+      const positions = holdings.filter(row => row.user_id === userId);
+      // Positions without a current quote are valued at cost
+      const currentValue = sum(positions.map(row =>
+        multiply(row.quantity, quotes.get(row.symbol)?.price ?? Number(row.purchase_price))));
+      const purchaseValue = sum(positions.map(row => multiply(row.quantity, row.purchase_price)));
+
+      const summary = summarizePortfolio(
+        currentValue,
+        purchaseValue,
+        await getRealizedGainTotals(userId),
+        (await getDividendTotals(userId)).total,
+        sum(cashAccounts.filter(row => row.user_id === userId).map(row => Number(row.balance)))
+      );
+      await savePortfolioSummary(userId, summary);
+      snapshots += (await getPortfolioSnapshots(userId, null)).length;
+    }
+
+    return { portfolios: userIds.length, quotes: quotes.size, snapshots };
+  },
+};
+
+// Recompute the leaderboard at current prices into leaderboard_snapshots, and today's ranking into leaderboard_rankings
+const rebuildLeaderboard: Job = {
+  name: 'rebuild-leaderboard',
+  description: 'Recompute the leaderboard and store it for every time frame',
+  schedule: '0 13-21 * * 1-5',
+  timeoutSeconds: 10 * 60,
+
+  async run() {
+    // Served until the next run replaces it
+    const leaderboard = await buildLeaderboard({ refresh: true });
+    return { users: leaderboard.length, timeFrames: LEADERBOARD_TIME_FRAMES };
+  },
+};
+
+// Store the daily price history of every symbol in the ledger
+const backfillPrices: Job = {
+  name: 'backfill-prices',
+  description: 'Store the daily price history of every symbol in the ledger',
+  schedule: '0 6 * * *',
+  timeoutSeconds: 60 * 60,
+
+  async run() {
+    const results = await backfillPriceHistory();
+    return { symbols: results.length, bars: results.reduce((total, { stored }) => total + stored, 0) };
+  },
+};
+
+// Before dividends are credited, so they are paid on the shares held after any split
+const applyCorporateActions: Job = {
+  name: 'apply-corporate-actions',
+  description: 'Record new splits of held symbols and apply the corporate actions set to apply automatically',
+  schedule: '30 6 * * *',
+  timeoutSeconds: 30 * 60,
+
+  async run() {
+    return processCorporateActions();
+  },
+};
+
+// Fetch new dividends of every symbol in the ledger and credit everyone who held them
+const creditDividendsJob: Job = {
+  name: 'credit-dividends',
+  description: 'Fetch dividends and credit them to the users who held the shares',
+  schedule: '0 7 * * *',
+  timeoutSeconds: 30 * 60,
+
+  async run() {
+    const sql = createSqlClient();
+    const userIds = (await sql`
+      SELECT DISTINCT user_id FROM ledger_entries WHERE entry_type <> 'void' ORDER BY user_id
+    `).map(row => row.user_id as number);
+
+    const totals = { credited: 0, corrected: 0, voided: 0, failed: 0 };
+    for (const userId of userIds) {
+      try {
+        const counts = await creditDividends(userId);
+        totals.credited += counts.credited;
+        totals.corrected += counts.corrected;
+        totals.voided += counts.voided;
+      } catch (error) {
+        // One inconsistent ledger should not hold up everyone else's dividends
+        console.error(`Error crediting dividends for user ${userId}:`, error);
+        totals.failed++;
+      }
+    }
+
+    return { users: userIds.length, ...totals };
+  },
+};
+
+// Archive the final standings of leagues that ended, once their end date's close is in
+const archiveLeagues: Job = {
+  name: 'archive-leagues',
+  description: 'Archive the final standings of the leagues that have ended',
+  schedule: '0 8 * * *',
+  timeoutSeconds: 15 * 60,
+
+  async run() {
+    return archiveEndedLeagues();
+  },
+};
+
+// Check the pending orders against fresh quotes; crypto trades around the clock, stocks only in market hours
+const matchOrders: Job = {
+  name: 'match-orders',
+  description: 'Fill the pending limit, stop and trailing stop orders the quotes have reached',
+  schedule: '*/5 * * * *',
+  timeoutSeconds: 4 * 60,
+
+  async run() {
+    const { userIds, ...counts } = await matchOpenOrders();
+
+    // The fills show up in the portfolios and the activity feed straight away
+    const redisClient = await getRedisClient();
+    if (redisClient && userIds.length > 0) {
+      await Promise.all(userIds.map(userId => redisClient.del(`portfolio:${userId}`)));
+      await redisClient.del('transactions:recent');
+    }
+
+    return counts;
+  },
+};
+
+export const JOBS: Job[] = [
+  refreshQuotes,
+  snapshotPortfolios,
+  rebuildLeaderboard,
+  backfillPrices,
+  applyCorporateActions,
+  creditDividendsJob,
+  archiveLeagues,
+  matchOrders,
+];
+
+export const getJob = (name: string) => JOBS.find(job => job.name === name) ?? null;
@@ -0,0 +1,40 @@
+// How a run was started: by the scheduler, from the admin API, or from scripts/run-job.ts
+export type JobTrigger = 'cron' | 'manual' | 'cli';
+
+export const JOB_TRIGGERS: JobTrigger[] = ['cron', 'manual', 'cli'];
+
+// skipped: another run of the same job still held the lock
+export type JobStatus = 'running' | 'succeeded' | 'failed' | 'skipped';
+
+// Counts and other details a job reports, stored with the run
+export type JobResult = Record<string, unknown>;
+
+export interface Job {
+  name: string;
+  description: string;
+  // Cron expression (UTC) the job is meant to run on; see .github/workflows
+  schedule: string;
+  // How long a run may hold the lock before another run can take it over
+  timeoutSeconds: number;
+  run(): Promise<JobResult>;
+}
+
+export type JobRun = {
+  id: number;
+  jobName: string;
+  trigger: JobTrigger;
+  status: JobStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  result: JobResult | null;
+  error: string | null;
+};
+
+// Raised when asked to run a job that is not in the registry
+export class JobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobError';
+    Object.setPrototypeOf(this, JobError.prototype);
+  }
+}
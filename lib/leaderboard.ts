@@ -0,0 +1,824 @@
+import { createSqlClient } from './db';
+import { addDays, Lot, toDateString } from './ledger';
+import { add, multiply, percentage, subtract, sum } from './decimal';
+import { formatCurrency } from './utils';
+import { getCachedData, cacheData } from './redis';
+import { isCryptoCurrency } from './crypto-api';
+import { getQuotes } from './market-data';
+import { getClosingPrices } from './price-history';
+import { moneyWeightedReturn, ReturnSnapshot } from './returns';
+import { getLeagueStandings, League } from './leagues';
+
+// Leaderboard rows for every user, shared by /api/leaderboard and the scheduled jobs.
+// A user is ranked by the portfolio they chose to represent them (users.leaderboard_portfolio_id),
+// or by all of their portfolios together when they did not choose one.
+//
+// buildLeaderboard computes every user's row in one pass: the holdings, lots and snapshot returns of all
+// users are read together and each distinct symbol is priced once, then the rows are
+// stored in leaderboard_snapshots, which getLeaderboard reads in a single query.
+// Each build also records the day's ranking in every time frame in leaderboard_rankings,
+// for the rank movement since the day before, past leaderboards and each user's rank history.
+
+// The time frames the leaderboard can be ranked by, each by its own column of
+// leaderboard_snapshots (twr and mwr rank by time- and money-weighted return since the first trade)
+export const LEADERBOARD_TIME_FRAMES = ['daily', 'weekly', 'total', 'worth', 'twr', 'mwr'];
+
+// One day in milliseconds for calculating daily metrics
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+// Seven days in milliseconds for calculating weekly metrics
+const SEVEN_DAYS_MS = 7 * ONE_DAY_MS;
+
+// Symbols whose historical data is unreliable; their recorded purchase price is used instead
+const PROBLEMATIC_SYMBOLS = ['TEM'];
+
+// A leaderboard row as served by /api/leaderboard
+type LeaderboardRow = Record<string, unknown>;
+
+// A user's rank on one day, out of the number of users ranked that day
+export type RankHistoryPoint = {
+  date: string;
+  rank: number;
+  users: number;
+};
+
+// A row with the values each time frame ranks it by
+type RankedRow = {
+  userId: number;
+  row: LeaderboardRow;
+  totalGain: number;
+  dailyGain: number;
+  weeklyGain: number;
+  netWorth: number;
+  twr: number | null;
+  mwr: number | null;
+};
+
+// Rows of the queries below. NUMERIC, DECIMAL and COUNT columns come back as strings,
+// ::float ones as numbers.
+
+// A user, with the totals of the portfolios they are ranked by
+type UserRow = {
+  id: number;
+  username: string;
+  avatar: string | null;
+  leaderboard_portfolio_id: number | null;
+  portfolio_name: string | null;
+  starting_amount: string;
+  realized_gain: number;
+  realized_cost_basis: number;
+  dividend_income: number;
+  cash: number;
+};
+
+// A user's holding of a symbol, across the portfolios they are ranked by
+type HoldingRow = {
+  user_id: number;
+  id: number;
+  symbol: string;
+  quantity: string;
+  purchase_price: string | null;
+  purchase_date: string | Date;
+  company_name: string | null;
+};
+
+type LotRow = {
+  user_id: number;
+  lot_entry_id: number;
+  symbol: string;
+  acquired_date: string | Date;
+  quantity: string;
+  cost_per_share: string;
+  verified: boolean;
+};
+
+// A day of a user's summed snapshots, with the time-weighted growth of their whole series
+type SnapshotReturnRow = {
+  user_id: number;
+  snapshot_date: string | Date;
+  total_value: string;
+  net_flow: string;
+  return_days: string;
+  wiped_out: boolean | null;
+  growth: string | null;
+};
+
+// A stored row with its rank in a time frame, and its rank in the ranking before
+type RankRow = {
+  data: LeaderboardRow;
+  rank: string;
+  previous_rank: string | null;
+};
+
+type RankHistoryRow = {
+  ranking_date: string | Date;
+  rank: string;
+  users: string;
+};
+
+const today = () => toDateString(new Date());
+
+// The row with its rank, and how many places it moved up (negative for down)
+// since the previous ranking; rankChange is null when the user was not ranked then
+const withRank = (row: RankRow): LeaderboardRow => ({
+  ...row.data,
+  rank: Number(row.rank),
+  rankChange: row.previous_rank === null ? null : Number(row.previous_rank) - Number(row.rank),
+});
+
+// Helper function to check if a date is in the future
+const isDateInFuture = (dateString: string): boolean => {
+  const date = new Date(dateString);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0); // Compare dates only
+  return date > today;
+};
+
+// Whether a lot bought on purchaseDate starts from that day's close rather than its
+// recorded cost. Stocks bought within the last day keep the recorded price, as it is
+// likely more accurate than a close that may not be stored yet.
+const startsAtClose = (symbol: string, purchaseDate: string): boolean => {
+  if (isDateInFuture(purchaseDate)) return false;
+  // Cryptocurrencies trade every day, so take that day's close directly
+  if (isCryptoCurrency(symbol)) return true;
+  if (new Date().getTime() - new Date(purchaseDate).getTime() < ONE_DAY_MS) return false;
+  return !PROBLEMATIC_SYMBOLS.includes(symbol);
+};
+
+// Current prices of the symbols, from the short-lived price caches the refresh-quotes job
+// fills unless refresh is set. Symbols missing from the caches are quoted in one batch.
+const getCurrentPrices = async (symbols: string[], refresh: boolean): Promise<Map<string, number>> => {
+  const prices = new Map<string, number>();
+  const cachedStockPrices = refresh ? null : await getCachedData<Record<string, number>>('stocks:prices:current');
+  const cachedCryptoPrices = refresh ? null : await getCachedData<Record<string, number>>('crypto:prices:current');
+
+  for (const symbol of symbols) {
+    const cached = (isCryptoCurrency(symbol) ? cachedCryptoPrices : cachedStockPrices)?.[symbol];
+    if (cached) prices.set(symbol, cached);
+  }
+
+  const missing = symbols.filter(symbol => !prices.has(symbol));
+  if (missing.length === 0) {
+    console.log(`Using cached prices for ${symbols.length} symbols`);
+    return prices;
+  }
+
+  try {
+    console.log(`Fetching prices for ${missing.length} of ${symbols.length} symbols`);
+    const quotes = await getQuotes(missing);
+
+    const stockPrices: Record<string, number> = { ...cachedStockPrices };
+    const cryptoPrices: Record<string, number> = { ...cachedCryptoPrices };
+    quotes.forEach((quote, symbol) => {
+      prices.set(symbol, quote.price);
+      (isCryptoCurrency(symbol) ? cryptoPrices : stockPrices)[symbol] = quote.price;
+    });
+
+    // Cache the prices together with the ones that were already cached
+    await cacheData('stocks:prices:current', stockPrices, 300); // 5 minutes
+    await cacheData('crypto:prices:current', cryptoPrices, 300);
+  } catch (quoteError) {
+    console.error("Error fetching quotes:", quoteError);
+  }
+
+  console.log(`Retrieved ${prices.size} current prices`);
+  return prices;
+};
+
+// Closing prices on the given dates of each symbol, read with one range per symbol.
+// Closes are adjusted for later splits, which matches lots once the split is applied
+// (lib/corporate-actions.ts).
+const getHistoricalCloses = async (dates: Map<string, Set<string>>): Promise<Map<string, Map<string, number | null>>> => {
+  const closes = new Map<string, Map<string, number | null>>();
+  // One symbol at a time, so symbols whose history is not stored yet are fetched one by one
+  for (const [symbol, symbolDates] of Array.from(dates.entries())) {
+    try {
+      closes.set(symbol, await getClosingPrices(symbol, Array.from(symbolDates)));
+    } catch (error) {
+      console.error(`Error fetching historical prices for ${symbol}, using recorded purchase prices:`, error);
+    }
+  }
+  return closes;
+};
+
+// Compute every user's row, pricing each symbol held by anyone once
+async function computeLeaderboard(refresh: boolean): Promise<RankedRow[]> {
+  const sql = createSqlClient();
+  
+  // Get all users with the data of the portfolio they are ranked by
+  const users = (await sql`
+    SELECT 
+      u.id, 
+      u.username, 
+      u.avatar,
+      u.leaderboard_portfolio_id,
+      p.name as portfolio_name,
+      COALESCE(SUM(s.quantity * s.purchase_price)::DECIMAL, 0) as starting_amount,
+      COALESCE((
+        SELECT SUM(r.realized_gain) FROM realized_gains r
+        WHERE r.user_id = u.id AND (u.leaderboard_portfolio_id IS NULL OR r.portfolio_id = u.leaderboard_portfolio_id)
+      ), 0)::float as realized_gain,
+      COALESCE((
+        SELECT SUM(r.cost_basis) FROM realized_gains r
+        WHERE r.user_id = u.id AND (u.leaderboard_portfolio_id IS NULL OR r.portfolio_id = u.leaderboard_portfolio_id)
+      ), 0)::float as realized_cost_basis,
+      COALESCE((
+        SELECT SUM(e.quantity * e.price)
+        FROM ledger_entries e
+        WHERE e.user_id = u.id
+          AND (u.leaderboard_portfolio_id IS NULL OR e.portfolio_id = u.leaderboard_portfolio_id)
+          AND e.entry_type = 'dividend'
+          AND NOT EXISTS (SELECT 1 FROM ledger_entries s2 WHERE s2.supersedes_id = e.id)
+      ), 0)::float as dividend_income,
+      COALESCE((
+        SELECT SUM(c.balance) FROM cash_accounts c
+        WHERE c.user_id = u.id AND (u.leaderboard_portfolio_id IS NULL OR c.portfolio_id = u.leaderboard_portfolio_id)
+      ), 0)::float as cash
+    FROM 
+      users u
+    LEFT JOIN
+      portfolios p ON p.id = u.leaderboard_portfolio_id
+    LEFT JOIN
+      user_stocks s ON u.id = s.user_id
+        AND (u.leaderboard_portfolio_id IS NULL OR s.portfolio_id = u.leaderboard_portfolio_id)
+    GROUP BY 
+      u.id, p.name
+    ORDER BY 
+      starting_amount DESC
+  `) as UserRow[];
+  
+  // Every user's holdings, one per symbol across the portfolios they are ranked by
+  const allHoldings = (await sql`
+    SELECT 
+      s.user_id,
+      MIN(s.id) as id, 
+      s.symbol, 
+      SUM(s.quantity) as quantity, 
+      SUM(s.quantity * s.purchase_price) / NULLIF(SUM(s.quantity), 0) as purchase_price,
+      MIN(s.purchase_date) as purchase_date,
+      MIN(s.company_name) as company_name
+    FROM 
+      user_stocks s
+    JOIN
+      users u ON u.id = s.user_id
+    WHERE 
+      u.leaderboard_portfolio_id IS NULL OR s.portfolio_id = u.leaderboard_portfolio_id
+    GROUP BY
+      s.user_id, s.symbol
+  `) as HoldingRow[];
+  
+  // Each holding is made of lots bought on different dates
+  const allLots = ((await sql`
+    SELECT l.user_id, l.lot_entry_id, l.symbol, l.acquired_date, l.quantity, l.cost_per_share, l.verified
+    FROM user_stock_lots l
+    JOIN users u ON u.id = l.user_id
+    WHERE u.leaderboard_portfolio_id IS NULL OR l.portfolio_id = u.leaderboard_portfolio_id
+    ORDER BY l.user_id, l.symbol, l.acquired_date, l.lot_entry_id
+  `) as LotRow[]).map(row => ({
+    userId: row.user_id,
+    lotId: row.lot_entry_id,
+    symbol: row.symbol,
+    acquiredDate: toDateString(row.acquired_date),
+    quantity: Number(row.quantity),
+    costPerShare: Number(row.cost_per_share),
+    verified: row.verified === true,
+  }));
+  
+  // Every user's returns from their stored daily snapshots, summed per day across the
+  // portfolios they are ranked by. The snapshot-portfolios job keeps them current; the
+  // leaderboard only reads them, so it never prices a user's history itself.
+  // The time-weighted return chains every day's return in SQL, as dailyReturns does
+  // (lib/returns.ts); only the days the money-weighted return and the chart need are read:
+  // the first and last day, the days with a net flow and the last week.
+  const chartFrom = addDays(toDateString(new Date()), -7);
+  const snapshotRows = (await sql`
+    WITH daily AS (
+      SELECT s.user_id, s.snapshot_date, SUM(s.total_value) as total_value, SUM(s.net_flow) as net_flow
+      FROM portfolio_snapshots s
+      JOIN users u ON u.id = s.user_id
+      WHERE u.leaderboard_portfolio_id IS NULL OR s.portfolio_id = u.leaderboard_portfolio_id
+      GROUP BY s.user_id, s.snapshot_date
+    ),
+    days AS (
+      SELECT
+        user_id,
+        snapshot_date,
+        total_value,
+        net_flow,
+        COALESCE(LAG(total_value) OVER (PARTITION BY user_id ORDER BY snapshot_date), 0) + net_flow as invested,
+        MIN(snapshot_date) OVER (PARTITION BY user_id) as first_date,
+        MAX(snapshot_date) OVER (PARTITION BY user_id) as last_date
+      FROM daily
+    ),
+    growth AS (
+      SELECT
+        user_id,
+        COUNT(*) FILTER (WHERE invested > 0) as return_days,
+        BOOL_OR(invested > 0 AND total_value <= 0) as wiped_out,
+        EXP(SUM(LN(total_value / invested)) FILTER (WHERE invested > 0 AND total_value > 0)) as growth
+      FROM days
+      GROUP BY user_id
+    )
+    SELECT d.user_id, d.snapshot_date, d.total_value, d.net_flow, g.return_days, g.wiped_out, g.growth
+    FROM days d
+    JOIN growth g ON g.user_id = d.user_id
+    WHERE d.net_flow <> 0 OR d.snapshot_date IN (d.first_date, d.last_date) OR d.snapshot_date >= ${chartFrom}
+    ORDER BY d.user_id, d.snapshot_date
+  `) as SnapshotReturnRow[];
+  const seriesByUser = new Map<number, { twr: number | null; snapshots: ReturnSnapshot[] }>();
+  for (const row of snapshotRows) {
+    let series = seriesByUser.get(row.user_id);
+    if (!series) {
+      const twr = Number(row.return_days) === 0 ? null : row.wiped_out ? -100 : (Number(row.growth) - 1) * 100;
+      series = { twr, snapshots: [] };
+      seriesByUser.set(row.user_id, series);
+    }
+    series.snapshots.push({
+      date: toDateString(row.snapshot_date),
+      totalValue: Number(row.total_value),
+      netFlow: Number(row.net_flow),
+    });
+  }
+  
+  // Users whose stored snapshots cover every day since the first trade of each portfolio
+  // they are ranked by, up to the same last day. Returns from a series cut short or with
+  // missing days would be wrong, so the others are not ranked by them until the
+  // snapshot-portfolios job has filled their history in.
+  const completeSeries = new Set((await sql`
+    SELECT t.user_id
+    FROM (
+      SELECT e.user_id, e.portfolio_id, MIN(e.trade_date) as first_trade
+      FROM ledger_entries e
+      JOIN users u ON u.id = e.user_id
+      WHERE (u.leaderboard_portfolio_id IS NULL OR e.portfolio_id = u.leaderboard_portfolio_id)
+        AND e.entry_type <> 'void'
+        AND NOT EXISTS (SELECT 1 FROM ledger_entries s2 WHERE s2.supersedes_id = e.id)
+      GROUP BY e.user_id, e.portfolio_id
+    ) t
+    LEFT JOIN (
+      SELECT portfolio_id, MIN(snapshot_date) as first_date, MAX(snapshot_date) as last_date, COUNT(*) as days
+      FROM portfolio_snapshots
+      GROUP BY portfolio_id
+    ) s ON s.portfolio_id = t.portfolio_id
+    GROUP BY t.user_id
+    HAVING BOOL_AND(COALESCE(s.first_date = t.first_trade AND s.days = s.last_date - s.first_date + 1, FALSE))
+      AND MIN(s.last_date) = MAX(s.last_date)
+  `).map(row => row.user_id as number));
+  
+  console.log(`Found ${users.length} users with ${allHoldings.length} holdings`);
+  
+  // Each user's holdings, and the lots of each holding, for looking them up by user
+  const holdingsByUser = new Map<number, HoldingRow[]>();
+  for (const item of allHoldings) {
+    const userHoldings = holdingsByUser.get(item.user_id) ?? [];
+    userHoldings.push(item);
+    holdingsByUser.set(item.user_id, userHoldings);
+  }
+  const lotsByHolding = new Map<string, Lot[]>();
+  for (const lot of allLots) {
+    const key = `${lot.userId}:${lot.symbol}`;
+    const holdingLots = lotsByHolding.get(key) ?? [];
+    holdingLots.push(lot);
+    lotsByHolding.set(key, holdingLots);
+  }
+  
+  // Holdings without a lot projection yet count as a single lot
+  const lotsFor = (item: HoldingRow): Lot[] => {
+    const itemLots = lotsByHolding.get(`${item.user_id}:${item.symbol}`) ?? [];
+    return itemLots.length > 0 ? itemLots : [{
+      lotId: item.id,
+      symbol: item.symbol,
+      acquiredDate: new Date(item.purchase_date).toISOString().split('T')[0],
+      quantity: Number(item.quantity),
+      costPerShare: Number(item.purchase_price),
+      verified: false,
+    }];
+  };
+  
+  // Get today's and last week's dates
+  const today = new Date();
+  const yesterday = new Date(today.getTime() - ONE_DAY_MS);
+  const lastWeek = new Date(today.getTime() - SEVEN_DAYS_MS);
+  
+  // Format dates for the price history
+  const todayStr = today.toISOString().split('T')[0];
+  const yesterdayStr = yesterday.toISOString().split('T')[0];
+  const lastWeekStr = lastWeek.toISOString().split('T')[0];
+  
+  // Price every symbol anyone holds once
+  const symbolPrices = await getCurrentPrices(
+    Array.from(new Set(allHoldings.map(item => item.symbol))),
+    refresh
+  );
+  
+  // Collect the closes the daily and weekly gains need: yesterday's and last week's for
+  // holdings owned then, and the purchase-day close of lots bought since last week
+  const historicalDates = new Map<string, Set<string>>();
+  const needClose = (symbol: string, date: string) => {
+    if (!historicalDates.has(symbol)) historicalDates.set(symbol, new Set());
+    historicalDates.get(symbol)!.add(date);
+  };
+  for (const item of allHoldings) {
+    if (!symbolPrices.has(item.symbol)) continue;
+    const itemLots = lotsFor(item);
+    if (itemLots.some(lot => new Date(lot.acquiredDate) < yesterday)) needClose(item.symbol, yesterdayStr);
+    if (itemLots.some(lot => new Date(lot.acquiredDate) < lastWeek)) needClose(item.symbol, lastWeekStr);
+    itemLots
+      .filter(lot => new Date(lot.acquiredDate) >= lastWeek && startsAtClose(lot.symbol, lot.acquiredDate))
+      .forEach(lot => needClose(lot.symbol, lot.acquiredDate));
+  }
+  const closes = await getHistoricalCloses(historicalDates);
+  const closeOn = (symbol: string, date: string) => closes.get(symbol)?.get(date) ?? null;
+  
+  // Value lots at the market price on the day each was bought (recorded cost if unavailable).
+  // Used as the starting value of lots bought inside the daily or weekly window.
+  const valueAtAcquisition = (lots: Lot[]): number => sum(lots.map(lot => {
+    const price = startsAtClose(lot.symbol, lot.acquiredDate) ? closeOn(lot.symbol, lot.acquiredDate) : null;
+    return multiply(lot.quantity, price ?? lot.costPerShare);
+  }));
+
+  // Process each user's portfolio data to calculate metrics
+  return users.map((user): RankedRow => {
+    // Shown next to the user's name; null for all of their portfolios
+    const portfolio: string | null = user.portfolio_name ?? null;
+    // Gains from lots that have already been sold
+    const realizedGain = Number(user.realized_gain);
+    const realizedCostBasis = Number(user.realized_cost_basis);
+    // Dividends received, paid out or reinvested
+    const dividendIncome = Number(user.dividend_income);
+    // Uninvested cash, which counts towards net worth but not towards gains
+    const cash = Number(user.cash);
+    
+    // Skip users with no portfolio (they may still have realized gains)
+    if (Number(user.starting_amount) === 0) {
+      return {
+        userId: user.id,
+        row: {
+          id: user.id,
+          username: user.username,
+          avatar: user.avatar,
+          portfolio,
+          totalGain: formatCurrency(add(realizedGain, dividendIncome)),
+          totalGainPercentage: percentage(add(realizedGain, dividendIncome), realizedCostBasis).toFixed(2),
+          unrealizedGain: "$0.00",
+          realizedGain: formatCurrency(realizedGain),
+          dividendIncome: formatCurrency(dividendIncome),
+          dailyGain: "$0.00",
+          dailyGainPercentage: "0.00",
+          weeklyGain: "$0.00",
+          weeklyGainPercentage: "0.00",
+          currentWorth: "$0.00",
+          cash: formatCurrency(cash),
+          netWorth: formatCurrency(cash),
+          startingAmount: "$0.00",
+          topGainer: null,
+          verified: false,
+        },
+        totalGain: add(realizedGain, dividendIncome),
+        dailyGain: 0,
+        weeklyGain: 0,
+        netWorth: cash,
+        twr: null,
+        mwr: null,
+      };
+    }
+    
+    const holdings = holdingsByUser.get(user.id) ?? [];
+    const lots = holdings.flatMap(item => lotsByHolding.get(`${item.user_id}:${item.symbol}`) ?? []);
+
+    // Calculate starting amount and current worth
+    let startingAmount = 0;
+    let currentWorth = 0;
+    
+    // For tracking the best performing asset
+    let topGainer = {
+      symbol: "",
+      gainPercentage: -Infinity,
+    };
+    
+    // Historical value tracking
+    let valueToday = 0;
+    let valueYesterday = 0;
+    let valueLastWeek = 0;
+    
+    // Process each portfolio item
+    for (const item of holdings) {
+      // Calculate the starting amount
+      const itemStartingAmount = multiply(item.quantity, item.purchase_price ?? 0);
+      startingAmount = add(startingAmount, itemStartingAmount);
+      
+      // Get the current price
+      const currentPrice = symbolPrices.get(item.symbol);
+      if (!currentPrice) continue;
+      
+      // Calculate current worth
+      const itemCurrentWorth = multiply(item.quantity, currentPrice);
+      currentWorth = add(currentWorth, itemCurrentWorth);
+      
+      // Calculate gain and gain percentage
+      const itemGain = subtract(itemCurrentWorth, itemStartingAmount);
+      const itemGainPercentage = percentage(itemGain, itemStartingAmount);
+      
+      // Track the top gainer
+      if (itemGainPercentage > topGainer.gainPercentage && item.symbol) {
+        topGainer = {
+          symbol: item.symbol,
+          gainPercentage: itemGainPercentage,
+        };
+      }
+      
+      // Split the holding into lots owned before and after each cutoff
+      const itemLots = lotsFor(item);
+      const lotsHeldBefore = (date: Date) => itemLots.filter(lot => new Date(lot.acquiredDate) < date);
+      const lotsBoughtSince = (date: Date) => itemLots.filter(lot => new Date(lot.acquiredDate) >= date);
+      const quantityOf = (group: Lot[]) => sum(group.map(lot => lot.quantity));
+      const quantityHeldYesterday = quantityOf(lotsHeldBefore(yesterday));
+      const quantityHeldLastWeek = quantityOf(lotsHeldBefore(lastWeek));
+      
+      // Yesterday's and last week's value of the lots held then, at the close on the day
+      // or the last trading day before it (the current price when there is none)
+      if (quantityHeldYesterday > 0) {
+        valueYesterday = add(valueYesterday, multiply(quantityHeldYesterday, closeOn(item.symbol, yesterdayStr) || currentPrice));
+      }
+      if (quantityHeldLastWeek > 0) {
+        valueLastWeek = add(valueLastWeek, multiply(quantityHeldLastWeek, closeOn(item.symbol, lastWeekStr) || currentPrice));
+      }
+      // Lots bought since then start from their purchase-day value
+      valueYesterday = add(valueYesterday, valueAtAcquisition(lotsBoughtSince(yesterday)));
+      valueLastWeek = add(valueLastWeek, valueAtAcquisition(lotsBoughtSince(lastWeek)));
+      
+      // Calculate today's value
+      valueToday = add(valueToday, itemCurrentWorth);
+    }
+    
+    // Calculate total, daily, and weekly gains.
+    // The total includes realized gains and dividends, as a percentage of everything invested.
+    const unrealizedGain = subtract(currentWorth, startingAmount);
+    const totalGain = add(add(unrealizedGain, realizedGain), dividendIncome);
+    const totalGainPercentage = percentage(totalGain, add(startingAmount, realizedCostBasis));
+    
+    const dailyGain = subtract(valueToday, valueYesterday);
+    const dailyGainPercentage = percentage(dailyGain, valueYesterday);
+    
+    const weeklyGain = subtract(valueToday, valueLastWeek);
+    const weeklyGainPercentage = percentage(weeklyGain, valueLastWeek);
+    
+    // Returns over the whole history, and last week's daily snapshots for the chart, newest first
+    const series = seriesByUser.get(user.id);
+    const returns = series && completeSeries.has(user.id)
+      ? { twr: series.twr, mwr: moneyWeightedReturn(series.snapshots) }
+      : null;
+    const chartData = (series?.snapshots ?? [])
+      .filter(snapshot => snapshot.date >= chartFrom)
+      .map(snapshot => ({ date: snapshot.date, value: snapshot.totalValue }))
+      .reverse();
+    
+    // Get latest purchase (the most recently bought lot)
+    let latestPurchase = null;
+    if (holdings.length > 0) {
+      const sorted = holdings.flatMap(lotsFor).sort((a, b) => 
+        new Date(b.acquiredDate).getTime() - new Date(a.acquiredDate).getTime() || b.lotId - a.lotId
+      );
+      
+      if (sorted.length > 0) {
+        latestPurchase = {
+          symbol: sorted[0].symbol,
+          date: sorted[0].acquiredDate,
+          price: sorted[0].costPerShare
+        };
+      }
+    }
+    
+    // Calculate stock distribution
+    const stockDistribution = holdings.reduce((acc: { name: string; value: number }[], item) => {
+      const currentPrice = symbolPrices.get(item.symbol);
+      if (currentPrice) {
+        const value = multiply(item.quantity, currentPrice);
+        acc.push({
+          name: item.symbol,
+          value: value
+        });
+      }
+      return acc;
+    }, []).sort((a, b) => b.value - a.value).slice(0, 5); // Get top 5 by value
+    
+    return {
+      userId: user.id,
+      row: {
+        id: user.id,
+        username: user.username,
+        avatar: user.avatar,
+        portfolio,
+        totalGain: formatCurrency(totalGain),
+        totalGainPercentage: totalGainPercentage.toFixed(2),
+        unrealizedGain: formatCurrency(unrealizedGain),
+        realizedGain: formatCurrency(realizedGain),
+        dividendIncome: formatCurrency(dividendIncome),
+        dailyGain: formatCurrency(dailyGain),
+        dailyGainPercentage: dailyGainPercentage.toFixed(2),
+        weeklyGain: formatCurrency(weeklyGain),
+        weeklyGainPercentage: weeklyGainPercentage.toFixed(2),
+        twr: returns?.twr != null ? returns.twr.toFixed(2) : null,
+        mwr: returns?.mwr != null ? returns.mwr.toFixed(2) : null,
+        currentWorth: formatCurrency(currentWorth),
+        cash: formatCurrency(cash),
+        netWorth: formatCurrency(add(currentWorth, cash)),
+        startingAmount: formatCurrency(startingAmount),
+        topGainer: topGainer.symbol || null,
+        topGainerPercentage: topGainer.symbol ? topGainer.gainPercentage.toFixed(2) : null,
+        latestPurchase,
+        chartData,
+        stockDistribution,
+        // Every open lot was opened by a market fill (lib/paper-trading.ts)
+        verified: lots.length > 0 && lots.every(lot => lot.verified),
+      },
+      totalGain,
+      dailyGain,
+      weeklyGain,
+      netWorth: add(currentWorth, cash),
+      twr: returns?.twr ?? null,
+      mwr: returns?.mwr ?? null,
+    };
+  });
+}
+
+// Compute the leaderboard for all users and store it in leaderboard_snapshots, replacing
+// the previous one, and as today's ranking in leaderboard_rankings. With refresh, current
+// prices are fetched again instead of taken from the short-lived price caches.
+// Returns the rows, unordered.
+export async function buildLeaderboard({ refresh = false } = {}): Promise<LeaderboardRow[]> {
+  const ranked = await computeLeaderboard(refresh);
+  const date = today();
+
+  const sql = createSqlClient();
+  await sql.transaction(txn => [
+    txn`DELETE FROM leaderboard_snapshots`,
+    txn`
+      INSERT INTO leaderboard_snapshots (user_id, data, total_gain, daily_gain, weekly_gain, net_worth, twr, mwr)
+      SELECT snapshot.*
+      FROM unnest(
+        ${ranked.map(entry => entry.userId)}::int[],
+        ${ranked.map(entry => JSON.stringify(entry.row))}::jsonb[],
+        ${ranked.map(entry => entry.totalGain)}::numeric[],
+        ${ranked.map(entry => entry.dailyGain)}::numeric[],
+        ${ranked.map(entry => entry.weeklyGain)}::numeric[],
+        ${ranked.map(entry => entry.netWorth)}::numeric[],
+        ${ranked.map(entry => entry.twr)}::numeric[],
+        ${ranked.map(entry => entry.mwr)}::numeric[]
+      ) AS snapshot
+    `,
+    // Ranked the same way getLeaderboard orders the rows
+    txn`DELETE FROM leaderboard_rankings WHERE ranking_date = ${date}`,
+    txn`
+      INSERT INTO leaderboard_rankings
+        (ranking_date, user_id, data, total_rank, daily_rank, weekly_rank, worth_rank, twr_rank, mwr_rank)
+      SELECT
+        ${date}::date,
+        user_id,
+        data,
+        ROW_NUMBER() OVER (ORDER BY total_gain DESC, user_id),
+        ROW_NUMBER() OVER (ORDER BY daily_gain DESC, user_id),
+        ROW_NUMBER() OVER (ORDER BY weekly_gain DESC, user_id),
+        ROW_NUMBER() OVER (ORDER BY net_worth DESC, user_id),
+        ROW_NUMBER() OVER (ORDER BY twr DESC NULLS LAST, user_id),
+        ROW_NUMBER() OVER (ORDER BY mwr DESC NULLS LAST, user_id)
+      FROM leaderboard_snapshots
+    `,
+  ]);
+
+  return ranked.map(entry => entry.row);
+}
+
+// The stored leaderboard, best first by the time frame's column, with each row's rank
+// and its movement since the last ranking before today. Empty until the leaderboard
+// is first built.
+export async function getLeaderboard(timeFrame: string): Promise<LeaderboardRow[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT
+      s.data,
+      ROW_NUMBER() OVER (
+        ORDER BY
+          CASE ${timeFrame}::text
+            WHEN 'daily' THEN s.daily_gain
+            WHEN 'weekly' THEN s.weekly_gain
+            WHEN 'worth' THEN s.net_worth
+            WHEN 'twr' THEN s.twr
+            WHEN 'mwr' THEN s.mwr
+            ELSE s.total_gain
+          END DESC NULLS LAST,
+          s.user_id
+      ) as rank,
+      CASE ${timeFrame}::text
+        WHEN 'daily' THEN p.daily_rank
+        WHEN 'weekly' THEN p.weekly_rank
+        WHEN 'worth' THEN p.worth_rank
+        WHEN 'twr' THEN p.twr_rank
+        WHEN 'mwr' THEN p.mwr_rank
+        ELSE p.total_rank
+      END as previous_rank
+    FROM leaderboard_snapshots s
+    LEFT JOIN leaderboard_rankings p ON p.user_id = s.user_id
+      AND p.ranking_date = (SELECT MAX(ranking_date) FROM leaderboard_rankings WHERE ranking_date < ${today()})
+    ORDER BY rank
+  `;
+  return (result as RankRow[]).map(withRank);
+}
+
+// The leaderboard as ranked at the end of a past day (the last ranking on or before
+// date), with each row's movement since the ranking before it. date is null when
+// there is no ranking that old.
+export async function getLeaderboardAsOf(timeFrame: string, date: string): Promise<{ date: string | null; rows: LeaderboardRow[] }> {
+  const sql = createSqlClient();
+  const result = await sql`
+    WITH day AS (
+      SELECT MAX(ranking_date) as ranking_date FROM leaderboard_rankings WHERE ranking_date <= ${date}
+    )
+    SELECT
+      r.ranking_date,
+      r.data,
+      CASE ${timeFrame}::text
+        WHEN 'daily' THEN r.daily_rank
+        WHEN 'weekly' THEN r.weekly_rank
+        WHEN 'worth' THEN r.worth_rank
+        WHEN 'twr' THEN r.twr_rank
+        WHEN 'mwr' THEN r.mwr_rank
+        ELSE r.total_rank
+      END as rank,
+      CASE ${timeFrame}::text
+        WHEN 'daily' THEN p.daily_rank
+        WHEN 'weekly' THEN p.weekly_rank
+        WHEN 'worth' THEN p.worth_rank
+        WHEN 'twr' THEN p.twr_rank
+        WHEN 'mwr' THEN p.mwr_rank
+        ELSE p.total_rank
+      END as previous_rank
+    FROM leaderboard_rankings r
+    LEFT JOIN leaderboard_rankings p ON p.user_id = r.user_id
+      AND p.ranking_date = (
+        SELECT MAX(ranking_date) FROM leaderboard_rankings
+        WHERE ranking_date < (SELECT ranking_date FROM day)
+      )
+    WHERE r.ranking_date = (SELECT ranking_date FROM day)
+    ORDER BY rank
+  `;
+  return {
+    date: result.length > 0 ? toDateString(result[0].ranking_date) : null,
+    rows: (result as RankRow[]).map(withRank),
+  };
+}
+
+// A user's daily rank in a time frame since from (YYYY-MM-DD), oldest first
+export async function getRankHistory(userId: number, timeFrame: string, from: string): Promise<RankHistoryPoint[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT
+      r.ranking_date,
+      CASE ${timeFrame}::text
+        WHEN 'daily' THEN r.daily_rank
+        WHEN 'weekly' THEN r.weekly_rank
+        WHEN 'worth' THEN r.worth_rank
+        WHEN 'twr' THEN r.twr_rank
+        WHEN 'mwr' THEN r.mwr_rank
+        ELSE r.total_rank
+      END as rank,
+      (SELECT COUNT(*) FROM leaderboard_rankings c WHERE c.ranking_date = r.ranking_date) as users
+    FROM leaderboard_rankings r
+    WHERE r.user_id = ${userId} AND r.ranking_date >= ${from}
+    ORDER BY r.ranking_date
+  `;
+  return (result as RankHistoryRow[]).map(row => ({
+    date: toDateString(row.ranking_date),
+    rank: Number(row.rank),
+    users: Number(row.users),
+  }));
+}
+
+// Leaderboard rows for a league, in the order of its standings. Every member
+// starts with the same bankroll, so the gain ranks the same as the return.
+export async function buildLeagueLeaderboard(league: League) {
+  const standings = await getLeagueStandings(league);
+  return standings.map(standing => {
+    const gain = subtract(standing.value, league.startingBankroll);
+    return {
+      id: standing.userId,
+      username: standing.username,
+      avatar: standing.avatar,
+      portfolio: league.name,
+      rank: standing.rank,
+      totalGain: formatCurrency(gain),
+      totalGainPercentage: standing.returnPercent.toFixed(2),
+      dailyGain: "$0.00",
+      dailyGainPercentage: "0.00",
+      weeklyGain: "$0.00",
+      weeklyGainPercentage: "0.00",
+      twr: null,
+      mwr: null,
+      currentWorth: formatCurrency(standing.value),
+      netWorth: formatCurrency(standing.value),
+      startingAmount: formatCurrency(league.startingBankroll),
+      topGainer: null,
+      // Members of such a league can only place market orders
+      verified: league.requireVerified,
+    };
+  });
+}
@@ -0,0 +1,452 @@
+import { randomBytes } from 'crypto';
+import { getCashBalance, recordCashTransfer } from './cash';
+import { isCryptoCurrency } from './crypto-api';
+import { createSqlClient, LedgerEntryInput } from './db';
+import { add, multiply, percentage, subtract } from './decimal';
+import { toDateString } from './ledger';
+import { getQuotes } from './market-data';
+import { createPortfolio, MAX_PORTFOLIO_NAME_LENGTH } from './portfolios';
+import { getPortfolioSnapshots } from './snapshots';
+
+/**
+ * Private leagues.
+ *
+ * A league runs from a start date to an end date. Members join with its invite
+ * code and get a portfolio of their own for it (lib/portfolios.ts), funded with
+ * the league's virtual bankroll by a deposit on the start date. League
+ * portfolios are ranked by their return since the start: holdings and cash at
+ * the latest close, or at the end date's close once the league is over.
+ *
+ * The league's rules apply to the trades members record in their league
+ * portfolio: only buys and sells, dated the day they are recorded and within
+ * the league's dates, at about the market price, in the allowed asset types,
+ * paid from the portfolio's cash and within the position-size limit. Trades
+ * cannot be corrected or removed afterwards. A league can require verified
+ * positions, in which case its portfolios are paper-trading ones that only take
+ * market orders (lib/paper-trading.ts).
+ *
+ * When a league has ended its final standings are archived in league_standings
+ * (the archive-leagues job), and are read from there from then on.
+ */
+
+export type LeagueAssetType = 'stock' | 'crypto';
+
+export const LEAGUE_ASSET_TYPES: LeagueAssetType[] = ['stock', 'crypto'];
+
+export type LeagueStatus = 'upcoming' | 'active' | 'ended';
+
+export type League = {
+  id: number;
+  name: string;
+  creatorId: number;
+  startDate: string;
+  endDate: string;
+  startingBankroll: number;
+  allowedAssetTypes: LeagueAssetType[];
+  // The most of the bankroll one symbol may take, at cost; null for no limit
+  maxPositionPercent: number | null;
+  // Whether members may only trade market orders, filled at the current quote
+  requireVerified: boolean;
+  status: LeagueStatus;
+  archivedAt: string | null;
+  memberCount: number;
+  createdAt: string;
+};
+
+// A league as one of its members sees it
+export type LeagueMembership = League & {
+  inviteCode: string;
+  // The member's portfolio for the league
+  portfolioId: number;
+};
+
+export type LeagueInput = {
+  name: string;
+  startDate: string;
+  endDate: string;
+  startingBankroll: number;
+  allowedAssetTypes: LeagueAssetType[];
+  maxPositionPercent: number | null;
+  requireVerified: boolean;
+};
+
+export type LeagueStanding = {
+  rank: number;
+  userId: number;
+  username: string;
+  avatar: string | null;
+  // Holdings and cash of the member's league portfolio
+  value: number;
+  returnPercent: number;
+};
+
+// Raised for league requests and trades that the league's rules do not allow
+export class LeagueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeagueError';
+    Object.setPrototypeOf(this, LeagueError.prototype);
+  }
+}
+
+export const MAX_LEAGUE_NAME_LENGTH = 80;
+
+// How far a league trade's price may be from the current quote
+const PRICE_TOLERANCE_PERCENT = 2;
+
+const today = () => toDateString(new Date());
+
+const statusOf = (startDate: string, endDate: string): LeagueStatus => {
+  const date = today();
+  if (date < startDate) return 'upcoming';
+  return date > endDate ? 'ended' : 'active';
+};
+
+const assetTypeOf = (symbol: string): LeagueAssetType => isCryptoCurrency(symbol) ? 'crypto' : 'stock';
+
+const toLeague = (row: any): League => {
+  const startDate = toDateString(row.start_date);
+  const endDate = toDateString(row.end_date);
+  return {
+    id: row.id,
+    name: row.name,
+    creatorId: row.creator_id,
+    startDate,
+    endDate,
+    startingBankroll: Number(row.starting_bankroll),
+    allowedAssetTypes: row.allowed_asset_types,
+    maxPositionPercent: row.max_position_percent === null ? null : Number(row.max_position_percent),
+    requireVerified: row.require_verified === true,
+    status: statusOf(startDate, endDate),
+    archivedAt: row.archived_at ? new Date(row.archived_at).toISOString() : null,
+    memberCount: Number(row.member_count ?? 0),
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+};
+
+const toMembership = (row: any): LeagueMembership => ({
+  ...toLeague(row),
+  inviteCode: row.invite_code,
+  portfolioId: row.portfolio_id,
+});
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value).getTime());
+
+// Validate a new league from a request body, or throw a LeagueError
+export function parseLeagueInput(body: any): LeagueInput {
+  if (typeof body.name !== 'string' || body.name.trim() === '') {
+    throw new LeagueError('name is required');
+  }
+  const name = body.name.trim();
+  if (name.length > MAX_LEAGUE_NAME_LENGTH) {
+    throw new LeagueError(`name must be at most ${MAX_LEAGUE_NAME_LENGTH} characters`);
+  }
+
+  if (!isDateString(body.startDate) || !isDateString(body.endDate)) {
+    throw new LeagueError('startDate and endDate must be dates (YYYY-MM-DD)');
+  }
+  if (body.startDate < today()) {
+    throw new LeagueError('startDate cannot be in the past');
+  }
+  if (body.endDate <= body.startDate) {
+    throw new LeagueError('endDate must be after startDate');
+  }
+
+  const startingBankroll = Number(body.startingBankroll);
+  if (!(startingBankroll > 0)) {
+    throw new LeagueError('startingBankroll must be a positive number');
+  }
+
+  const allowedAssetTypes = body.allowedAssetTypes ?? LEAGUE_ASSET_TYPES;
+  if (!Array.isArray(allowedAssetTypes) || allowedAssetTypes.length === 0 ||
+      !allowedAssetTypes.every(type => LEAGUE_ASSET_TYPES.includes(type))) {
+    throw new LeagueError(`allowedAssetTypes must be one or more of ${LEAGUE_ASSET_TYPES.join(', ')}`);
+  }
+
+  let maxPositionPercent: number | null = null;
+  if (body.maxPositionPercent !== undefined && body.maxPositionPercent !== null && body.maxPositionPercent !== '') {
+    maxPositionPercent = Number(body.maxPositionPercent);
+    if (!(maxPositionPercent > 0 && maxPositionPercent <= 100)) {
+      throw new LeagueError('maxPositionPercent must be more than 0 and at most 100');
+    }
+  }
+
+  return {
+    name,
+    startDate: body.startDate,
+    endDate: body.endDate,
+    startingBankroll,
+    allowedAssetTypes: Array.from(new Set<LeagueAssetType>(allowedAssetTypes)),
+    maxPositionPercent,
+    requireVerified: body.requireVerified === true,
+  };
+}
+
+// Create a league; its creator joins it straight away
+export async function createLeague(userId: number, input: LeagueInput): Promise<LeagueMembership> {
+  const sql = createSqlClient();
+  const inviteCode = randomBytes(5).toString('hex').toUpperCase();
+  await sql`
+    INSERT INTO leagues (
+      name, creator_id, invite_code, start_date, end_date,
+      starting_bankroll, allowed_asset_types, max_position_percent, require_verified
+    )
+    VALUES (
+      ${input.name}, ${userId}, ${inviteCode}, ${input.startDate}, ${input.endDate},
+      ${input.startingBankroll}, ${input.allowedAssetTypes}::text[], ${input.maxPositionPercent},
+      ${input.requireVerified}
+    )
+  `;
+  return joinLeague(userId, inviteCode);
+}
+
+// A portfolio name for the league that the user does not have yet
+async function freePortfolioName(userId: number, leagueName: string) {
+  const sql = createSqlClient();
+  const taken = new Set((await sql`SELECT lower(name) AS name FROM portfolios WHERE user_id = ${userId}`)
+    .map(row => row.name as string));
+
+  for (let copy = 1; ; copy++) {
+    const suffix = copy === 1 ? '' : ` ${copy}`;
+    const name = leagueName.slice(0, MAX_PORTFOLIO_NAME_LENGTH - suffix.length).trim() + suffix;
+    if (!taken.has(name.toLowerCase())) return name;
+  }
+}
+
+/**
+ * Join the league with the invite code: the user gets a new portfolio named
+ * after the league, funded with the bankroll on the league's start date. It is
+ * a paper-trading portfolio if the league requires verified positions.
+ */
+export async function joinLeague(userId: number, inviteCode: unknown): Promise<LeagueMembership> {
+  if (typeof inviteCode !== 'string' || inviteCode.trim() === '') {
+    throw new LeagueError('inviteCode is required');
+  }
+
+  const sql = createSqlClient();
+  const result = await sql`SELECT * FROM leagues WHERE invite_code = ${inviteCode.trim().toUpperCase()}`;
+  if (result.length === 0) {
+    throw new LeagueError('Unknown invite code');
+  }
+  const league = toLeague(result[0]);
+  if (league.status === 'ended' || league.archivedAt) {
+    throw new LeagueError(`${league.name} has ended`);
+  }
+
+  const member = await sql`
+    SELECT 1 FROM league_members WHERE league_id = ${league.id} AND user_id = ${userId}
+  `;
+  if (member.length > 0) {
+    throw new LeagueError(`You are already in ${league.name}`);
+  }
+
+  const portfolio = await createPortfolio(
+    userId,
+    await freePortfolioName(userId, league.name),
+    league.requireVerified
+  );
+  await recordCashTransfer(userId, {
+    type: 'deposit',
+    amount: league.startingBankroll,
+    date: league.startDate,
+    note: `Starting bankroll for ${league.name}`,
+    portfolioId: portfolio.id,
+  });
+  await sql`
+    INSERT INTO league_members (league_id, user_id, portfolio_id)
+    VALUES (${league.id}, ${userId}, ${portfolio.id})
+  `;
+
+  return (await getMembership(userId, league.id))!;
+}
+
+// The leagues a user is in, the most recent first
+export async function listLeagues(userId: number): Promise<LeagueMembership[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT l.*, m.portfolio_id,
+      (SELECT COUNT(*) FROM league_members c WHERE c.league_id = l.id) AS member_count
+    FROM leagues l
+    JOIN league_members m ON m.league_id = l.id
+    WHERE m.user_id = ${userId}
+    ORDER BY l.start_date DESC, l.id DESC
+  `;
+  return result.map(toMembership);
+}
+
+// One of the user's leagues, or null if they are not in it
+export async function getMembership(userId: number, leagueId: number): Promise<LeagueMembership | null> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT l.*, m.portfolio_id,
+      (SELECT COUNT(*) FROM league_members c WHERE c.league_id = l.id) AS member_count
+    FROM leagues l
+    JOIN league_members m ON m.league_id = l.id
+    WHERE l.id = ${leagueId} AND m.user_id = ${userId}
+  `;
+  return result.length > 0 ? toMembership(result[0]) : null;
+}
+
+// The league a portfolio was opened for, or null for an ordinary portfolio
+async function getPortfolioLeague(portfolioId: number): Promise<League | null> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT l.* FROM leagues l
+    JOIN league_members m ON m.league_id = l.id
+    WHERE m.portfolio_id = ${portfolioId}
+  `;
+  return result.length > 0 ? toLeague(result[0]) : null;
+}
+
+/**
+ * Check a new entry for a portfolio against the rules of the league it belongs
+ * to, if any. Throws a LeagueError for entries the league does not allow.
+ * Entries for the default portfolio (no portfolioId) are never league trades.
+ */
+export async function checkLeagueTrade(userId: number, input: LedgerEntryInput) {
+  if (input.portfolioId === undefined) return;
+  const league = await getPortfolioLeague(input.portfolioId);
+  if (!league) return;
+
+  if (input.entryType !== 'buy' && input.entryType !== 'sell') {
+    throw new LeagueError(`Only buys and sells can be recorded in ${league.name}`);
+  }
+  if (toDateString(input.tradeDate) !== today()) {
+    throw new LeagueError(`Trades in ${league.name} are recorded on the day they are made`);
+  }
+  if (league.status !== 'active') {
+    throw new LeagueError(`${league.name} runs from ${league.startDate} to ${league.endDate}`);
+  }
+
+  const assetType = assetTypeOf(input.symbol);
+  if (!league.allowedAssetTypes.includes(assetType)) {
+    throw new LeagueError(`${league.name} does not allow ${assetType} trades`);
+  }
+
+  // Market fills are at the current quote already
+  if (!input.executedAt) {
+    if (league.requireVerified) {
+      throw new LeagueError(`Trades in ${league.name} are placed as market orders`);
+    }
+    const quote = (await getQuotes([input.symbol])).get(input.symbol);
+    if (!quote) {
+      throw new LeagueError(`No current price for ${input.symbol}, which ${league.name} trades at`);
+    }
+    if (Math.abs(percentage(subtract(input.price, quote.price), quote.price)) > PRICE_TOLERANCE_PERCENT) {
+      throw new LeagueError(`Trades in ${league.name} are at the market price (${input.symbol} is at ${quote.price})`);
+    }
+  }
+
+  if (input.entryType === 'buy') {
+    const cost = multiply(input.quantity, input.price);
+    const { balance } = await getCashBalance(userId, undefined, input.portfolioId);
+    if (cost > balance + 0.005) {
+      throw new LeagueError(`Not enough cash: this costs ${cost} and the balance is ${balance}`);
+    }
+
+    if (league.maxPositionPercent !== null) {
+      const sql = createSqlClient();
+      const holding = await sql`
+        SELECT COALESCE(SUM(quantity * purchase_price), 0) AS cost
+        FROM user_stocks
+        WHERE portfolio_id = ${input.portfolioId} AND symbol = ${input.symbol}
+      `;
+      const limit = multiply(league.startingBankroll, league.maxPositionPercent / 100);
+      if (add(holding[0].cost, cost) > limit + 0.005) {
+        throw new LeagueError(
+          `${league.name} limits a position to ${league.maxPositionPercent}% of the bankroll (${limit} at cost)`
+        );
+      }
+    }
+  }
+}
+
+// League trades stand once made: throws a LeagueError for changes to a league portfolio's entries
+export async function checkLeagueCorrection(portfolioId: number) {
+  const league = await getPortfolioLeague(portfolioId);
+  if (league) {
+    throw new LeagueError(`Trades in ${league.name} cannot be changed or removed`);
+  }
+}
+
+// Rank the members of a league by the value of their league portfolio on its
+// end date, or at the latest close while it runs
+async function computeStandings(league: League): Promise<LeagueStanding[]> {
+  const sql = createSqlClient();
+  const members = await sql`
+    SELECT m.user_id, m.portfolio_id, u.username, u.avatar
+    FROM league_members m
+    JOIN users u ON u.id = m.user_id
+    WHERE m.league_id = ${league.id}
+  `;
+
+  const valuationDate = league.endDate < today() ? league.endDate : today();
+  const standings = await Promise.all(members.map(async (member) => {
+    // Nothing is held before the start, when only the bankroll counts
+    const snapshot = valuationDate < league.startDate
+      ? undefined
+      : (await getPortfolioSnapshots(member.user_id, valuationDate, false, member.portfolio_id))[0];
+    const value = snapshot ? add(snapshot.totalValue, snapshot.cash) : league.startingBankroll;
+    return {
+      rank: 0,
+      userId: member.user_id as number,
+      username: member.username as string,
+      avatar: member.avatar ?? null,
+      value,
+      returnPercent: percentage(subtract(value, league.startingBankroll), league.startingBankroll),
+    };
+  }));
+
+  return standings
+    .sort((a, b) => b.returnPercent - a.returnPercent)
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+}
+
+// A league's standings, best first: archived ones once it has ended and been archived
+export async function getLeagueStandings(league: League): Promise<LeagueStanding[]> {
+  if (!league.archivedAt) return computeStandings(league);
+
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT s.*, u.username, u.avatar
+    FROM league_standings s
+    JOIN users u ON u.id = s.user_id
+    WHERE s.league_id = ${league.id}
+    ORDER BY s.rank
+  `;
+  return result.map(row => ({
+    rank: row.rank,
+    userId: row.user_id,
+    username: row.username,
+    avatar: row.avatar ?? null,
+    value: Number(row.final_value),
+    returnPercent: Number(row.return_percent),
+  }));
+}
+
+// Archive the final standings of every league that has ended
+export async function archiveEndedLeagues() {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT * FROM leagues
+    WHERE archived_at IS NULL AND end_date < ${today()}
+    ORDER BY end_date, id
+  `;
+
+  let standings = 0;
+  for (const league of result.map(toLeague)) {
+    const final = await computeStandings(league);
+    await sql.transaction(txn => [
+      ...final.map(standing => txn`
+        INSERT INTO league_standings (league_id, user_id, rank, final_value, return_percent)
+        VALUES (${league.id}, ${standing.userId}, ${standing.rank}, ${standing.value}, ${standing.returnPercent})
+        ON CONFLICT (league_id, user_id) DO NOTHING
+      `),
+      txn`UPDATE leagues SET archived_at = NOW() WHERE id = ${league.id}`,
+    ]);
+    standings += final.length;
+  }
+
+  return { leagues: result.length, standings };
+}
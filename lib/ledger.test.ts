@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { LedgerEntry, LedgerError, replayTrades } from './ledger';
+
+let nextId = 1;
+
+const entry = (changes: Partial<LedgerEntry>): LedgerEntry => ({
+  id: nextId++,
+  userId: 1,
+  portfolioId: 1,
+  symbol: 'AAPL',
+  entryType: 'buy',
+  quantity: 10,
+  price: 100,
+  splitRatio: null,
+  targetSymbol: null,
+  corporateActionId: null,
+  exDate: null,
+  reinvestPrice: null,
+  tradeDate: '2026-01-05',
+  companyName: 'Apple Inc.',
+  assetType: 'stock',
+  note: null,
+  lotMethod: null,
+  lotSelections: null,
+  executedAt: null,
+  supersedesId: null,
+  createdAt: '2026-01-05T15:00:00.000Z',
+  ...changes,
+});
+
+// A buy filled at the market, so its lot is verified
+const marketBuy = (changes: Partial<LedgerEntry> = {}) =>
+  entry({ executedAt: '2026-01-05T15:00:00.000Z', ...changes });
+
+describe('replayTrades', () => {
+  describe('verified lots', () => {
+    it('verifies lots opened by market fills only', () => {
+      const { positions } = replayTrades([
+        marketBuy(),
+        entry({ symbol: 'MSFT', companyName: 'Microsoft Corporation' }),
+      ]);
+      assert.deepEqual(
+        positions.map(position => [position.symbol, position.lots[0].verified]),
+        [['AAPL', true], ['MSFT', false]]
+      );
+    });
+
+    it('verifies lots bought with a reinvested dividend', () => {
+      const { positions } = replayTrades([
+        entry({}),
+        entry({ entryType: 'dividend', tradeDate: '2026-02-12', quantity: 10, price: 0.25, reinvestPrice: 125 }),
+      ]);
+      assert.deepEqual(positions[0].lots.map(lot => lot.verified), [false, true]);
+    });
+  });
+
+  describe('splits', () => {
+    it('multiplies the shares and keeps the cost basis', () => {
+      const { positions } = replayTrades([
+        marketBuy(),
+        entry({ entryType: 'split', tradeDate: '2026-03-02', quantity: 0, price: 0, splitRatio: 4, corporateActionId: 7 }),
+      ]);
+      const [lot] = positions[0].lots;
+      assert.equal(lot.quantity, 40);
+      assert.equal(lot.costPerShare, 25);
+      assert.equal(positions[0].costBasis, 1000);
+      assert.equal(lot.verified, true);
+    });
+
+    it('clears verified on a split entered by hand', () => {
+      const { positions } = replayTrades([
+        marketBuy(),
+        entry({ entryType: 'split', tradeDate: '2026-03-02', quantity: 0, price: 0, splitRatio: 4 }),
+      ]);
+      assert.equal(positions[0].quantity, 40);
+      assert.equal(positions[0].lots[0].verified, false);
+    });
+
+    it('applies a split before the same day\'s trades', () => {
+      const { positions } = replayTrades([
+        entry({}),
+        entry({ entryType: 'sell', tradeDate: '2026-03-02', quantity: 20, price: 30 }),
+        entry({ entryType: 'split', tradeDate: '2026-03-02', quantity: 0, price: 0, splitRatio: 2 }),
+      ]);
+      assert.equal(positions.length, 0);
+    });
+
+    it('refuses a split without a positive ratio', () => {
+      assert.throws(
+        () => replayTrades([entry({}), entry({ entryType: 'split', quantity: 0, price: 0, splitRatio: 0 })]),
+        LedgerError
+      );
+    });
+  });
+
+  describe('conversions', () => {
+    it('moves the lots into the target symbol with the same cost', () => {
+      const buy = marketBuy({ tradeDate: '2026-01-05' });
+      const { positions, realizedGains } = replayTrades([
+        buy,
+        entry({
+          entryType: 'conversion',
+          tradeDate: '2026-04-01',
+          quantity: 10,
+          price: 0,
+          splitRatio: 0.5,
+          targetSymbol: 'NEWCO',
+          companyName: 'NewCo Inc.',
+          corporateActionId: 8,
+        }),
+      ]);
+      assert.equal(positions.length, 1);
+      const [position] = positions;
+      assert.equal(position.symbol, 'NEWCO');
+      assert.equal(position.companyName, 'NewCo Inc.');
+      assert.equal(position.openedAt, '2026-01-05');
+      assert.deepEqual(position.lots, [
+        { lotId: buy.id, symbol: 'NEWCO', acquiredDate: '2026-01-05', quantity: 5, costPerShare: 200, verified: true },
+      ]);
+      assert.deepEqual(realizedGains, []);
+    });
+
+    it('realizes the lots when they are paid out in cash', () => {
+      const { positions, realizedGains, cash } = replayTrades([
+        entry({}),
+        entry({ entryType: 'conversion', tradeDate: '2026-04-01', quantity: 10, price: 120 }),
+      ]);
+      assert.deepEqual(positions, []);
+      assert.equal(realizedGains.length, 1);
+      assert.equal(realizedGains[0].costBasis, 1000);
+      assert.equal(realizedGains[0].proceeds, 1200);
+      assert.equal(realizedGains[0].gain, 200);
+      assert.equal(cash.balance, 1200);
+      assert.equal(cash.postings[cash.postings.length - 1].kind, 'conversion');
+    });
+
+    it('treats cash paid alongside new shares as all gain', () => {
+      const { positions, realizedGains, cash } = replayTrades([
+        entry({}),
+        entry({ entryType: 'conversion', tradeDate: '2026-04-01', quantity: 10, price: 5, splitRatio: 1, targetSymbol: 'NEWCO' }),
+      ]);
+      assert.equal(positions[0].costBasis, 1000);
+      assert.equal(realizedGains[0].costBasis, 0);
+      assert.equal(realizedGains[0].gain, 50);
+      assert.equal(cash.balance, 50);
+    });
+
+    it('refuses a conversion into the same symbol', () => {
+      assert.throws(
+        () => replayTrades([
+          entry({}),
+          entry({ entryType: 'conversion', quantity: 10, price: 0, splitRatio: 2, targetSymbol: 'AAPL' }),
+        ]),
+        LedgerError
+      );
+    });
+  });
+
+  describe('dividends', () => {
+    it('pays a dividend into cash and leaves the position alone', () => {
+      const { positions, cash } = replayTrades([
+        entry({}),
+        entry({ entryType: 'dividend', tradeDate: '2026-02-12', exDate: '2026-02-09', quantity: 10, price: 0.25 }),
+      ]);
+      assert.equal(positions[0].quantity, 10);
+      assert.equal(positions[0].lots.length, 1);
+      assert.equal(cash.balance, 2.5);
+      assert.equal(cash.postings[cash.postings.length - 1].kind, 'dividend');
+    });
+
+    it('buys shares with a reinvested dividend instead of paying cash', () => {
+      const { positions, cash } = replayTrades([
+        entry({}),
+        entry({ entryType: 'dividend', tradeDate: '2026-02-12', quantity: 10, price: 0.25, reinvestPrice: 125 }),
+      ]);
+      assert.equal(positions[0].quantity, 10.02);
+      assert.equal(positions[0].costBasis, 1002.5);
+      assert.equal(cash.balance, 0);
+    });
+  });
+
+  it('replays only the entries up to asOf', () => {
+    const entries = [
+      entry({}),
+      entry({ entryType: 'split', tradeDate: '2026-03-02', quantity: 0, price: 0, splitRatio: 2 }),
+    ];
+    assert.equal(replayTrades(entries, '2026-03-01').positions[0].quantity, 10);
+    assert.equal(replayTrades(entries, '2026-03-02').positions[0].quantity, 20);
+  });
+});
@@ -0,0 +1,528 @@
+/**
+ * Transaction ledger - the source of truth for holdings.
+ *
+ * Every buy, sell, split and transfer is an append-only entry. Corrections are
+ * new entries that supersede an old one, so nothing is ever lost. Positions are
+ * derived by replaying the active entries in trade-date order, which means they
+ * can be reconstructed for any date and recomputed after a past trade changes.
+ *
+ * Each buy or transfer in opens a lot. Sells close lots FIFO, LIFO or by picking
+ * specific lots, and every closed slice of a lot becomes a realized gain.
+ * Dividends are credited as entries too (lib/dividends.ts); a reinvested one
+ * opens a lot of the shares it bought. Corporate actions (lib/corporate-actions.ts)
+ * write splits, and conversions that swap every share held for shares of another
+ * symbol and/or cash.
+ *
+ * The replay also keeps the user's cash account: deposits and withdrawals are
+ * entries of their own, and buys, sells, cash dividends and cash from
+ * conversions post to it. A buy the balance does not cover is funded from
+ * outside for the difference (lib/db.ts refuses that for users who require cash).
+ *
+ * Every entry belongs to one of the user's portfolios (lib/portfolios.ts), and
+ * each portfolio is a ledger of its own: replayTrades takes the entries of a
+ * single portfolio, and replayPortfolios replays each portfolio separately.
+ */
+
+import { add, divide, multiply, QUANTITY_DECIMALS, subtract, sum, sumProducts, toDecimal } from './decimal';
+
+export type LedgerEntryType =
+  | 'buy'
+  | 'sell'
+  | 'split'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'dividend'
+  | 'conversion'
+  | 'deposit'
+  | 'withdrawal';
+
+// The types users can record here; dividends and conversions are only written
+// automatically, and deposits and withdrawals go through the cash account
+export const LEDGER_ENTRY_TYPES: LedgerEntryType[] = ['buy', 'sell', 'split', 'transfer_in', 'transfer_out'];
+
+// Deposits and withdrawals are recorded against this symbol, with the amount as quantity and a price of 1
+export const CASH_SYMBOL = '$CASH';
+
+export const isCashEntry = (entry: { entryType: LedgerEntryType }) =>
+  entry.entryType === 'deposit' || entry.entryType === 'withdrawal';
+
+// How a sell picks the lots it closes
+export type LotMethod = 'fifo' | 'lifo' | 'specific';
+
+export const LOT_METHODS: LotMethod[] = ['fifo', 'lifo', 'specific'];
+
+// For specific-lot sells: how many shares to take from which lot
+export type LotSelection = {
+  lotId: number;
+  quantity: number;
+};
+
+export type LedgerEntry = {
+  id: number;
+  userId: number;
+  portfolioId: number;
+  symbol: string;
+  entryType: LedgerEntryType;
+  // Shares (or coins) moved; unused for splits; for dividends, the shares the dividend was paid on;
+  // for conversions, the shares held when it was recorded
+  quantity: number;
+  // Price per share for buys/sells, cost basis per share for transfers in, amount per share for
+  // dividends, cash paid per share for conversions
+  price: number;
+  // New shares per old share, for splits (e.g. 10 for a 10-for-1 split) and conversions
+  splitRatio: number | null;
+  // Conversions only: the symbol the shares become (null when they are only paid out in cash)
+  targetSymbol: string | null;
+  // Set on entries written by a corporate action
+  corporateActionId: number | null;
+  // Dividends only: the ex-date (tradeDate is the pay date), and the price the
+  // dividend bought more shares at when it was reinvested
+  exDate: string | null;
+  reinvestPrice: number | null;
+  tradeDate: string;
+  companyName: string | null;
+  assetType: string;
+  note: string | null;
+  // Sells only: lot matching method, and the lots picked for 'specific'
+  lotMethod: LotMethod | null;
+  lotSelections: LotSelection[] | null;
+  // When a market order was filled at the current quote (lib/paper-trading.ts); null for
+  // entries typed in by hand and entries written automatically
+  executedAt: string | null;
+  supersedesId: number | null;
+  createdAt: string;
+};
+
+// An open tax lot. Its id is the id of the entry that opened it.
+export type Lot = {
+  lotId: number;
+  symbol: string;
+  acquiredDate: string;
+  quantity: number;
+  costPerShare: number;
+  // Opened at a price the server set: a market fill or a reinvested dividend, and only
+  // changed since by corporate actions (a split entered by hand clears it)
+  verified: boolean;
+};
+
+export type Position = {
+  symbol: string;
+  companyName: string;
+  assetType: string;
+  quantity: number;
+  costBasis: number;
+  averageCost: number;
+  // Date the current position was opened (reset whenever it goes flat)
+  openedAt: string;
+  lastTradeDate: string;
+  lots: Lot[];
+};
+
+// The part of a lot closed by a sell
+export type RealizedGain = {
+  sellEntryId: number;
+  symbol: string;
+  lotId: number;
+  quantity: number;
+  acquiredDate: string;
+  soldDate: string;
+  costBasis: number;
+  proceeds: number;
+  gain: number;
+};
+
+// A change to the cash balance. 'funding' is money brought in from outside to
+// cover a buy the balance did not.
+export type CashPostingKind = 'deposit' | 'withdrawal' | 'funding' | 'buy' | 'sell' | 'dividend' | 'conversion';
+
+export type CashPosting = {
+  entryId: number;
+  date: string;
+  kind: CashPostingKind;
+  // The security bought, sold or paying out; null for deposits, withdrawals and funding
+  symbol: string | null;
+  amount: number;
+  // Balance after the posting
+  balance: number;
+};
+
+export type CashAccount = {
+  balance: number;
+  // Money put in less money taken out (deposits and funding less withdrawals),
+  // plus the cost of shares transferred in less the cost of shares transferred out.
+  // Sales and purchases only move value between cash and holdings, so they leave it alone.
+  contributions: number;
+  postings: CashPosting[];
+};
+
+export type LedgerReplay = {
+  positions: Position[];
+  realizedGains: RealizedGain[];
+  cash: CashAccount;
+};
+
+// Raised when an entry (or a change to a past entry) would make the ledger inconsistent
+export class LedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LedgerError';
+    Object.setPrototypeOf(this, LedgerError.prototype);
+  }
+}
+
+// Quantities below this are treated as zero (below the stored NUMERIC(28, 10) precision)
+const QUANTITY_EPSILON = 1e-9;
+
+// Normalise a date or timestamp to YYYY-MM-DD
+export const toDateString = (value: string | Date): string =>
+  new Date(value).toISOString().split('T')[0];
+
+// Shift a YYYY-MM-DD date by a number of days
+export const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return toDateString(result);
+};
+
+// Cash paid by a dividend entry
+export const dividendAmount = (entry: LedgerEntry) => multiply(entry.quantity, entry.price);
+
+// Shares bought by a reinvested dividend (0 when it was paid out)
+export const reinvestedShares = (entry: LedgerEntry) =>
+  entry.reinvestPrice
+    ? toDecimal(divide(dividendAmount(entry), entry.reinvestPrice)).toDecimalPlaces(QUANTITY_DECIMALS).toNumber()
+    : 0;
+
+// Splits and conversions take effect at the open, so they come before the day's trades.
+// Deposits are available to the day's buys, and withdrawals can use the day's sales.
+const dayOrder = (entry: LedgerEntry) => {
+  switch (entry.entryType) {
+    case 'split':
+    case 'conversion':
+      return 0;
+    case 'deposit':
+      return 1;
+    case 'withdrawal':
+      return 3;
+    default:
+      return 2;
+  }
+};
+
+// Order entries the way they must be applied: by trade date, then corporate actions
+// and deposits first and withdrawals last, then by insertion
+export function sortLedgerEntries(entries: LedgerEntry[]): LedgerEntry[] {
+  return [...entries].sort((a, b) => {
+    const byDate = toDateString(a.tradeDate).localeCompare(toDateString(b.tradeDate));
+    if (byDate !== 0) return byDate;
+    return dayOrder(a) - dayOrder(b) || a.id - b.id;
+  });
+}
+
+// Recompute a position's totals from its lots
+function updateTotals(position: Position, tradeDate: string) {
+  position.quantity = sum(position.lots.map(lot => lot.quantity));
+  position.costBasis = sumProducts(position.lots, lot => lot.quantity, lot => lot.costPerShare);
+  if (position.quantity <= QUANTITY_EPSILON) {
+    position.quantity = 0;
+    position.costBasis = 0;
+  }
+  position.averageCost = divide(position.costBasis, position.quantity);
+  position.lastTradeDate = tradeDate;
+}
+
+// Pick the lots a sell or transfer out closes, as [lot, quantity] pairs
+function matchLots(position: Position, entry: LedgerEntry, tradeDate: string): [Lot, number][] {
+  const method = entry.entryType === 'sell' ? entry.lotMethod || 'fifo' : 'fifo';
+
+  if (method === 'specific') {
+    const selections = entry.lotSelections || [];
+    const selected = sum(selections.map(selection => selection.quantity));
+    if (Math.abs(subtract(selected, entry.quantity)) > QUANTITY_EPSILON) {
+      throw new LedgerError(
+        `Selected lots for the ${entry.symbol} sale on ${tradeDate} add up to ${selected}, not ${entry.quantity}`
+      );
+    }
+
+    return selections.map(selection => {
+      const lot = position.lots.find(open => open.lotId === selection.lotId);
+      if (!lot) {
+        throw new LedgerError(`Lot #${selection.lotId} of ${entry.symbol} is not open on ${tradeDate}`);
+      }
+      if (selection.quantity > lot.quantity + QUANTITY_EPSILON) {
+        throw new LedgerError(
+          `Lot #${selection.lotId} of ${entry.symbol} only has ${lot.quantity} left on ${tradeDate}`
+        );
+      }
+      return [lot, selection.quantity] as [Lot, number];
+    });
+  }
+
+  // Lots are kept in the order they were opened
+  const ordered = method === 'lifo' ? [...position.lots].reverse() : position.lots;
+  const matches: [Lot, number][] = [];
+  let remaining = entry.quantity;
+  for (const lot of ordered) {
+    if (remaining <= QUANTITY_EPSILON) break;
+    const taken = Math.min(lot.quantity, remaining);
+    matches.push([lot, taken]);
+    remaining = subtract(remaining, taken);
+  }
+  return matches;
+}
+
+/**
+ * Replay one portfolio's ledger entries into positions, realized gains and the cash account.
+ * Pass `asOf` (YYYY-MM-DD) to get the state at the end of that day.
+ * Throws a LedgerError if an entry removes more shares (or cash) than are held.
+ */
+export function replayTrades(entries: LedgerEntry[], asOf?: string): LedgerReplay {
+  const positions = new Map<string, Position>();
+  const realizedGains: RealizedGain[] = [];
+  const cash: CashAccount = { balance: 0, contributions: 0, postings: [] };
+
+  const post = (entry: LedgerEntry, kind: CashPostingKind, amount: number, tradeDate: string) => {
+    cash.balance = add(cash.balance, amount);
+    if (kind === 'deposit' || kind === 'withdrawal' || kind === 'funding') {
+      cash.contributions = add(cash.contributions, amount);
+    }
+    const symbol = kind === 'deposit' || kind === 'withdrawal' || kind === 'funding' ? null : entry.symbol;
+    cash.postings.push({ entryId: entry.id, date: tradeDate, kind, symbol, amount, balance: cash.balance });
+  };
+
+  const positionOf = (symbol: string, entry: LedgerEntry, tradeDate: string): Position => {
+    let position = positions.get(symbol);
+    if (!position) {
+      position = {
+        symbol,
+        companyName: entry.companyName || '',
+        assetType: entry.assetType,
+        quantity: 0,
+        costBasis: 0,
+        averageCost: 0,
+        openedAt: tradeDate,
+        lastTradeDate: tradeDate,
+        lots: [],
+      };
+      positions.set(symbol, position);
+    }
+    return position;
+  };
+
+  for (const entry of sortLedgerEntries(entries)) {
+    const tradeDate = toDateString(entry.tradeDate);
+    if (asOf && tradeDate > asOf) break;
+
+    if (entry.entryType === 'deposit') {
+      post(entry, 'deposit', entry.quantity, tradeDate);
+      continue;
+    }
+    if (entry.entryType === 'withdrawal') {
+      if (entry.quantity > cash.balance + QUANTITY_EPSILON) {
+        throw new LedgerError(`Cannot withdraw ${entry.quantity} on ${tradeDate}: only ${cash.balance} in cash`);
+      }
+      post(entry, 'withdrawal', -entry.quantity, tradeDate);
+      continue;
+    }
+
+    const position = positionOf(entry.symbol, entry, tradeDate);
+
+    // A conversion's company name is the name of the symbol it converts into
+    if (entry.companyName && entry.entryType !== 'conversion') {
+      position.companyName = entry.companyName;
+    }
+
+    switch (entry.entryType) {
+      case 'buy':
+      case 'transfer_in': {
+        // Shares transferred in are brought in at their cost; a buy is paid from cash
+        const cost = multiply(entry.quantity, entry.price);
+        if (entry.entryType === 'transfer_in') {
+          cash.contributions = add(cash.contributions, cost);
+        } else {
+          if (cost > cash.balance) {
+            post(entry, 'funding', subtract(cost, cash.balance), tradeDate);
+          }
+          post(entry, 'buy', -cost, tradeDate);
+        }
+        if (position.quantity <= QUANTITY_EPSILON) {
+          position.openedAt = tradeDate;
+        }
+        position.lots.push({
+          lotId: entry.id,
+          symbol: entry.symbol,
+          acquiredDate: tradeDate,
+          quantity: entry.quantity,
+          costPerShare: entry.price,
+          verified: entry.entryType === 'buy' && entry.executedAt !== null,
+        });
+        break;
+      }
+
+      case 'sell':
+      case 'transfer_out': {
+        if (entry.quantity > position.quantity + QUANTITY_EPSILON) {
+          throw new LedgerError(
+            `Cannot remove ${entry.quantity} ${entry.symbol} on ${tradeDate}: only ${position.quantity} held`
+          );
+        }
+        for (const [lot, quantity] of matchLots(position, entry, tradeDate)) {
+          lot.quantity = subtract(lot.quantity, quantity);
+          // Transfers move shares out without selling them, so nothing is realized
+          if (entry.entryType === 'transfer_out') {
+            cash.contributions = subtract(cash.contributions, multiply(quantity, lot.costPerShare));
+          }
+          if (entry.entryType === 'sell') {
+            const costBasis = multiply(quantity, lot.costPerShare);
+            const proceeds = multiply(quantity, entry.price);
+            realizedGains.push({
+              sellEntryId: entry.id,
+              symbol: entry.symbol,
+              lotId: lot.lotId,
+              quantity,
+              acquiredDate: lot.acquiredDate,
+              soldDate: tradeDate,
+              costBasis,
+              proceeds,
+              gain: subtract(proceeds, costBasis),
+            });
+          }
+        }
+        position.lots = position.lots.filter(lot => lot.quantity > QUANTITY_EPSILON);
+        if (entry.entryType === 'sell') {
+          post(entry, 'sell', multiply(entry.quantity, entry.price), tradeDate);
+        }
+        break;
+      }
+
+      case 'dividend': {
+        // A dividend paid out goes to cash and leaves the position as it is
+        const shares = reinvestedShares(entry);
+        if (!entry.reinvestPrice) {
+          post(entry, 'dividend', dividendAmount(entry), tradeDate);
+        }
+        if (shares <= QUANTITY_EPSILON) break;
+        if (position.quantity <= QUANTITY_EPSILON) {
+          position.openedAt = tradeDate;
+        }
+        position.lots.push({
+          lotId: entry.id,
+          symbol: entry.symbol,
+          acquiredDate: tradeDate,
+          quantity: shares,
+          costPerShare: entry.reinvestPrice as number,
+          verified: true,
+        });
+        break;
+      }
+
+      case 'split': {
+        if (!entry.splitRatio || entry.splitRatio <= 0) {
+          throw new LedgerError(`Split for ${entry.symbol} on ${tradeDate} needs a positive ratio`);
+        }
+        // Share count changes, total cost basis does not. Only a split recorded from
+        // corporate_actions keeps lots verified; one entered by hand could inflate them.
+        const ratio = entry.splitRatio;
+        position.lots.forEach(lot => {
+          lot.quantity = multiply(lot.quantity, ratio);
+          lot.costPerShare = divide(lot.costPerShare, ratio);
+          lot.verified = lot.verified && entry.corporateActionId !== null;
+        });
+        break;
+      }
+
+      case 'conversion': {
+        const ratio = entry.splitRatio ?? 0;
+        if (entry.targetSymbol && ratio <= 0) {
+          throw new LedgerError(`Conversion of ${entry.symbol} on ${tradeDate} needs a positive ratio`);
+        }
+        if (entry.targetSymbol === entry.symbol) {
+          throw new LedgerError(`Conversion of ${entry.symbol} on ${tradeDate} must be into another symbol`);
+        }
+
+        // Lots keep their id and acquired date in the new symbol, with the same total cost
+        const target = entry.targetSymbol ? positionOf(entry.targetSymbol, entry, tradeDate) : null;
+        if (target && target.quantity <= QUANTITY_EPSILON && position.lots.length > 0) {
+          target.openedAt = position.openedAt;
+        }
+        if (target && entry.companyName) {
+          target.companyName = entry.companyName;
+        }
+
+        for (const lot of position.lots) {
+          if (target) {
+            target.lots.push({
+              ...lot,
+              symbol: target.symbol,
+              quantity: multiply(lot.quantity, ratio),
+              costPerShare: divide(lot.costPerShare, ratio),
+            });
+          }
+          // Cash is a sale of the lot; when shares are received too they carry
+          // the whole cost basis, so the cash is all gain
+          if (!target || entry.price > 0) {
+            const costBasis = target ? 0 : multiply(lot.quantity, lot.costPerShare);
+            const proceeds = multiply(lot.quantity, entry.price);
+            realizedGains.push({
+              sellEntryId: entry.id,
+              symbol: entry.symbol,
+              lotId: lot.lotId,
+              quantity: lot.quantity,
+              acquiredDate: lot.acquiredDate,
+              soldDate: tradeDate,
+              costBasis,
+              proceeds,
+              gain: subtract(proceeds, costBasis),
+            });
+          }
+        }
+        const cashPaid = sumProducts(position.lots, lot => lot.quantity, () => entry.price);
+        if (cashPaid > 0) {
+          post(entry, 'conversion', cashPaid, tradeDate);
+        }
+        position.lots = [];
+
+        if (target) {
+          target.lots.sort((a, b) => a.acquiredDate.localeCompare(b.acquiredDate) || a.lotId - b.lotId);
+          updateTotals(target, tradeDate);
+        }
+        break;
+      }
+    }
+
+    updateTotals(position, tradeDate);
+  }
+
+  return {
+    positions: Array.from(positions.values())
+      .filter(position => position.quantity > QUANTITY_EPSILON)
+      .sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    realizedGains,
+    cash,
+  };
+}
+
+// Replay ledger entries into the positions held (see replayTrades)
+export function replayLedger(entries: LedgerEntry[], asOf?: string): Position[] {
+  return replayTrades(entries, asOf).positions;
+}
+
+// Split entries by the portfolio they belong to, keeping their order
+export function groupByPortfolio(entries: LedgerEntry[]): Map<number, LedgerEntry[]> {
+  const portfolios = new Map<number, LedgerEntry[]>();
+  for (const entry of entries) {
+    const portfolioEntries = portfolios.get(entry.portfolioId);
+    if (portfolioEntries) {
+      portfolioEntries.push(entry);
+    } else {
+      portfolios.set(entry.portfolioId, [entry]);
+    }
+  }
+  return portfolios;
+}
+
+// Replay each portfolio's entries on their own (see replayTrades), by portfolio id
+export function replayPortfolios(entries: LedgerEntry[], asOf?: string): Map<number, LedgerReplay> {
+  return new Map(Array.from(groupByPortfolio(entries).entries())
+    .map(([portfolioId, portfolioEntries]) => [portfolioId, replayTrades(portfolioEntries, asOf)]));
+}
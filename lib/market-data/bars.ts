@@ -0,0 +1,28 @@
+import { BarInterval, PriceBar } from './types';
+
+// Group daily bars into weekly (from Monday) or monthly bars
+export function groupBars(bars: PriceBar[], interval: BarInterval): PriceBar[] {
+  if (interval === '1d') return bars;
+
+  const groups = new Map<string, PriceBar>();
+  for (const bar of bars) {
+    const date = new Date(`${bar.date}T00:00:00Z`);
+    if (interval === '1wk') {
+      date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    } else {
+      date.setUTCDate(1);
+    }
+    const key = date.toISOString().split('T')[0];
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, { ...bar, date: key });
+    } else {
+      group.high = Math.max(group.high, bar.high);
+      group.low = Math.min(group.low, bar.low);
+      group.close = bar.close;
+      group.adjClose = bar.adjClose;
+      group.volume = (group.volume ?? 0) + (bar.volume ?? 0);
+    }
+  }
+  return Array.from(groups.values());
+}
@@ -0,0 +1,29 @@
+import { getCryptoDisplayName, isCryptoCurrency } from '../crypto-api';
+
+// Market indices that can be asked for by name; any other ticker can be used too
+export const BENCHMARK_INDICES: Record<string, { symbol: string; name: string }> = {
+  sp500: { symbol: '^GSPC', name: 'S&P 500' },
+  nasdaq: { symbol: '^IXIC', name: 'Nasdaq Composite' },
+  dow: { symbol: '^DJI', name: 'Dow Jones Industrial Average' },
+};
+
+// Yahoo style tickers (AAPL, BRK-B, ^GSPC, EURUSD=X) and crypto symbols (@btc)
+const TICKER_PATTERN = /^\^?[A-Z0-9][A-Z0-9.=-]{0,14}$/;
+const CRYPTO_PATTERN = /^@[a-z0-9-]{1,40}$/;
+
+// The symbol and display name for an index name (sp500) or a ticker (QQQ, ^GSPC, @btc).
+// Null when it is neither.
+export function resolveBenchmark(benchmark: string): { symbol: string; name: string } | null {
+  const value = benchmark.trim();
+  const index = BENCHMARK_INDICES[value.toLowerCase()];
+  if (index) return index;
+
+  if (isCryptoCurrency(value)) {
+    const symbol = value.toLowerCase();
+    return CRYPTO_PATTERN.test(symbol) ? { symbol, name: getCryptoDisplayName(symbol) } : null;
+  }
+  const symbol = value.toUpperCase();
+  const known = Object.values(BENCHMARK_INDICES).find(entry => entry.symbol === symbol);
+  if (known) return known;
+  return TICKER_PATTERN.test(symbol) ? { symbol, name: symbol } : null;
+}
@@ -0,0 +1,163 @@
+import { getCoinGeckoId, getCryptoDisplayName } from '../crypto-api';
+import { BarInterval, BarQuery, MarketDataError, MarketDataProvider, PriceBar, Quote, SearchResult } from './types';
+
+// CoinGecko adapter for cryptocurrencies
+
+const COINGECKO_API_BASE = 'https://api.coingecko.com/api/v3';
+
+// CoinGecko accepts up to 100 ids per price request
+const BATCH_SIZE = 100;
+
+async function request(path: string) {
+  const response = await fetch(`${COINGECKO_API_BASE}${path}`, {
+    method: 'GET',
+    headers: {
+      'accept': 'application/json',
+      ...(process.env.COINGECKO_API_KEY ? { 'x-cg-demo-api-key': process.env.COINGECKO_API_KEY } : {}),
+    },
+  });
+
+  if (response.status === 429) {
+    throw new MarketDataError('CoinGecko API rate limit reached', 'rate_limited');
+  }
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new MarketDataError(`CoinGecko API error: ${response.status} ${response.statusText}`, 'unavailable');
+  }
+  return response.json();
+}
+
+const toQuote = (symbol: string, data: any): Quote => ({
+  symbol,
+  price: data.usd,
+  change: null,
+  changePercent: data.usd_24h_change ?? null,
+  previousClose: null,
+  open: null,
+  dayHigh: null,
+  dayLow: null,
+  marketCap: data.usd_market_cap ?? null,
+  volume: data.usd_24h_vol ?? null,
+  name: getCryptoDisplayName(symbol),
+  currency: 'USD',
+  // Crypto trades around the clock
+  marketOpen: true,
+});
+
+const toUnixSeconds = (date: string) => Math.floor(new Date(`${date}T00:00:00Z`).getTime() / 1000);
+
+// First day of the bar a timestamp falls into
+function barStart(timestamp: number, interval: BarInterval): string {
+  const date = new Date(timestamp);
+  if (interval === '1wk') {
+    // Weeks start on Monday
+    date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  } else if (interval === '1mo') {
+    date.setUTCDate(1);
+  }
+  return date.toISOString().split('T')[0];
+}
+
+export const coingeckoProvider: MarketDataProvider = {
+  name: 'coingecko',
+
+  async getQuote(symbol) {
+    const quotes = await coingeckoProvider.getQuotes([symbol]);
+    return quotes.get(symbol) ?? null;
+  },
+
+  async getQuotes(symbols) {
+    const quotes = new Map<string, Quote>();
+
+    for (let i = 0; i < symbols.length; i += BATCH_SIZE) {
+      const batch = symbols.slice(i, i + BATCH_SIZE);
+      const ids = batch.map(getCoinGeckoId);
+      console.log(`Fetching prices for ${batch.length} cryptocurrencies from CoinGecko API`);
+      const data = await request(
+        `/simple/price?ids=${ids.join(',')}&vs_currencies=usd&include_24hr_change=true&include_market_cap=true&include_24hr_vol=true`
+      );
+
+      batch.forEach((symbol, index) => {
+        const price = data?.[ids[index]];
+        if (price && typeof price.usd === 'number') {
+          quotes.set(symbol, toQuote(symbol, price));
+        }
+      });
+    }
+
+    return quotes;
+  },
+
+  async getHistoricalBars(symbol, { from, to, interval = '1d' }: BarQuery) {
+    const id = getCoinGeckoId(symbol);
+    // The range is inclusive, so run to the end of the last day
+    const data = await request(
+      `/coins/${id}/market_chart/range?vs_currency=usd&from=${toUnixSeconds(from)}&to=${toUnixSeconds(to) + 86399}`
+    );
+    if (!data?.prices) return [];
+
+    const volumes = new Map<number, number>((data.total_volumes || []).map(([time, volume]: [number, number]) => [time, volume]));
+
+    // CoinGecko returns price points (hourly for short ranges), so group them into bars
+    const bars = new Map<string, PriceBar>();
+    for (const [time, price] of data.prices as [number, number][]) {
+      const date = barStart(time, interval);
+      const bar = bars.get(date);
+      if (!bar) {
+        bars.set(date, { date, open: price, high: price, low: price, close: price, adjClose: price, volume: volumes.get(time) ?? null });
+      } else {
+        bar.high = Math.max(bar.high, price);
+        bar.low = Math.min(bar.low, price);
+        bar.close = price;
+        bar.adjClose = price;
+        bar.volume = volumes.get(time) ?? bar.volume;
+      }
+    }
+
+    return Array.from(bars.values()).sort((a, b) => a.date.localeCompare(b.date));
+  },
+
+  async search(query) {
+    const data = await request(`/search?query=${encodeURIComponent(query)}`);
+    return (data?.coins || []).map((coin: any): SearchResult => ({
+      symbol: `@${String(coin.symbol).toLowerCase()}`,
+      name: coin.name,
+      assetClass: 'crypto',
+      exchange: '',
+      quoteType: 'CRYPTOCURRENCY',
+      providerId: coin.id,
+      thumb: coin.thumb || null,
+    }));
+  },
+
+  async getProfile(symbol) {
+    const data = await request(
+      `/coins/${getCoinGeckoId(symbol)}?localization=false&tickers=false&market_data=false&community_data=false&developer_data=false`
+    );
+    if (!data) return null;
+    // Every coin is in the one sector; its first CoinGecko category stands in for the industry
+    const categories: string[] = (data.categories || []).filter(Boolean);
+    return {
+      symbol,
+      name: data.name || getCryptoDisplayName(symbol),
+      assetClass: 'crypto',
+      quoteType: 'CRYPTOCURRENCY',
+      sector: 'Cryptocurrency',
+      industry: categories[0] ?? null,
+      country: data.country_origin || null,
+      exchange: null,
+      currency: 'USD',
+    };
+  },
+
+  // Coins pay no dividends
+  async getDividends() {
+    return [];
+  },
+
+  async getSplits() {
+    return [];
+  },
+};
@@ -0,0 +1,259 @@
+import { getCryptoDisplayName, isCryptoCurrency } from '../crypto-api';
+import { groupBars } from './bars';
+import { BarQuery, DividendEvent, MarketDataProvider, PriceBar, Quote, SearchResult, SplitEvent } from './types';
+
+/**
+ * Offline adapter backed by fixtures.
+ *
+ * Prices are generated from each security's reference price with a fixed formula,
+ * so the same symbol and date always give the same price and nothing touches the
+ * network. Stocks only trade on weekdays; crypto trades every day. Securities
+ * with a dividend pay it quarterly, on ex-dates fixed per symbol. Prices are
+ * adjusted for splits the way Yahoo's are, so they are continuous across a split.
+ * Select it with MARKET_DATA_PROVIDER=fixture.
+ */
+
+type FixtureSecurity = {
+  name: string;
+  exchange: string;
+  quoteType: string;
+  // Price on REFERENCE_DATE
+  price: number;
+  // Classification for equities; funds, indices and coins have none
+  sector?: string;
+  industry?: string;
+  country?: string;
+  // Quarterly dividend per share, for the ones that pay one
+  dividend?: number;
+  splits?: { date: string; ratio: number }[];
+};
+
+// Date on which every security trades at its fixture price
+const REFERENCE_DATE = '2024-03-01';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FIXTURE_SECURITIES: Record<string, FixtureSecurity> = {
+  AAPL: { name: 'Apple Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 175.25, sector: 'Technology', industry: 'Consumer Electronics', country: 'United States', dividend: 0.24 },
+  MSFT: { name: 'Microsoft Corporation', exchange: 'NMS', quoteType: 'EQUITY', price: 330.50, sector: 'Technology', industry: 'Software - Infrastructure', country: 'United States', dividend: 0.75 },
+  GOOGL: { name: 'Alphabet Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 140.32, sector: 'Communication Services', industry: 'Internet Content & Information', country: 'United States' },
+  AMZN: { name: 'Amazon.com, Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 175.54, sector: 'Consumer Cyclical', industry: 'Internet Retail', country: 'United States' },
+  META: { name: 'Meta Platforms, Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 473.28, sector: 'Communication Services', industry: 'Internet Content & Information', country: 'United States' },
+  TSLA: { name: 'Tesla, Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 175.34, sector: 'Consumer Cyclical', industry: 'Auto Manufacturers', country: 'United States' },
+  NVDA: { name: 'NVIDIA Corporation', exchange: 'NMS', quoteType: 'EQUITY', price: 818.89, sector: 'Technology', industry: 'Semiconductors', country: 'United States', splits: [{ date: '2024-06-10', ratio: 10 }] },
+  'BRK-B': { name: 'Berkshire Hathaway Inc.', exchange: 'NYQ', quoteType: 'EQUITY', price: 411.56, sector: 'Financial Services', industry: 'Insurance - Diversified', country: 'United States' },
+  JPM: { name: 'JPMorgan Chase & Co.', exchange: 'NYQ', quoteType: 'EQUITY', price: 183.98, sector: 'Financial Services', industry: 'Banks - Diversified', country: 'United States', dividend: 1.15 },
+  V: { name: 'Visa Inc.', exchange: 'NYQ', quoteType: 'EQUITY', price: 275.89, sector: 'Financial Services', industry: 'Credit Services', country: 'United States', dividend: 0.52 },
+  JNJ: { name: 'Johnson & Johnson', exchange: 'NYQ', quoteType: 'EQUITY', price: 147.52, sector: 'Healthcare', industry: 'Drug Manufacturers - General', country: 'United States', dividend: 1.19 },
+  WMT: { name: 'Walmart Inc.', exchange: 'NYQ', quoteType: 'EQUITY', price: 60.20, sector: 'Consumer Defensive', industry: 'Discount Stores', country: 'United States', dividend: 0.21, splits: [{ date: '2024-02-26', ratio: 3 }] },
+  PG: { name: 'The Procter & Gamble Company', exchange: 'NYQ', quoteType: 'EQUITY', price: 160.01, sector: 'Consumer Defensive', industry: 'Household & Personal Products', country: 'United States', dividend: 0.94 },
+  MA: { name: 'Mastercard Incorporated', exchange: 'NYQ', quoteType: 'EQUITY', price: 451.08, sector: 'Financial Services', industry: 'Credit Services', country: 'United States', dividend: 0.66 },
+  UNH: { name: 'UnitedHealth Group Incorporated', exchange: 'NYQ', quoteType: 'EQUITY', price: 492.21, sector: 'Healthcare', industry: 'Healthcare Plans', country: 'United States', dividend: 1.88 },
+  HD: { name: 'The Home Depot, Inc.', exchange: 'NYQ', quoteType: 'EQUITY', price: 345.67, sector: 'Consumer Cyclical', industry: 'Home Improvement Retail', country: 'United States', dividend: 2.09 },
+  BAC: { name: 'Bank of America Corporation', exchange: 'NYQ', quoteType: 'EQUITY', price: 37.45, sector: 'Financial Services', industry: 'Banks - Diversified', country: 'United States', dividend: 0.24 },
+  XOM: { name: 'Exxon Mobil Corporation', exchange: 'NYQ', quoteType: 'EQUITY', price: 112.34, sector: 'Energy', industry: 'Oil & Gas Integrated', country: 'United States', dividend: 0.95 },
+  DIS: { name: 'The Walt Disney Company', exchange: 'NYQ', quoteType: 'EQUITY', price: 111.23, sector: 'Communication Services', industry: 'Entertainment', country: 'United States' },
+  NFLX: { name: 'Netflix, Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 605.78, sector: 'Communication Services', industry: 'Entertainment', country: 'United States' },
+  ADBE: { name: 'Adobe Inc.', exchange: 'NMS', quoteType: 'EQUITY', price: 492.56, sector: 'Technology', industry: 'Software - Application', country: 'United States' },
+  SPY: { name: 'SPDR S&P 500 ETF Trust', exchange: 'PCX', quoteType: 'ETF', price: 512.85, dividend: 1.59 },
+  QQQ: { name: 'Invesco QQQ Trust', exchange: 'NMS', quoteType: 'ETF', price: 439.02, dividend: 0.57 },
+  '^GSPC': { name: 'S&P 500', exchange: 'SNP', quoteType: 'INDEX', price: 5137.08 },
+  '^IXIC': { name: 'NASDAQ Composite', exchange: 'NIM', quoteType: 'INDEX', price: 16274.94 },
+  '^DJI': { name: 'Dow Jones Industrial Average', exchange: 'DJI', quoteType: 'INDEX', price: 39087.38 },
+  '@btc': { name: 'Bitcoin', exchange: '', quoteType: 'CRYPTOCURRENCY', price: 62431.00 },
+  '@eth': { name: 'Ethereum', exchange: '', quoteType: 'CRYPTOCURRENCY', price: 3432.50 },
+  '@sol': { name: 'Solana', exchange: '', quoteType: 'CRYPTOCURRENCY', price: 128.65 },
+  '@doge': { name: 'Dogecoin', exchange: '', quoteType: 'CRYPTOCURRENCY', price: 0.1185 },
+};
+
+const normaliseSymbol = (symbol: string) => (isCryptoCurrency(symbol) ? symbol.toLowerCase() : symbol.toUpperCase());
+
+const dayNumber = (date: string) => Math.round(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+
+const toDateString = (day: number) => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+// Stable per-symbol seed so securities don't all move together
+const seedOf = (symbol: string) =>
+  Array.from(symbol).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 9973, 7);
+
+// Closing price on a day: a slow drift plus two waves around the reference price,
+// scaled down by the splits after REFERENCE_DATE
+function closeOn(symbol: string, security: FixtureSecurity, day: number): number {
+  const seed = seedOf(symbol);
+  const offset = day - dayNumber(REFERENCE_DATE);
+  const drift = 1 + offset * 0.0002;
+  const wave = 1 + 0.06 * Math.sin(offset / 23 + seed) + 0.02 * Math.sin(offset / 3.7 + seed / 7);
+  const price = (security.splits || [])
+    .filter(split => split.date > REFERENCE_DATE)
+    .reduce((adjusted, split) => adjusted / split.ratio, security.price);
+  return Number(Math.max(price * 0.05, price * drift * wave).toFixed(4));
+}
+
+function dailyBar(symbol: string, security: FixtureSecurity, day: number): PriceBar {
+  const close = closeOn(symbol, security, day);
+  const open = closeOn(symbol, security, day - 1);
+  return {
+    date: toDateString(day),
+    open,
+    high: Math.max(open, close),
+    low: Math.min(open, close),
+    close,
+    adjClose: close,
+    volume: 1_000_000 + (seedOf(symbol) * 1_000 + day) % 500_000,
+  };
+}
+
+const tradesOn = (symbol: string, day: number) => {
+  const weekday = new Date(day * DAY_MS).getUTCDay();
+  return isCryptoCurrency(symbol) || (weekday !== 0 && weekday !== 6);
+};
+
+// Ex-dates fall in every third month, on a trading day fixed per symbol, and
+// the dividend is paid two weeks later
+function dividendsBetween(symbol: string, security: FixtureSecurity, from: number, to: number): DividendEvent[] {
+  if (!security.dividend) return [];
+
+  const seed = seedOf(symbol);
+  const events: DividendEvent[] = [];
+  const first = new Date(from * DAY_MS);
+  for (let month = Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), 1); month <= to * DAY_MS;) {
+    const date = new Date(month);
+    if ((date.getUTCMonth() + seed) % 3 === 0) {
+      let day = Math.round(month / DAY_MS) + 4 + (seed % 20);
+      while (!tradesOn(symbol, day)) day++;
+      if (day >= from && day <= to) {
+        events.push({ symbol, exDate: toDateString(day), amount: security.dividend, payDate: toDateString(day + 14) });
+      }
+    }
+    month = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+  return events;
+}
+
+type FixtureOptions = {
+  // The day treated as today for quotes (YYYY-MM-DD); defaults to the real date
+  today?: string;
+  securities?: Record<string, FixtureSecurity>;
+};
+
+export function createFixtureProvider(options: FixtureOptions = {}): MarketDataProvider {
+  const securities = options.securities ?? FIXTURE_SECURITIES;
+  const today = () => options.today ?? new Date().toISOString().split('T')[0];
+
+  const quoteFor = (symbol: string): Quote | null => {
+    const key = normaliseSymbol(symbol);
+    const security = securities[key];
+    if (!security) return null;
+
+    // The latest session on or before today
+    let day = dayNumber(today());
+    while (!tradesOn(key, day)) day--;
+    let previousDay = day - 1;
+    while (!tradesOn(key, previousDay)) previousDay--;
+
+    const bar = dailyBar(key, security, day);
+    const previousClose = closeOn(key, security, previousDay);
+    return {
+      symbol: key,
+      price: bar.close,
+      change: Number((bar.close - previousClose).toFixed(4)),
+      changePercent: Number((((bar.close - previousClose) / previousClose) * 100).toFixed(4)),
+      previousClose,
+      open: bar.open,
+      dayHigh: bar.high,
+      dayLow: bar.low,
+      marketCap: null,
+      volume: bar.volume,
+      name: isCryptoCurrency(key) ? getCryptoDisplayName(key) : security.name,
+      currency: 'USD',
+      // Fixture stocks follow the clock (isMarketOpen)
+      marketOpen: isCryptoCurrency(key) ? true : null,
+    };
+  };
+
+  return {
+    name: 'fixture',
+
+    async getQuote(symbol) {
+      return quoteFor(symbol);
+    },
+
+    async getQuotes(symbols) {
+      const quotes = new Map<string, Quote>();
+      symbols.forEach(symbol => {
+        const quote = quoteFor(symbol);
+        if (quote) quotes.set(symbol, quote);
+      });
+      return quotes;
+    },
+
+    async getHistoricalBars(symbol, { from, to, interval = '1d' }: BarQuery) {
+      const key = normaliseSymbol(symbol);
+      const security = securities[key];
+      if (!security) return [];
+
+      const bars: PriceBar[] = [];
+      const lastDay = Math.min(dayNumber(to), dayNumber(today()));
+      for (let day = dayNumber(from); day <= lastDay; day++) {
+        if (tradesOn(key, day)) bars.push(dailyBar(key, security, day));
+      }
+      return groupBars(bars, interval);
+    },
+
+    async search(query) {
+      const needle = query.trim().toLowerCase();
+      if (!needle) return [];
+
+      // Indices are benchmarks only, like in the Yahoo adapter's search
+      return Object.entries(securities)
+        .filter(([, security]) => security.quoteType !== 'INDEX')
+        .filter(([symbol, security]) =>
+          symbol.toLowerCase().includes(needle) || security.name.toLowerCase().includes(needle))
+        .map(([symbol, security]): SearchResult => ({
+          symbol,
+          name: security.name,
+          assetClass: isCryptoCurrency(symbol) ? 'crypto' : 'stock',
+          exchange: security.exchange,
+          quoteType: security.quoteType,
+          providerId: isCryptoCurrency(symbol) ? symbol.slice(1) : null,
+          thumb: null,
+        }));
+    },
+
+    async getProfile(symbol) {
+      const key = normaliseSymbol(symbol);
+      const security = securities[key];
+      if (!security) return null;
+
+      const crypto = isCryptoCurrency(key);
+      return {
+        symbol: key,
+        name: security.name,
+        assetClass: crypto ? 'crypto' : 'stock',
+        quoteType: security.quoteType,
+        // Same sector the CoinGecko adapter gives every coin
+        sector: crypto ? 'Cryptocurrency' : security.sector ?? null,
+        industry: security.industry ?? null,
+        country: security.country ?? null,
+        exchange: security.exchange || null,
+        currency: 'USD',
+      };
+    },
+
+    async getDividends(symbol, { from, to }: BarQuery) {
+      const key = normaliseSymbol(symbol);
+      const security = securities[key];
+      if (!security) return [];
+
+      return dividendsBetween(key, security, dayNumber(from), Math.min(dayNumber(to), dayNumber(today())));
+    },
+
+    async getSplits(symbol, { from, to }: BarQuery) {
+      const key = normaliseSymbol(symbol);
+      const last = to < today() ? to : today();
+      return (securities[key]?.splits || [])
+        .filter(split => split.date >= from && split.date <= last)
+        .map((split): SplitEvent => ({ symbol: key, date: split.date, ratio: split.ratio }));
+    },
+  };
+}
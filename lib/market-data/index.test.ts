@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isMarketOpen, isQuoteLive, Quote } from '.';
+
+const quote = (symbol: string, marketOpen: boolean | null): Quote => ({
+  symbol,
+  price: 100,
+  change: null,
+  changePercent: null,
+  previousClose: null,
+  open: null,
+  dayHigh: null,
+  dayLow: null,
+  marketCap: null,
+  volume: null,
+  name: null,
+  currency: 'USD',
+  marketOpen,
+});
+
+describe('isMarketOpen', () => {
+  it('is open from 9:30 to 16:00 New York time in winter', () => {
+    // Monday 5 January 2026, UTC-5
+    assert.equal(isMarketOpen(new Date('2026-01-05T14:29:00Z')), false);
+    assert.equal(isMarketOpen(new Date('2026-01-05T14:30:00Z')), true);
+    assert.equal(isMarketOpen(new Date('2026-01-05T20:59:00Z')), true);
+    assert.equal(isMarketOpen(new Date('2026-01-05T21:00:00Z')), false);
+  });
+
+  it('follows daylight saving time in summer', () => {
+    // Monday 6 July 2026, UTC-4
+    assert.equal(isMarketOpen(new Date('2026-07-06T13:29:00Z')), false);
+    assert.equal(isMarketOpen(new Date('2026-07-06T13:30:00Z')), true);
+    assert.equal(isMarketOpen(new Date('2026-07-06T19:59:00Z')), true);
+    assert.equal(isMarketOpen(new Date('2026-07-06T20:00:00Z')), false);
+  });
+
+  it('is closed at weekends', () => {
+    assert.equal(isMarketOpen(new Date('2026-01-03T15:00:00Z')), false);
+    assert.equal(isMarketOpen(new Date('2026-01-04T15:00:00Z')), false);
+  });
+
+  it('uses the New York weekday, not the UTC one', () => {
+    // 01:00 UTC on Saturday is still Friday evening in New York, after the close
+    assert.equal(isMarketOpen(new Date('2026-01-10T01:00:00Z')), false);
+  });
+});
+
+describe('isQuoteLive', () => {
+  const open = new Date('2026-01-05T15:00:00Z');
+  const closed = new Date('2026-01-03T15:00:00Z');
+
+  it('always takes crypto quotes', () => {
+    assert.equal(isQuoteLive(quote('@btc', false), closed), true);
+    assert.equal(isQuoteLive(quote('@btc', null), closed), true);
+  });
+
+  it('follows the provider when it says whether the market is open', () => {
+    // e.g. an exchange holiday on a weekday, which the clock does not know about
+    assert.equal(isQuoteLive(quote('AAPL', false), open), false);
+    assert.equal(isQuoteLive(quote('AAPL', true), closed), true);
+  });
+
+  it('falls back to the clock when the provider does not say', () => {
+    assert.equal(isQuoteLive(quote('AAPL', null), open), true);
+    assert.equal(isQuoteLive(quote('AAPL', null), closed), false);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Market data access.
+ *
+ * Routes ask for a provider by asset class (or by symbol) instead of calling
+ * Yahoo Finance or CoinGecko directly. Set MARKET_DATA_PROVIDER=fixture to serve
+ * every request from the offline fixture adapter.
+ */
+
+import { isCryptoCurrency } from '../crypto-api';
+import { coingeckoProvider } from './coingecko';
+import { createFixtureProvider } from './fixture';
+import { AssetClass, MarketDataProvider, Quote } from './types';
+import { yahooProvider } from './yahoo';
+
+export * from './types';
+export { groupBars } from './bars';
+export { BENCHMARK_INDICES, resolveBenchmark } from './benchmarks';
+export { createFixtureProvider } from './fixture';
+
+let fixtureProvider: MarketDataProvider | null = null;
+let overrideProvider: MarketDataProvider | null = null;
+
+// Use one provider for every asset class (e.g. a fixture provider in a script); pass null to reset
+export function setMarketDataProvider(provider: MarketDataProvider | null) {
+  overrideProvider = provider;
+}
+
+export function getMarketDataProvider(assetClass: AssetClass = 'stock'): MarketDataProvider {
+  if (overrideProvider) {
+    return overrideProvider;
+  }
+  if (process.env.MARKET_DATA_PROVIDER === 'fixture') {
+    fixtureProvider = fixtureProvider ?? createFixtureProvider();
+    return fixtureProvider;
+  }
+  return assetClass === 'crypto' ? coingeckoProvider : yahooProvider;
+}
+
+const newYorkClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  weekday: 'short',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+// Whether it is within the US stock market's regular session: 9:30 to 16:00 New York
+// time, Monday to Friday. Exchange holidays are not known here; quotes say when the
+// market is closed for one (Quote.marketOpen), so check a quote with isQuoteLive.
+export function isMarketOpen(at: Date = new Date()): boolean {
+  const parts = Object.fromEntries(newYorkClock.formatToParts(at).map(part => [part.type, part.value]));
+  if (parts.weekday === 'Sat' || parts.weekday === 'Sun') return false;
+  const minutes = Number(parts.hour) * 60 + Number(parts.minute);
+  return minutes >= 9 * 60 + 30 && minutes < 16 * 60;
+}
+
+// Whether a quote is a price that can be traded at now: crypto always, stocks only in the
+// regular session, as the provider reports it or by the clock when it does not say
+export const isQuoteLive = (quote: Quote, at: Date = new Date()): boolean =>
+  isCryptoCurrency(quote.symbol) || (quote.marketOpen ?? isMarketOpen(at));
+
+export const getProviderForSymbol = (symbol: string) =>
+  getMarketDataProvider(isCryptoCurrency(symbol) ? 'crypto' : 'stock');
+
+// Quotes for a mix of stock and crypto symbols, keyed by symbol
+export async function getQuotes(symbols: string[]): Promise<Map<string, Quote>> {
+  const stocks = symbols.filter(symbol => !isCryptoCurrency(symbol));
+  const cryptos = symbols.filter(symbol => isCryptoCurrency(symbol));
+
+  const results = await Promise.all([
+    stocks.length > 0 ? getMarketDataProvider('stock').getQuotes(stocks) : new Map<string, Quote>(),
+    cryptos.length > 0 ? getMarketDataProvider('crypto').getQuotes(cryptos) : new Map<string, Quote>(),
+  ]);
+  return new Map(results.flatMap(quotes => Array.from(quotes.entries())));
+}
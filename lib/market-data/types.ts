@@ -0,0 +1,115 @@
+/**
+ * Market data provider interface.
+ *
+ * Every price lookup in the app goes through a MarketDataProvider, so the data
+ * source can be swapped (or replaced by fixtures offline) without touching the
+ * routes. Symbols are in the app's own format: stock tickers in upper case,
+ * crypto as '@' plus the lower-case ticker (e.g. '@btc').
+ */
+
+export type AssetClass = 'stock' | 'crypto';
+
+export type Quote = {
+  symbol: string;
+  price: number;
+  change: number | null;
+  changePercent: number | null;
+  previousClose: number | null;
+  open: number | null;
+  dayHigh: number | null;
+  dayLow: number | null;
+  marketCap: number | null;
+  volume: number | null;
+  name: string | null;
+  currency: string | null;
+  // Whether the price is from the market's regular session; null when the provider does not say
+  marketOpen: boolean | null;
+};
+
+export type BarInterval = '1d' | '1wk' | '1mo';
+
+export const BAR_INTERVALS: BarInterval[] = ['1d', '1wk', '1mo'];
+
+// One OHLC bar; date is the first day of the bar (YYYY-MM-DD)
+export type PriceBar = {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  adjClose: number | null;
+  volume: number | null;
+};
+
+export type BarQuery = {
+  // Inclusive date range (YYYY-MM-DD)
+  from: string;
+  to: string;
+  interval?: BarInterval;
+};
+
+export type SearchResult = {
+  symbol: string;
+  name: string;
+  assetClass: AssetClass;
+  exchange: string;
+  quoteType: string;
+  // The provider's own id for the asset, where it differs from the symbol (e.g. CoinGecko's 'bitcoin')
+  providerId: string | null;
+  thumb: string | null;
+};
+
+// What a security is, as opposed to what it costs. Fields the provider does
+// not know are null (funds and indices have no sector, for example).
+export type SecurityProfile = {
+  symbol: string;
+  name: string | null;
+  assetClass: AssetClass;
+  quoteType: string | null;
+  sector: string | null;
+  industry: string | null;
+  country: string | null;
+  exchange: string | null;
+  currency: string | null;
+};
+
+// A cash dividend per share. Holders at the end of the day before exDate are paid on payDate.
+export type DividendEvent = {
+  symbol: string;
+  exDate: string;
+  amount: number;
+  payDate: string | null;
+};
+
+// A stock split on `date`: each share became `ratio` shares (below 1 for a reverse split)
+export type SplitEvent = {
+  symbol: string;
+  date: string;
+  ratio: number;
+};
+
+export interface MarketDataProvider {
+  readonly name: string;
+  // Latest quote, or null if the provider does not know the symbol
+  getQuote(symbol: string): Promise<Quote | null>;
+  // Latest quotes keyed by symbol; unknown symbols are left out
+  getQuotes(symbols: string[]): Promise<Map<string, Quote>>;
+  // Bars in date order; empty if there is no data for the range
+  getHistoricalBars(symbol: string, query: BarQuery): Promise<PriceBar[]>;
+  search(query: string): Promise<SearchResult[]>;
+  // Classification and listing details, or null if the provider does not know the symbol
+  getProfile(symbol: string): Promise<SecurityProfile | null>;
+  // Dividends with an ex-date in the range, in date order; empty for assets that pay none
+  getDividends(symbol: string, query: BarQuery): Promise<DividendEvent[]>;
+  // Splits dated in the range, in date order. Historical bars are already adjusted for them.
+  getSplits(symbol: string, query: BarQuery): Promise<SplitEvent[]>;
+}
+
+// Raised when a provider cannot answer: rate limited, or the upstream API failed
+export class MarketDataError extends Error {
+  constructor(message: string, public readonly code: 'rate_limited' | 'unavailable') {
+    super(message);
+    this.name = 'MarketDataError';
+    Object.setPrototypeOf(this, MarketDataError.prototype);
+  }
+}
@@ -0,0 +1,188 @@
+import yahooFinance from 'yahoo-finance2';
+import { BarQuery, DividendEvent, MarketDataError, MarketDataProvider, PriceBar, Quote, SearchResult, SplitEvent } from './types';
+
+// Yahoo Finance adapter for stocks and ETFs
+
+const isNotFound = (error: unknown) =>
+  error instanceof Error && error.message.includes('Not Found');
+
+const unavailable = (action: string, error: unknown) =>
+  new MarketDataError(
+    `Yahoo Finance ${action} failed: ${error instanceof Error ? error.message : String(error)}`,
+    'unavailable'
+  );
+
+// The day after a YYYY-MM-DD date; Yahoo's period2 is exclusive
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+};
+
+function toQuote(quote: any): Quote | null {
+  if (!quote || typeof quote.regularMarketPrice !== 'number') {
+    return null;
+  }
+  return {
+    symbol: quote.symbol,
+    price: quote.regularMarketPrice,
+    change: quote.regularMarketChange ?? null,
+    changePercent: quote.regularMarketChangePercent ?? null,
+    previousClose: quote.regularMarketPreviousClose ?? null,
+    open: quote.regularMarketOpen ?? null,
+    dayHigh: quote.regularMarketDayHigh ?? null,
+    dayLow: quote.regularMarketDayLow ?? null,
+    marketCap: quote.marketCap ?? null,
+    volume: quote.regularMarketVolume ?? null,
+    name: quote.shortName || quote.longName || null,
+    currency: quote.currency ?? null,
+    // PRE, POST and CLOSED quotes are outside the regular session (weekends and holidays included)
+    marketOpen: typeof quote.marketState === 'string' ? quote.marketState === 'REGULAR' : null,
+  };
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: 'yahoo',
+
+  async getQuote(symbol) {
+    try {
+      return toQuote(await yahooFinance.quote(symbol.toUpperCase()));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw unavailable(`quote for ${symbol}`, error);
+    }
+  },
+
+  async getQuotes(symbols) {
+    const quotes = new Map<string, Quote>();
+    if (symbols.length === 0) return quotes;
+
+    // Key the results by the symbols as the caller passed them
+    const requested = new Map(symbols.map(symbol => [symbol.toUpperCase(), symbol]));
+    try {
+      // A single batch request for all symbols
+      const response = await yahooFinance.quote(Array.from(requested.keys()));
+      for (const raw of Array.isArray(response) ? response : [response]) {
+        const quote = toQuote(raw);
+        if (quote) quotes.set(requested.get(quote.symbol) ?? quote.symbol, quote);
+      }
+    } catch (error) {
+      if (!isNotFound(error)) throw unavailable('batch quote', error);
+    }
+    return quotes;
+  },
+
+  async getHistoricalBars(symbol, { from, to, interval = '1d' }: BarQuery) {
+    try {
+      const rows = await yahooFinance.historical(symbol.toUpperCase(), {
+        period1: from,
+        period2: dayAfter(to),
+        interval,
+      });
+      return rows.map((row): PriceBar => ({
+        date: row.date.toISOString().split('T')[0],
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        adjClose: row.adjClose ?? null,
+        volume: row.volume ?? null,
+      }));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw unavailable(`history for ${symbol}`, error);
+    }
+  },
+
+  async search(query) {
+    try {
+      const result = await yahooFinance.search(query);
+      // Only stocks and ETFs; Yahoo also returns news, futures, currencies, ...
+      return result.quotes
+        .filter((item: any) => item.quoteType === 'EQUITY' || item.quoteType === 'ETF')
+        .map((item: any): SearchResult => ({
+          symbol: item.symbol || '',
+          name: item.shortname || item.longname || item.name || item.symbol || '',
+          assetClass: 'stock',
+          exchange: item.exchange || '',
+          quoteType: item.quoteType || item.typeDisp || '',
+          providerId: null,
+          thumb: null,
+        }));
+    } catch (error) {
+      throw unavailable('search', error);
+    }
+  },
+
+  async getProfile(symbol) {
+    try {
+      const { price, assetProfile } = await yahooFinance.quoteSummary(symbol.toUpperCase(), {
+        modules: ['price', 'assetProfile'],
+      });
+      if (!price) return null;
+      // Funds and indices have no sector or industry in their asset profile
+      return {
+        symbol: price.symbol,
+        name: price.longName || price.shortName || null,
+        assetClass: 'stock',
+        quoteType: price.quoteType || null,
+        sector: assetProfile?.sector || null,
+        industry: assetProfile?.industry || null,
+        country: assetProfile?.country || null,
+        exchange: price.exchange || null,
+        currency: price.currency || null,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw unavailable(`profile for ${symbol}`, error);
+    }
+  },
+
+  async getDividends(symbol, { from, to }: BarQuery) {
+    try {
+      const rows = await yahooFinance.historical(symbol.toUpperCase(), {
+        period1: from,
+        period2: dayAfter(to),
+        events: 'dividends',
+      });
+      // Yahoo's dividend history has no pay dates
+      return rows
+        .map((row): DividendEvent => ({
+          symbol: symbol.toUpperCase(),
+          exDate: row.date.toISOString().split('T')[0],
+          amount: row.dividends,
+          payDate: null,
+        }))
+        .sort((a, b) => a.exDate.localeCompare(b.exDate));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw unavailable(`dividends for ${symbol}`, error);
+    }
+  },
+
+  async getSplits(symbol, { from, to }: BarQuery) {
+    try {
+      const rows = await yahooFinance.historical(symbol.toUpperCase(), {
+        period1: from,
+        period2: dayAfter(to),
+        events: 'split',
+      });
+      // Splits come as "new:old", e.g. "10:1", or "1:20" for a reverse split
+      return rows
+        .map((row): SplitEvent | null => {
+          const [newShares, oldShares] = row.stockSplits.split(':').map(Number);
+          if (!newShares || !oldShares) return null;
+          return {
+            symbol: symbol.toUpperCase(),
+            date: row.date.toISOString().split('T')[0],
+            ratio: newShares / oldShares,
+          };
+        })
+        .filter((split): split is SplitEvent => split !== null)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw unavailable(`splits for ${symbol}`, error);
+    }
+  },
+};
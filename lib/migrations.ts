@@ -0,0 +1,198 @@
+/**
+ * Versioned schema migrations.
+ *
+ * Each file in migrations/ is named NNNN_description.sql and is applied once, in
+ * order, inside its own transaction. Applied versions are recorded in the
+ * schema_migrations table together with a checksum of the file, so editing a
+ * migration after it has run is caught instead of silently ignored.
+ *
+ * Server-only: used by scripts/migrate.ts and /api/admin/migrations. Request
+ * paths never change the schema.
+ */
+
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { Client } from 'pg';
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+
+// Arbitrary key for the advisory lock that stops two runners applying migrations at once
+const MIGRATION_LOCK_ID = 7305001;
+
+const MIGRATION_FILE_PATTERN = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+export type Migration = {
+  version: number;
+  name: string;
+  filename: string;
+  sql: string;
+  checksum: string;
+};
+
+export type AppliedMigration = {
+  version: number;
+  name: string;
+  checksum: string;
+  appliedAt: string;
+};
+
+export type MigrationStatus = {
+  applied: AppliedMigration[];
+  pending: Migration[];
+  // Applied migrations whose file has changed (or disappeared) since
+  changed: AppliedMigration[];
+};
+
+// Raised when the migration files or the recorded history are inconsistent, or a migration fails
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+    Object.setPrototypeOf(this, MigrationError.prototype);
+  }
+}
+
+// Get database URL from environment variables
+const getDatabaseUrl = () => {
+  const url =
+    process.env.DATABASE_URL ||
+    process.env.POSTGRES_URL ||
+    process.env.POSTGRES_URL_NON_POOLING;
+
+  if (!url) {
+    throw new MigrationError('Database connection string missing');
+  }
+  return url;
+};
+
+const checksumOf = (sql: string) => createHash('sha256').update(sql).digest('hex');
+
+// Read the migration files, ordered by version
+export function loadMigrations(dir = MIGRATIONS_DIR): Migration[] {
+  const migrations = readdirSync(dir)
+    .filter(filename => filename.endsWith('.sql'))
+    .map(filename => {
+      const match = filename.match(MIGRATION_FILE_PATTERN);
+      if (!match) {
+        throw new MigrationError(`Migration file ${filename} must be named NNNN_description.sql`);
+      }
+      const sql = readFileSync(path.join(dir, filename), 'utf8');
+      return {
+        version: Number(match[1]),
+        name: match[2],
+        filename,
+        sql,
+        checksum: checksumOf(sql),
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new MigrationError(`Two migrations share version ${migration.version}`);
+    }
+  });
+
+  return migrations;
+}
+
+// Open a dedicated connection; migrations need multi-statement queries and real transactions
+async function connect() {
+  const client = new Client({ connectionString: getDatabaseUrl() });
+  await client.connect();
+  return client;
+}
+
+async function ensureMigrationsTable(client: Client) {
+  await client.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+async function getAppliedMigrations(client: Client): Promise<AppliedMigration[]> {
+  const result = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows.map(row => ({
+    version: row.version,
+    name: row.name,
+    checksum: row.checksum,
+    appliedAt: new Date(row.applied_at).toISOString(),
+  }));
+}
+
+function compareMigrations(migrations: Migration[], applied: AppliedMigration[]): MigrationStatus {
+  const byVersion = new Map(migrations.map(migration => [migration.version, migration]));
+  const appliedVersions = new Set(applied.map(migration => migration.version));
+
+  return {
+    applied,
+    pending: migrations.filter(migration => !appliedVersions.has(migration.version)),
+    changed: applied.filter(migration => byVersion.get(migration.version)?.checksum !== migration.checksum),
+  };
+}
+
+// Compare the migration files with what has been applied, without changing anything
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const migrations = loadMigrations();
+  const client = await connect();
+  try {
+    await ensureMigrationsTable(client);
+    return compareMigrations(migrations, await getAppliedMigrations(client));
+  } finally {
+    await client.end();
+  }
+}
+
+/**
+ * Apply every pending migration in version order and return the ones applied.
+ * Refuses to run if an applied migration has been edited or removed, and stops
+ * at the first failure (that migration is rolled back; earlier ones stay applied).
+ */
+export async function runMigrations(): Promise<Migration[]> {
+  const migrations = loadMigrations();
+  const client = await connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_ID]);
+    await ensureMigrationsTable(client);
+
+    const status = compareMigrations(migrations, await getAppliedMigrations(client));
+    if (status.changed.length > 0) {
+      throw new MigrationError(
+        `Applied migrations have changed since they ran: ${status.changed.map(m => m.version).join(', ')}. ` +
+        'Add a new migration instead of editing an old one.'
+      );
+    }
+
+    const applied: Migration[] = [];
+    for (const migration of status.pending) {
+      console.log(`Applying migration ${migration.filename}...`);
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new MigrationError(
+          `Migration ${migration.filename} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+      applied.push(migration);
+    }
+
+    return applied;
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_ID]).catch(() => undefined);
+    await client.end();
+  }
+}
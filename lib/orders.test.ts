@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isTriggered, Order } from './orders';
+
+const order = (changes: Partial<Order>): Order => ({
+  id: 1,
+  userId: 1,
+  portfolioId: 1,
+  symbol: 'AAPL',
+  companyName: null,
+  side: 'buy',
+  orderType: 'limit',
+  quantity: 10,
+  limitPrice: null,
+  stopPrice: null,
+  trailPercent: null,
+  highWaterMark: null,
+  expiresOn: null,
+  status: 'open',
+  statusReason: null,
+  fillPrice: null,
+  ledgerEntryId: null,
+  filledAt: null,
+  createdAt: '2026-01-05T15:00:00.000Z',
+  ...changes,
+});
+
+describe('isTriggered', () => {
+  it('triggers a buy limit at or below the limit', () => {
+    const buy = order({ side: 'buy', orderType: 'limit', limitPrice: 100 });
+    assert.equal(isTriggered(buy, 100), true);
+    assert.equal(isTriggered(buy, 99.5), true);
+    assert.equal(isTriggered(buy, 100.01), false);
+  });
+
+  it('triggers a sell limit at or above the limit', () => {
+    const sell = order({ side: 'sell', orderType: 'limit', limitPrice: 100 });
+    assert.equal(isTriggered(sell, 100), true);
+    assert.equal(isTriggered(sell, 101), true);
+    assert.equal(isTriggered(sell, 99.99), false);
+  });
+
+  it('triggers a buy stop at or above the stop', () => {
+    const buy = order({ side: 'buy', orderType: 'stop', stopPrice: 100 });
+    assert.equal(isTriggered(buy, 100), true);
+    assert.equal(isTriggered(buy, 101), true);
+    assert.equal(isTriggered(buy, 99.99), false);
+  });
+
+  it('triggers a sell stop at or below the stop', () => {
+    const sell = order({ side: 'sell', orderType: 'stop', stopPrice: 100 });
+    assert.equal(isTriggered(sell, 100), true);
+    assert.equal(isTriggered(sell, 99), true);
+    assert.equal(isTriggered(sell, 100.01), false);
+  });
+
+  it('triggers a trailing stop at the trail below the high-water mark', () => {
+    const sell = order({ side: 'sell', orderType: 'trailing_stop', trailPercent: 10, highWaterMark: 200 });
+    assert.equal(isTriggered(sell, 180), true);
+    assert.equal(isTriggered(sell, 170), true);
+    assert.equal(isTriggered(sell, 180.01), false);
+  });
+
+  it('does not trigger a trailing stop that has not seen a quote yet', () => {
+    const sell = order({ side: 'sell', orderType: 'trailing_stop', trailPercent: 10, highWaterMark: null });
+    assert.equal(isTriggered(sell, 150), false);
+  });
+});
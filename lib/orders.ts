@@ -0,0 +1,449 @@
+import { addStockToUser, createSqlClient, getDefaultPortfolioId, LedgerEntryInput, sellStock } from './db';
+import { divide, multiply, parseQuantity, subtract } from './decimal';
+import { checkLeagueTrade, LeagueError } from './leagues';
+import { LedgerError, toDateString } from './ledger';
+import { isCryptoCurrency } from './crypto-api';
+import { getQuotes, isMarketOpen, isQuoteLive } from './market-data';
+
+/**
+ * Pending orders.
+ *
+ * Besides market orders, which are filled as they are placed
+ * (lib/paper-trading.ts), users can leave orders in the book:
+ *
+ * - limit: buy at or below, or sell at or above, the limit price
+ * - stop: buy at or above, or sell at or below (a stop-loss), the stop price
+ * - trailing_stop: sell once the quote falls the trail percentage below the
+ *   highest quote seen since the order was placed
+ *
+ * Any of them can be good till a date, after which they expire; otherwise they
+ * stay open until filled or cancelled. The match-orders job checks the open
+ * orders against fresh quotes and fills the triggered ones at the quote, as a
+ * market fill with a server timestamp (so the lots they open are verified).
+ * Stock orders are only checked while the market is open; crypto orders on every run.
+ * A triggered order the ledger or a league's rules refuse, such as a buy
+ * without the cash in a paper-trading portfolio, is rejected with the reason.
+ */
+
+export type OrderSide = 'buy' | 'sell';
+
+export const ORDER_SIDES: OrderSide[] = ['buy', 'sell'];
+
+export type OrderType = 'limit' | 'stop' | 'trailing_stop';
+
+export const ORDER_TYPES: OrderType[] = ['limit', 'stop', 'trailing_stop'];
+
+export type OrderStatus = 'open' | 'filled' | 'cancelled' | 'expired' | 'rejected';
+
+export type Order = {
+  id: number;
+  userId: number;
+  portfolioId: number;
+  symbol: string;
+  companyName: string | null;
+  side: OrderSide;
+  orderType: OrderType;
+  quantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  trailPercent: number | null;
+  // The highest quote a trailing stop has seen
+  highWaterMark: number | null;
+  // Good till the end of this day; null for good till cancelled
+  expiresOn: string | null;
+  status: OrderStatus;
+  statusReason: string | null;
+  fillPrice: number | null;
+  ledgerEntryId: number | null;
+  filledAt: string | null;
+  createdAt: string;
+};
+
+export type OrderInput = {
+  // The user's default portfolio when not given
+  portfolioId?: number;
+  symbol: string;
+  companyName: string | null;
+  side: OrderSide;
+  orderType: OrderType;
+  quantity: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  trailPercent: number | null;
+  expiresOn: string | null;
+};
+
+// Raised for orders that cannot be placed, changed or cancelled
+export class OrderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderError';
+    Object.setPrototypeOf(this, OrderError.prototype);
+  }
+}
+
+const today = () => toDateString(new Date());
+
+const numberOrNull = (value: any) => value === null || value === undefined ? null : Number(value);
+
+const toOrder = (row: any): Order => ({
+  id: row.id,
+  userId: row.user_id,
+  portfolioId: row.portfolio_id,
+  symbol: row.symbol,
+  companyName: row.company_name ?? null,
+  side: row.side,
+  orderType: row.order_type,
+  quantity: Number(row.quantity),
+  limitPrice: numberOrNull(row.limit_price),
+  stopPrice: numberOrNull(row.stop_price),
+  trailPercent: numberOrNull(row.trail_percent),
+  highWaterMark: numberOrNull(row.high_water_mark),
+  expiresOn: row.expires_on ? toDateString(row.expires_on) : null,
+  status: row.status,
+  statusReason: row.status_reason ?? null,
+  fillPrice: numberOrNull(row.fill_price),
+  ledgerEntryId: row.ledger_entry_id ?? null,
+  filledAt: row.filled_at ? new Date(row.filled_at).toISOString() : null,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+
+// A positive price from a request body, or a message saying what is wrong
+const parsePrice = (value: unknown, field: string): number | string => {
+  const price = Number(value);
+  return isBlank(value) || !(price > 0) ? `${field} must be a positive number` : price;
+};
+
+/**
+ * Validate an order from a request body, or throw an OrderError. Only the price
+ * fields the order type uses are kept, and the portfolio is left to the caller. The symbol follows /api/portfolio/add:
+ * crypto (assetType 'crypto') is stored as @symbol.
+ */
+export function parseOrderInput(body: any): OrderInput {
+  if (typeof body.symbol !== 'string' || body.symbol.trim() === '') {
+    throw new OrderError('symbol is required');
+  }
+  const symbol = body.assetType === 'crypto' || body.symbol.startsWith('@')
+    ? `@${body.symbol.trim().replace(/^@/, '').toLowerCase()}`
+    : body.symbol.trim().toUpperCase();
+
+  if (!ORDER_SIDES.includes(body.side)) {
+    throw new OrderError(`side must be one of ${ORDER_SIDES.join(', ')}`);
+  }
+  if (!ORDER_TYPES.includes(body.orderType)) {
+    throw new OrderError(`orderType must be one of ${ORDER_TYPES.join(', ')}`);
+  }
+  const side = body.side as OrderSide;
+  const orderType = body.orderType as OrderType;
+
+  const quantity = parseQuantity(body.quantity);
+  if (quantity === null) {
+    throw new OrderError('quantity must be a positive number');
+  }
+
+  let limitPrice: number | null = null;
+  let stopPrice: number | null = null;
+  let trailPercent: number | null = null;
+  if (orderType === 'limit') {
+    const price = parsePrice(body.limitPrice, 'limitPrice');
+    if (typeof price === 'string') throw new OrderError(price);
+    limitPrice = price;
+  } else if (orderType === 'stop') {
+    const price = parsePrice(body.stopPrice, 'stopPrice');
+    if (typeof price === 'string') throw new OrderError(price);
+    stopPrice = price;
+  } else {
+    if (side !== 'sell') {
+      throw new OrderError('Trailing stops are sell orders');
+    }
+    trailPercent = Number(body.trailPercent);
+    if (isBlank(body.trailPercent) || !(trailPercent > 0 && trailPercent < 100)) {
+      throw new OrderError('trailPercent must be more than 0 and less than 100');
+    }
+  }
+
+  let expiresOn: string | null = null;
+  if (!isBlank(body.expiresOn)) {
+    if (typeof body.expiresOn !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(body.expiresOn) ||
+        isNaN(new Date(body.expiresOn).getTime())) {
+      throw new OrderError('expiresOn must be a date (YYYY-MM-DD)');
+    }
+    if (body.expiresOn < today()) {
+      throw new OrderError('expiresOn cannot be in the past');
+    }
+    expiresOn = body.expiresOn;
+  }
+
+  return {
+    symbol,
+    companyName: typeof body.companyName === 'string' && body.companyName.trim() !== '' ? body.companyName.trim() : null,
+    side,
+    orderType,
+    quantity,
+    limitPrice,
+    stopPrice,
+    trailPercent,
+    expiresOn,
+  };
+}
+
+// A sell order can only be placed for shares the portfolio holds
+async function assertHeld(portfolioId: number, symbol: string, quantity: number) {
+  const sql = createSqlClient();
+  const holding = await sql`
+    SELECT quantity FROM user_stocks WHERE portfolio_id = ${portfolioId} AND symbol = ${symbol}
+  `;
+  const held = holding.length > 0 ? Number(holding[0].quantity) : 0;
+  if (quantity > held) {
+    throw new OrderError(held > 0 ? `Only ${held} ${symbol} is held` : `${symbol} is not held in this portfolio`);
+  }
+}
+
+// Put an order in the book
+export async function placeOrder(userId: number, input: OrderInput): Promise<Order> {
+  const portfolioId = input.portfolioId ?? await getDefaultPortfolioId(userId);
+  if (input.side === 'sell') {
+    await assertHeld(portfolioId, input.symbol, input.quantity);
+  }
+
+  // A trailing stop trails from the quote when it is placed
+  let highWaterMark: number | null = null;
+  if (input.orderType === 'trailing_stop') {
+    highWaterMark = (await getQuotes([input.symbol])).get(input.symbol)?.price ?? null;
+  }
+
+  const sql = createSqlClient();
+  const result = await sql`
+    INSERT INTO orders (
+      user_id, portfolio_id, symbol, company_name, side, order_type, quantity,
+      limit_price, stop_price, trail_percent, high_water_mark, expires_on
+    )
+    VALUES (
+      ${userId}, ${portfolioId}, ${input.symbol}, ${input.companyName}, ${input.side}, ${input.orderType},
+      ${input.quantity}, ${input.limitPrice}, ${input.stopPrice}, ${input.trailPercent}, ${highWaterMark},
+      ${input.expiresOn}
+    )
+    RETURNING *
+  `;
+  return toOrder(result[0]);
+}
+
+// A user's orders, newest first, optionally only those with one status or in one portfolio
+export async function listOrders(userId: number, status?: OrderStatus, portfolioId?: number): Promise<Order[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT * FROM orders
+    WHERE user_id = ${userId}
+      AND (${status ?? null}::text IS NULL OR status = ${status ?? null})
+      AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+    ORDER BY created_at DESC, id DESC
+    LIMIT 200
+  `;
+  return result.map(toOrder);
+}
+
+async function getOpenOrder(userId: number, orderId: number): Promise<Order | null> {
+  const sql = createSqlClient();
+  const result = await sql`SELECT * FROM orders WHERE id = ${orderId} AND user_id = ${userId}`;
+  if (result.length === 0) return null;
+
+  const order = toOrder(result[0]);
+  if (order.status !== 'open') {
+    throw new OrderError(`This order is ${order.status}`);
+  }
+  return order;
+}
+
+/**
+ * Change the quantity, prices or expiry of an open order. The changes are
+ * validated as a whole order; the side, type and symbol stay as they are.
+ * Returns null if the user has no such order.
+ */
+export async function modifyOrder(userId: number, orderId: number, changes: any): Promise<Order | null> {
+  const order = await getOpenOrder(userId, orderId);
+  if (!order) return null;
+
+  const input = parseOrderInput({
+    ...order,
+    ...changes,
+    symbol: order.symbol,
+    side: order.side,
+    orderType: order.orderType,
+  });
+  if (order.side === 'sell') {
+    await assertHeld(order.portfolioId, order.symbol, input.quantity);
+  }
+
+  const sql = createSqlClient();
+  const result = await sql`
+    UPDATE orders
+    SET quantity = ${input.quantity}, limit_price = ${input.limitPrice}, stop_price = ${input.stopPrice},
+        trail_percent = ${input.trailPercent}, expires_on = ${input.expiresOn}, updated_at = NOW()
+    WHERE id = ${orderId} AND status = 'open'
+    RETURNING *
+  `;
+  if (result.length === 0) {
+    throw new OrderError('This order was filled or closed while it was being changed');
+  }
+  return toOrder(result[0]);
+}
+
+// Cancel an open order. Returns null if the user has no such order.
+export async function cancelOrder(userId: number, orderId: number): Promise<Order | null> {
+  const order = await getOpenOrder(userId, orderId);
+  if (!order) return null;
+
+  const sql = createSqlClient();
+  const result = await sql`
+    UPDATE orders SET status = 'cancelled', updated_at = NOW()
+    WHERE id = ${orderId} AND status = 'open'
+    RETURNING *
+  `;
+  if (result.length === 0) {
+    throw new OrderError('This order was filled or closed while it was being cancelled');
+  }
+  return toOrder(result[0]);
+}
+
+// Whether the quote has reached an open order
+export function isTriggered(order: Order, price: number): boolean {
+  switch (order.orderType) {
+    case 'limit':
+      return order.side === 'buy' ? price <= order.limitPrice! : price >= order.limitPrice!;
+    case 'stop':
+      return order.side === 'buy' ? price >= order.stopPrice! : price <= order.stopPrice!;
+    case 'trailing_stop': {
+      const stop = divide(multiply(order.highWaterMark ?? price, subtract(100, order.trailPercent!)), 100);
+      return price <= stop;
+    }
+  }
+}
+
+/**
+ * Fill a triggered order at the price. The order is claimed first, so a cancel
+ * at the same moment cannot also succeed; if the ledger or the league refuses
+ * the trade the order is rejected instead, and on any other error it is put
+ * back in the book and the error rethrown.
+ */
+async function fillOrder(order: Order, price: number): Promise<'filled' | 'rejected' | null> {
+  const sql = createSqlClient();
+  const claimed = await sql`
+    UPDATE orders SET status = 'filled', fill_price = ${price}, filled_at = NOW(), updated_at = NOW()
+    WHERE id = ${order.id} AND status = 'open'
+    RETURNING filled_at
+  `;
+  if (claimed.length === 0) return null;
+
+  const executedAt = new Date(claimed[0].filled_at).toISOString();
+  const trade: LedgerEntryInput = {
+    portfolioId: order.portfolioId,
+    symbol: order.symbol,
+    entryType: order.side,
+    quantity: order.quantity,
+    price,
+    tradeDate: toDateString(new Date(executedAt)),
+    executedAt,
+  };
+
+  try {
+    await checkLeagueTrade(order.userId, trade);
+    const ledgerEntryId = order.side === 'buy'
+      ? (await addStockToUser(
+          order.userId,
+          order.symbol,
+          order.companyName ?? '',
+          order.quantity,
+          price,
+          trade.tradeDate,
+          order.symbol.startsWith('@') ? 'crypto' : 'stock',
+          order.portfolioId,
+          executedAt
+        )).ledger_entry_id
+      : (await sellStock(order.userId, {
+          portfolioId: order.portfolioId,
+          symbol: order.symbol,
+          quantity: order.quantity,
+          price,
+          tradeDate: trade.tradeDate,
+          executedAt,
+        })).entry.id;
+    await sql`UPDATE orders SET ledger_entry_id = ${ledgerEntryId} WHERE id = ${order.id}`;
+    return 'filled';
+  } catch (error) {
+    const refused = error instanceof LedgerError || error instanceof LeagueError;
+    await sql`
+      UPDATE orders
+      SET status = ${refused ? 'rejected' : 'open'}, status_reason = ${refused ? (error as Error).message : null},
+          fill_price = NULL, filled_at = NULL, updated_at = NOW()
+      WHERE id = ${order.id}
+    `;
+    if (refused) return 'rejected';
+    throw error;
+  }
+}
+
+/**
+ * Expire the orders whose date has passed, then check the open orders against
+ * a fresh quote: trailing stops move up with the quote, and triggered orders
+ * are filled. Orders without a quote wait for the next run, and stock orders
+ * wait while the market is closed (by the clock, or as their quote reports it
+ * on holidays), when their quote is a pre-market, after-hours or stale price.
+ */
+export async function matchOpenOrders() {
+  const sql = createSqlClient();
+  const expired = await sql`
+    UPDATE orders SET status = 'expired', updated_at = NOW()
+    WHERE status = 'open' AND expires_on < ${today()}
+    RETURNING id
+  `;
+
+  const book = (await sql`SELECT * FROM orders WHERE status = 'open' ORDER BY created_at, id`).map(toOrder);
+  const marketOpen = isMarketOpen();
+  const open = book.filter(order => marketOpen || isCryptoCurrency(order.symbol));
+  const quotes = await getQuotes(Array.from(new Set(open.map(order => order.symbol))));
+
+  const counts = {
+    expired: expired.length,
+    open: book.length,
+    marketClosed: book.length - open.length,
+    filled: 0,
+    rejected: 0,
+    failed: 0,
+  };
+  const userIds = new Set<number>();
+  for (const order of open) {
+    const quote = quotes.get(order.symbol);
+    if (!quote?.price) continue;
+    // The clock says open, but the quote is not from the regular session (a holiday)
+    if (!isQuoteLive(quote)) {
+      counts.marketClosed++;
+      continue;
+    }
+    const price = quote.price;
+
+    let current = order;
+    if (order.orderType === 'trailing_stop' && (order.highWaterMark === null || price > order.highWaterMark)) {
+      await sql`UPDATE orders SET high_water_mark = ${price}, updated_at = NOW() WHERE id = ${order.id}`;
+      current = { ...order, highWaterMark: price };
+    }
+    if (!isTriggered(current, price)) continue;
+
+    try {
+      const result = await fillOrder(current, price);
+      if (result === 'filled') {
+        counts.filled++;
+        userIds.add(order.userId);
+      } else if (result === 'rejected') {
+        counts.rejected++;
+      }
+    } catch (error) {
+      // One order that cannot be filled now should not hold up the rest
+      console.error(`Error filling order ${order.id}:`, error);
+      counts.failed++;
+    }
+  }
+
+  return { ...counts, userIds: Array.from(userIds) };
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createFixtureProvider, setMarketDataProvider } from './market-data';
+import { fillAtMarket, PaperTradeError } from './paper-trading';
+
+// The fixture provider, with quotes that say whether the market is open
+const useQuotes = (marketOpen: boolean | null, price = 187.5) => {
+  const fixture = createFixtureProvider();
+  setMarketDataProvider({
+    ...fixture,
+    async getQuote(symbol) {
+      const quote = await fixture.getQuote(symbol);
+      return quote && { ...quote, price, marketOpen };
+    },
+  });
+};
+
+describe('fillAtMarket', () => {
+  afterEach(() => setMarketDataProvider(null));
+
+  it('fills a stock at the quote while the market is open', async () => {
+    useQuotes(true);
+    const fill = await fillAtMarket('AAPL');
+    assert.equal(fill.price, 187.5);
+    assert.equal(fill.tradeDate, fill.executedAt.split('T')[0]);
+  });
+
+  it('refuses to fill a stock while the market is closed', async () => {
+    useQuotes(false);
+    await assert.rejects(fillAtMarket('AAPL'), PaperTradeError);
+  });
+
+  it('fills crypto whatever the stock market is doing', async () => {
+    useQuotes(false, 64000);
+    const fill = await fillAtMarket('@btc');
+    assert.equal(fill.price, 64000);
+  });
+
+  it('refuses to fill without a price', async () => {
+    useQuotes(true, 0);
+    await assert.rejects(fillAtMarket('AAPL'), PaperTradeError);
+  });
+});
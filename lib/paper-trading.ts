@@ -0,0 +1,58 @@
+import { toDateString } from './ledger';
+import { getProviderForSymbol, isQuoteLive, Quote } from './market-data';
+
+/**
+ * Paper trading.
+ *
+ * A market order is filled at the symbol's current quote from the market data
+ * provider (the same one /api/stocks/price and the crypto price API use), dated
+ * today and stamped with the server's time in the entry's executedAt. The price
+ * and date are never taken from the request, so the lots a fill opens are
+ * verified. Fills cannot be amended or voided afterwards. Stocks only fill in the
+ * market's regular session (isQuoteLive), never at a pre-market, after-hours or
+ * last close price; crypto fills around the clock.
+ *
+ * Any portfolio can take market orders; a paper-trading portfolio
+ * (lib/portfolios.ts) takes nothing else and pays for its buys from its
+ * virtual cash, which is deposited like real cash (lib/cash.ts). Leagues can
+ * require their members to paper trade (lib/leagues.ts).
+ */
+
+export type MarketFill = {
+  price: number;
+  tradeDate: string;
+  executedAt: string;
+};
+
+// Raised when a market order cannot be filled
+export class PaperTradeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaperTradeError';
+    Object.setPrototypeOf(this, PaperTradeError.prototype);
+  }
+}
+
+// Fill a market order for the symbol at its current quote
+export async function fillAtMarket(symbol: string): Promise<MarketFill> {
+  let quote: Quote | null = null;
+  try {
+    quote = await getProviderForSymbol(symbol).getQuote(symbol);
+  } catch (error) {
+    console.error(`Error fetching the quote to fill ${symbol} at:`, error);
+  }
+
+  const price = quote?.price ?? null;
+  if (!quote || !price || !(price > 0)) {
+    throw new PaperTradeError(`No current price for ${symbol}; try again later`);
+  }
+
+  const now = new Date();
+  if (!isQuoteLive(quote, now)) {
+    throw new PaperTradeError(
+      `The market for ${symbol} is closed; market orders fill from 9:30 to 16:00 New York time on trading days, or place a limit order`
+    );
+  }
+
+  return { price, tradeDate: toDateString(now), executedAt: now.toISOString() };
+}
@@ -0,0 +1,81 @@
+import { createSqlClient } from './db';
+import { add, percentage, subtract } from './decimal';
+
+// Portfolio totals shared by /api/portfolio and the scheduled jobs
+
+// Unrealized gains are on open positions, realized gains on lots already sold,
+// and dividend income is every dividend received, paid out or reinvested.
+// The total is all three together, as a percentage of everything ever invested.
+// Net worth is the open positions plus the cash balance.
+export type PortfolioSummary = {
+  totalCurrentValue: number;
+  totalPurchaseValue: number;
+  unrealizedGain: number;
+  unrealizedGainPercentage: number;
+  realizedGain: number;
+  realizedGainPercentage: number;
+  dividendIncome: number;
+  totalGain: number;
+  totalGainPercentage: number;
+  cash: number;
+  netWorth: number;
+};
+
+// Build the summary from open position values, the realized totals, dividend income and the cash balance
+export function summarizePortfolio(
+  totalCurrentValue: number,
+  totalPurchaseValue: number,
+  realized: { realizedGain: number; costBasis: number },
+  dividendIncome = 0,
+  cash = 0
+): PortfolioSummary {
+  const unrealizedGain = subtract(totalCurrentValue, totalPurchaseValue);
+  const totalGain = add(add(unrealizedGain, realized.realizedGain), dividendIncome);
+  return {
+    totalCurrentValue,
+    totalPurchaseValue,
+    unrealizedGain,
+    unrealizedGainPercentage: percentage(unrealizedGain, totalPurchaseValue),
+    realizedGain: realized.realizedGain,
+    realizedGainPercentage: percentage(realized.realizedGain, realized.costBasis),
+    dividendIncome,
+    totalGain,
+    totalGainPercentage: percentage(totalGain, add(totalPurchaseValue, realized.costBasis)),
+    cash,
+    netWorth: add(totalCurrentValue, cash),
+  };
+}
+
+// Store the latest totals for a user in portfolio_summaries
+export async function savePortfolioSummary(userId: number, summary: PortfolioSummary) {
+  const sql = createSqlClient();
+  await sql`
+    INSERT INTO portfolio_summaries (
+      user_id,
+      total_current_value,
+      total_purchase_value,
+      total_gain,
+      total_gain_percentage,
+      cash,
+      net_worth,
+      last_updated
+    ) VALUES (
+      ${userId},
+      ${summary.totalCurrentValue},
+      ${summary.totalPurchaseValue},
+      ${summary.totalGain},
+      ${summary.totalGainPercentage},
+      ${summary.cash},
+      ${summary.netWorth},
+      NOW()
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      total_current_value = EXCLUDED.total_current_value,
+      total_purchase_value = EXCLUDED.total_purchase_value,
+      total_gain = EXCLUDED.total_gain,
+      total_gain_percentage = EXCLUDED.total_gain_percentage,
+      cash = EXCLUDED.cash,
+      net_worth = EXCLUDED.net_worth,
+      last_updated = EXCLUDED.last_updated
+  `;
+}
@@ -0,0 +1,181 @@
+import { createSqlClient, getDefaultPortfolioId } from './db';
+
+/**
+ * Named portfolios.
+ *
+ * A user keeps their trades in one or more portfolios (a retirement account, a
+ * brokerage account, ...). Each ledger entry belongs to a portfolio and each
+ * portfolio is replayed on its own (lib/ledger.ts), so holdings, lots, realized
+ * gains, cash and snapshots are kept per portfolio. Views that are not given a
+ * portfolio add all of a user's portfolios together.
+ *
+ * Every user has a default portfolio, which takes the trades recorded without
+ * choosing one. A paper-trading portfolio only takes market orders and has to
+ * pay for its buys from its cash (lib/paper-trading.ts); it is chosen when the
+ * portfolio is created. On the leaderboard a user is ranked by one chosen portfolio, or
+ * by all of them together when none is chosen.
+ */
+
+export type Portfolio = {
+  id: number;
+  userId: number;
+  name: string;
+  isDefault: boolean;
+  paperTrading: boolean;
+  createdAt: string;
+};
+
+// Raised for portfolio requests that cannot be carried out (unknown id, duplicate name, ...)
+export class PortfolioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PortfolioError';
+    Object.setPrototypeOf(this, PortfolioError.prototype);
+  }
+}
+
+export const MAX_PORTFOLIO_NAME_LENGTH = 50;
+
+const toPortfolio = (row: any): Portfolio => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  isDefault: row.is_default,
+  paperTrading: row.paper_trading === true,
+  createdAt: new Date(row.created_at).toISOString(),
+});
+
+// A trimmed portfolio name, or a PortfolioError
+function normalizeName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim() === '') {
+    throw new PortfolioError('name is required');
+  }
+  if (name.trim().length > MAX_PORTFOLIO_NAME_LENGTH) {
+    throw new PortfolioError(`name must be at most ${MAX_PORTFOLIO_NAME_LENGTH} characters`);
+  }
+  return name.trim();
+}
+
+// A user's portfolios, the default one first
+export async function listPortfolios(userId: number): Promise<Portfolio[]> {
+  await getDefaultPortfolioId(userId);
+
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT * FROM portfolios
+    WHERE user_id = ${userId}
+    ORDER BY is_default DESC, created_at, id
+  `;
+  return result.map(toPortfolio);
+}
+
+// One of the user's portfolios, or null if they have no such portfolio
+export async function getPortfolio(userId: number, portfolioId: number): Promise<Portfolio | null> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT * FROM portfolios WHERE id = ${portfolioId} AND user_id = ${userId}
+  `;
+  return result.length > 0 ? toPortfolio(result[0]) : null;
+}
+
+/**
+ * The portfolio a request asks for: null (all of the user's portfolios) when no
+ * id is given, otherwise the id after checking it is one of the user's.
+ * Throws a PortfolioError for anything else.
+ */
+export async function resolvePortfolioId(userId: number, value: unknown): Promise<number | null> {
+  if (value === undefined || value === null || value === '' || value === 'all') return null;
+
+  const portfolioId = Number(value);
+  if (!Number.isInteger(portfolioId) || portfolioId <= 0 || !(await getPortfolio(userId, portfolioId))) {
+    throw new PortfolioError(`Unknown portfolio: ${value}`);
+  }
+  return portfolioId;
+}
+
+async function assertNameFree(userId: number, name: string, exceptId: number | null = null) {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT id FROM portfolios
+    WHERE user_id = ${userId} AND lower(name) = lower(${name})
+      AND (${exceptId}::int IS NULL OR id <> ${exceptId})
+  `;
+  if (result.length > 0) {
+    throw new PortfolioError(`You already have a portfolio called ${name}`);
+  }
+}
+
+export async function createPortfolio(userId: number, name: unknown, paperTrading = false): Promise<Portfolio> {
+  const portfolioName = normalizeName(name);
+  await getDefaultPortfolioId(userId);
+  await assertNameFree(userId, portfolioName);
+
+  const sql = createSqlClient();
+  const result = await sql`
+    INSERT INTO portfolios (user_id, name, paper_trading)
+    VALUES (${userId}, ${portfolioName}, ${paperTrading})
+    RETURNING *
+  `;
+  return toPortfolio(result[0]);
+}
+
+// Whether a portfolio (the user's default one when not given) only takes market orders
+export async function isPaperTrading(userId: number, portfolioId?: number): Promise<boolean> {
+  const sql = createSqlClient();
+  const id = portfolioId ?? await getDefaultPortfolioId(userId);
+  const result = await sql`SELECT paper_trading FROM portfolios WHERE id = ${id} AND user_id = ${userId}`;
+  return result[0]?.paper_trading === true;
+}
+
+// Returns null if the user has no such portfolio
+export async function renamePortfolio(userId: number, portfolioId: number, name: unknown): Promise<Portfolio | null> {
+  const portfolioName = normalizeName(name);
+  if (!(await getPortfolio(userId, portfolioId))) return null;
+  await assertNameFree(userId, portfolioName, portfolioId);
+
+  const sql = createSqlClient();
+  const result = await sql`
+    UPDATE portfolios SET name = ${portfolioName}
+    WHERE id = ${portfolioId} AND user_id = ${userId}
+    RETURNING *
+  `;
+  return toPortfolio(result[0]);
+}
+
+/**
+ * Delete a portfolio that has never had a trade. The default portfolio and
+ * portfolios with ledger history are kept, since the ledger is never rewritten.
+ * Returns false if the user has no such portfolio.
+ */
+export async function deletePortfolio(userId: number, portfolioId: number): Promise<boolean> {
+  const portfolio = await getPortfolio(userId, portfolioId);
+  if (!portfolio) return false;
+  if (portfolio.isDefault) {
+    throw new PortfolioError('The default portfolio cannot be deleted');
+  }
+
+  const sql = createSqlClient();
+  const entries = await sql`SELECT 1 FROM ledger_entries WHERE portfolio_id = ${portfolioId} LIMIT 1`;
+  if (entries.length > 0) {
+    throw new PortfolioError(`${portfolio.name} has trades recorded in it and is kept for its history`);
+  }
+
+  await sql`DELETE FROM portfolios WHERE id = ${portfolioId} AND user_id = ${userId}`;
+  return true;
+}
+
+// The portfolio a user is ranked by on the leaderboard; null ranks all of their portfolios together
+export async function getLeaderboardPortfolioId(userId: number): Promise<number | null> {
+  const sql = createSqlClient();
+  const result = await sql`SELECT leaderboard_portfolio_id FROM users WHERE id = ${userId}`;
+  return result[0]?.leaderboard_portfolio_id ?? null;
+}
+
+export async function setLeaderboardPortfolioId(userId: number, portfolioId: number | null) {
+  if (portfolioId !== null && !(await getPortfolio(userId, portfolioId))) {
+    throw new PortfolioError(`Unknown portfolio: ${portfolioId}`);
+  }
+
+  const sql = createSqlClient();
+  await sql`UPDATE users SET leaderboard_portfolio_id = ${portfolioId} WHERE id = ${userId}`;
+}
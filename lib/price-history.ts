@@ -0,0 +1,209 @@
+import { createSqlClient } from './db';
+import { isCryptoCurrency } from './crypto-api';
+import { addDays, toDateString } from './ledger';
+import { BarInterval, BENCHMARK_INDICES, getProviderForSymbol, groupBars, PriceBar } from './market-data';
+
+/**
+ * Daily price history stored in Postgres.
+ *
+ * Bars are read from price_bars and only the days outside a symbol's fetched range
+ * (price_bar_coverage) go to the market data provider. Only finished days are
+ * stored; today's bar is always fetched live.
+ */
+
+type Sql = ReturnType<typeof createSqlClient>;
+
+export type Coverage = { firstDate: string; lastDate: string };
+
+export type DateRange = { from: string; to: string };
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Stock symbols are stored upper case, crypto symbols (@btc) lower case
+const normaliseSymbol = (symbol: string) => (isCryptoCurrency(symbol) ? symbol.toLowerCase() : symbol.toUpperCase());
+
+async function getCoverage(sql: Sql, symbol: string): Promise<Coverage | null> {
+  const result = await sql`
+    SELECT first_date, last_date FROM price_bar_coverage WHERE symbol = ${symbol}
+  `;
+  return result.length > 0
+    ? { firstDate: toDateString(result[0].first_date), lastDate: toDateString(result[0].last_date) }
+    : null;
+}
+
+// The days between from and to that have not been fetched yet. Gaps are filled up to
+// the edge of the existing range so the fetched range stays contiguous.
+export function missingRanges(coverage: Coverage | null, from: string, to: string): DateRange[] {
+  if (from > to) return [];
+  if (!coverage) return [{ from, to }];
+
+  const ranges: DateRange[] = [];
+  if (from < coverage.firstDate) {
+    ranges.push({ from, to: addDays(coverage.firstDate, -1) });
+  }
+  if (to > coverage.lastDate) {
+    ranges.push({ from: addDays(coverage.lastDate, 1), to });
+  }
+  return ranges;
+}
+
+async function storeBars(sql: Sql, symbol: string, range: DateRange, bars: PriceBar[], source: string) {
+  if (bars.length > 0) {
+    await sql`
+      INSERT INTO price_bars (symbol, date, open, high, low, close, adj_close, volume, source)
+      SELECT ${symbol}, bar.*, ${source}
+      FROM unnest(
+        ${bars.map(bar => bar.date)}::date[],
+        ${bars.map(bar => bar.open)}::numeric[],
+        ${bars.map(bar => bar.high)}::numeric[],
+        ${bars.map(bar => bar.low)}::numeric[],
+        ${bars.map(bar => bar.close)}::numeric[],
+        ${bars.map(bar => bar.adjClose)}::numeric[],
+        ${bars.map(bar => bar.volume)}::numeric[]
+      ) AS bar
+      ON CONFLICT (symbol, date) DO UPDATE SET
+        open = EXCLUDED.open,
+        high = EXCLUDED.high,
+        low = EXCLUDED.low,
+        close = EXCLUDED.close,
+        adj_close = EXCLUDED.adj_close,
+        volume = EXCLUDED.volume,
+        source = EXCLUDED.source,
+        fetched_at = NOW()
+    `;
+  }
+
+  await sql`
+    INSERT INTO price_bar_coverage (symbol, first_date, last_date)
+    VALUES (${symbol}, ${range.from}, ${range.to})
+    ON CONFLICT (symbol) DO UPDATE SET
+      first_date = LEAST(price_bar_coverage.first_date, EXCLUDED.first_date),
+      last_date = GREATEST(price_bar_coverage.last_date, EXCLUDED.last_date),
+      updated_at = NOW()
+  `;
+}
+
+async function readBars(sql: Sql, symbol: string, from: string, to: string): Promise<PriceBar[]> {
+  const result = await sql`
+    SELECT date, open, high, low, close, adj_close, volume
+    FROM price_bars
+    WHERE symbol = ${symbol} AND date BETWEEN ${from} AND ${to}
+    ORDER BY date
+  `;
+  return result.map(row => ({
+    date: toDateString(row.date),
+    open: Number(row.open),
+    high: Number(row.high),
+    low: Number(row.low),
+    close: Number(row.close),
+    adjClose: row.adj_close === null ? null : Number(row.adj_close),
+    volume: row.volume === null ? null : Number(row.volume),
+  }));
+}
+
+// Fetch and store the finished days between from and to that are not stored yet.
+// Returns the number of bars stored.
+export async function fillPriceHistory(symbol: string, from: string, to: string): Promise<number> {
+  const sql = createSqlClient();
+  const key = normaliseSymbol(symbol);
+  const provider = getProviderForSymbol(key);
+  const lastFinishedDay = addDays(today(), -1);
+
+  let stored = 0;
+  const ranges = missingRanges(await getCoverage(sql, key), from, to < lastFinishedDay ? to : lastFinishedDay);
+  for (const range of ranges) {
+    console.log(`Fetching ${key} price history from ${range.from} to ${range.to} (${provider.name})`);
+    const bars = (await provider.getHistoricalBars(key, { ...range, interval: '1d' }))
+      .filter(bar => bar.date >= range.from && bar.date <= range.to);
+    await storeBars(sql, key, range, bars, provider.name);
+    stored += bars.length;
+  }
+  return stored;
+}
+
+// Daily (or weekly/monthly) bars between two YYYY-MM-DD dates, inclusive
+export async function getPriceBars(symbol: string, from: string, to: string, interval: BarInterval = '1d'): Promise<PriceBar[]> {
+  const key = normaliseSymbol(symbol);
+
+  let fillError: unknown = null;
+  try {
+    await fillPriceHistory(key, from, to);
+  } catch (error) {
+    // Serve whatever is stored; the gap is fetched again next time
+    console.error(`Error filling price history for ${key}:`, error);
+    fillError = error;
+  }
+
+  const bars = await readBars(createSqlClient(), key, from, to);
+  if (bars.length === 0 && fillError) {
+    throw fillError;
+  }
+
+  // Today's bar is still changing, so it comes straight from the provider
+  const currentDay = today();
+  if (from <= currentDay && to >= currentDay) {
+    try {
+      const live = await getProviderForSymbol(key).getHistoricalBars(key, { from: currentDay, to: currentDay });
+      bars.push(...live.filter(bar => bar.date === currentDay));
+    } catch (error) {
+      console.error(`Error fetching today's bar for ${key}:`, error);
+    }
+  }
+
+  return groupBars(bars, interval);
+}
+
+// Closing price on a date (YYYY-MM-DD), or the last close before it when the
+// market was shut that day. Null if there is no bar within lookbackDays.
+export async function getClosingPrice(symbol: string, date: string, lookbackDays = 7): Promise<number | null> {
+  const bars = await getPriceBars(symbol, addDays(date, -lookbackDays), date);
+  const bar = bars.pop();
+  return bar ? bar.close : null;
+}
+
+// Closing price on each of the given dates, from a single range read per symbol
+export async function getClosingPrices(symbol: string, dates: string[], lookbackDays = 7): Promise<Map<string, number | null>> {
+  const prices = new Map<string, number | null>();
+  if (dates.length === 0) return prices;
+
+  const sorted = [...dates].sort();
+  const bars = await getPriceBars(symbol, addDays(sorted[0], -lookbackDays), sorted[sorted.length - 1]);
+  for (const date of sorted) {
+    const earliest = addDays(date, -lookbackDays);
+    const bar = bars.filter(bar => bar.date >= earliest && bar.date <= date).pop();
+    prices.set(date, bar ? bar.close : null);
+  }
+  return prices;
+}
+
+// Store the daily history of every symbol in the ledger, from a week before its first
+// trade, and of the benchmark indices from a week before the first trade of all
+export async function backfillPriceHistory(): Promise<{ symbol: string; stored: number }[]> {
+  const sql = createSqlClient();
+  const symbols = await sql`
+    SELECT symbol, MIN(trade_date) as first_trade_date
+    FROM ledger_entries
+    WHERE entry_type <> 'void'
+    GROUP BY symbol
+    ORDER BY symbol
+  `;
+
+  const ranges = symbols.map(row => ({ symbol: row.symbol as string, from: addDays(toDateString(row.first_trade_date), -7) }));
+  if (ranges.length > 0) {
+    const earliest = ranges.reduce((first, range) => (range.from < first ? range.from : first), ranges[0].from);
+    for (const { symbol } of Object.values(BENCHMARK_INDICES)) {
+      ranges.push({ symbol, from: earliest });
+    }
+  }
+
+  const results = [];
+  for (const { symbol, from } of ranges) {
+    try {
+      results.push({ symbol, stored: await fillPriceHistory(symbol, from, today()) });
+    } catch (error) {
+      console.error(`Error backfilling price history for ${symbol}:`, error);
+      results.push({ symbol, stored: 0 });
+    }
+  }
+  return results;
+}
@@ -185,64 +185,6 @@ export async function clearCacheWithPattern(pattern: string): Promise<number> {
   return count;
 }
 
-/**
- * Specialized functions for leaderboard caching
- */
-
-// Cache leaderboard data - server-side function to update cache from scheduled jobs
-export async function cacheLeaderboardData(timeFrame: string, data: any, expirationSeconds = 600): Promise<boolean> {
-  const key = `leaderboard:${timeFrame}`;
-  
-  // Set timestamp for when the data was last updated
-  const dataWithTimestamp = {
-    data,
-    updatedAt: new Date().toISOString()
-  };
-  
-  return cacheData(key, dataWithTimestamp, expirationSeconds);
-}
-
-// Get cached leaderboard data
-export async function getCachedLeaderboardData(timeFrame: string): Promise<any | null> {
-  const key = `leaderboard:${timeFrame}`;
-  const result = await getCachedData<{data: any, updatedAt: string}>(key);
-  
-  if (result) {
-    console.log(`Using cached leaderboard data for ${timeFrame} (updated at ${result.updatedAt})`);
-    return result.data;
-  }
-  
-  return null;
-}
-
-// Clear leaderboard cache for a specific timeframe or all timeframes
-export async function clearLeaderboardCache(timeFrame?: string): Promise<number> {
-  if (timeFrame) {
-    const key = `leaderboard:${timeFrame}`;
-    if (await existsInCache(key)) {
-      await cacheData(key, null, 0); // Expiry of 0 removes the key
-      console.log(`Cleared leaderboard cache for ${timeFrame}`);
-      return 1;
-    }
-    return 0;
-  } else {
-    // Clear all leaderboard caches
-    return clearCacheWithPattern('leaderboard:*');
-  }
-}
-
-// Get the time when the leaderboard data was last updated
-export async function getLeaderboardLastUpdated(timeFrame: string): Promise<string | null> {
-  const key = `leaderboard:${timeFrame}`;
-  const result = await getCachedData<{data: any, updatedAt: string}>(key);
-  
-  if (result && result.updatedAt) {
-    return result.updatedAt;
-  }
-  
-  return null;
-}
-
 /**
  * Stock price caching functions
  */
@@ -259,69 +201,3 @@ export async function getHistoricalStockPrice(symbol: string, date: string): Pro
   const data = await getCachedData<{ price: number }>(key);
   return data ? data.price : null;
 }
-
-/**
- * Portfolio history caching functions
- */
-
-// Store user portfolio value history
-export async function cachePortfolioValue(userId: number, date: string, value: number) {
-  const key = `user:${userId}:portfolio:${date}`;
-  return cacheData(key, { value }, 60 * 60 * 24 * 90); // 90 days expiration
-}
-
-// Get user portfolio value history for the last N days
-export async function getPortfolioHistory(userId: number, days: number = 7): Promise<{date: string, value: number}[]> {
-  // Try Redis first
-  const client = await getRedisClient();
-  if (client) {
-    try {
-      // Get all keys matching the pattern
-      const keys = await client.keys(`user:${userId}:portfolio:*`);
-      
-      if (keys.length === 0) return [];
-      
-      // Get values for all keys
-      const values = await Promise.all(
-        keys.map(async (key) => {
-          const data = await client.get(key);
-          const date = key.split(':')[3]; // Extract date from key
-          return { key, date, data };
-        })
-      );
-      
-      // Parse values, sort by date (descending) and limit to requested days
-      return values
-        .filter((item) => item.data !== null)
-        .map((item) => ({ 
-          date: item.date, 
-          value: JSON.parse(item.data!).value 
-        }))
-        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-        .slice(0, days);
-    } catch (error) {
-      console.error(`Error retrieving portfolio history for userId ${userId} from Redis:`, error);
-      // Fall back to memory cache
-    }
-  }
-  
-  // Fall back to memory cache implementation
-  const pattern = `user:${userId}:portfolio:`;
-  const entries: {date: string, value: number}[] = [];
-  
-  // Check server memory cache
-  for (const key in serverMemoryCache) {
-    if (key.startsWith(pattern) && serverMemoryCache[key].expiry > Date.now()) {
-      const date = key.split(':')[3]; // Extract date from key
-      entries.push({
-        date,
-        value: serverMemoryCache[key].value.value
-      });
-    }
-  }
-  
-  // Sort by date (descending) and limit to requested days
-  return entries
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    .slice(0, days);
-} 
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { addDays } from './ledger';
+import { PortfolioSnapshot } from './snapshots';
+
+/**
+ * Portfolio returns from daily snapshots.
+ *
+ * The time-weighted return (TWR) chains each day's growth with that day's net
+ * flow taken out, so it measures how the holdings performed regardless of when
+ * or how much money was put in. The money-weighted return (MWR) is the rate that
+ * discounts every flow (and the starting and ending value) to zero, so it also
+ * rewards investing more before a rise. Both are over a period; xirr and
+ * annualizedReturn are the same rates per year.
+ *
+ * All returns are percentages, or null when there is not enough history.
+ */
+
+export const RETURN_PERIODS = ['1W', '1M', 'YTD', '1Y'] as const;
+
+export type ReturnPeriod = typeof RETURN_PERIODS[number];
+
+export type PortfolioReturns = {
+  // First and last snapshot the returns cover
+  from: string | null;
+  to: string | null;
+  twr: number | null;
+  mwr: number | null;
+  // Money-weighted return per year
+  xirr: number | null;
+  // Time-weighted return per year; null for less than a year of history
+  annualizedReturn: number | null;
+  // Time-weighted return over each period ending on the last snapshot; null when
+  // the history does not reach back to the start of the period
+  periods: Record<ReturnPeriod, number | null>;
+};
+
+// The parts of a daily snapshot the returns are computed from
+export type ReturnSnapshot = Pick<PortfolioSnapshot, 'date' | 'totalValue' | 'netFlow'>;
+
+type CashFlow = { date: string; amount: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+
+const toPercentage = (rate: number | null) => (rate === null || !isFinite(rate) ? null : rate * 100);
+
+// Value at the close of `date`: the last snapshot on or before it, 0 before the first trade
+function valueAt(snapshots: ReturnSnapshot[], date: string) {
+  const snapshot = snapshots.filter(snapshot => snapshot.date <= date).pop();
+  return snapshot ? snapshot.totalValue : 0;
+}
+
+// Each day's return with the day's net flow taken out. The flow is treated as
+// arriving before the day's price move, which matches trades being made at that
+// day's prices and valued at its close. Days with nothing invested (e.g. before
+// the first trade, or after everything was sold) have no return.
+export function dailyReturns(snapshots: ReturnSnapshot[]): { date: string; rate: number }[] {
+  const returns: { date: string; rate: number }[] = [];
+  let previousValue = 0;
+
+  for (const snapshot of snapshots) {
+    const invested = previousValue + snapshot.netFlow;
+    if (invested > 0) {
+      returns.push({ date: snapshot.date, rate: snapshot.totalValue / invested - 1 });
+    }
+    previousValue = snapshot.totalValue;
+  }
+  return returns;
+}
+
+// Growth from the close of `start` to the last snapshot
+function timeWeightedRate(snapshots: ReturnSnapshot[], start: string): number | null {
+  const returns = dailyReturns(snapshots).filter(({ date }) => date > start);
+  return returns.length > 0 ? returns.reduce((growth, { rate }) => growth * (1 + rate), 1) - 1 : null;
+}
+
+// Net present value of the flows at a growth rate over the whole period
+function presentValue(flows: CashFlow[], start: string, periodDays: number, rate: number) {
+  return flows.reduce((total, flow) =>
+    total + flow.amount / Math.pow(1 + rate, daysBetween(start, flow.date) / periodDays), 0);
+}
+
+// The rate over the period at which the flows are worth nothing at its start,
+// found by bisection. Null unless money went both in and out.
+function internalRate(flows: CashFlow[], start: string, periodDays: number): number | null {
+  if (!flows.some(flow => flow.amount > 0) || !flows.some(flow => flow.amount < 0)) {
+    return null;
+  }
+
+  let low = -0.999999;
+  let high = 1;
+  const npv = (rate: number) => presentValue(flows, start, periodDays, rate);
+
+  // Widen the range until the value changes sign across it
+  while (Math.sign(npv(low)) === Math.sign(npv(high))) {
+    high *= 2;
+    if (high > 1e6) return null;
+  }
+
+  for (let i = 0; i < 200 && high - low > 1e-12; i++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(npv(middle)) === Math.sign(npv(low))) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Money-weighted growth from the close of `start` to the last snapshot: the
+// value held at the start and every later flow go in, the final value comes out
+function moneyWeightedRate(snapshots: ReturnSnapshot[], start: string): number | null {
+  const end = snapshots[snapshots.length - 1];
+  const periodDays = daysBetween(start, end.date);
+  if (periodDays <= 0) return null;
+
+  const flows: CashFlow[] = [{ date: start, amount: -valueAt(snapshots, start) }];
+  for (const snapshot of snapshots.filter(snapshot => snapshot.date > start)) {
+    flows.push({ date: snapshot.date, amount: -snapshot.netFlow });
+  }
+  flows.push({ date: end.date, amount: end.totalValue });
+
+  return internalRate(flows.filter(flow => flow.amount !== 0), start, periodDays);
+}
+
+// The money-weighted return since the first snapshot. Only the first and last
+// snapshots and the days with a net flow go into it, so the days in between can be left out.
+export function moneyWeightedReturn(snapshots: ReturnSnapshot[]): number | null {
+  if (snapshots.length === 0) return null;
+  return toPercentage(moneyWeightedRate(snapshots, addDays(snapshots[0].date, -1)));
+}
+
+const annualize = (rate: number | null, days: number) =>
+  rate === null || days <= 0 ? null : Math.pow(1 + rate, 365 / days) - 1;
+
+// The day whose close each period is measured from
+function periodStart(period: ReturnPeriod, to: string): string {
+  const date = new Date(`${to}T00:00:00Z`);
+  switch (period) {
+    case '1W':
+      return addDays(to, -7);
+    case '1M':
+      date.setUTCMonth(date.getUTCMonth() - 1);
+      break;
+    case 'YTD':
+      return `${date.getUTCFullYear() - 1}-12-31`;
+    case '1Y':
+      date.setUTCFullYear(date.getUTCFullYear() - 1);
+      break;
+  }
+  return date.toISOString().split('T')[0];
+}
+
+// Returns over a user's full history of daily snapshots (oldest first, one per day)
+export function computeReturns(snapshots: ReturnSnapshot[]): PortfolioReturns {
+  const periods = Object.fromEntries(RETURN_PERIODS.map(period => [period, null])) as Record<ReturnPeriod, number | null>;
+  if (snapshots.length === 0) {
+    return { from: null, to: null, twr: null, mwr: null, xirr: null, annualizedReturn: null, periods };
+  }
+
+  const from = snapshots[0].date;
+  const to = snapshots[snapshots.length - 1].date;
+  // Since inception: measured from the (empty) close before the first trade
+  const inception = addDays(from, -1);
+  const historyDays = daysBetween(inception, to);
+
+  const twr = timeWeightedRate(snapshots, inception);
+  const mwr = moneyWeightedRate(snapshots, inception);
+
+  for (const period of RETURN_PERIODS) {
+    const start = periodStart(period, to);
+    if (start >= from) {
+      periods[period] = toPercentage(timeWeightedRate(snapshots, start));
+    }
+  }
+
+  return {
+    from,
+    to,
+    twr: toPercentage(twr),
+    mwr: toPercentage(mwr),
+    xirr: toPercentage(annualize(mwr, historyDays)),
+    annualizedReturn: historyDays >= 365 ? toPercentage(annualize(twr, historyDays)) : null,
+    periods,
+  };
+}
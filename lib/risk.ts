@@ -0,0 +1,180 @@
+import { addDays } from './ledger';
+import { PriceBar } from './market-data';
+import { dailyReturns } from './returns';
+import { PortfolioSnapshot } from './snapshots';
+
+/**
+ * Risk analytics from daily snapshots and a benchmark's closing prices.
+ *
+ * Portfolio returns are time-weighted (flows taken out) and measured between the
+ * benchmark's trading days, so both series cover the same periods and weekends
+ * do not count as quiet days. Volatility, Sharpe and Sortino are annualized over
+ * 252 trading days; max drawdown is measured on the time-weighted growth, so
+ * selling or adding money is not mistaken for a loss or a recovery.
+ *
+ * Returns, volatility and drawdowns are percentages; ratios, beta and
+ * correlation are plain numbers. Anything without enough data is null.
+ */
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+export type Drawdown = {
+  percentage: number;
+  // Close before the fall, the lowest close, and the first close back at the
+  // peak (null while still below it)
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+};
+
+export type RiskMetrics = {
+  totalReturn: number | null;
+  volatility: number | null;
+  maxDrawdown: Drawdown | null;
+  sharpe: number | null;
+  sortino: number | null;
+};
+
+export type RiskAnalytics = {
+  from: string;
+  to: string | null;
+  // Number of periods (trading days) the metrics are computed over
+  observations: number;
+  // Annual risk-free rate (percentage) Sharpe and Sortino are measured against
+  riskFreeRate: number;
+  portfolio: RiskMetrics;
+  benchmark: (RiskMetrics & { symbol: string }) | null;
+  beta: number | null;
+  correlation: number | null;
+};
+
+type Point = { date: string; value: number };
+
+const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+
+// Sample covariance; the variance when both series are the same
+function covariance(xs: number[], ys: number[]) {
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  return xs.reduce((total, x, i) => total + (x - meanX) * (ys[i] - meanY), 0) / (xs.length - 1);
+}
+
+const compound = (rates: number[]) => rates.reduce((growth, rate) => growth * (1 + rate), 1) - 1;
+
+const isWeekday = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+};
+
+// The largest fall from a previous high, with when it started, bottomed and recovered
+function maxDrawdown(series: Point[]): Drawdown | null {
+  let peak = series[0];
+  let worst: { percentage: number; peak: Point; trough: Point } | null = null;
+
+  for (const point of series) {
+    if (point.value > peak.value) {
+      peak = point;
+    }
+    const fall = peak.value > 0 ? point.value / peak.value - 1 : 0;
+    if (fall < (worst ? worst.percentage : 0)) {
+      worst = { percentage: fall, peak, trough: point };
+    }
+  }
+  if (!worst) return null;
+
+  const { peak: high, trough } = worst;
+  const recovery = series.find(point => point.date > trough.date && point.value >= high.value);
+  return {
+    percentage: worst.percentage * 100,
+    peakDate: high.date,
+    troughDate: trough.date,
+    recoveryDate: recovery ? recovery.date : null,
+  };
+}
+
+function riskMetrics(rates: number[], series: Point[], riskFreeRate: number): RiskMetrics {
+  if (rates.length === 0) {
+    return { totalReturn: null, volatility: null, maxDrawdown: null, sharpe: null, sortino: null };
+  }
+
+  // Daily excess over the risk-free rate, and the annualized mean of it
+  const excess = rates.map(rate => rate - riskFreeRate / 100 / TRADING_DAYS_PER_YEAR);
+  const annualExcess = mean(excess) * TRADING_DAYS_PER_YEAR;
+
+  const volatility = rates.length > 1 ? Math.sqrt(covariance(rates, rates) * TRADING_DAYS_PER_YEAR) : null;
+  // Only the days below the risk-free rate count as risk
+  const downside = Math.sqrt(mean(excess.map(rate => Math.min(0, rate) ** 2)) * TRADING_DAYS_PER_YEAR);
+
+  return {
+    totalReturn: compound(rates) * 100,
+    volatility: volatility !== null ? volatility * 100 : null,
+    maxDrawdown: series.length > 1 ? maxDrawdown(series) : null,
+    sharpe: volatility ? annualExcess / volatility : null,
+    sortino: downside > 0 ? annualExcess / downside : null,
+  };
+}
+
+// Risk metrics for the days after `from` (the close the period is measured from).
+// `snapshots` should reach back to the first trade so each day's flow is known;
+// the benchmark bars should include at least one close on or before `from`.
+export function computeRiskAnalytics(
+  snapshots: PortfolioSnapshot[],
+  benchmark: { symbol: string; bars: PriceBar[] } | null,
+  from: string,
+  riskFreeRate = 0
+): RiskAnalytics {
+  const daily = dailyReturns(snapshots).filter(({ date }) => date > from);
+
+  // Period ends: the benchmark's trading days, or weekdays without a benchmark
+  const closes = benchmark
+    ? [
+        ...benchmark.bars.filter(bar => bar.date <= from).slice(-1),
+        ...benchmark.bars.filter(bar => bar.date > from),
+      ].map(bar => ({ date: bar.date, value: bar.close }))
+    : [];
+  const periodEnds = benchmark ? closes.map(close => close.date) : [from, ...daily.map(({ date }) => date).filter(isWeekday)];
+
+  // Portfolio growth over each period it was invested in, next to the benchmark's
+  const portfolioRates: number[] = [];
+  const benchmarkRates: number[] = [];
+  for (let i = 1; i < periodEnds.length; i++) {
+    const days = daily.filter(({ date }) => date > periodEnds[i - 1] && date <= periodEnds[i]);
+    if (days.length === 0) continue;
+
+    portfolioRates.push(compound(days.map(({ rate }) => rate)));
+    if (benchmark) {
+      benchmarkRates.push(closes[i].value / closes[i - 1].value - 1);
+    }
+  }
+
+  // Growth of 1 invested the close before the first return, for the drawdown
+  let growth = 1;
+  const portfolioSeries: Point[] = daily.length > 0 ? [{ date: addDays(daily[0].date, -1), value: 1 }] : [];
+  for (const { date, rate } of daily) {
+    growth *= 1 + rate;
+    portfolioSeries.push({ date, value: growth });
+  }
+
+  const paired = benchmark && portfolioRates.length > 1;
+  const benchmarkVariance = paired ? covariance(benchmarkRates, benchmarkRates) : 0;
+  const portfolioVariance = paired ? covariance(portfolioRates, portfolioRates) : 0;
+  const covarianceWithBenchmark = paired ? covariance(portfolioRates, benchmarkRates) : 0;
+
+  return {
+    from,
+    to: daily.length > 0 ? daily[daily.length - 1].date : null,
+    observations: portfolioRates.length,
+    riskFreeRate,
+    portfolio: riskMetrics(portfolioRates, portfolioSeries, riskFreeRate),
+    benchmark: benchmark
+      ? {
+          symbol: benchmark.symbol,
+          ...riskMetrics(closes.slice(1).map((close, i) => close.value / closes[i].value - 1), closes, riskFreeRate),
+        }
+      : null,
+    beta: benchmarkVariance > 0 ? covarianceWithBenchmark / benchmarkVariance : null,
+    correlation: benchmarkVariance > 0 && portfolioVariance > 0
+      ? covarianceWithBenchmark / Math.sqrt(benchmarkVariance * portfolioVariance)
+      : null,
+  };
+}
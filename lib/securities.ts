@@ -0,0 +1,249 @@
+import { createSqlClient } from './db';
+import { isCryptoCurrency } from './crypto-api';
+import { getProviderForSymbol, SecurityProfile } from './market-data';
+
+/**
+ * Security metadata: what each symbol is (name, sector, industry, country,
+ * listing), as opposed to what it costs.
+ *
+ * A symbol's profile is fetched from its market data provider the first time it
+ * is asked for and kept in `securities`. Symbols the provider does not know are
+ * stored too, without a classification, so they are not looked up on every
+ * request. Admin corrections in `security_overrides` are laid over the stored
+ * profile on every read.
+ */
+
+type Sql = ReturnType<typeof createSqlClient>;
+
+export type Security = SecurityProfile & {
+  // Provider the profile came from
+  source: string;
+  fetchedAt: string;
+  // Whether an admin override applies to any field
+  overridden: boolean;
+};
+
+// Fields an admin can set; null or missing fields fall back to the provider's
+export type SecurityOverride = Partial<Omit<SecurityProfile, 'symbol'>>;
+
+export const SECURITY_OVERRIDE_FIELDS = [
+  'name',
+  'assetClass',
+  'quoteType',
+  'sector',
+  'industry',
+  'country',
+  'exchange',
+  'currency',
+] as const;
+
+// Stock symbols are stored upper case, crypto symbols (@btc) lower case
+const normaliseSymbol = (symbol: string) => (isCryptoCurrency(symbol) ? symbol.toLowerCase() : symbol.toUpperCase());
+
+function toSecurity(row: any): Security {
+  return {
+    symbol: row.symbol,
+    name: row.name,
+    assetClass: row.asset_class,
+    quoteType: row.quote_type,
+    sector: row.sector,
+    industry: row.industry,
+    country: row.country,
+    exchange: row.exchange,
+    currency: row.currency,
+    source: row.source,
+    fetchedAt: new Date(row.fetched_at).toISOString(),
+    overridden: row.overridden,
+  };
+}
+
+// Stored profiles with any overrides applied; a null sector means every sector
+async function readSecurities(sql: Sql, symbols: string[] | null, sector: string | null = null): Promise<Security[]> {
+  const result = await sql`
+    SELECT
+      s.symbol,
+      COALESCE(o.name, s.name) AS name,
+      COALESCE(o.asset_class, s.asset_class) AS asset_class,
+      COALESCE(o.quote_type, s.quote_type) AS quote_type,
+      COALESCE(o.sector, s.sector) AS sector,
+      COALESCE(o.industry, s.industry) AS industry,
+      COALESCE(o.country, s.country) AS country,
+      COALESCE(o.exchange, s.exchange) AS exchange,
+      COALESCE(o.currency, s.currency) AS currency,
+      s.source,
+      s.fetched_at,
+      o.symbol IS NOT NULL AS overridden
+    FROM securities s
+    LEFT JOIN security_overrides o ON o.symbol = s.symbol
+    WHERE (${symbols}::text[] IS NULL OR s.symbol = ANY(${symbols}::text[]))
+      AND (${sector}::text IS NULL OR COALESCE(o.sector, s.sector) = ${sector})
+    ORDER BY s.symbol
+  `;
+  return result.map(toSecurity);
+}
+
+async function storeProfiles(sql: Sql, profiles: SecurityProfile[], source: string) {
+  if (profiles.length === 0) return;
+
+  await sql`
+    INSERT INTO securities (symbol, name, asset_class, quote_type, sector, industry, country, exchange, currency, source)
+    SELECT profile.*, ${source}
+    FROM unnest(
+      ${profiles.map(profile => profile.symbol)}::text[],
+      ${profiles.map(profile => profile.name)}::text[],
+      ${profiles.map(profile => profile.assetClass)}::text[],
+      ${profiles.map(profile => profile.quoteType)}::text[],
+      ${profiles.map(profile => profile.sector)}::text[],
+      ${profiles.map(profile => profile.industry)}::text[],
+      ${profiles.map(profile => profile.country)}::text[],
+      ${profiles.map(profile => profile.exchange)}::text[],
+      ${profiles.map(profile => profile.currency)}::text[]
+    ) AS profile
+    ON CONFLICT (symbol) DO UPDATE SET
+      name = EXCLUDED.name,
+      asset_class = EXCLUDED.asset_class,
+      quote_type = EXCLUDED.quote_type,
+      sector = EXCLUDED.sector,
+      industry = EXCLUDED.industry,
+      country = EXCLUDED.country,
+      exchange = EXCLUDED.exchange,
+      currency = EXCLUDED.currency,
+      source = EXCLUDED.source,
+      fetched_at = NOW()
+  `;
+}
+
+// Fetch and store the provider's profile of each symbol. A symbol the provider
+// does not know gets an empty profile; a symbol whose lookup fails is left out
+// and tried again next time.
+async function fetchProfiles(sql: Sql, symbols: string[]) {
+  for (const symbol of symbols) {
+    const provider = getProviderForSymbol(symbol);
+    try {
+      console.log(`Fetching security profile for ${symbol} (${provider.name})`);
+      const profile = await provider.getProfile(symbol);
+      await storeProfiles(sql, [{
+        symbol,
+        name: profile?.name ?? null,
+        assetClass: profile?.assetClass ?? (isCryptoCurrency(symbol) ? 'crypto' : 'stock'),
+        quoteType: profile?.quoteType ?? null,
+        sector: profile?.sector ?? null,
+        industry: profile?.industry ?? null,
+        country: profile?.country ?? null,
+        exchange: profile?.exchange ?? null,
+        currency: profile?.currency ?? null,
+      }], provider.name);
+    } catch (error) {
+      console.error(`Error fetching security profile for ${symbol}:`, error);
+    }
+  }
+}
+
+// Securities keyed by symbol as passed in. Symbols seen for the first time are
+// looked up with their provider (unless fetchMissing is false, for long lists
+// such as a fund's constituents); ones that cannot be looked up are left out.
+export async function getSecurities(symbols: string[], fetchMissing = true): Promise<Map<string, Security>> {
+  const securities = new Map<string, Security>();
+  if (symbols.length === 0) return securities;
+
+  const sql = createSqlClient();
+  const keys = Array.from(new Set(symbols.map(normaliseSymbol)));
+
+  let stored = await readSecurities(sql, keys);
+  const missing = keys.filter(key => !stored.some(security => security.symbol === key));
+  if (fetchMissing && missing.length > 0) {
+    await fetchProfiles(sql, missing);
+    stored = await readSecurities(sql, keys);
+  }
+
+  const byKey = new Map(stored.map(security => [security.symbol, security]));
+  symbols.forEach(symbol => {
+    const security = byKey.get(normaliseSymbol(symbol));
+    if (security) securities.set(symbol, security);
+  });
+  return securities;
+}
+
+export async function getSecurity(symbol: string): Promise<Security | null> {
+  return (await getSecurities([symbol])).get(symbol) ?? null;
+}
+
+// Every stored security, or those in one sector (after overrides)
+export async function listSecurities(sector: string | null = null): Promise<Security[]> {
+  return readSecurities(createSqlClient(), null, sector);
+}
+
+// Fetch a symbol's profile again, e.g. after the provider has corrected it
+export async function refreshSecurity(symbol: string): Promise<Security | null> {
+  await fetchProfiles(createSqlClient(), [normaliseSymbol(symbol)]);
+  return getSecurity(symbol);
+}
+
+export async function getSecurityOverride(symbol: string): Promise<SecurityOverride | null> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT name, asset_class, quote_type, sector, industry, country, exchange, currency
+    FROM security_overrides
+    WHERE symbol = ${normaliseSymbol(symbol)}
+  `;
+  if (result.length === 0) return null;
+
+  const row = result[0];
+  return {
+    name: row.name,
+    assetClass: row.asset_class,
+    quoteType: row.quote_type,
+    sector: row.sector,
+    industry: row.industry,
+    country: row.country,
+    exchange: row.exchange,
+    currency: row.currency,
+  };
+}
+
+// Replace a symbol's override; fields left out (or null) fall back to the provider.
+// Returns the security with the override applied.
+export async function setSecurityOverride(symbol: string, override: SecurityOverride): Promise<Security | null> {
+  const sql = createSqlClient();
+  const key = normaliseSymbol(symbol);
+
+  // The override is laid over a stored profile, so make sure there is one
+  if (!(await getSecurity(key))) {
+    return null;
+  }
+
+  await sql`
+    INSERT INTO security_overrides (symbol, name, asset_class, quote_type, sector, industry, country, exchange, currency)
+    VALUES (
+      ${key},
+      ${override.name ?? null},
+      ${override.assetClass ?? null},
+      ${override.quoteType ?? null},
+      ${override.sector ?? null},
+      ${override.industry ?? null},
+      ${override.country ?? null},
+      ${override.exchange ?? null},
+      ${override.currency ?? null}
+    )
+    ON CONFLICT (symbol) DO UPDATE SET
+      name = EXCLUDED.name,
+      asset_class = EXCLUDED.asset_class,
+      quote_type = EXCLUDED.quote_type,
+      sector = EXCLUDED.sector,
+      industry = EXCLUDED.industry,
+      country = EXCLUDED.country,
+      exchange = EXCLUDED.exchange,
+      currency = EXCLUDED.currency,
+      updated_at = NOW()
+  `;
+  return getSecurity(key);
+}
+
+// Returns false if the symbol had no override
+export async function clearSecurityOverride(symbol: string): Promise<boolean> {
+  const sql = createSqlClient();
+  const result = await sql`
+    DELETE FROM security_overrides WHERE symbol = ${normaliseSymbol(symbol)} RETURNING symbol
+  `;
+  return result.length > 0;
+}
@@ -0,0 +1,244 @@
+import { getSplitAdjustments, splitFactor } from './corporate-actions';
+import { createSqlClient, ensureLedgerSeeded, getLedgerEntries } from './db';
+import { multiply, sum } from './decimal';
+import { addDays, dividendAmount, groupByPortfolio, isCashEntry, LedgerEntry, replayTrades, sortLedgerEntries, toDateString } from './ledger';
+import { getClosingPrices } from './price-history';
+
+/**
+ * End-of-day portfolio snapshots.
+ *
+ * A snapshot values the positions a user actually held at the end of a day
+ * (replayed from the ledger) at that day's closing prices, so a position only
+ * counts from the day it was opened. Closes are taken back to the prices before
+ * any later split, to match the shares held then. Snapshots are stored in portfolio_snapshots;
+ * ledger changes delete the snapshots from the changed trade date onwards and
+ * they are recomputed the next time they are read.
+ *
+ * Each of a user's portfolios has snapshots of its own; the snapshots of all of
+ * a user's portfolios together are their per-day sums.
+ */
+
+export type PortfolioSnapshot = {
+  date: string;
+  totalValue: number;
+  costBasis: number;
+  // Cash balance at the end of the day; not part of totalValue
+  cash: number;
+  netFlow: number;
+};
+
+const today = () => toDateString(new Date());
+
+// Value moved into the portfolio by the day's entries, less value moved out.
+// Transfers out carry no price, so they leave at the day's close. A dividend
+// paid out leaves the portfolio as cash; a reinvested one stays in it as shares.
+// So does the cash a conversion (a cash merger or delisting) pays out. Deposits
+// and withdrawals only move cash, so they are not flows of the holdings.
+function netFlowOf(entries: LedgerEntry[], closes: Map<string, Map<string, number | null>>, date: string) {
+  return sum(entries.map(entry => {
+    switch (entry.entryType) {
+      case 'buy':
+      case 'transfer_in':
+        return multiply(entry.quantity, entry.price);
+      case 'sell':
+        return -multiply(entry.quantity, entry.price);
+      case 'transfer_out':
+        return -multiply(entry.quantity, closes.get(entry.symbol)?.get(date) ?? entry.price);
+      case 'dividend':
+        return entry.reinvestPrice ? 0 : -dividendAmount(entry);
+      case 'conversion':
+        return -multiply(entry.quantity, entry.price);
+      default:
+        return 0;
+    }
+  }));
+}
+
+// The days from `from` to `to` (inclusive) that have a snapshot: none before the first trade
+function snapshotDates(sorted: LedgerEntry[], from: string, to: string): string[] {
+  if (sorted.length === 0) return [];
+
+  const firstTrade = toDateString(sorted[0].tradeDate);
+  const dates: string[] = [];
+  for (let date = from < firstTrade ? firstTrade : from; date <= to; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Compute the snapshot for every day from `from` to `to` (YYYY-MM-DD, inclusive)
+export async function computeSnapshots(entries: LedgerEntry[], from: string, to: string): Promise<PortfolioSnapshot[]> {
+  const sorted = sortLedgerEntries(entries);
+  const dates = snapshotDates(sorted, from, to);
+  if (dates.length === 0) return [];
+
+  // Closing prices for every symbol ever held, one range read each
+  const symbols = Array.from(new Set(sorted
+    .filter(entry => !isCashEntry(entry))
+    .flatMap(entry => (entry.targetSymbol ? [entry.symbol, entry.targetSymbol] : [entry.symbol]))));
+  const splits = await getSplitAdjustments(symbols);
+  const closes = new Map<string, Map<string, number | null>>();
+  await Promise.all(symbols.map(async (symbol) => {
+    try {
+      const adjusted = await getClosingPrices(symbol, dates);
+      closes.set(symbol, new Map(Array.from(adjusted.entries()).map(([date, close]) => [
+        date,
+        close === null ? null : multiply(close, splitFactor(splits.get(symbol), date)),
+      ])));
+    } catch (error) {
+      console.error(`Error fetching closing prices for ${symbol}:`, error);
+    }
+  }));
+
+  return dates.map(date => {
+    const { positions, cash } = replayTrades(sorted, date);
+    return {
+      date,
+      // Positions without a price that day are valued at cost
+      totalValue: sum(positions.map(position =>
+        multiply(position.quantity, closes.get(position.symbol)?.get(date) ?? position.averageCost))),
+      costBasis: sum(positions.map(position => position.costBasis)),
+      cash: cash.balance,
+      netFlow: netFlowOf(sorted.filter(entry => toDateString(entry.tradeDate) === date), closes, date),
+    };
+  });
+}
+
+export async function savePortfolioSnapshots(userId: number, portfolioId: number, snapshots: PortfolioSnapshot[]) {
+  if (snapshots.length === 0) return;
+
+  const sql = createSqlClient();
+  await sql`
+    INSERT INTO portfolio_snapshots (user_id, portfolio_id, snapshot_date, total_value, cost_basis, cash, net_flow)
+    SELECT ${userId}, ${portfolioId}, snapshot.*
+    FROM unnest(
+      ${snapshots.map(snapshot => snapshot.date)}::date[],
+      ${snapshots.map(snapshot => snapshot.totalValue)}::numeric[],
+      ${snapshots.map(snapshot => snapshot.costBasis)}::numeric[],
+      ${snapshots.map(snapshot => snapshot.cash)}::numeric[],
+      ${snapshots.map(snapshot => snapshot.netFlow)}::numeric[]
+    ) AS snapshot
+    ON CONFLICT (portfolio_id, snapshot_date) DO UPDATE SET
+      total_value = EXCLUDED.total_value,
+      cost_basis = EXCLUDED.cost_basis,
+      cash = EXCLUDED.cash,
+      net_flow = EXCLUDED.net_flow,
+      computed_at = NOW()
+  `;
+}
+
+// A portfolio_snapshots row, or a sum of rows; NUMERIC columns come back as strings
+type SnapshotRow = {
+  snapshot_date: string | Date;
+  total_value: string;
+  cost_basis: string;
+  cash: string;
+  net_flow: string;
+};
+
+// Map a portfolio_snapshots row to a PortfolioSnapshot
+const toSnapshot = (row: SnapshotRow): PortfolioSnapshot => ({
+  date: toDateString(row.snapshot_date),
+  totalValue: Number(row.total_value),
+  costBasis: Number(row.cost_basis),
+  cash: Number(row.cash),
+  netFlow: Number(row.net_flow),
+});
+
+async function readSnapshots(portfolioId: number, from: string, to: string): Promise<PortfolioSnapshot[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT snapshot_date, total_value, cost_basis, cash, net_flow
+    FROM portfolio_snapshots
+    WHERE portfolio_id = ${portfolioId} AND snapshot_date BETWEEN ${from} AND ${to}
+    ORDER BY snapshot_date
+  `;
+  return (result as SnapshotRow[]).map(toSnapshot);
+}
+
+// A user's stored daily snapshots, oldest first, for one portfolio or all of them
+// added up. Nothing is computed, so days that are not stored yet are left out.
+export async function getStoredSnapshots(userId: number, portfolioId?: number): Promise<PortfolioSnapshot[]> {
+  const sql = createSqlClient();
+  const result = await sql`
+    SELECT
+      snapshot_date,
+      SUM(total_value) as total_value,
+      SUM(cost_basis) as cost_basis,
+      SUM(cash) as cash,
+      SUM(net_flow) as net_flow
+    FROM portfolio_snapshots
+    WHERE user_id = ${userId}
+      AND (${portfolioId ?? null}::int IS NULL OR portfolio_id = ${portfolioId ?? null})
+    GROUP BY snapshot_date
+    ORDER BY snapshot_date
+  `;
+  return (result as SnapshotRow[]).map(toSnapshot);
+}
+
+// One portfolio's snapshots from `from` (or its first trade, when null) to today
+async function portfolioSnapshots(
+  userId: number,
+  portfolioId: number,
+  entries: LedgerEntry[],
+  from: string | null,
+  recompute: boolean
+): Promise<PortfolioSnapshot[]> {
+  const to = today();
+  const sorted = sortLedgerEntries(entries);
+  if (sorted.length === 0) return [];
+
+  const start = from ?? toDateString(sorted[0].tradeDate);
+  const stored = recompute ? [] : (await readSnapshots(portfolioId, start, to)).filter(snapshot => snapshot.date < to);
+
+  // Days from the first gap onwards need computing
+  const storedDates = new Set(stored.map(snapshot => snapshot.date));
+  const firstMissing = snapshotDates(sorted, start, to).find(date => !storedDates.has(date));
+  if (!firstMissing) return stored;
+
+  const computed = await computeSnapshots(sorted, firstMissing, to);
+  await savePortfolioSnapshots(userId, portfolioId, computed);
+  return [...stored.filter(snapshot => snapshot.date < firstMissing), ...computed];
+}
+
+// Add up the snapshots of several portfolios day by day
+function sumSnapshots(series: PortfolioSnapshot[][]): PortfolioSnapshot[] {
+  const byDate = new Map<string, PortfolioSnapshot[]>();
+  for (const snapshot of series.flat()) {
+    const daySnapshots = byDate.get(snapshot.date);
+    if (daySnapshots) {
+      daySnapshots.push(snapshot);
+    } else {
+      byDate.set(snapshot.date, [snapshot]);
+    }
+  }
+  return Array.from(byDate.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([date, snapshots]) => ({
+      date,
+      totalValue: sum(snapshots.map(snapshot => snapshot.totalValue)),
+      costBasis: sum(snapshots.map(snapshot => snapshot.costBasis)),
+      cash: sum(snapshots.map(snapshot => snapshot.cash)),
+      netFlow: sum(snapshots.map(snapshot => snapshot.netFlow)),
+    }));
+}
+
+// A user's daily snapshots from `from` (or the first trade, when null) to today,
+// oldest first, for one portfolio or all of them added up. Missing days are
+// computed and stored first; today's snapshot is always recomputed because the
+// day is not over. With recompute, every day in the range is computed again.
+export async function getPortfolioSnapshots(
+  userId: number,
+  from: string | null,
+  recompute = false,
+  portfolioId?: number
+): Promise<PortfolioSnapshot[]> {
+  await ensureLedgerSeeded(userId);
+  const portfolios = groupByPortfolio(await getLedgerEntries(userId, undefined, portfolioId));
+
+  const series: PortfolioSnapshot[][] = [];
+  for (const [id, entries] of Array.from(portfolios.entries())) {
+    series.push(await portfolioSnapshots(userId, id, entries, from, recompute));
+  }
+  return series.length === 1 ? series[0] : sumSnapshots(series);
+}
@@ -0,0 +1,3 @@
+-- Password login, and the avatar column that used to be added on every login
+ALTER TABLE users ADD COLUMN IF NOT EXISTS password_hash TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS avatar TEXT;
@@ -0,0 +1,72 @@
+-- Append-only trade ledger; user_stocks is derived from it
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    symbol VARCHAR(20) NOT NULL,
+    entry_type VARCHAR(12) NOT NULL
+        CHECK (entry_type IN ('buy', 'sell', 'split', 'transfer_in', 'transfer_out', 'void')),
+    quantity NUMERIC(28, 10) NOT NULL DEFAULT 0,
+    price NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    split_ratio NUMERIC(20, 10),
+    trade_date DATE NOT NULL,
+    company_name VARCHAR(255),
+    asset_type VARCHAR(10) NOT NULL DEFAULT 'stock',
+    note TEXT,
+    supersedes_id INTEGER UNIQUE REFERENCES ledger_entries(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS ledger_entries_user_symbol_idx
+    ON ledger_entries (user_id, symbol, trade_date);
+
+-- Lot matching for sells
+ALTER TABLE ledger_entries
+    ADD COLUMN IF NOT EXISTS lot_method VARCHAR(8) CHECK (lot_method IN ('fifo', 'lifo', 'specific')),
+    ADD COLUMN IF NOT EXISTS lot_selections JSONB;
+
+-- Open tax lots, rebuilt from the ledger
+CREATE TABLE IF NOT EXISTS user_stock_lots (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    symbol VARCHAR(20) NOT NULL,
+    lot_entry_id INTEGER NOT NULL UNIQUE REFERENCES ledger_entries(id),
+    acquired_date DATE NOT NULL,
+    quantity NUMERIC(28, 10) NOT NULL,
+    cost_per_share NUMERIC(20, 8) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS user_stock_lots_user_symbol_idx
+    ON user_stock_lots (user_id, symbol);
+
+-- Closed lots, rebuilt from the ledger
+CREATE TABLE IF NOT EXISTS realized_gains (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    symbol VARCHAR(20) NOT NULL,
+    sell_entry_id INTEGER NOT NULL REFERENCES ledger_entries(id),
+    lot_entry_id INTEGER NOT NULL REFERENCES ledger_entries(id),
+    quantity NUMERIC(28, 10) NOT NULL,
+    acquired_date DATE NOT NULL,
+    sold_date DATE NOT NULL,
+    cost_basis NUMERIC(20, 8) NOT NULL,
+    proceeds NUMERIC(20, 8) NOT NULL,
+    realized_gain NUMERIC(20, 8) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS realized_gains_user_idx
+    ON realized_gains (user_id, sold_date);
+
+-- Holdings recorded before the ledger become opening transfers
+INSERT INTO ledger_entries (user_id, symbol, entry_type, quantity, price, trade_date, company_name, asset_type, note)
+SELECT
+    s.user_id,
+    s.symbol,
+    'transfer_in',
+    s.quantity,
+    s.purchase_price,
+    COALESCE(s.purchase_date, CURRENT_TIMESTAMP)::date,
+    s.company_name,
+    CASE WHEN s.symbol LIKE '@%' THEN 'crypto' ELSE 'stock' END,
+    'Opening balance from holdings recorded before the ledger'
+FROM user_stocks s
+WHERE NOT EXISTS (SELECT 1 FROM ledger_entries e WHERE e.user_id = s.user_id);
@@ -0,0 +1,7 @@
+-- Fractional shares and crypto amounts (0.05 BTC) need exact decimals
+ALTER TABLE user_stocks
+    ALTER COLUMN quantity TYPE NUMERIC(28, 10),
+    ALTER COLUMN purchase_price TYPE NUMERIC(20, 8);
+
+-- The legacy transactions table (superseded by the ledger) stored whole shares
+ALTER TABLE IF EXISTS transactions ALTER COLUMN quantity TYPE NUMERIC(28, 10);
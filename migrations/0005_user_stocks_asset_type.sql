@@ -0,0 +1,5 @@
+-- /api/portfolio/add has always taken an asset type, but user_stocks never had the column
+ALTER TABLE user_stocks ADD COLUMN IF NOT EXISTS asset_type VARCHAR(10) NOT NULL DEFAULT 'stock';
+
+-- Crypto symbols are stored with an @ prefix
+UPDATE user_stocks SET asset_type = 'crypto' WHERE symbol LIKE '@%';
@@ -0,0 +1,20 @@
+-- Latest portfolio totals per user, written by /api/portfolio and scripts/update-portfolio.js
+CREATE TABLE IF NOT EXISTS portfolio_summaries (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    total_current_value NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    total_purchase_value NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    total_gain NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    total_gain_percentage NUMERIC(12, 4) NOT NULL DEFAULT 0,
+    daily_gain NUMERIC(20, 8),
+    daily_gain_percentage NUMERIC(12, 4),
+    weekly_gain NUMERIC(20, 8),
+    weekly_gain_percentage NUMERIC(12, 4),
+    last_updated TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Tables created by hand before this migration may lack the daily and weekly columns
+ALTER TABLE portfolio_summaries
+    ADD COLUMN IF NOT EXISTS daily_gain NUMERIC(20, 8),
+    ADD COLUMN IF NOT EXISTS daily_gain_percentage NUMERIC(12, 4),
+    ADD COLUMN IF NOT EXISTS weekly_gain NUMERIC(20, 8),
+    ADD COLUMN IF NOT EXISTS weekly_gain_percentage NUMERIC(12, 4);
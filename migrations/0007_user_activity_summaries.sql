@@ -1,10 +1,12 @@
--- Create user activity summaries table
+-- Create user activity summaries table.
+-- Replaces 20240320_create_activity_summaries.sql, which declared user_id as UUID
+-- and so could never be applied against the SERIAL users.id.
 CREATE TABLE IF NOT EXISTS user_activity_summaries (
-    user_id UUID PRIMARY KEY REFERENCES users(id),
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
     trades_30d INTEGER NOT NULL DEFAULT 0,
-    best_performer VARCHAR(10),
+    best_performer VARCHAR(20),
     best_gain DECIMAL(10,2),
-    worst_performer VARCHAR(10),
+    worst_performer VARCHAR(20),
     worst_gain DECIMAL(10,2),
     last_updated TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
     created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
@@ -22,7 +24,8 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+DROP TRIGGER IF EXISTS trigger_update_activity_summaries_last_updated ON user_activity_summaries;
 CREATE TRIGGER trigger_update_activity_summaries_last_updated
     BEFORE UPDATE ON user_activity_summaries
     FOR EACH ROW
-    EXECUTE FUNCTION update_activity_summaries_last_updated(); 
\ No newline at end of file
+    EXECUTE FUNCTION update_activity_summaries_last_updated();
@@ -0,0 +1,23 @@
+-- Daily price history, filled from the market data providers (lib/price-history.ts)
+CREATE TABLE IF NOT EXISTS price_bars (
+    symbol VARCHAR(20) NOT NULL,
+    date DATE NOT NULL,
+    open NUMERIC(20, 8) NOT NULL,
+    high NUMERIC(20, 8) NOT NULL,
+    low NUMERIC(20, 8) NOT NULL,
+    close NUMERIC(20, 8) NOT NULL,
+    adj_close NUMERIC(20, 8),
+    volume NUMERIC(28, 4),
+    source VARCHAR(20) NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (symbol, date)
+);
+
+-- The contiguous range of days already fetched for each symbol. Days in the range
+-- without a bar are days the market was closed, so they are not fetched again.
+CREATE TABLE IF NOT EXISTS price_bar_coverage (
+    symbol VARCHAR(20) PRIMARY KEY,
+    first_date DATE NOT NULL,
+    last_date DATE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,24 @@
+-- History of scheduled job runs (lib/jobs)
+CREATE TABLE IF NOT EXISTS job_runs (
+    id SERIAL PRIMARY KEY,
+    job_name VARCHAR(50) NOT NULL,
+    trigger VARCHAR(10) NOT NULL CHECK (trigger IN ('cron', 'manual', 'cli')),
+    status VARCHAR(10) NOT NULL DEFAULT 'running'
+        CHECK (status IN ('running', 'succeeded', 'failed', 'skipped')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE,
+    result JSONB,
+    error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS job_runs_job_started_idx
+    ON job_runs (job_name, started_at DESC);
+
+-- One row per job while it runs, so runs of the same job never overlap.
+-- A lock past expires_at belongs to a run that died and can be taken over.
+CREATE TABLE IF NOT EXISTS job_locks (
+    job_name VARCHAR(50) PRIMARY KEY,
+    run_id INTEGER NOT NULL REFERENCES job_runs(id) ON DELETE CASCADE,
+    locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
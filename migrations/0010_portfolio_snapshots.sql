@@ -0,0 +1,14 @@
+-- End-of-day portfolio value per user, computed from the ledger and price_bars (lib/snapshots.ts)
+CREATE TABLE IF NOT EXISTS portfolio_snapshots (
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    snapshot_date DATE NOT NULL,
+    -- Market value of the positions held at the end of the day
+    total_value NUMERIC(20, 8) NOT NULL,
+    -- Cost of the open lots
+    cost_basis NUMERIC(20, 8) NOT NULL,
+    cash NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    -- Value moved into the portfolio that day (buys, transfers in) less value moved out (sales, transfers out)
+    net_flow NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (user_id, snapshot_date)
+);
@@ -0,0 +1,32 @@
+-- What each symbol is: name, classification and listing, filled from the market
+-- data providers the first time a symbol is seen (lib/securities.ts)
+CREATE TABLE IF NOT EXISTS securities (
+    symbol VARCHAR(20) PRIMARY KEY,
+    name VARCHAR(255),
+    asset_class VARCHAR(10) NOT NULL,
+    quote_type VARCHAR(20),
+    sector VARCHAR(100),
+    industry VARCHAR(100),
+    country VARCHAR(100),
+    exchange VARCHAR(20),
+    currency VARCHAR(10),
+    source VARCHAR(20) NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_securities_sector ON securities(sector);
+
+-- Corrections set by an admin. Non-null fields win over the provider's, and
+-- survive the provider's record being fetched again.
+CREATE TABLE IF NOT EXISTS security_overrides (
+    symbol VARCHAR(20) PRIMARY KEY,
+    name VARCHAR(255),
+    asset_class VARCHAR(10),
+    quote_type VARCHAR(20),
+    sector VARCHAR(100),
+    industry VARCHAR(100),
+    country VARCHAR(100),
+    exchange VARCHAR(20),
+    currency VARCHAR(10),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,18 @@
+-- Constituents of ETFs and other funds, imported from the fund's published
+-- holdings file (scripts/import-fund-holdings.ts). Each import replaces the
+-- fund's previous holdings.
+CREATE TABLE IF NOT EXISTS fund_holdings (
+    fund_symbol VARCHAR(20) NOT NULL,
+    holding_symbol VARCHAR(20) NOT NULL,
+    name VARCHAR(255),
+    -- Fraction of the fund (0.0712 for 7.12%)
+    weight NUMERIC(12, 10) NOT NULL,
+    -- Sector as given in the file; the securities table is used when it is missing
+    sector VARCHAR(100),
+    as_of DATE NOT NULL,
+    source VARCHAR(255) NOT NULL,
+    imported_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (fund_symbol, holding_symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fund_holdings_holding ON fund_holdings(holding_symbol);
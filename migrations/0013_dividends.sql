@@ -0,0 +1,35 @@
+-- Dividends paid per share, fetched from the market data provider (lib/dividends.ts)
+CREATE TABLE IF NOT EXISTS dividend_events (
+    symbol VARCHAR(20) NOT NULL,
+    ex_date DATE NOT NULL,
+    -- Cash paid per share held the day before the ex-date
+    amount NUMERIC(20, 8) NOT NULL,
+    -- Null when the provider does not give one; the ex-date is used instead
+    pay_date DATE,
+    source VARCHAR(20) NOT NULL,
+    fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (symbol, ex_date)
+);
+
+-- The date range already fetched per symbol, so dividend-free ranges are not fetched again
+CREATE TABLE IF NOT EXISTS dividend_event_coverage (
+    symbol VARCHAR(20) PRIMARY KEY,
+    first_date DATE NOT NULL,
+    last_date DATE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Dividends credited to holders are ledger entries: quantity is the shares held
+-- the day before the ex-date, price the amount per share and trade_date the pay
+-- date. A reinvested dividend also records the price the new shares were bought at.
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries
+    ADD CONSTRAINT ledger_entries_entry_type_check
+        CHECK (entry_type IN ('buy', 'sell', 'split', 'transfer_in', 'transfer_out', 'dividend', 'void'));
+
+ALTER TABLE ledger_entries
+    ADD COLUMN IF NOT EXISTS ex_date DATE,
+    ADD COLUMN IF NOT EXISTS reinvest_price NUMERIC(20, 8);
+
+-- Whether new dividends buy more shares (DRIP) instead of being paid out
+ALTER TABLE users ADD COLUMN IF NOT EXISTS reinvest_dividends BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,61 @@
+-- Splits, reverse splits, ticker changes, mergers and delistings (lib/corporate-actions.ts).
+-- Splits are found through the market data provider; everything else is entered by an admin.
+CREATE TABLE IF NOT EXISTS corporate_actions (
+    id SERIAL PRIMARY KEY,
+    symbol VARCHAR(20) NOT NULL,
+    action_type VARCHAR(20) NOT NULL
+        CHECK (action_type IN ('split', 'ticker_change', 'merger', 'delisting')),
+    -- First day the shares trade on the new terms; holders at the end of the day before are affected
+    effective_date DATE NOT NULL,
+    -- New shares per old share: split ratio (below 1 for a reverse split), or
+    -- shares of new_symbol per share for a merger (1 for a ticker change)
+    ratio NUMERIC(20, 10),
+    new_symbol VARCHAR(20),
+    new_company_name VARCHAR(255),
+    -- Cash paid per share, for cash mergers and delistings
+    cash_per_share NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    note TEXT,
+    -- 'admin', or the market data provider the split was found through
+    source VARCHAR(20) NOT NULL,
+    -- Applied by the apply-corporate-actions job once effective, instead of waiting for an admin
+    auto_apply BOOLEAN NOT NULL DEFAULT FALSE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'applied', 'cancelled', 'reverted')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    applied_at TIMESTAMP WITH TIME ZONE,
+    -- 'job' or the admin who applied (or reverted) it
+    applied_by VARCHAR(100),
+    UNIQUE (symbol, action_type, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_actions_status ON corporate_actions(status, effective_date);
+
+-- Ticker changes, mergers and delistings are 'conversion' ledger entries: every
+-- share held becomes split_ratio shares of target_symbol plus price in cash.
+-- Entries written for a corporate action point back to it.
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries
+    ADD CONSTRAINT ledger_entries_entry_type_check
+        CHECK (entry_type IN ('buy', 'sell', 'split', 'transfer_in', 'transfer_out', 'dividend', 'conversion', 'void'));
+
+ALTER TABLE ledger_entries
+    ADD COLUMN IF NOT EXISTS target_symbol VARCHAR(20),
+    ADD COLUMN IF NOT EXISTS corporate_action_id INTEGER REFERENCES corporate_actions(id);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_corporate_action ON ledger_entries(corporate_action_id);
+
+-- Audit trail: the position each holder had before and after an action was applied
+CREATE TABLE IF NOT EXISTS corporate_action_applications (
+    action_id INTEGER NOT NULL REFERENCES corporate_actions(id),
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    ledger_entry_id INTEGER NOT NULL REFERENCES ledger_entries(id),
+    quantity_before NUMERIC(28, 10) NOT NULL,
+    cost_basis_before NUMERIC(20, 8) NOT NULL,
+    -- Shares of the resulting symbol (new_symbol for conversions), and the cash paid out
+    quantity_after NUMERIC(28, 10) NOT NULL,
+    cost_basis_after NUMERIC(20, 8) NOT NULL,
+    cash_paid NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    applied_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    reverted_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (action_id, user_id)
+);
@@ -0,0 +1,39 @@
+-- Cash accounts (lib/cash.ts). Deposits and withdrawals are ledger entries on
+-- the '$CASH' symbol with the amount as quantity and a price of 1.
+ALTER TABLE ledger_entries DROP CONSTRAINT IF EXISTS ledger_entries_entry_type_check;
+ALTER TABLE ledger_entries
+    ADD CONSTRAINT ledger_entries_entry_type_check
+        CHECK (entry_type IN (
+            'buy', 'sell', 'split', 'transfer_in', 'transfer_out', 'dividend', 'conversion',
+            'deposit', 'withdrawal', 'void'
+        ));
+
+-- Each user's cash balance and net contributions; rebuilt from the ledger like user_stocks
+CREATE TABLE IF NOT EXISTS cash_accounts (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    balance NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    contributions NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Every change to a cash balance, in the order it was applied; rebuilt from the ledger like realized_gains
+CREATE TABLE IF NOT EXISTS cash_postings (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    entry_id INTEGER NOT NULL REFERENCES ledger_entries(id),
+    posting_date DATE NOT NULL,
+    kind VARCHAR(20) NOT NULL
+        CHECK (kind IN ('deposit', 'withdrawal', 'funding', 'buy', 'sell', 'dividend', 'conversion')),
+    symbol VARCHAR(20),
+    amount NUMERIC(20, 8) NOT NULL,
+    balance NUMERIC(20, 8) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS cash_postings_user_idx ON cash_postings (user_id, posting_date);
+
+-- Whether buys must be paid for from the cash balance instead of being funded from outside
+ALTER TABLE users ADD COLUMN IF NOT EXISTS require_cash BOOLEAN NOT NULL DEFAULT FALSE;
+
+ALTER TABLE portfolio_summaries
+    ADD COLUMN IF NOT EXISTS cash NUMERIC(20, 8) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS net_worth NUMERIC(20, 8) NOT NULL DEFAULT 0;
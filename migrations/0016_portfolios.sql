@@ -0,0 +1,75 @@
+-- Named portfolios (lib/portfolios.ts). Every user has a default portfolio that
+-- takes everything recorded before portfolios existed; each portfolio has its
+-- own holdings, lots, realized gains, cash and snapshots, replayed from its own
+-- ledger entries.
+CREATE TABLE IF NOT EXISTS portfolios (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(50) NOT NULL,
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    UNIQUE (user_id, name)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS portfolios_default_idx ON portfolios (user_id) WHERE is_default;
+
+INSERT INTO portfolios (user_id, name, is_default)
+SELECT id, 'Main', TRUE FROM users
+ON CONFLICT DO NOTHING;
+
+-- The portfolio shown for the user on the leaderboard; NULL ranks all of their portfolios together
+ALTER TABLE users
+    ADD COLUMN IF NOT EXISTS leaderboard_portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE SET NULL;
+
+-- Ledger entries and their projections belong to a portfolio
+ALTER TABLE ledger_entries ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id);
+ALTER TABLE user_stocks ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+ALTER TABLE user_stock_lots ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+ALTER TABLE realized_gains ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+ALTER TABLE cash_accounts ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+ALTER TABLE cash_postings ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+ALTER TABLE portfolio_snapshots ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+ALTER TABLE corporate_action_applications ADD COLUMN IF NOT EXISTS portfolio_id INTEGER REFERENCES portfolios(id) ON DELETE CASCADE;
+
+UPDATE ledger_entries t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE user_stocks t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE user_stock_lots t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE realized_gains t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE cash_accounts t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE cash_postings t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE portfolio_snapshots t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+UPDATE corporate_action_applications t SET portfolio_id = p.id
+FROM portfolios p WHERE p.user_id = t.user_id AND p.is_default AND t.portfolio_id IS NULL;
+
+ALTER TABLE ledger_entries ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE user_stocks ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE user_stock_lots ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE realized_gains ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE cash_accounts ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE cash_postings ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE portfolio_snapshots ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE corporate_action_applications ALTER COLUMN portfolio_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS ledger_entries_portfolio_idx ON ledger_entries (portfolio_id, trade_date);
+
+-- One holding per symbol, cash account per portfolio, snapshot per day and
+-- corporate action application per portfolio instead of per user
+ALTER TABLE user_stocks DROP CONSTRAINT IF EXISTS user_stocks_user_id_symbol_key;
+ALTER TABLE user_stocks ADD CONSTRAINT user_stocks_portfolio_id_symbol_key UNIQUE (portfolio_id, symbol);
+
+ALTER TABLE cash_accounts DROP CONSTRAINT IF EXISTS cash_accounts_pkey;
+ALTER TABLE cash_accounts ADD PRIMARY KEY (portfolio_id);
+
+ALTER TABLE portfolio_snapshots DROP CONSTRAINT IF EXISTS portfolio_snapshots_pkey;
+ALTER TABLE portfolio_snapshots ADD PRIMARY KEY (portfolio_id, snapshot_date);
+CREATE INDEX IF NOT EXISTS portfolio_snapshots_user_idx ON portfolio_snapshots (user_id, snapshot_date);
+
+ALTER TABLE corporate_action_applications DROP CONSTRAINT IF EXISTS corporate_action_applications_pkey;
+ALTER TABLE corporate_action_applications ADD PRIMARY KEY (action_id, portfolio_id);
@@ -0,0 +1,42 @@
+-- Private leagues (lib/leagues.ts). Members join with the league's invite code
+-- and trade a portfolio of their own that starts with the league's virtual
+-- bankroll; the league is ranked by the return of those portfolios since the
+-- league started, and its final standings are archived when it ends.
+CREATE TABLE IF NOT EXISTS leagues (
+    id SERIAL PRIMARY KEY,
+    name VARCHAR(80) NOT NULL,
+    creator_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    invite_code VARCHAR(16) NOT NULL UNIQUE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    starting_bankroll NUMERIC(20, 2) NOT NULL CHECK (starting_bankroll > 0),
+    -- 'stock' and/or 'crypto' (the @-prefixed symbols)
+    allowed_asset_types TEXT[] NOT NULL DEFAULT ARRAY['stock', 'crypto'],
+    -- The most of the bankroll one symbol may take, at cost; NULL for no limit
+    max_position_percent NUMERIC(5, 2) CHECK (max_position_percent > 0 AND max_position_percent <= 100),
+    archived_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (end_date > start_date)
+);
+
+-- Each member trades the league in a portfolio used for nothing else
+CREATE TABLE IF NOT EXISTS league_members (
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    portfolio_id INTEGER NOT NULL UNIQUE REFERENCES portfolios(id) ON DELETE CASCADE,
+    joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (league_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS league_members_user_idx ON league_members (user_id);
+
+-- Final standings, written once when the league ends
+CREATE TABLE IF NOT EXISTS league_standings (
+    league_id INTEGER NOT NULL REFERENCES leagues(id) ON DELETE CASCADE,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    rank INTEGER NOT NULL,
+    final_value NUMERIC(20, 8) NOT NULL,
+    return_percent NUMERIC(12, 4) NOT NULL,
+    archived_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (league_id, user_id)
+);
@@ -0,0 +1,12 @@
+-- Paper trading (lib/paper-trading.ts). Market orders are filled at the current
+-- quote with the server's time in executed_at; entries typed in by hand have none.
+ALTER TABLE ledger_entries ADD COLUMN IF NOT EXISTS executed_at TIMESTAMP WITH TIME ZONE;
+
+-- Lots opened by a market fill (or a reinvested dividend) are verified
+ALTER TABLE user_stock_lots ADD COLUMN IF NOT EXISTS verified BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Paper-trading portfolios only take market orders, and their buys must be paid from cash
+ALTER TABLE portfolios ADD COLUMN IF NOT EXISTS paper_trading BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Leagues that only take market orders, traded in paper-trading portfolios
+ALTER TABLE leagues ADD COLUMN IF NOT EXISTS require_verified BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,33 @@
+-- Pending orders (lib/orders.ts). Limit, stop and trailing stop orders wait in
+-- the book until the match-orders job finds the quote has reached them, and are
+-- then filled like a market order: a buy or sell ledger entry with executed_at.
+CREATE TABLE IF NOT EXISTS orders (
+    id SERIAL PRIMARY KEY,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    portfolio_id INTEGER NOT NULL REFERENCES portfolios(id) ON DELETE CASCADE,
+    symbol VARCHAR(20) NOT NULL,
+    company_name VARCHAR(255),
+    side VARCHAR(4) NOT NULL CHECK (side IN ('buy', 'sell')),
+    order_type VARCHAR(16) NOT NULL CHECK (order_type IN ('limit', 'stop', 'trailing_stop')),
+    quantity NUMERIC(28, 10) NOT NULL CHECK (quantity > 0),
+    limit_price NUMERIC(20, 8) CHECK (limit_price > 0),
+    stop_price NUMERIC(20, 8) CHECK (stop_price > 0),
+    trail_percent NUMERIC(5, 2) CHECK (trail_percent > 0 AND trail_percent < 100),
+    -- The highest quote a trailing stop has seen since it was placed
+    high_water_mark NUMERIC(20, 8),
+    -- Good till the end of this day; NULL for good till cancelled
+    expires_on DATE,
+    status VARCHAR(10) NOT NULL DEFAULT 'open'
+        CHECK (status IN ('open', 'filled', 'cancelled', 'expired', 'rejected')),
+    -- Why a triggered order could not be filled
+    status_reason TEXT,
+    fill_price NUMERIC(20, 8),
+    ledger_entry_id INTEGER REFERENCES ledger_entries(id),
+    filled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS orders_user_idx ON orders (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS orders_open_idx ON orders (symbol) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS orders_ledger_entry_idx ON orders (ledger_entry_id);
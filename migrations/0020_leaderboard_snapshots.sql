@@ -0,0 +1,15 @@
+-- The leaderboard as last computed (lib/leaderboard.ts): one row per user, written
+-- by the rebuild-leaderboard job and read by /api/leaderboard in a single query.
+-- data is the row as served; the other columns are what each time frame ranks by.
+CREATE TABLE IF NOT EXISTS leaderboard_snapshots (
+    user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    data JSONB NOT NULL,
+    total_gain NUMERIC(20, 8) NOT NULL,
+    daily_gain NUMERIC(20, 8) NOT NULL,
+    weekly_gain NUMERIC(20, 8) NOT NULL,
+    net_worth NUMERIC(20, 8) NOT NULL,
+    -- Percentages since the first trade; NULL without enough history
+    twr NUMERIC,
+    mwr NUMERIC,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
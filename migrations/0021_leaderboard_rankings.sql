@@ -0,0 +1,18 @@
+-- Daily leaderboard rankings (lib/leaderboard.ts): one row per user per day with
+-- the row as served and the user's rank in every time frame. Every build of the
+-- leaderboard rewrites the day's rows, so the last build of a day is its ranking.
+CREATE TABLE IF NOT EXISTS leaderboard_rankings (
+    ranking_date DATE NOT NULL,
+    user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    data JSONB NOT NULL,
+    total_rank INTEGER NOT NULL,
+    daily_rank INTEGER NOT NULL,
+    weekly_rank INTEGER NOT NULL,
+    worth_rank INTEGER NOT NULL,
+    twr_rank INTEGER NOT NULL,
+    mwr_rank INTEGER NOT NULL,
+    computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (ranking_date, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS leaderboard_rankings_user_idx ON leaderboard_rankings (user_id, ranking_date);
@@ -3,6 +3,10 @@ const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
   experimental: {
+    // The migration runner reads the SQL files at runtime
+    outputFileTracingIncludes: {
+      '/api/admin/migrations': ['./migrations/**/*'],
+    },
   },
   logging: {
     level: 'verbose',
@@ -0,0 +1,23 @@
+// This script stores the daily price history of every symbol in the trade ledger
+// in price_bars, so charts and performance figures never wait on the providers.
+// Run with: npx ts-node -O '{"module":"commonjs","moduleResolution":"node"}' scripts/backfill-prices.ts
+// (or: npm run backfill-prices)
+
+import { config } from 'dotenv';
+import { backfillPriceHistory } from '../lib/price-history';
+
+config({ path: '.env.local' });
+
+async function backfill() {
+  const results = await backfillPriceHistory();
+
+  results.forEach(({ symbol, stored }) => console.log(`${symbol}: ${stored} new bar(s)`));
+  console.log(`Backfilled ${results.length} symbol(s)`);
+}
+
+backfill().then(() => {
+  process.exit(0);
+}).catch(error => {
+  console.error('Backfill failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,82 @@
+// This script imports the constituent weights of ETFs and other funds from the
+// holdings files funds publish, for the look-through exposure on each profile.
+// CSV files need a symbol (or ticker) and a weight column, with optional name and
+// sector columns; JSON files hold an array of { symbol, name, weight, sector } or
+// { fund, asOf, holdings: [...] }. The fund is taken from the file name (SPY.csv)
+// unless --fund is given, and each import replaces the fund's previous holdings.
+// Run with: npx ts-node -O '{"module":"commonjs","moduleResolution":"node"}' scripts/import-fund-holdings.ts [--fund SPY] [--as-of 2024-03-01] <file>...
+// (or: npm run import-holdings -- <file>...)
+//        npm run import-holdings -- list
+
+import { config } from 'dotenv';
+import { readFileSync } from 'fs';
+import { basename, extname } from 'path';
+import { FundHoldingsError, listFunds, parseFundHoldings, saveFundHoldings } from '../lib/fund-holdings';
+
+config({ path: '.env.local' });
+
+const USAGE = 'Usage: scripts/import-fund-holdings.ts [--fund <symbol>] [--as-of <YYYY-MM-DD>] <file.csv|file.json>...|list';
+
+function parseArgs(args: string[]) {
+  const files: string[] = [];
+  let fund: string | undefined;
+  let asOf: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--fund') {
+      fund = args[++i];
+    } else if (args[i] === '--as-of') {
+      asOf = args[++i];
+    } else {
+      files.push(args[i]);
+    }
+  }
+  return { files, fund, asOf };
+}
+
+async function importFile(file: string, fund?: string, asOf?: string) {
+  const extension = extname(file).toLowerCase();
+  if (extension !== '.csv' && extension !== '.json') {
+    throw new FundHoldingsError(`${file}: expected a .csv or .json file`);
+  }
+
+  const holdings = parseFundHoldings(readFileSync(file, 'utf8'), extension === '.csv' ? 'csv' : 'json', {
+    // A JSON file may name its own fund, so the file name is only a fallback for CSV
+    fund: fund ?? (extension === '.csv' ? basename(file, extension) : undefined),
+    asOf,
+    source: basename(file),
+  });
+  await saveFundHoldings(holdings);
+
+  const listed = holdings.holdings.reduce((total, holding) => total + holding.weight, 0);
+  console.log(`${holdings.fund}: ${holdings.holdings.length} holding(s) covering ${(listed * 100).toFixed(1)}% of the fund, as of ${holdings.asOf}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  if (args[0] === 'list') {
+    const funds = await listFunds();
+    funds.forEach(fund =>
+      console.log(`${fund.fund.padEnd(8)} ${String(fund.holdings).padStart(5)} holding(s)  ${(fund.weight * 100).toFixed(1).padStart(5)}%  ${fund.asOf}  ${fund.source}`));
+    console.log(`${funds.length} fund(s) with holdings`);
+    return;
+  }
+
+  const { files, fund, asOf } = parseArgs(args);
+  if (files.length === 0 || (fund && files.length > 1)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  for (const file of files) {
+    await importFile(file, fund, asOf);
+  }
+}
+
+main().then(() => {
+  process.exit(0);
+}).catch(error => {
+  console.error('Import failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
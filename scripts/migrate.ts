@@ -0,0 +1,42 @@
+// This script applies pending schema migrations from migrations/.
+// Run with: npx ts-node -O '{"module":"commonjs","moduleResolution":"node"}' scripts/migrate.ts [status]
+// (or: npm run migrate)
+
+import { config } from 'dotenv';
+import { getMigrationStatus, runMigrations } from '../lib/migrations';
+
+config({ path: '.env.local' });
+
+async function showStatus() {
+  const { applied, pending, changed } = await getMigrationStatus();
+
+  applied.forEach(migration => {
+    const note = changed.includes(migration) ? ' (file changed since it was applied!)' : '';
+    console.log(`applied  ${String(migration.version).padStart(4, '0')}_${migration.name} at ${migration.appliedAt}${note}`);
+  });
+  pending.forEach(migration => console.log(`pending  ${migration.filename}`));
+
+  console.log(`${applied.length} applied, ${pending.length} pending`);
+}
+
+async function migrate() {
+  const command = process.argv[2];
+
+  if (command === 'status') {
+    return showStatus();
+  }
+  if (command) {
+    console.error('Usage: scripts/migrate.ts [status]');
+    process.exit(1);
+  }
+
+  const applied = await runMigrations();
+  console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+}
+
+migrate().then(() => {
+  process.exit(0);
+}).catch(error => {
+  console.error('Migration failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+// This script runs a scheduled job by name, or lists the jobs and their recent runs.
+// Run with: npx ts-node -O '{"module":"commonjs","moduleResolution":"node"}' scripts/run-job.ts <job>|list
+// (or: npm run job -- <job>)
+
+import { config } from 'dotenv';
+import { getJob, getJobRuns, JOBS, runJob } from '../lib/jobs';
+
+config({ path: '.env.local' });
+
+async function listJobs() {
+  JOBS.forEach(job => console.log(`${job.name.padEnd(22)} ${job.schedule.padEnd(20)} ${job.description}`));
+
+  const runs = await getJobRuns(undefined, 10);
+  if (runs.length > 0) {
+    console.log('\nRecent runs:');
+    runs.forEach(run => console.log(`${run.startedAt}  ${run.jobName.padEnd(22)} ${run.status}${run.error ? ` (${run.error})` : ''}`));
+  }
+}
+
+async function main() {
+  const jobName = process.argv[2];
+
+  if (jobName === 'list') {
+    return listJobs();
+  }
+  if (!jobName || !getJob(jobName)) {
+    console.error(`Usage: scripts/run-job.ts <${JOBS.map(job => job.name).join('|')}|list>`);
+    process.exit(1);
+  }
+
+  const run = await runJob(jobName, 'cli');
+  console.log(`${run.jobName} ${run.status}`, run.result ?? run.error ?? '');
+  if (run.status !== 'succeeded') {
+    process.exit(1);
+  }
+}
+
+main().then(() => {
+  process.exit(0);
+}).catch(error => {
+  console.error('Job failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
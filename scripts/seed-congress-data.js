@@ -186,6 +186,16 @@ async function seedCongressData() {
         continue;
       }
 
+      // Holdings go into the user's default portfolio
+      await sql`
+        INSERT INTO portfolios (user_id, name, is_default)
+        VALUES (${userId}, 'Main', TRUE)
+        ON CONFLICT DO NOTHING
+      `;
+      const [{ id: portfolioId }] = await sql`
+        SELECT id FROM portfolios WHERE user_id = ${userId} AND is_default
+      `;
+
       for (const stock of portfolio.stocks) {
         // Check if this stock already exists for this user
         const existingStock = await sql`
@@ -196,10 +206,10 @@ async function seedCongressData() {
         if (existingStock.length === 0) {
           await sql`
             INSERT INTO user_stocks (
-              user_id, symbol, company_name, quantity, 
+              user_id, portfolio_id, symbol, company_name, quantity, 
               purchase_price, purchase_date
             ) VALUES (
-              ${userId}, ${stock.symbol}, ${stock.companyName}, ${stock.quantity}, 
+              ${userId}, ${portfolioId}, ${stock.symbol}, ${stock.companyName}, ${stock.quantity}, 
               ${stock.purchasePrice}, ${stock.purchaseDate}
             )
           `;
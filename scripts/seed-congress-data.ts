@@ -1,7 +1,7 @@
 // This script seeds the database with politician portfolio data
 // Based on congressional trading information from https://www.quiverquant.com/congresstrading/
 
-import { createSqlClient } from '../lib/db';
+import { createSqlClient, getDefaultPortfolioId } from '../lib/db';
 import { hash } from 'bcrypt';
 
 // Type definitions
@@ -172,6 +172,8 @@ async function seedCongressData() {
         console.log(`Could not find user ID for portfolio`);
         continue;
       }
+      // Holdings go into the user's default portfolio
+      const portfolioId = await getDefaultPortfolioId(userId);
 
       for (const stock of portfolio.stocks) {
         // Check if this stock already exists for this user
@@ -183,11 +185,11 @@ async function seedCongressData() {
         if (existingStock.length === 0) {
           await sql`
             INSERT INTO user_stocks (
-              user_id, symbol, company_name, quantity, 
+              user_id, portfolio_id, symbol, company_name, quantity, 
               purchase_price, purchase_date, created_at
             )
             VALUES (
-              ${userId}, ${stock.symbol}, ${stock.companyName}, ${stock.quantity},
+              ${userId}, ${portfolioId}, ${stock.symbol}, ${stock.companyName}, ${stock.quantity},
               ${stock.purchasePrice}, ${stock.purchaseDate}, NOW()
             )
           `;
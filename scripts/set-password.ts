@@ -0,0 +1,37 @@
+// This script sets (or resets) the password for an existing user.
+// Accounts created with the old username-only login have no password and
+// cannot log in until one is set.
+// Run with: npx ts-node -O '{"module":"commonjs","moduleResolution":"node"}' scripts/set-password.ts <username> <password>
+
+import { getUserCredentials, setUserPassword } from '../lib/db';
+import { hashPassword, MIN_PASSWORD_LENGTH } from '../lib/auth';
+
+async function setPassword() {
+  const [username, password] = process.argv.slice(2);
+
+  if (!username || !password) {
+    console.error('Usage: scripts/set-password.ts <username> <password>');
+    process.exit(1);
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    console.error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    process.exit(1);
+  }
+
+  const user = await getUserCredentials(username);
+  if (!user) {
+    console.error(`User ${username} not found`);
+    process.exit(1);
+  }
+
+  await setUserPassword(user.id, await hashPassword(password));
+  console.log(`Password updated for ${username}`);
+}
+
+setPassword().then(() => {
+  process.exit(0);
+}).catch(error => {
+  console.error('Failed to set password:', error);
+  process.exit(1);
+});